@@ -2,6 +2,10 @@
 const nextConfig = {
   reactStrictMode: true,
   swcMinify: true,
+  experimental: {
+    // Runs src/instrumentation.ts on server start for background jobs
+    instrumentationHook: true,
+  },
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,74 @@
+/**
+ * Attachment Endpoints
+ * GET /api/attachments/:attachmentId - Download attachment content
+ * DELETE /api/attachments/:attachmentId - Delete a pending attachment
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { AttachmentService } from '@/lib/services/attachment-service';
+
+export async function GET(request: NextRequest, { params }: { params: { attachmentId: string } }) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+
+    if (!tenantId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const { attachment, content } = await AttachmentService.getAttachmentContent(
+      params.attachmentId,
+      tenantId
+    );
+
+    return new NextResponse(new Uint8Array(content), {
+      status: 200,
+      headers: {
+        'Content-Type': attachment.mimeType,
+        'Content-Length': String(attachment.sizeBytes),
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Attachment not found')) {
+      return ApiResponseBuilder.notFound(error.message);
+    }
+
+    console.error('Failed to download attachment:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { attachmentId: string } }
+) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    await AttachmentService.deleteAttachment(params.attachmentId, tenantId, userId);
+
+    return ApiResponseBuilder.success({ deleted: true });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.startsWith('Attachment not found')) {
+        return ApiResponseBuilder.notFound(error.message);
+      }
+      if (
+        error.message.startsWith('Only the uploader') ||
+        error.message.startsWith('Attachments submitted')
+      ) {
+        return ApiResponseBuilder.forbidden(error.message);
+      }
+    }
+
+    console.error('Failed to delete attachment:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
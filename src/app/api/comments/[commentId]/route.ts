@@ -0,0 +1,75 @@
+/**
+ * Comment Endpoints
+ * GET /api/comments/:commentId - Get the edit history of a comment
+ * PATCH /api/comments/:commentId - Edit a comment
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { WorkflowCommentService } from '@/lib/services/workflow-comment-service';
+import { workflowCommentEditSchema } from '@/lib/validation/workflow-schema';
+
+export async function GET(request: NextRequest, { params }: { params: { commentId: string } }) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+
+    if (!tenantId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const history = await WorkflowCommentService.getHistory(params.commentId, tenantId);
+
+    return ApiResponseBuilder.success(history);
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Comment not found')) {
+      return ApiResponseBuilder.notFound(error.message);
+    }
+
+    console.error('Failed to get comment history:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: { commentId: string } }) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const parsed = workflowCommentEditSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+
+    const comment = await WorkflowCommentService.editComment(
+      tenantId,
+      params.commentId,
+      userId,
+      parsed.data.body
+    );
+
+    return ApiResponseBuilder.success(comment);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ApiResponseBuilder.badRequest('Request body must be valid JSON');
+    }
+
+    if (error instanceof Error) {
+      if (error.message.startsWith('Comment not found')) {
+        return ApiResponseBuilder.notFound(error.message);
+      }
+      if (error.message.startsWith('Only the author')) {
+        return ApiResponseBuilder.forbidden(error.message);
+      }
+    }
+
+    console.error('Failed to edit comment:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
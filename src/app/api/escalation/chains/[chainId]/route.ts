@@ -0,0 +1,97 @@
+/**
+ * Escalation Chain Detail Endpoints
+ * GET /api/escalation/chains/:chainId - Get chain
+ * PUT /api/escalation/chains/:chainId - Update chain
+ * DELETE /api/escalation/chains/:chainId - Delete chain
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { EscalationService } from '@/lib/services/escalation-service';
+import { escalationChainUpdateSchema } from '@/lib/validation/escalation-schema';
+import { EscalationChain } from '@/types/escalation';
+
+export async function GET(request: NextRequest, { params }: { params: { chainId: string } }) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+
+    if (!tenantId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const chain = await EscalationService.getChain(params.chainId, tenantId);
+
+    if (!chain) {
+      return ApiResponseBuilder.notFound('Escalation chain not found');
+    }
+
+    return ApiResponseBuilder.success(chain);
+  } catch (error) {
+    console.error('Failed to get escalation chain:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: { params: { chainId: string } }) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const parsed = escalationChainUpdateSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+
+    // A null level removes it; an omitted level is left unchanged
+    const { level2, level3, ...rest } = parsed.data;
+    const updates = {
+      ...rest,
+      ...(level2 !== undefined && { level2: level2 ?? undefined }),
+      ...(level3 !== undefined && { level3: level3 ?? undefined }),
+    } as Partial<EscalationChain>;
+
+    const chain = await EscalationService.updateChain(params.chainId, tenantId, updates, userId);
+
+    if (!chain) {
+      return ApiResponseBuilder.notFound('Escalation chain not found');
+    }
+
+    return ApiResponseBuilder.success(chain);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ApiResponseBuilder.badRequest('Request body must be valid JSON');
+    }
+
+    console.error('Failed to update escalation chain:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { chainId: string } }) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const success = await EscalationService.deleteChain(params.chainId, tenantId);
+
+    if (!success) {
+      return ApiResponseBuilder.notFound('Escalation chain not found');
+    }
+
+    return ApiResponseBuilder.success({ message: 'Chain deleted successfully' });
+  } catch (error) {
+    console.error('Failed to delete escalation chain:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
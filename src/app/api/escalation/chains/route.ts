@@ -0,0 +1,82 @@
+/**
+ * Escalation Chain API Endpoints
+ * GET /api/escalation/chains - List chains
+ * POST /api/escalation/chains - Create chain
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { EscalationService } from '@/lib/services/escalation-service';
+import { escalationChainCreateSchema } from '@/lib/validation/escalation-schema';
+
+export async function GET(request: NextRequest) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+
+    if (!tenantId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const policyId = searchParams.get('policyId');
+
+    if (!policyId) {
+      return ApiResponseBuilder.badRequest('policyId is required');
+    }
+
+    const chains = await EscalationService.listChainsForPolicy(policyId, tenantId);
+
+    return ApiResponseBuilder.success(chains);
+  } catch (error) {
+    console.error('Failed to list escalation chains:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const parsed = escalationChainCreateSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+
+    const { escalationPolicyId, name, description, level1, level2, level3 } = parsed.data;
+
+    const chain = await EscalationService.createChain(
+      tenantId,
+      escalationPolicyId,
+      name,
+      description,
+      level1.roleOrUserId,
+      level1.escalationDelayMinutes,
+      level2?.roleOrUserId,
+      level2?.escalationDelayMinutes,
+      level3?.roleOrUserId,
+      level3?.escalationDelayMinutes,
+      userId
+    );
+
+    return ApiResponseBuilder.success(chain, 201);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ApiResponseBuilder.badRequest('Request body must be valid JSON');
+    }
+
+    if (error instanceof Error && error.message.startsWith('Escalation policy not found')) {
+      return ApiResponseBuilder.notFound(error.message);
+    }
+
+    console.error('Failed to create escalation chain:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
@@ -8,6 +8,8 @@
 import { NextRequest } from 'next/server';
 import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
 import { EscalationService } from '@/lib/services/escalation-service';
+import { escalationPolicyUpdateSchema } from '@/lib/validation/escalation-schema';
+import { UpdateEscalationPolicyRequest } from '@/types/escalation';
 
 export async function GET(
   request: NextRequest,
@@ -22,7 +24,7 @@ export async function GET(
 
     const { policyId } = params;
 
-    const policy = await EscalationService.getPolicy(policyId);
+    const policy = await EscalationService.getPolicy(policyId, tenantId);
 
     if (!policy) {
       return ApiResponseBuilder.notFound('Escalation policy not found');
@@ -48,18 +50,18 @@ export async function PUT(
     }
 
     const { policyId } = params;
-    const body = await request.json();
+    const parsed = escalationPolicyUpdateSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const policy = await EscalationService.updatePolicy(
       policyId,
-      {
-        name: body.name,
-        description: body.description,
-        warningThresholdPercent: body.warningThresholdPercent,
-        maxEscalationLevels: body.maxEscalationLevels,
-        isActive: body.isActive,
-      },
+      tenantId,
+      parsed.data as UpdateEscalationPolicyRequest,
       userId
     );
 
@@ -69,6 +71,10 @@ export async function PUT(
 
     return ApiResponseBuilder.success(policy);
   } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ApiResponseBuilder.badRequest('Request body must be valid JSON');
+    }
+
     console.error('Failed to update escalation policy:', error);
     return ApiResponseBuilder.internalError();
   }
@@ -88,7 +94,7 @@ export async function DELETE(
 
     const { policyId } = params;
 
-    const success = await EscalationService.deletePolicy(policyId, userId);
+    const success = await EscalationService.deletePolicy(policyId, tenantId, userId);
 
     if (!success) {
       return ApiResponseBuilder.notFound('Escalation policy not found');
@@ -7,6 +7,8 @@
 import { NextRequest } from 'next/server';
 import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
 import { EscalationService } from '@/lib/services/escalation-service';
+import { escalationPolicyCreateSchema } from '@/lib/validation/escalation-schema';
+import { CreateEscalationPolicyRequest } from '@/types/escalation';
 
 export async function GET(request: NextRequest) {
   try {
@@ -23,8 +25,7 @@ export async function GET(request: NextRequest) {
 
     const { skip: validSkip, take: validTake } = RequestValidator.validatePagination(skip, take);
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const policies = await EscalationService.listPolicies(tenantId, workflowTemplateId as any);
+    const policies = await EscalationService.listPolicies(tenantId, workflowTemplateId);
 
     // Manual pagination for the results
     const total = policies.length;
@@ -46,28 +47,30 @@ export async function POST(request: NextRequest) {
       return ApiResponseBuilder.unauthorized();
     }
 
-    const body = await request.json();
-    const errors = RequestValidator.validateRequired(body, ['workflowTemplateId', 'name']);
+    const parsed = escalationPolicyCreateSchema.safeParse(await request.json());
 
-    if (errors.length > 0) {
-      return ApiResponseBuilder.badRequest(`Validation failed: ${errors.map((e) => e.message).join(', ')}`);
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
     }
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const policy = await EscalationService.createPolicy(
       tenantId,
-      {
-        workflowTemplateId: body.workflowTemplateId,
-        name: body.name,
-        description: body.description,
-        warningThresholdPercent: body.warningThresholdPercent || 75,
-        maxEscalationLevels: body.maxEscalationLevels || 3,
-      },
+      parsed.data as CreateEscalationPolicyRequest,
       userId
     );
 
     return ApiResponseBuilder.success(policy, 201);
   } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ApiResponseBuilder.badRequest('Request body must be valid JSON');
+    }
+
+    if (error instanceof Error && error.message.startsWith('Workflow template not found')) {
+      return ApiResponseBuilder.notFound(error.message);
+    }
+
     console.error('Failed to create escalation policy:', error);
     return ApiResponseBuilder.internalError();
   }
@@ -8,6 +8,8 @@
 import { NextRequest } from 'next/server';
 import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
 import { EscalationService } from '@/lib/services/escalation-service';
+import { escalationRuleUpdateSchema } from '@/lib/validation/escalation-schema';
+import { UpdateEscalationRuleRequest } from '@/types/escalation';
 
 export async function GET(
   request: NextRequest,
@@ -22,7 +24,7 @@ export async function GET(
 
     const { ruleId } = params;
 
-    const rule = await EscalationService.getRule(ruleId);
+    const rule = await EscalationService.getRule(ruleId, tenantId);
 
     if (!rule) {
       return ApiResponseBuilder.notFound('Escalation rule not found');
@@ -48,24 +50,18 @@ export async function PUT(
     }
 
     const { ruleId } = params;
-    const body = await request.json();
+    const parsed = escalationRuleUpdateSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const rule = await EscalationService.updateRule(
       ruleId,
-      {
-        name: body.name,
-        triggerType: body.triggerType,
-        escalationLevel: body.escalationLevel,
-        hoursInStage: body.hoursInStage,
-        warningThresholdPercent: body.warningThresholdPercent,
-        minimumPriority: body.minimumPriority,
-        actions: body.actions,
-        isActive: body.isActive,
-        isRepeatable: body.isRepeatable,
-        cooldownMinutes: body.cooldownMinutes,
-        maxEscalations: body.maxEscalations,
-      },
+      tenantId,
+      parsed.data as UpdateEscalationRuleRequest,
       userId
     );
 
@@ -75,6 +71,10 @@ export async function PUT(
 
     return ApiResponseBuilder.success(rule);
   } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ApiResponseBuilder.badRequest('Request body must be valid JSON');
+    }
+
     console.error('Failed to update escalation rule:', error);
     return ApiResponseBuilder.internalError();
   }
@@ -94,7 +94,7 @@ export async function DELETE(
 
     const { ruleId } = params;
 
-    const success = await EscalationService.deleteRule(ruleId, userId);
+    const success = await EscalationService.deleteRule(ruleId, tenantId, userId);
 
     if (!success) {
       return ApiResponseBuilder.notFound('Escalation rule not found');
@@ -7,6 +7,8 @@
 import { NextRequest } from 'next/server';
 import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
 import { EscalationService } from '@/lib/services/escalation-service';
+import { escalationRuleCreateSchema } from '@/lib/validation/escalation-schema';
+import { CreateEscalationRuleRequest } from '@/types/escalation';
 
 export async function GET(request: NextRequest) {
   try {
@@ -28,8 +30,7 @@ export async function GET(request: NextRequest) {
 
     const { skip: validSkip, take: validTake } = RequestValidator.validatePagination(skip, take);
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const rules = await EscalationService.listRulesForPolicy(policyId as any);
+    const rules = await EscalationService.listRulesForPolicy(policyId, tenantId);
 
     // Manual pagination for the results
     const total = rules.length;
@@ -51,39 +52,33 @@ export async function POST(request: NextRequest) {
       return ApiResponseBuilder.unauthorized();
     }
 
-    const body = await request.json();
-    const errors = RequestValidator.validateRequired(body, [
-      'escalationPolicyId',
-      'name',
-      'triggerType',
-      'escalationLevel',
-      'actions',
-    ]);
-
-    if (errors.length > 0) {
-      return ApiResponseBuilder.badRequest(`Validation failed: ${errors.map((e) => e.message).join(', ')}`);
+    const parsed = escalationRuleCreateSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
     }
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const rule = await EscalationService.createRule(
+      tenantId,
       {
-        escalationPolicyId: body.escalationPolicyId,
-        name: body.name,
-        triggerType: body.triggerType,
-        escalationLevel: body.escalationLevel,
-        hoursInStage: body.hoursInStage,
-        warningThresholdPercent: body.warningThresholdPercent,
-        minimumPriority: body.minimumPriority,
-        actions: body.actions,
-        isRepeatable: body.isRepeatable ?? false,
-        cooldownMinutes: body.cooldownMinutes || 60,
-        maxEscalations: body.maxEscalations,
+        ...(parsed.data as CreateEscalationRuleRequest),
+        isRepeatable: parsed.data.isRepeatable ?? false,
       },
       userId
     );
 
     return ApiResponseBuilder.success(rule, 201);
   } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ApiResponseBuilder.badRequest('Request body must be valid JSON');
+    }
+
+    if (error instanceof Error && error.message.startsWith('Escalation policy not found')) {
+      return ApiResponseBuilder.notFound(error.message);
+    }
+
     console.error('Failed to create escalation rule:', error);
     return ApiResponseBuilder.internalError();
   }
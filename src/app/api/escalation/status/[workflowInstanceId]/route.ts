@@ -20,7 +20,7 @@ export async function GET(
 
     const { workflowInstanceId } = params;
 
-    const status = await EscalationExecutor.getEscalationStatus(workflowInstanceId);
+    const status = await EscalationExecutor.getEscalationStatus(workflowInstanceId, tenantId);
 
     return ApiResponseBuilder.success(status);
   } catch (error) {
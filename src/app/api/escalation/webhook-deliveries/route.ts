@@ -0,0 +1,55 @@
+/**
+ * Webhook Delivery Log Endpoint
+ * GET /api/escalation/webhook-deliveries - List escalation webhook deliveries (admin)
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { RBACService } from '@/lib/services/rbac-service';
+import { WebhookService } from '@/lib/services/webhook-service';
+import { WebhookDeliveryStatus } from '@/types/webhook';
+
+const STATUSES: WebhookDeliveryStatus[] = ['Pending', 'Delivered', 'Failed'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    if (!(await RBACService.isAdmin(userId))) {
+      return ApiResponseBuilder.forbidden('Viewing webhook deliveries requires the Admin role');
+    }
+
+    const { searchParams } = new URL(request.url);
+    const workflowInstanceId = searchParams.get('workflowInstanceId') || undefined;
+    const status = searchParams.get('status') || undefined;
+
+    if (status && !STATUSES.includes(status as WebhookDeliveryStatus)) {
+      return ApiResponseBuilder.badRequest(`status must be one of: ${STATUSES.join(', ')}`);
+    }
+
+    const { skip, take } = RequestValidator.validatePagination(
+      parseInt(searchParams.get('skip') || '0'),
+      parseInt(searchParams.get('take') || '50')
+    );
+
+    const { deliveries, total } = await WebhookService.listDeliveries(
+      tenantId,
+      {
+        ...(workflowInstanceId && { workflowInstanceId }),
+        ...(status && { status: status as WebhookDeliveryStatus }),
+      },
+      skip,
+      take
+    );
+
+    return ApiResponseBuilder.paginated(deliveries, total, skip, take);
+  } catch (error) {
+    console.error('Failed to list webhook deliveries:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Notification Delivery Retry Endpoint
+ * POST /api/notifications/deliveries/:deliveryId/retry - Send a dead-lettered delivery again (admin)
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { NotificationDispatcherService } from '@/lib/services/notification-dispatcher-service';
+import { RBACService } from '@/lib/services/rbac-service';
+
+export async function POST(request: NextRequest, { params }: { params: { deliveryId: string } }) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    if (!(await RBACService.isAdmin(userId))) {
+      return ApiResponseBuilder.forbidden(
+        'Retrying notification deliveries requires the Admin role'
+      );
+    }
+
+    const delivery = await NotificationDispatcherService.retryDelivery(tenantId, params.deliveryId);
+
+    return ApiResponseBuilder.success(delivery);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.startsWith('Notification delivery not found')) {
+        return ApiResponseBuilder.notFound(error.message);
+      }
+      if (error.message.startsWith('Only dead-lettered deliveries')) {
+        return ApiResponseBuilder.error(error.message, 409);
+      }
+    }
+
+    console.error('Failed to retry notification delivery:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Notification Delivery Outbox Endpoint
+ * GET /api/notifications/deliveries - List notification deliveries by channel and status (admin)
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { NotificationDispatcherService } from '@/lib/services/notification-dispatcher-service';
+import { RBACService } from '@/lib/services/rbac-service';
+import { NotificationChannelName, NotificationDeliveryStatus } from '@/types/notifications';
+
+const CHANNELS: NotificationChannelName[] = ['Email', 'InApp', 'Webhook'];
+const STATUSES: NotificationDeliveryStatus[] = ['Pending', 'Sent', 'Skipped', 'DeadLetter'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    if (!(await RBACService.isAdmin(userId))) {
+      return ApiResponseBuilder.forbidden(
+        'Viewing notification deliveries requires the Admin role'
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const channel = searchParams.get('channel') || undefined;
+    const status = searchParams.get('status') || undefined;
+
+    if (channel && !CHANNELS.includes(channel as NotificationChannelName)) {
+      return ApiResponseBuilder.badRequest(`channel must be one of: ${CHANNELS.join(', ')}`);
+    }
+
+    if (status && !STATUSES.includes(status as NotificationDeliveryStatus)) {
+      return ApiResponseBuilder.badRequest(`status must be one of: ${STATUSES.join(', ')}`);
+    }
+
+    const { skip, take } = RequestValidator.validatePagination(
+      parseInt(searchParams.get('skip') || '0'),
+      parseInt(searchParams.get('take') || '50')
+    );
+
+    const { deliveries, total } = await NotificationDispatcherService.listDeliveries(
+      tenantId,
+      {
+        ...(channel && { channel: channel as NotificationChannelName }),
+        ...(status && { status: status as NotificationDeliveryStatus }),
+      },
+      skip,
+      take
+    );
+
+    return ApiResponseBuilder.paginated(deliveries, total, skip, take);
+  } catch (error) {
+    console.error('Failed to list notification deliveries:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
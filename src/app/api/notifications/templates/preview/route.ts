@@ -0,0 +1,54 @@
+/**
+ * Notification Template Preview Endpoint
+ * POST /api/notifications/templates/preview - Render notification templates with sample data (admin)
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { NotificationService } from '@/lib/services/notification-service';
+import { RBACService } from '@/lib/services/rbac-service';
+import { notificationTemplatePreviewSchema } from '@/lib/validation/notification-schema';
+import { NotificationTemplatePreviewRequest } from '@/types/notifications';
+
+export async function POST(request: NextRequest) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    if (!(await RBACService.isAdmin(userId))) {
+      return ApiResponseBuilder.forbidden(
+        'Previewing notification templates requires the Admin role'
+      );
+    }
+
+    const parsed = notificationTemplatePreviewSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+
+    const preview = await NotificationService.previewTemplate(
+      tenantId,
+      parsed.data as NotificationTemplatePreviewRequest
+    );
+
+    return ApiResponseBuilder.success(preview);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ApiResponseBuilder.badRequest('Request body must be valid JSON');
+    }
+
+    if (error instanceof Error && error.message.startsWith('Template error')) {
+      return ApiResponseBuilder.badRequest(error.message);
+    }
+
+    console.error('Failed to preview notification template:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * User Manager Endpoints
+ * GET /api/org/users/:userId/manager - Get a user's management chain
+ * PUT /api/org/users/:userId/manager - Set or clear a user's manager (admin)
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { OrgHierarchyService } from '@/lib/services/org-hierarchy-service';
+import { RBACService } from '@/lib/services/rbac-service';
+import { setManagerSchema } from '@/lib/validation/org-schema';
+
+export async function GET(request: NextRequest, { params }: { params: { userId: string } }) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+
+    if (!tenantId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const managementChain = await OrgHierarchyService.getManagementChain(params.userId, tenantId);
+
+    return ApiResponseBuilder.success({
+      userId: params.userId,
+      managerId: managementChain[0] ?? null,
+      managementChain,
+    });
+  } catch (error) {
+    console.error('Failed to get user manager:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: { params: { userId: string } }) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    if (!(await RBACService.isAdmin(userId))) {
+      return ApiResponseBuilder.forbidden('Setting managers requires the Admin role');
+    }
+
+    const parsed = setManagerSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+
+    const result = await OrgHierarchyService.setManager(
+      params.userId,
+      parsed.data.managerId,
+      tenantId
+    );
+
+    return ApiResponseBuilder.success(result);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ApiResponseBuilder.badRequest('Request body must be valid JSON');
+    }
+
+    if (error instanceof Error) {
+      if (
+        error.message.startsWith('User not found') ||
+        error.message.startsWith('Manager not found')
+      ) {
+        return ApiResponseBuilder.notFound(error.message);
+      }
+
+      if (error.message.startsWith('Manager cycle')) {
+        return ApiResponseBuilder.badRequest(error.message);
+      }
+    }
+
+    console.error('Failed to set user manager:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
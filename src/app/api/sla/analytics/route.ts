@@ -0,0 +1,45 @@
+/**
+ * SLA Analytics Endpoint
+ * GET /api/sla/analytics - Stage cycle times, breach rates and bottlenecks from recorded stage exits
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { SLAAnalyticsService } from '@/lib/services/sla-analytics-service';
+import { slaAnalyticsQuerySchema } from '@/lib/validation/escalation-schema';
+
+export async function GET(request: NextRequest) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+
+    if (!tenantId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const parsed = slaAnalyticsQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+
+    const { workflowTemplateId, startDate, endDate } = parsed.data;
+    const report = await SLAAnalyticsService.getReport({
+      tenantId,
+      ...(workflowTemplateId && { workflowTemplateId }),
+      ...(startDate && { startDate }),
+      ...(endDate && { endDate }),
+    });
+
+    return ApiResponseBuilder.success(report);
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Template not found')) {
+      return ApiResponseBuilder.notFound(error.message);
+    }
+
+    console.error('Failed to get SLA analytics:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
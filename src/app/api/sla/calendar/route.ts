@@ -0,0 +1,80 @@
+/**
+ * SLA Working Calendar Endpoint
+ * GET /api/sla/calendar - Get the tenant's timezone, working week, working hours and holidays
+ * PATCH /api/sla/calendar - Update the tenant's working calendar (admin)
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { BusinessCalendarService } from '@/lib/services/business-calendar-service';
+import { RBACService } from '@/lib/services/rbac-service';
+import { workCalendarUpdateSchema } from '@/lib/validation/calendar-schema';
+import { UpdateWorkCalendarRequest } from '@/types/calendar';
+
+export async function GET(request: NextRequest) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+
+    if (!tenantId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const calendar = await BusinessCalendarService.getTenantCalendar(tenantId);
+
+    return ApiResponseBuilder.success(calendar);
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Tenant not found')) {
+      return ApiResponseBuilder.notFound(error.message);
+    }
+
+    console.error('Failed to get working calendar:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    if (!(await RBACService.isAdmin(userId))) {
+      return ApiResponseBuilder.forbidden('Managing the working calendar requires the Admin role');
+    }
+
+    const parsed = workCalendarUpdateSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+
+    const calendar = await BusinessCalendarService.updateTenantCalendar(
+      tenantId,
+      parsed.data as UpdateWorkCalendarRequest,
+      userId
+    );
+
+    return ApiResponseBuilder.success(calendar);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ApiResponseBuilder.badRequest('Request body must be valid JSON');
+    }
+
+    if (error instanceof Error) {
+      if (error.message.startsWith('Tenant not found')) {
+        return ApiResponseBuilder.notFound(error.message);
+      }
+      if (error.message.startsWith('Validation failed')) {
+        return ApiResponseBuilder.badRequest(error.message);
+      }
+    }
+
+    console.error('Failed to update working calendar:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
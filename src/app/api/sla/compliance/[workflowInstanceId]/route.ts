@@ -6,6 +6,7 @@
 import { NextRequest } from 'next/server';
 import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
 import { SLAManagementService } from '@/lib/services/sla-management-service';
+import { BusinessCalendarService } from '@/lib/services/business-calendar-service';
 import { PrismaClient } from '@prisma/client';
 
 const prisma = new PrismaClient();
@@ -38,7 +39,15 @@ export async function GET(
     }
 
     // Calculate compliance
-    const compliance = SLAManagementService.calculateSLACompliance(instance);
+    const calendar = await BusinessCalendarService.getTenantCalendar(tenantId);
+    const templateBands = await SLAManagementService.getThresholdBands([
+      instance.workflowTemplateId,
+    ]);
+    const compliance = SLAManagementService.calculateSLACompliance(
+      instance,
+      calendar,
+      templateBands.get(instance.workflowTemplateId)
+    );
 
     return ApiResponseBuilder.success(compliance);
   } catch (error) {
@@ -1,6 +1,6 @@
 /**
  * SLA Metrics API Endpoints
- * GET /api/sla/metrics - Query SLA metrics with filters
+ * GET /api/sla/metrics - Query SLA metrics of recorded stage exits with filters
  */
 
 import { NextRequest } from 'next/server';
@@ -20,6 +20,8 @@ export async function GET(request: NextRequest) {
     const take = parseInt(searchParams.get('take') || '50');
     const status = searchParams.get('status') || undefined; // 'Compliant', 'Warning', 'Breached'
     const stageName = searchParams.get('stageName') || undefined;
+    const workflowTemplateId = searchParams.get('workflowTemplateId') || undefined;
+    const workflowInstanceId = searchParams.get('workflowInstanceId') || undefined;
     const startDate = searchParams.get('startDate') ? new Date(searchParams.get('startDate')!) : undefined;
     const endDate = searchParams.get('endDate') ? new Date(searchParams.get('endDate')!) : undefined;
 
@@ -31,6 +33,8 @@ export async function GET(request: NextRequest) {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       status: status as any,
       stageName,
+      workflowTemplateId,
+      workflowInstanceId,
       startDate,
       endDate,
       skip: validSkip,
@@ -0,0 +1,71 @@
+/**
+ * SLA Sweep Endpoints
+ * GET /api/sla/sweeps - Run history of the background SLA sweep (admin)
+ * POST /api/sla/sweeps - Run the SLA sweep now (admin)
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { config } from '@/lib/config';
+import { RBACService } from '@/lib/services/rbac-service';
+import { SchedulerService } from '@/lib/services/scheduler-service';
+import { SLASweeperService } from '@/lib/services/sla-sweeper-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    if (!(await RBACService.isAdmin(userId))) {
+      return ApiResponseBuilder.forbidden('Viewing SLA sweeps requires the Admin role');
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { skip, take } = RequestValidator.validatePagination(
+      parseInt(searchParams.get('skip') || '0'),
+      parseInt(searchParams.get('take') || '50')
+    );
+
+    const { runs, total } = await SchedulerService.listRuns(SLASweeperService.JOB_NAME, skip, take);
+
+    return ApiResponseBuilder.paginated(runs, total, skip, take);
+  } catch (error) {
+    console.error('Failed to list SLA sweeps:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    if (!(await RBACService.isAdmin(userId))) {
+      return ApiResponseBuilder.forbidden('Running the SLA sweep requires the Admin role');
+    }
+
+    const run = await SchedulerService.runJob(
+      SLASweeperService.createJob(config.scheduler.slaSweepIntervalMinutes)
+    );
+
+    if (!run) {
+      return ApiResponseBuilder.error(
+        'The SLA sweep is already running or is scheduled on another node',
+        409
+      );
+    }
+
+    return ApiResponseBuilder.success(run, 201);
+  } catch (error) {
+    console.error('Failed to run SLA sweep:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
@@ -2,11 +2,15 @@
  * SLA Warnings and Breaches API Endpoints
  * GET /api/sla/warnings - Get workflows with SLA warnings
  * GET /api/sla/warnings?type=breach - Get workflows with SLA breaches
+ * GET /api/sla/warnings?band=Critical - Only warnings that reached a band (Info, Warning, Critical)
  */
 
 import { NextRequest } from 'next/server';
 import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
 import { SLAManagementService } from '@/lib/services/sla-management-service';
+import { SLABandLevel } from '@/types/escalation';
+
+const BANDS: SLABandLevel[] = ['Info', 'Warning', 'Critical'];
 
 export async function GET(request: NextRequest) {
   try {
@@ -18,14 +22,18 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url);
     const type = searchParams.get('type') || 'warning'; // 'warning' or 'breach'
+    const band = searchParams.get('band') || 'Warning';
     const skip = parseInt(searchParams.get('skip') || '0');
     const take = parseInt(searchParams.get('take') || '50');
 
+    if (!BANDS.includes(band as SLABandLevel)) {
+      return ApiResponseBuilder.badRequest(`band must be one of: ${BANDS.join(', ')}`);
+    }
+
     const { skip: validSkip, take: validTake } = RequestValidator.validatePagination(skip, take);
 
     // Check SLA warnings/breaches
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const response = await SLAManagementService.checkSLAWarnings(tenantId) as any;
+    const response = await SLAManagementService.checkSLAWarnings(tenantId, band as SLABandLevel);
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     let alerts: any[] = [];
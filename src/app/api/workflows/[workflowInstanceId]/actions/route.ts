@@ -0,0 +1,74 @@
+/**
+ * Workflow Action Endpoint
+ * POST /api/workflows/:workflowInstanceId/actions - Approve, reject or return the current stage
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { WorkflowExecutor } from '@/lib/services/workflow-service';
+import { workflowActionRequestSchema } from '@/lib/validation/workflow-schema';
+import { ActionResult, WorkflowAction } from '@/types/workflow';
+
+const ACTION_RESULTS: Record<WorkflowAction, ActionResult> = {
+  Approve: 'Approved',
+  Reject: 'Rejected',
+  Return: 'Returned',
+};
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { workflowInstanceId: string } }
+) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const parsed = workflowActionRequestSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+
+    const { action, stageId, comment, returnToStageId, attachmentIds, onBehalfOf } = parsed.data;
+    const result = await WorkflowExecutor.executeAction(
+      {
+        instanceId: params.workflowInstanceId,
+        stageId,
+        action: ACTION_RESULTS[action],
+        ...(comment && { comment }),
+        ...(returnToStageId && { returnToStageId }),
+        ...(attachmentIds && { attachmentIds }),
+        ...(onBehalfOf && { onBehalfOf }),
+      },
+      { actorId: userId, tenantId, timestamp: new Date() }
+    );
+
+    if (!result.success) {
+      return ApiResponseBuilder.error(
+        result.error || result.message,
+        WorkflowExecutor.getErrorStatus(result.errorCode),
+        result.errorCode,
+        // A denied actor is told why and who can act on the stage instead
+        result.permissionDenial && {
+          permissionDenial: result.permissionDenial,
+          eligibleApprovers: result.permissionDenial.eligibleApprovers || [],
+        }
+      );
+    }
+
+    return ApiResponseBuilder.success(result);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ApiResponseBuilder.badRequest('Request body must be valid JSON');
+    }
+
+    console.error('Failed to execute workflow action:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
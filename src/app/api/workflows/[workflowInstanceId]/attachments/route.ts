@@ -0,0 +1,94 @@
+/**
+ * Workflow Attachment Endpoints
+ * GET /api/workflows/:workflowInstanceId/attachments - List attachments
+ * POST /api/workflows/:workflowInstanceId/attachments - Upload an attachment (multipart field "file")
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { AttachmentService } from '@/lib/services/attachment-service';
+import { MAX_ATTACHMENT_SIZE_BYTES } from '@/lib/validation/attachment-schema';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { workflowInstanceId: string } }
+) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+
+    if (!tenantId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const attachments = await AttachmentService.listAttachments(
+      params.workflowInstanceId,
+      tenantId
+    );
+
+    return ApiResponseBuilder.success(attachments);
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Workflow instance not found')) {
+      return ApiResponseBuilder.notFound(error.message);
+    }
+
+    console.error('Failed to list attachments:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { workflowInstanceId: string } }
+) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const contentLength = Number(request.headers.get('content-length') || 0);
+    if (contentLength > MAX_ATTACHMENT_SIZE_BYTES + 1024 * 1024) {
+      return ApiResponseBuilder.error('File exceeds the 50MB limit', 413);
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!file || typeof file === 'string') {
+      return ApiResponseBuilder.badRequest('A file is required in the "file" field');
+    }
+
+    const attachment = await AttachmentService.uploadAttachment(
+      tenantId,
+      params.workflowInstanceId,
+      {
+        fileName: file.name,
+        mimeType: file.type,
+        content: Buffer.from(await file.arrayBuffer()),
+      },
+      userId
+    );
+
+    return ApiResponseBuilder.success(attachment, 201);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.startsWith('Workflow instance not found')) {
+        return ApiResponseBuilder.notFound(error.message);
+      }
+      if (error.message.startsWith('Invalid attachment')) {
+        return ApiResponseBuilder.badRequest(error.message);
+      }
+      if (error.message.startsWith('Uploader is not an active user')) {
+        return ApiResponseBuilder.forbidden(error.message);
+      }
+      if (error.message.startsWith('Attachments cannot be added')) {
+        return ApiResponseBuilder.error(error.message, 409);
+      }
+    }
+
+    console.error('Failed to upload attachment:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Workflow Cancel Endpoint
+ * POST /api/workflows/:workflowInstanceId/cancel - Cancel an in-progress or returned request (admin)
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { WorkflowLifecycleService } from '@/lib/services/workflow-lifecycle-service';
+import { workflowCancelSchema } from '@/lib/validation/workflow-schema';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { workflowInstanceId: string } }
+) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const parsed = workflowCancelSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+
+    const instance = await WorkflowLifecycleService.cancelInstance(
+      params.workflowInstanceId,
+      tenantId,
+      userId,
+      parsed.data.reason
+    );
+
+    return ApiResponseBuilder.success(instance);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ApiResponseBuilder.badRequest('Request body must be valid JSON');
+    }
+
+    if (error instanceof Error) {
+      if (error.message.startsWith('Workflow instance not found')) {
+        return ApiResponseBuilder.notFound(error.message);
+      }
+      if (error.message.startsWith('Only administrators')) {
+        return ApiResponseBuilder.forbidden(error.message);
+      }
+      if (error.message.startsWith('Workflow cannot move')) {
+        return ApiResponseBuilder.error(error.message, 409);
+      }
+    }
+
+    console.error('Failed to cancel workflow:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
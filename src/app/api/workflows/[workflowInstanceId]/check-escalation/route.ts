@@ -7,7 +7,9 @@
 import { NextRequest } from 'next/server';
 import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
 import { EscalationExecutor } from '@/lib/services/escalation-executor';
+import { EscalationService } from '@/lib/services/escalation-service';
 import { SLAManagementService } from '@/lib/services/sla-management-service';
+import { BusinessCalendarService } from '@/lib/services/business-calendar-service';
 import { PrismaClient } from '@prisma/client';
 
 const prisma = new PrismaClient();
@@ -27,7 +29,10 @@ export async function GET(
     const action = new URL(request.url).searchParams.get('action') || 'sla';
 
     if (action === 'status') {
-      const escalationStatus = await EscalationExecutor.getEscalationStatus(workflowInstanceId);
+      const escalationStatus = await EscalationExecutor.getEscalationStatus(
+        workflowInstanceId,
+        tenantId
+      );
       return ApiResponseBuilder.success(escalationStatus);
     }
 
@@ -45,8 +50,19 @@ export async function GET(
       return ApiResponseBuilder.notFound('Workflow instance not found');
     }
 
-    const slaCompliance = SLAManagementService.calculateSLACompliance(instance);
-    const escalationStatus = await EscalationExecutor.getEscalationStatus(workflowInstanceId);
+    const calendar = await BusinessCalendarService.getTenantCalendar(tenantId);
+    const templateBands = await SLAManagementService.getThresholdBands([
+      instance.workflowTemplateId,
+    ]);
+    const slaCompliance = SLAManagementService.calculateSLACompliance(
+      instance,
+      calendar,
+      templateBands.get(instance.workflowTemplateId)
+    );
+    const escalationStatus = await EscalationExecutor.getEscalationStatus(
+      workflowInstanceId,
+      tenantId
+    );
 
     return ApiResponseBuilder.success({
       workflowInstanceId,
@@ -84,20 +100,15 @@ export async function POST(
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
     })) as any;
 
-    if (!instance) {
+    if (!instance || instance.template.tenantId !== tenantId) {
       return ApiResponseBuilder.notFound('Workflow instance not found');
     }
 
-    // For now, use a default escalation policy ID
-    // In production, retrieve from database
-    const escalationPolicyId = `policy-${instance.template?.id}`;
+    const policy = await EscalationService.getPolicyForTemplate(instance.template.id, tenantId);
 
-    const escalationEvent = await EscalationExecutor.checkAndEscalate(
-      workflowInstanceId,
-      tenantId,
-      escalationPolicyId,
-      userId
-    );
+    const escalationEvent = policy
+      ? await EscalationExecutor.checkAndEscalate(workflowInstanceId, tenantId, policy.id, userId)
+      : null;
 
     return ApiResponseBuilder.success({
       workflowInstanceId,
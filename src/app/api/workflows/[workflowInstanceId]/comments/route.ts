@@ -0,0 +1,87 @@
+/**
+ * Workflow Comment Endpoints
+ * GET /api/workflows/:workflowInstanceId/comments - List the discussion as threads
+ * POST /api/workflows/:workflowInstanceId/comments - Post a comment or reply
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { WorkflowCommentService } from '@/lib/services/workflow-comment-service';
+import { workflowCommentSchema } from '@/lib/validation/workflow-schema';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { workflowInstanceId: string } }
+) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+
+    if (!tenantId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const threads = await WorkflowCommentService.listThreads(params.workflowInstanceId, tenantId);
+
+    return ApiResponseBuilder.success(threads);
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Workflow instance not found')) {
+      return ApiResponseBuilder.notFound(error.message);
+    }
+
+    console.error('Failed to list comments:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { workflowInstanceId: string } }
+) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const parsed = workflowCommentSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+
+    const comment = await WorkflowCommentService.addComment(
+      tenantId,
+      params.workflowInstanceId,
+      userId,
+      {
+        body: parsed.data.body,
+        ...(parsed.data.parentId && { parentId: parsed.data.parentId }),
+      }
+    );
+
+    return ApiResponseBuilder.success(comment, 201);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ApiResponseBuilder.badRequest('Request body must be valid JSON');
+    }
+
+    if (error instanceof Error) {
+      if (error.message.startsWith('Workflow instance not found')) {
+        return ApiResponseBuilder.notFound(error.message);
+      }
+      if (error.message.startsWith('Parent comment not found')) {
+        return ApiResponseBuilder.badRequest(error.message);
+      }
+      if (error.message.startsWith('Author is not an active user')) {
+        return ApiResponseBuilder.forbidden(error.message);
+      }
+    }
+
+    console.error('Failed to add comment:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Workflow Hold Endpoints
+ * GET /api/workflows/:workflowInstanceId/hold - List the periods the SLA clock was stopped
+ * POST /api/workflows/:workflowInstanceId/hold - Place on hold pending information (stage approvers)
+ * DELETE /api/workflows/:workflowInstanceId/hold - Release the hold and restart the SLA clock
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { WorkflowHoldService } from '@/lib/services/workflow-hold-service';
+import { workflowHoldSchema } from '@/lib/validation/workflow-schema';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { workflowInstanceId: string } }
+) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+
+    if (!tenantId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const pauses = await WorkflowHoldService.getPauseHistory(params.workflowInstanceId, tenantId);
+
+    return ApiResponseBuilder.success(pauses);
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Workflow instance not found')) {
+      return ApiResponseBuilder.notFound(error.message);
+    }
+
+    console.error('Failed to list SLA pauses:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { workflowInstanceId: string } }
+) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const parsed = workflowHoldSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+
+    const pause = await WorkflowHoldService.placeOnHold(
+      params.workflowInstanceId,
+      tenantId,
+      userId,
+      parsed.data.note
+    );
+
+    return ApiResponseBuilder.success(pause, 201);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ApiResponseBuilder.badRequest('Request body must be valid JSON');
+    }
+
+    if (error instanceof Error) {
+      if (error.message.startsWith('Workflow instance not found')) {
+        return ApiResponseBuilder.notFound(error.message);
+      }
+      if (error.message.startsWith('Only approvers')) {
+        return ApiResponseBuilder.forbidden(error.message);
+      }
+      if (
+        error.message.startsWith('Only in-progress') ||
+        error.message.startsWith('Workflow is already on hold')
+      ) {
+        return ApiResponseBuilder.error(error.message, 409);
+      }
+    }
+
+    console.error('Failed to place workflow on hold:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { workflowInstanceId: string } }
+) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const pause = await WorkflowHoldService.releaseHold(
+      params.workflowInstanceId,
+      tenantId,
+      userId
+    );
+
+    return ApiResponseBuilder.success(pause);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.startsWith('Workflow instance not found')) {
+        return ApiResponseBuilder.notFound(error.message);
+      }
+      if (error.message.startsWith('Only the requester')) {
+        return ApiResponseBuilder.forbidden(error.message);
+      }
+      if (error.message.startsWith('Workflow is not on hold')) {
+        return ApiResponseBuilder.error(error.message, 409);
+      }
+    }
+
+    console.error('Failed to release workflow hold:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Workflow Resubmit Endpoint
+ * POST /api/workflows/:workflowInstanceId/resubmit - Resubmit a returned request with an amended payload (requester)
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { WorkflowLifecycleService } from '@/lib/services/workflow-lifecycle-service';
+import { workflowResubmitSchema } from '@/lib/validation/workflow-schema';
+import { ResubmitWorkflowRequest } from '@/types/workflow';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { workflowInstanceId: string } }
+) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const parsed = workflowResubmitSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+
+    const instance = await WorkflowLifecycleService.resubmitInstance(
+      params.workflowInstanceId,
+      tenantId,
+      userId,
+      parsed.data as ResubmitWorkflowRequest
+    );
+
+    return ApiResponseBuilder.success(instance);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ApiResponseBuilder.badRequest('Request body must be valid JSON');
+    }
+
+    if (error instanceof Error) {
+      if (error.message.startsWith('Invalid request data')) {
+        return ApiResponseBuilder.badRequest(error.message);
+      }
+      if (error.message.startsWith('Workflow instance not found')) {
+        return ApiResponseBuilder.notFound(error.message);
+      }
+      if (error.message.startsWith('Only the requester')) {
+        return ApiResponseBuilder.forbidden(error.message);
+      }
+      if (error.message.startsWith('Only returned workflows')) {
+        return ApiResponseBuilder.error(error.message, 409);
+      }
+    }
+
+    console.error('Failed to resubmit workflow:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Workflow Revisions Endpoint
+ * GET /api/workflows/:workflowInstanceId/revisions - List the submitted payload revisions, oldest first
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { WorkflowLifecycleService } from '@/lib/services/workflow-lifecycle-service';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { workflowInstanceId: string } }
+) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+
+    if (!tenantId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const revisions = await WorkflowLifecycleService.getRevisions(
+      params.workflowInstanceId,
+      tenantId
+    );
+
+    return ApiResponseBuilder.success(revisions);
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Workflow instance not found')) {
+      return ApiResponseBuilder.notFound(error.message);
+    }
+
+    console.error('Failed to list workflow revisions:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Workflow Instance Endpoint
+ * GET /api/workflows/:workflowInstanceId - Get an instance with its template, current stage and actions
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { WorkflowInstanceService } from '@/lib/services/workflow-service';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { workflowInstanceId: string } }
+) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+
+    if (!tenantId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const instance = await WorkflowInstanceService.getInstance(params.workflowInstanceId);
+
+    if (!instance || instance.template.tenantId !== tenantId) {
+      return ApiResponseBuilder.notFound('Workflow instance not found');
+    }
+
+    return ApiResponseBuilder.success(instance);
+  } catch (error) {
+    console.error('Failed to get workflow instance:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
@@ -6,6 +6,7 @@
 import { NextRequest } from 'next/server';
 import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
 import { SLAManagementService } from '@/lib/services/sla-management-service';
+import { BusinessCalendarService } from '@/lib/services/business-calendar-service';
 import { EscalationExecutor } from '@/lib/services/escalation-executor';
 import { AuditLogService } from '@/lib/services/audit-log-service';
 import { PrismaClient } from '@prisma/client';
@@ -40,10 +41,19 @@ export async function GET(
       return ApiResponseBuilder.notFound('Workflow instance not found');
     }
 
+    const calendar = await BusinessCalendarService.getTenantCalendar(tenantId);
+    const templateBands = await SLAManagementService.getThresholdBands([
+      instance.workflowTemplateId,
+    ]);
+
     // Gather all related information in parallel
     const [slaCompliance, escalationStatus, auditTrail, notifications] = await Promise.all([
-      SLAManagementService.calculateSLACompliance(instance),
-      EscalationExecutor.getEscalationStatus(workflowInstanceId),
+      SLAManagementService.calculateSLACompliance(
+        instance,
+        calendar,
+        templateBands.get(instance.workflowTemplateId)
+      ),
+      EscalationExecutor.getEscalationStatus(workflowInstanceId, tenantId),
       AuditLogService.getWorkflowAuditTrail(workflowInstanceId).catch(() => null),
       prisma.notification.findMany({
         where: { workflowInstanceId },
@@ -0,0 +1,32 @@
+/**
+ * Workflow Timeline Endpoint
+ * GET /api/workflows/:workflowInstanceId/timeline - Get submissions, actions, comments and attachments in order
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { WorkflowInstanceService } from '@/lib/services/workflow-service';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { workflowInstanceId: string } }
+) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+
+    if (!tenantId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const timeline = await WorkflowInstanceService.getTimeline(params.workflowInstanceId, tenantId);
+
+    return ApiResponseBuilder.success(timeline);
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Workflow instance not found')) {
+      return ApiResponseBuilder.notFound(error.message);
+    }
+
+    console.error('Failed to get workflow timeline:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Approval Delegation Detail Endpoints
+ * DELETE /api/workflows/delegations/:delegationId - Revoke a delegation (its principal or an admin)
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { DelegationService } from '@/lib/services/delegation-service';
+import { RBACService } from '@/lib/services/rbac-service';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { delegationId: string } }
+) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const delegation = await DelegationService.getDelegation(params.delegationId, tenantId);
+
+    if (!delegation) {
+      return ApiResponseBuilder.notFound('Delegation not found');
+    }
+
+    if (delegation.principalId !== userId && !(await RBACService.isAdmin(userId))) {
+      return ApiResponseBuilder.forbidden(
+        "Revoking another user's delegation requires the Admin role"
+      );
+    }
+
+    await DelegationService.revokeDelegation(params.delegationId, tenantId);
+
+    return ApiResponseBuilder.success({ message: 'Delegation revoked successfully' });
+  } catch (error) {
+    console.error('Failed to revoke delegation:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
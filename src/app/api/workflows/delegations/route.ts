@@ -0,0 +1,103 @@
+/**
+ * Approval Delegation Endpoints
+ * GET /api/workflows/delegations - List delegations given or received by the user (all for admins)
+ * POST /api/workflows/delegations - Delegate the user's approvals to a proxy (any user's for admins)
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { DelegationService } from '@/lib/services/delegation-service';
+import { RBACService } from '@/lib/services/rbac-service';
+import {
+  approvalDelegationCreateSchema,
+  approvalDelegationQuerySchema,
+} from '@/lib/validation/workflow-schema';
+import { CreateDelegationRequest, ListDelegationsFilter } from '@/types/workflow';
+
+export async function GET(request: NextRequest) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const parsed = approvalDelegationQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+
+    const { principalId, delegateId } = parsed.data;
+
+    if (principalId !== userId && delegateId !== userId && !(await RBACService.isAdmin(userId))) {
+      return ApiResponseBuilder.forbidden(
+        "Listing other users' delegations requires the Admin role"
+      );
+    }
+
+    const delegations = await DelegationService.listDelegations(
+      tenantId,
+      parsed.data as ListDelegationsFilter
+    );
+
+    return ApiResponseBuilder.success(delegations);
+  } catch (error) {
+    console.error('Failed to list delegations:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const parsed = approvalDelegationCreateSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+
+    if (parsed.data.principalId !== userId && !(await RBACService.isAdmin(userId))) {
+      return ApiResponseBuilder.forbidden(
+        "Delegating another user's approvals requires the Admin role"
+      );
+    }
+
+    const delegation = await DelegationService.createDelegation(
+      tenantId,
+      parsed.data as CreateDelegationRequest,
+      userId
+    );
+
+    return ApiResponseBuilder.success(delegation, 201);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ApiResponseBuilder.badRequest('Request body must be valid JSON');
+    }
+
+    if (
+      error instanceof Error &&
+      (error.message.startsWith('A user cannot delegate') ||
+        error.message.startsWith('Delegation end') ||
+        error.message.startsWith('Delegation scope') ||
+        error.message.startsWith('Principal and delegate'))
+    ) {
+      return ApiResponseBuilder.badRequest(error.message);
+    }
+
+    console.error('Failed to create delegation:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
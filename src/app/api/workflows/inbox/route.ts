@@ -0,0 +1,32 @@
+/**
+ * Approver Inbox Endpoint
+ * GET /api/workflows/inbox - List workflows waiting on the current user, most urgent first
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { WorkflowInboxService } from '@/lib/services/workflow-inbox-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = RequestValidator.validatePagination(
+      parseInt(searchParams.get('skip') || '0'),
+      parseInt(searchParams.get('take') || '50')
+    );
+
+    const inbox = await WorkflowInboxService.getInbox(tenantId, userId, page);
+
+    return ApiResponseBuilder.success(inbox);
+  } catch (error) {
+    console.error('Failed to load approval inbox:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
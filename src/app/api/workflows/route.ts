@@ -0,0 +1,99 @@
+/**
+ * Workflow Instance Endpoints
+ * GET /api/workflows - List workflow instances with filters
+ * POST /api/workflows - Submit a request; routed to the best matching template unless one is given
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { WorkflowInstanceService } from '@/lib/services/workflow-service';
+import {
+  workflowInstanceQuerySchema,
+  workflowSubmissionSchema,
+} from '@/lib/validation/workflow-schema';
+import { ListWorkflowInstancesFilter, SubmitWorkflowRequest } from '@/types/workflow';
+
+export async function GET(request: NextRequest) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+
+    if (!tenantId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const parsed = workflowInstanceQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+
+    const { skip, take } = RequestValidator.validatePagination(parsed.data.skip, parsed.data.take);
+    const { instances, total } = await WorkflowInstanceService.listInstances({
+      ...(parsed.data as ListWorkflowInstancesFilter),
+      tenantId,
+      skip,
+      take,
+    });
+
+    return ApiResponseBuilder.paginated(instances, total, skip, take);
+  } catch (error) {
+    console.error('Failed to list workflow instances:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const parsed = workflowSubmissionSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+
+    const result = await WorkflowInstanceService.submitRequest(
+      tenantId,
+      parsed.data as SubmitWorkflowRequest,
+      userId
+    );
+
+    return ApiResponseBuilder.success(result, 201);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ApiResponseBuilder.badRequest('Request body must be valid JSON');
+    }
+
+    if (error instanceof Error) {
+      if (error.message.startsWith('Invalid request data')) {
+        return ApiResponseBuilder.badRequest(error.message);
+      }
+      if (
+        error.message.startsWith('Template not found') ||
+        error.message.startsWith('Template does not belong')
+      ) {
+        return ApiResponseBuilder.notFound(error.message);
+      }
+      if (
+        error.message.startsWith('No workflow template matches') ||
+        error.message.startsWith('No stages found') ||
+        error.message.includes('is not published')
+      ) {
+        return ApiResponseBuilder.error(error.message, 422);
+      }
+    }
+
+    console.error('Failed to submit workflow request:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
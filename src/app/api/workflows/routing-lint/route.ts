@@ -0,0 +1,31 @@
+/**
+ * Workflow Routing Lint Endpoint
+ * GET /api/workflows/routing-lint - Report ambiguous, uncovered and unreachable template routing
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { RBACService } from '@/lib/services/rbac-service';
+import { WorkflowRoutingLintService } from '@/lib/services/workflow-routing-lint-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    if (!(await RBACService.isAdmin(userId))) {
+      return ApiResponseBuilder.forbidden('Routing lint requires the Admin role');
+    }
+
+    const report = await WorkflowRoutingLintService.lintTenant(tenantId);
+
+    return ApiResponseBuilder.success(report);
+  } catch (error) {
+    console.error('Failed to lint workflow routing:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
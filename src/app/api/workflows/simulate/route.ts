@@ -0,0 +1,53 @@
+/**
+ * Workflow Simulation Endpoint
+ * POST /api/workflows/simulate - Dry-run routing, stage path and approvers for a hypothetical entity
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { RBACService } from '@/lib/services/rbac-service';
+import { WorkflowSimulationService } from '@/lib/services/workflow-simulation-service';
+import { workflowSimulationSchema } from '@/lib/validation/workflow-schema';
+import { WorkflowSimulationRequest } from '@/types/workflow';
+
+export async function POST(request: NextRequest) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const [isPMO, isAdmin] = await Promise.all([
+      RBACService.isPMO(userId),
+      RBACService.isAdmin(userId),
+    ]);
+
+    if (!isPMO && !isAdmin) {
+      return ApiResponseBuilder.forbidden('Workflow simulation requires the PMO or Admin role');
+    }
+
+    const parsed = workflowSimulationSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+
+    const result = await WorkflowSimulationService.simulate(
+      tenantId,
+      parsed.data as WorkflowSimulationRequest
+    );
+
+    return ApiResponseBuilder.success(result);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ApiResponseBuilder.badRequest('Request body must be valid JSON');
+    }
+
+    console.error('Failed to simulate workflow:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
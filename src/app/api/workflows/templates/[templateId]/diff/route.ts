@@ -0,0 +1,45 @@
+/**
+ * Workflow Template Diff Endpoint
+ * GET /api/workflows/templates/:templateId/diff?from=:otherTemplateId - Changes from another version to this one
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { WorkflowVersionService } from '@/lib/services/workflow-version-service';
+import { WorkflowTemplateService } from '@/lib/services/workflow-service';
+
+export async function GET(request: NextRequest, { params }: { params: { templateId: string } }) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+
+    if (!tenantId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const from = new URL(request.url).searchParams.get('from');
+
+    if (!from) {
+      return ApiResponseBuilder.badRequest('from is required');
+    }
+
+    await Promise.all([
+      WorkflowTemplateService.getTenantTemplate(from, tenantId),
+      WorkflowTemplateService.getTenantTemplate(params.templateId, tenantId),
+    ]);
+    const diff = await WorkflowVersionService.getVersionDiff(from, params.templateId);
+
+    return ApiResponseBuilder.success(diff);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.startsWith('Template not found')) {
+        return ApiResponseBuilder.notFound(error.message);
+      }
+      if (error.message.startsWith('Templates are not versions of the same workflow')) {
+        return ApiResponseBuilder.badRequest(error.message);
+      }
+    }
+
+    console.error('Failed to diff workflow template versions:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
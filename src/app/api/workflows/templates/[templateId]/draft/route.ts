@@ -0,0 +1,42 @@
+/**
+ * Workflow Template Draft Endpoint
+ * POST /api/workflows/templates/:templateId/draft - Create an editable draft version from this version (admin)
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { RBACService } from '@/lib/services/rbac-service';
+import { WorkflowVersionService } from '@/lib/services/workflow-version-service';
+import { WorkflowTemplateService } from '@/lib/services/workflow-service';
+
+export async function POST(request: NextRequest, { params }: { params: { templateId: string } }) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    if (!(await RBACService.isAdmin(userId))) {
+      return ApiResponseBuilder.forbidden('Managing workflow templates requires the Admin role');
+    }
+
+    await WorkflowTemplateService.getTenantTemplate(params.templateId, tenantId);
+    const draft = await WorkflowVersionService.createDraftVersion(params.templateId, userId);
+
+    return ApiResponseBuilder.success(draft, 201);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.startsWith('Template not found')) {
+        return ApiResponseBuilder.notFound(error.message);
+      }
+      if (error.message.startsWith('Template already has a draft version')) {
+        return ApiResponseBuilder.error(error.message, 409);
+      }
+    }
+
+    console.error('Failed to create workflow template draft:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
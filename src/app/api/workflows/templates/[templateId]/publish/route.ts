@@ -0,0 +1,45 @@
+/**
+ * Workflow Template Publish Endpoint
+ * POST /api/workflows/templates/:templateId/publish - Publish a draft version, superseding the current one (admin)
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { RBACService } from '@/lib/services/rbac-service';
+import { WorkflowVersionService } from '@/lib/services/workflow-version-service';
+import { WorkflowTemplateService } from '@/lib/services/workflow-service';
+
+export async function POST(request: NextRequest, { params }: { params: { templateId: string } }) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    if (!(await RBACService.isAdmin(userId))) {
+      return ApiResponseBuilder.forbidden('Managing workflow templates requires the Admin role');
+    }
+
+    await WorkflowTemplateService.getTenantTemplate(params.templateId, tenantId);
+    const template = await WorkflowVersionService.publishTemplate(params.templateId, userId);
+
+    return ApiResponseBuilder.success(template);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.startsWith('Template not found')) {
+        return ApiResponseBuilder.notFound(error.message);
+      }
+      if (
+        error.message.startsWith('Only draft templates can be published') ||
+        error.message.startsWith('Template has no stages')
+      ) {
+        return ApiResponseBuilder.error(error.message, 409);
+      }
+    }
+
+    console.error('Failed to publish workflow template:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Workflow Template Endpoint
+ * GET /api/workflows/templates/:templateId - Get a template with its stages and responsibilities
+ * PATCH /api/workflows/templates/:templateId - Update a draft, or activate / deactivate any version (admin)
+ * DELETE /api/workflows/templates/:templateId - Delete a draft or deactivate a published version (admin)
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { RBACService } from '@/lib/services/rbac-service';
+import { WorkflowTemplateService } from '@/lib/services/workflow-service';
+import { workflowTemplateUpdateSchema } from '@/lib/validation/workflow-schema';
+import { UpdateWorkflowTemplateRequest } from '@/types/workflow';
+
+export async function GET(request: NextRequest, { params }: { params: { templateId: string } }) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+
+    if (!tenantId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const template = await WorkflowTemplateService.getTenantTemplate(params.templateId, tenantId);
+
+    return ApiResponseBuilder.success(template);
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Template not found')) {
+      return ApiResponseBuilder.notFound(error.message);
+    }
+
+    console.error('Failed to get workflow template:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: { templateId: string } }) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    if (!(await RBACService.isAdmin(userId))) {
+      return ApiResponseBuilder.forbidden('Managing workflow templates requires the Admin role');
+    }
+
+    const parsed = workflowTemplateUpdateSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+
+    const template = await WorkflowTemplateService.updateTemplate(
+      params.templateId,
+      tenantId,
+      parsed.data as UpdateWorkflowTemplateRequest
+    );
+
+    return ApiResponseBuilder.success(template);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ApiResponseBuilder.badRequest('Request body must be valid JSON');
+    }
+
+    if (error instanceof Error) {
+      if (error.message.startsWith('Template not found')) {
+        return ApiResponseBuilder.notFound(error.message);
+      }
+      if (error.message.includes('cannot be edited')) {
+        return ApiResponseBuilder.error(error.message, 409);
+      }
+    }
+
+    console.error('Failed to update workflow template:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { templateId: string } }) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    if (!(await RBACService.isAdmin(userId))) {
+      return ApiResponseBuilder.forbidden('Managing workflow templates requires the Admin role');
+    }
+
+    const result = await WorkflowTemplateService.deleteTemplate(params.templateId, tenantId);
+
+    return ApiResponseBuilder.success(result);
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Template not found')) {
+      return ApiResponseBuilder.notFound(error.message);
+    }
+
+    console.error('Failed to delete workflow template:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Stage Responsibility Endpoint
+ * DELETE /api/workflows/templates/:templateId/stages/:stageId/responsibilities/:responsibilityId - Remove a responsibility (admin)
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { RBACService } from '@/lib/services/rbac-service';
+import { WorkflowStageService } from '@/lib/services/workflow-service';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { templateId: string; stageId: string; responsibilityId: string } }
+) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    if (!(await RBACService.isAdmin(userId))) {
+      return ApiResponseBuilder.forbidden('Managing workflow templates requires the Admin role');
+    }
+
+    await WorkflowStageService.getTemplateStage(params.templateId, params.stageId, tenantId);
+    await WorkflowStageService.removeResponsibility(params.stageId, params.responsibilityId);
+
+    return ApiResponseBuilder.success({ deleted: true });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (
+        error.message.startsWith('Stage not found') ||
+        error.message.startsWith('Responsibility not found')
+      ) {
+        return ApiResponseBuilder.notFound(error.message);
+      }
+      if (error.message.includes('cannot be edited')) {
+        return ApiResponseBuilder.error(error.message, 409);
+      }
+    }
+
+    console.error('Failed to remove stage responsibility:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
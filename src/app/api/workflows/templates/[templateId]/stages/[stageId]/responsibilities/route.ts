@@ -0,0 +1,90 @@
+/**
+ * Stage Responsibility Endpoints
+ * GET /api/workflows/templates/:templateId/stages/:stageId/responsibilities - List who approves a stage
+ * POST /api/workflows/templates/:templateId/stages/:stageId/responsibilities - Add a responsibility (admin)
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { RBACService } from '@/lib/services/rbac-service';
+import { WorkflowStageService } from '@/lib/services/workflow-service';
+import { stageResponsibilityCreateSchema } from '@/lib/validation/workflow-schema';
+import { CreateStageResponsibilityRequest } from '@/types/workflow';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { templateId: string; stageId: string } }
+) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+
+    if (!tenantId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const stage = await WorkflowStageService.getTemplateStage(
+      params.templateId,
+      params.stageId,
+      tenantId
+    );
+
+    return ApiResponseBuilder.success(stage.responsibilities || []);
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Stage not found')) {
+      return ApiResponseBuilder.notFound(error.message);
+    }
+
+    console.error('Failed to list stage responsibilities:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { templateId: string; stageId: string } }
+) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    if (!(await RBACService.isAdmin(userId))) {
+      return ApiResponseBuilder.forbidden('Managing workflow templates requires the Admin role');
+    }
+
+    const parsed = stageResponsibilityCreateSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+
+    await WorkflowStageService.getTemplateStage(params.templateId, params.stageId, tenantId);
+    const responsibility = await WorkflowStageService.addResponsibility({
+      ...(parsed.data as Omit<CreateStageResponsibilityRequest, 'stageId'>),
+      stageId: params.stageId,
+    });
+
+    return ApiResponseBuilder.success(responsibility, 201);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ApiResponseBuilder.badRequest('Request body must be valid JSON');
+    }
+
+    if (error instanceof Error) {
+      if (error.message.startsWith('Stage not found')) {
+        return ApiResponseBuilder.notFound(error.message);
+      }
+      if (error.message.includes('cannot be edited')) {
+        return ApiResponseBuilder.error(error.message, 409);
+      }
+    }
+
+    console.error('Failed to add stage responsibility:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
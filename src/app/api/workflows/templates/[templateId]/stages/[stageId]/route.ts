@@ -0,0 +1,100 @@
+/**
+ * Workflow Stage Endpoint
+ * PATCH /api/workflows/templates/:templateId/stages/:stageId - Update a stage of a draft template (admin)
+ * DELETE /api/workflows/templates/:templateId/stages/:stageId - Delete a stage of a draft template (admin)
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { RBACService } from '@/lib/services/rbac-service';
+import { WorkflowStageService } from '@/lib/services/workflow-service';
+import { workflowStageUpdateSchema } from '@/lib/validation/workflow-schema';
+import { UpdateWorkflowStageRequest } from '@/types/workflow';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { templateId: string; stageId: string } }
+) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    if (!(await RBACService.isAdmin(userId))) {
+      return ApiResponseBuilder.forbidden('Managing workflow templates requires the Admin role');
+    }
+
+    const parsed = workflowStageUpdateSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+
+    await WorkflowStageService.getTemplateStage(params.templateId, params.stageId, tenantId);
+    const stage = await WorkflowStageService.updateStage(
+      params.stageId,
+      parsed.data as UpdateWorkflowStageRequest
+    );
+
+    return ApiResponseBuilder.success(stage);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ApiResponseBuilder.badRequest('Request body must be valid JSON');
+    }
+
+    if (error instanceof Error) {
+      if (error.message.startsWith('Stage not found')) {
+        return ApiResponseBuilder.notFound(error.message);
+      }
+      if (error.message.includes('cannot be edited')) {
+        return ApiResponseBuilder.error(error.message, 409);
+      }
+      if (error.message.startsWith('Quorum stages require')) {
+        return ApiResponseBuilder.badRequest(error.message);
+      }
+    }
+
+    console.error('Failed to update workflow stage:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { templateId: string; stageId: string } }
+) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    if (!(await RBACService.isAdmin(userId))) {
+      return ApiResponseBuilder.forbidden('Managing workflow templates requires the Admin role');
+    }
+
+    await WorkflowStageService.getTemplateStage(params.templateId, params.stageId, tenantId);
+    await WorkflowStageService.deleteStage(params.stageId);
+
+    return ApiResponseBuilder.success({ deleted: true });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.startsWith('Stage not found')) {
+        return ApiResponseBuilder.notFound(error.message);
+      }
+      if (error.message.includes('cannot be edited')) {
+        return ApiResponseBuilder.error(error.message, 409);
+      }
+    }
+
+    console.error('Failed to delete workflow stage:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
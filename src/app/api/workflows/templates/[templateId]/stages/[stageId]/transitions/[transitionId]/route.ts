@@ -0,0 +1,112 @@
+/**
+ * Stage Transition Endpoint
+ * PATCH /api/workflows/templates/:templateId/stages/:stageId/transitions/:transitionId - Update a transition (admin)
+ * DELETE /api/workflows/templates/:templateId/stages/:stageId/transitions/:transitionId - Remove a transition (admin)
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { RBACService } from '@/lib/services/rbac-service';
+import { StageTransitionService } from '@/lib/services/stage-transition-service';
+import { WorkflowStageService } from '@/lib/services/workflow-service';
+import { stageTransitionUpdateSchema } from '@/lib/validation/workflow-schema';
+import { UpdateStageTransitionRequest } from '@/types/workflow';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { templateId: string; stageId: string; transitionId: string } }
+) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    if (!(await RBACService.isAdmin(userId))) {
+      return ApiResponseBuilder.forbidden('Managing workflow templates requires the Admin role');
+    }
+
+    const parsed = stageTransitionUpdateSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+
+    await WorkflowStageService.getTemplateStage(params.templateId, params.stageId, tenantId);
+    const transition = await StageTransitionService.updateTransition(
+      params.stageId,
+      params.transitionId,
+      parsed.data as UpdateStageTransitionRequest
+    );
+
+    return ApiResponseBuilder.success(transition);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ApiResponseBuilder.badRequest('Request body must be valid JSON');
+    }
+
+    if (error instanceof Error) {
+      if (
+        error.message.startsWith('Stage not found') ||
+        error.message.startsWith('Transition not found')
+      ) {
+        return ApiResponseBuilder.notFound(error.message);
+      }
+      if (
+        error.message.startsWith('Target stage not found') ||
+        error.message.startsWith('Invalid transition condition') ||
+        error.message.startsWith('Transition would create a routing loop')
+      ) {
+        return ApiResponseBuilder.badRequest(error.message);
+      }
+      if (error.message.includes('cannot be edited')) {
+        return ApiResponseBuilder.error(error.message, 409);
+      }
+    }
+
+    console.error('Failed to update stage transition:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { templateId: string; stageId: string; transitionId: string } }
+) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    if (!(await RBACService.isAdmin(userId))) {
+      return ApiResponseBuilder.forbidden('Managing workflow templates requires the Admin role');
+    }
+
+    await WorkflowStageService.getTemplateStage(params.templateId, params.stageId, tenantId);
+    await StageTransitionService.deleteTransition(params.stageId, params.transitionId);
+
+    return ApiResponseBuilder.success({ deleted: true });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (
+        error.message.startsWith('Stage not found') ||
+        error.message.startsWith('Transition not found')
+      ) {
+        return ApiResponseBuilder.notFound(error.message);
+      }
+      if (error.message.includes('cannot be edited')) {
+        return ApiResponseBuilder.error(error.message, 409);
+      }
+    }
+
+    console.error('Failed to remove stage transition:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
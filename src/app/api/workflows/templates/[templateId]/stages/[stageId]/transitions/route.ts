@@ -0,0 +1,95 @@
+/**
+ * Stage Transition Endpoints
+ * GET /api/workflows/templates/:templateId/stages/:stageId/transitions - List transitions out of a stage
+ * POST /api/workflows/templates/:templateId/stages/:stageId/transitions - Add a transition (admin)
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { RBACService } from '@/lib/services/rbac-service';
+import { StageTransitionService } from '@/lib/services/stage-transition-service';
+import { WorkflowStageService } from '@/lib/services/workflow-service';
+import { stageTransitionCreateSchema } from '@/lib/validation/workflow-schema';
+import { CreateStageTransitionRequest } from '@/types/workflow';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { templateId: string; stageId: string } }
+) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+
+    if (!tenantId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    await WorkflowStageService.getTemplateStage(params.templateId, params.stageId, tenantId);
+    const transitions = await StageTransitionService.getTransitionsForStage(params.stageId);
+
+    return ApiResponseBuilder.success(transitions);
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Stage not found')) {
+      return ApiResponseBuilder.notFound(error.message);
+    }
+
+    console.error('Failed to list stage transitions:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { templateId: string; stageId: string } }
+) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    if (!(await RBACService.isAdmin(userId))) {
+      return ApiResponseBuilder.forbidden('Managing workflow templates requires the Admin role');
+    }
+
+    const parsed = stageTransitionCreateSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+
+    await WorkflowStageService.getTemplateStage(params.templateId, params.stageId, tenantId);
+    const transition = await StageTransitionService.createTransition({
+      ...(parsed.data as Omit<CreateStageTransitionRequest, 'fromStageId'>),
+      fromStageId: params.stageId,
+    });
+
+    return ApiResponseBuilder.success(transition, 201);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ApiResponseBuilder.badRequest('Request body must be valid JSON');
+    }
+
+    if (error instanceof Error) {
+      if (error.message.startsWith('Stage not found')) {
+        return ApiResponseBuilder.notFound(error.message);
+      }
+      if (
+        error.message.startsWith('Target stage not found') ||
+        error.message.startsWith('Invalid transition condition') ||
+        error.message.startsWith('Transition would create a routing loop')
+      ) {
+        return ApiResponseBuilder.badRequest(error.message);
+      }
+      if (error.message.includes('cannot be edited')) {
+        return ApiResponseBuilder.error(error.message, 409);
+      }
+    }
+
+    console.error('Failed to add stage transition:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
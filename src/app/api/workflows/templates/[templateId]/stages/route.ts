@@ -0,0 +1,84 @@
+/**
+ * Workflow Stage Endpoints
+ * GET /api/workflows/templates/:templateId/stages - List a template's stages in order
+ * POST /api/workflows/templates/:templateId/stages - Add a stage to a draft template (admin)
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { RBACService } from '@/lib/services/rbac-service';
+import { WorkflowStageService, WorkflowTemplateService } from '@/lib/services/workflow-service';
+import { workflowStageCreateSchema } from '@/lib/validation/workflow-schema';
+import { CreateWorkflowStageRequest } from '@/types/workflow';
+
+export async function GET(request: NextRequest, { params }: { params: { templateId: string } }) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+
+    if (!tenantId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    await WorkflowTemplateService.getTenantTemplate(params.templateId, tenantId);
+    const stages = await WorkflowStageService.getStagesForTemplate(params.templateId);
+
+    return ApiResponseBuilder.success(stages);
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Template not found')) {
+      return ApiResponseBuilder.notFound(error.message);
+    }
+
+    console.error('Failed to list workflow stages:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
+
+export async function POST(request: NextRequest, { params }: { params: { templateId: string } }) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    if (!(await RBACService.isAdmin(userId))) {
+      return ApiResponseBuilder.forbidden('Managing workflow templates requires the Admin role');
+    }
+
+    const parsed = workflowStageCreateSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+
+    await WorkflowTemplateService.getTenantTemplate(params.templateId, tenantId);
+    const stage = await WorkflowStageService.createStage({
+      ...(parsed.data as Omit<CreateWorkflowStageRequest, 'workflowTemplateId'>),
+      workflowTemplateId: params.templateId,
+    });
+
+    return ApiResponseBuilder.success(stage, 201);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ApiResponseBuilder.badRequest('Request body must be valid JSON');
+    }
+
+    if (error instanceof Error) {
+      if (error.message.startsWith('Template not found')) {
+        return ApiResponseBuilder.notFound(error.message);
+      }
+      if (error.message.includes('cannot be edited')) {
+        return ApiResponseBuilder.error(error.message, 409);
+      }
+      if (error.message.startsWith('Quorum stages require')) {
+        return ApiResponseBuilder.badRequest(error.message);
+      }
+    }
+
+    console.error('Failed to create workflow stage:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
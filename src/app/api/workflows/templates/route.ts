@@ -0,0 +1,91 @@
+/**
+ * Workflow Template Endpoints
+ * GET /api/workflows/templates - List templates
+ * POST /api/workflows/templates - Create a draft template (admin); publish it with POST :templateId/publish
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiResponseBuilder, RequestValidator } from '@/lib/api/response';
+import { RBACService } from '@/lib/services/rbac-service';
+import { WorkflowTemplateService } from '@/lib/services/workflow-service';
+import { workflowTemplateCreateSchema } from '@/lib/validation/workflow-schema';
+import {
+  ComplexityBand,
+  CreateWorkflowTemplateRequest,
+  EntityType,
+  TemplateVersionStatus,
+} from '@/types/workflow';
+
+export async function GET(request: NextRequest) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+
+    if (!tenantId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { skip, take } = RequestValidator.validatePagination(
+      parseInt(searchParams.get('skip') || '0'),
+      parseInt(searchParams.get('take') || '20')
+    );
+    const entityType = searchParams.get('entityType') as EntityType | null;
+    const complexityBand = searchParams.get('complexityBand') as ComplexityBand | null;
+    const status = searchParams.get('status') as TemplateVersionStatus | null;
+    const isDefault = searchParams.get('isDefault');
+
+    const { templates, total } = await WorkflowTemplateService.listTemplates({
+      tenantId,
+      ...(entityType && { entityType }),
+      ...(complexityBand && { complexityBand }),
+      ...(status && { status }),
+      ...(isDefault !== null && { isDefault: isDefault === 'true' }),
+      isActive: searchParams.get('isActive') !== 'false',
+      skip,
+      take,
+    });
+
+    return ApiResponseBuilder.paginated(templates, total, skip, take);
+  } catch (error) {
+    console.error('Failed to list workflow templates:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const tenantId = RequestValidator.getTenantId(request.headers);
+    const userId = RequestValidator.getUserId(request.headers);
+
+    if (!tenantId || !userId) {
+      return ApiResponseBuilder.unauthorized();
+    }
+
+    if (!(await RBACService.isAdmin(userId))) {
+      return ApiResponseBuilder.forbidden('Managing workflow templates requires the Admin role');
+    }
+
+    const parsed = workflowTemplateCreateSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return ApiResponseBuilder.badRequest(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+
+    const template = await WorkflowTemplateService.createTemplate(
+      tenantId,
+      parsed.data as CreateWorkflowTemplateRequest,
+      userId
+    );
+
+    return ApiResponseBuilder.success(template, 201);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ApiResponseBuilder.badRequest('Request body must be valid JSON');
+    }
+
+    console.error('Failed to create workflow template:', error);
+    return ApiResponseBuilder.internalError();
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Next.js instrumentation hook
+ * Starts background jobs once per Node.js server process
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  const { config } = await import('@/lib/config');
+  const { SchedulerService } = await import('@/lib/services/scheduler-service');
+
+  if (config.scheduler.enableSlaSweep) {
+    const { SLASweeperService } = await import('@/lib/services/sla-sweeper-service');
+
+    SchedulerService.start(SLASweeperService.createJob(config.scheduler.slaSweepIntervalMinutes));
+  }
+
+  if (config.scheduler.enableNotificationDispatch) {
+    const { getNotificationChannels } = await import('@/lib/notifications/channels');
+    const { NotificationDispatcherService } = await import(
+      '@/lib/services/notification-dispatcher-service'
+    );
+
+    SchedulerService.start(
+      NotificationDispatcherService.createJob(
+        await getNotificationChannels(),
+        config.scheduler.notificationDispatchIntervalSeconds
+      )
+    );
+  }
+}
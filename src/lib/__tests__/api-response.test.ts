@@ -66,6 +66,37 @@ describe('API Response Utilities', () => {
 
       expect(response.status).toBe(200);
     });
+
+    it('should include an error code when provided', async () => {
+      const response = ApiResponseBuilder.error('Comment required', 400, 'CommentRequired');
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        success: false,
+        error: 'Comment required',
+        code: 'CommentRequired',
+      });
+    });
+
+    it('should include details for the caller when provided', async () => {
+      const response = ApiResponseBuilder.error('Not an approver', 403, 'PermissionDenied', {
+        eligibleApprovers: [],
+      });
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toEqual({
+        success: false,
+        error: 'Not an approver',
+        code: 'PermissionDenied',
+        data: { eligibleApprovers: [] },
+      });
+    });
+
+    it('should omit the error code when not provided', async () => {
+      const response = ApiResponseBuilder.badRequest('Invalid input');
+
+      expect(await response.json()).toEqual({ success: false, error: 'Invalid input' });
+    });
   });
 
   describe('RequestValidator', () => {
@@ -0,0 +1,293 @@
+/**
+ * Attachment Tests
+ * Tests for attachment validation, the attachment service and local file storage
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+const db = vi.hoisted(() => ({
+  workflowInstance: { findUnique: vi.fn() },
+  attachment: {
+    create: vi.fn(async ({ data }: any) => ({ id: 'attachment-1', ...data })),
+    findFirst: vi.fn(),
+    findMany: vi.fn(),
+    updateMany: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+const storage = vi.hoisted(() => ({ put: vi.fn(), get: vi.fn(), delete: vi.fn() }));
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: vi.fn(() => db),
+}));
+vi.mock('@/lib/storage/file-storage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/storage/file-storage')>()),
+  getFileStorage: vi.fn(async () => storage),
+}));
+vi.mock('../services/audit-log-service', () => ({
+  AuditLogService: { logWorkflowAction: vi.fn() },
+}));
+vi.mock('../services/stage-responsibility-service', () => ({
+  StageResponsibilityService: { isActiveTenantUser: vi.fn(async () => true) },
+}));
+
+import { attachmentUploadSchema, MAX_ATTACHMENT_SIZE_BYTES } from '../validation/attachment-schema';
+import { AttachmentService } from '../services/attachment-service';
+import { AuditLogService } from '../services/audit-log-service';
+import { FileStorage, LocalFileStorage } from '@/lib/storage/file-storage';
+
+const PDF = Buffer.from('%PDF-1.7\n', 'ascii');
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const ZIP = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00]);
+
+describe('attachmentUploadSchema', () => {
+  it('should accept allowed documents, images and archives', () => {
+    expect(
+      attachmentUploadSchema.safeParse({
+        fileName: 'business-case.pdf',
+        mimeType: 'application/pdf',
+        content: PDF,
+      }).success
+    ).toBe(true);
+    expect(
+      attachmentUploadSchema.safeParse({
+        fileName: 'Budget.XLSX',
+        mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        content: ZIP,
+      }).success
+    ).toBe(true);
+    expect(
+      attachmentUploadSchema.safeParse({
+        fileName: 'site.png',
+        mimeType: 'image/png',
+        content: PNG,
+      }).success
+    ).toBe(true);
+  });
+
+  it('should reject types outside the allowed list', () => {
+    const result = attachmentUploadSchema.safeParse({
+      fileName: 'script.exe',
+      mimeType: 'application/x-msdownload',
+      content: Buffer.from([0x4d, 0x5a]),
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject extensions that do not match the type', () => {
+    const result = attachmentUploadSchema.safeParse({
+      fileName: 'report.png',
+      mimeType: 'application/pdf',
+      content: PDF,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]?.message).toContain('does not match type');
+  });
+
+  it('should reject content that does not match the declared type', () => {
+    const result = attachmentUploadSchema.safeParse({
+      fileName: 'report.pdf',
+      mimeType: 'application/pdf',
+      content: PNG,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]?.path).toEqual(['content']);
+  });
+
+  it('should reject empty files, oversized files and path separators', () => {
+    expect(
+      attachmentUploadSchema.safeParse({
+        fileName: 'empty.pdf',
+        mimeType: 'application/pdf',
+        content: Buffer.alloc(0),
+      }).success
+    ).toBe(false);
+
+    const oversized = Buffer.alloc(MAX_ATTACHMENT_SIZE_BYTES + 1);
+    PDF.copy(oversized);
+    expect(
+      attachmentUploadSchema.safeParse({
+        fileName: 'large.pdf',
+        mimeType: 'application/pdf',
+        content: oversized,
+      }).success
+    ).toBe(false);
+
+    expect(
+      attachmentUploadSchema.safeParse({
+        fileName: '../../etc/passwd.pdf',
+        mimeType: 'application/pdf',
+        content: PDF,
+      }).success
+    ).toBe(false);
+  });
+});
+
+const instance = (status: string) => ({
+  id: 'instance-1',
+  status,
+  currentStageId: 'stage-1',
+  template: { tenantId: 'tenant-1' },
+});
+
+const upload = { fileName: 'business-case.pdf', mimeType: 'application/pdf', content: PDF };
+
+describe('AttachmentService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.workflowInstance.findUnique.mockResolvedValue(instance('InProgress'));
+  });
+
+  it('should store an upload against the current stage', async () => {
+    const attachment = await AttachmentService.uploadAttachment(
+      'tenant-1',
+      'instance-1',
+      upload,
+      'user-1'
+    );
+
+    const [storageKey] = storage.put.mock.calls[0]!;
+    expect(storageKey).toMatch(/^tenant-1\/instance-1\/[0-9a-f-]{36}$/);
+    expect(db.attachment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        stageId: 'stage-1',
+        sizeBytes: PDF.length,
+        checksum: expect.stringMatching(/^[0-9a-f]{64}$/),
+        storageKey,
+        uploadedBy: 'user-1',
+      }),
+    });
+    expect(attachment.id).toBe('attachment-1');
+    expect(AuditLogService.logWorkflowAction).toHaveBeenCalledWith(
+      'tenant-1',
+      'instance-1',
+      'AttachmentAdded',
+      'user-1',
+      expect.objectContaining({ attachmentId: 'attachment-1' })
+    );
+  });
+
+  it('should accept uploads while a returned workflow is revised', async () => {
+    db.workflowInstance.findUnique.mockResolvedValue(instance('Returned'));
+
+    await expect(
+      AttachmentService.uploadAttachment('tenant-1', 'instance-1', upload, 'user-1')
+    ).resolves.toBeDefined();
+  });
+
+  it('should reject uploads to a closed workflow without storing the file', async () => {
+    for (const status of ['Approved', 'Rejected', 'Cancelled', 'Withdrawn']) {
+      db.workflowInstance.findUnique.mockResolvedValue(instance(status));
+
+      await expect(
+        AttachmentService.uploadAttachment('tenant-1', 'instance-1', upload, 'user-1')
+      ).rejects.toThrow(`Attachments cannot be added to a ${status} workflow`);
+    }
+
+    expect(storage.put).not.toHaveBeenCalled();
+  });
+
+  it('should reject an instance of another tenant', async () => {
+    db.workflowInstance.findUnique.mockResolvedValue({
+      ...instance('InProgress'),
+      template: { tenantId: 'tenant-2' },
+    });
+
+    await expect(
+      AttachmentService.uploadAttachment('tenant-1', 'instance-1', upload, 'user-1')
+    ).rejects.toThrow('Workflow instance not found');
+  });
+
+  it('should remove the stored file when the record cannot be created', async () => {
+    db.attachment.create.mockRejectedValueOnce(new Error('Connection lost'));
+
+    await expect(
+      AttachmentService.uploadAttachment('tenant-1', 'instance-1', upload, 'user-1')
+    ).rejects.toThrow('Connection lost');
+    expect(storage.delete).toHaveBeenCalledWith(storage.put.mock.calls[0]![0]);
+  });
+
+  it('should only let the uploader delete a pending attachment', async () => {
+    db.attachment.findFirst.mockResolvedValue({
+      id: 'attachment-1',
+      workflowInstanceId: 'instance-1',
+      fileName: 'business-case.pdf',
+      storageKey: 'tenant-1/instance-1/key',
+      uploadedBy: 'user-1',
+      stageActionId: null,
+    });
+
+    await expect(
+      AttachmentService.deleteAttachment('attachment-1', 'tenant-1', 'user-2')
+    ).rejects.toThrow('Only the uploader');
+
+    await AttachmentService.deleteAttachment('attachment-1', 'tenant-1', 'user-1');
+    expect(storage.delete).toHaveBeenCalledWith('tenant-1/instance-1/key');
+
+    db.attachment.findFirst.mockResolvedValue({
+      id: 'attachment-1',
+      uploadedBy: 'user-1',
+      stageActionId: 'action-1',
+    });
+    await expect(
+      AttachmentService.deleteAttachment('attachment-1', 'tenant-1', 'user-1')
+    ).rejects.toThrow('submitted with an action');
+  });
+
+  it('should name the attachments that cannot be submitted', async () => {
+    db.attachment.findMany.mockResolvedValue([{ id: 'attachment-1' }]);
+
+    await expect(
+      AttachmentService.getSubmittableAttachments('instance-1', 'stage-1', 'user-1', [
+        'attachment-1',
+        'attachment-2',
+      ])
+    ).rejects.toThrow('Attachments not available for this action: attachment-2');
+  });
+
+  it('should fail the action when another action linked an attachment first', async () => {
+    db.attachment.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(
+      AttachmentService.linkToAction(['attachment-1', 'attachment-2'], 'action-1')
+    ).rejects.toThrow('already linked to another action');
+    expect(db.attachment.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['attachment-1', 'attachment-2'] }, stageActionId: null },
+      data: { stageActionId: 'action-1' },
+    });
+
+    db.attachment.updateMany.mockResolvedValue({ count: 2 });
+    await expect(
+      AttachmentService.linkToAction(['attachment-1', 'attachment-2'], 'action-1')
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe('LocalFileStorage', () => {
+  it('should store, read and delete files under its root', async () => {
+    const root = await mkdtemp(path.join(tmpdir(), 'attachments-'));
+    const local: FileStorage = new LocalFileStorage(root);
+
+    try {
+      await local.put('tenant-1/file', PDF, 'application/pdf');
+      expect(await local.get('tenant-1/file')).toEqual(PDF);
+
+      await local.delete('tenant-1/file');
+      await expect(local.get('tenant-1/file')).rejects.toThrow();
+      await expect(local.put('../outside', PDF, 'application/pdf')).rejects.toThrow(
+        'Invalid storage key'
+      );
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+});
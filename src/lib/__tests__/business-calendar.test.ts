@@ -0,0 +1,206 @@
+/**
+ * Business Calendar Tests
+ * Tests for working-hour due dates, elapsed working time and calendar-aware SLA compliance
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { BusinessCalendarService } from '../services/business-calendar-service';
+import { SLAManagementService } from '../services/sla-management-service';
+import { workCalendarUpdateSchema } from '../validation/calendar-schema';
+import { WorkCalendar } from '@/types/calendar';
+
+// Sunday–Thursday week in Riyadh (UTC+3, no daylight saving)
+const sundayToThursday: WorkCalendar = {
+  timezone: 'Asia/Riyadh',
+  workDays: [0, 1, 2, 3, 4],
+  workStart: '00:00',
+  workEnd: '24:00',
+  holidays: [],
+};
+
+const officeHours: WorkCalendar = {
+  ...sundayToThursday,
+  workStart: '08:00',
+  workEnd: '16:00',
+};
+
+// 2026-01-07 is a Wednesday; 10:00 in Riyadh
+const wednesdayMorning = new Date('2026-01-07T07:00:00Z');
+
+describe('BusinessCalendarService.addWorkingHours', () => {
+  it('should skip the weekend for a 48h SLA started on Wednesday', () => {
+    const due = BusinessCalendarService.addWorkingHours(wednesdayMorning, 48, sundayToThursday);
+
+    // 14h Wednesday + 24h Thursday + 10h Sunday
+    expect(due).toEqual(new Date('2026-01-11T07:00:00Z'));
+  });
+
+  it('should only count working hours', () => {
+    const due = BusinessCalendarService.addWorkingHours(wednesdayMorning, 16, officeHours);
+
+    // 6h Wednesday + 8h Thursday + 2h Sunday
+    expect(due).toEqual(new Date('2026-01-11T07:00:00Z'));
+  });
+
+  it('should start counting at the beginning of the working day', () => {
+    const due = BusinessCalendarService.addWorkingHours(
+      new Date('2026-01-07T03:00:00Z'),
+      2,
+      officeHours
+    );
+
+    expect(due).toEqual(new Date('2026-01-07T07:00:00Z'));
+  });
+
+  it('should skip public holidays', () => {
+    const due = BusinessCalendarService.addWorkingHours(wednesdayMorning, 16, {
+      ...officeHours,
+      holidays: [{ date: '2026-01-11', name: 'Public holiday' }],
+    });
+
+    expect(due).toEqual(new Date('2026-01-12T07:00:00Z'));
+  });
+
+  it('should follow daylight saving changes in the tenant timezone', () => {
+    const due = BusinessCalendarService.addWorkingHours(
+      new Date('2026-03-06T20:00:00Z'), // Friday 15:00 EST
+      4,
+      {
+        timezone: 'America/New_York',
+        workDays: [1, 2, 3, 4, 5],
+        workStart: '09:00',
+        workEnd: '17:00',
+        holidays: [],
+      }
+    );
+
+    // Monday 11:00 EDT
+    expect(due).toEqual(new Date('2026-03-09T15:00:00Z'));
+  });
+
+  it('should use wall-clock hours for an around-the-clock calendar', () => {
+    const calendar = BusinessCalendarService.resolveCalendar({ timezone: 'UTC' });
+
+    expect(BusinessCalendarService.addWorkingHours(wednesdayMorning, 48, calendar)).toEqual(
+      new Date('2026-01-09T07:00:00Z')
+    );
+  });
+});
+
+describe('BusinessCalendarService.workingHoursBetween', () => {
+  it('should exclude non-working time', () => {
+    expect(
+      BusinessCalendarService.workingHoursBetween(
+        wednesdayMorning,
+        new Date('2026-01-11T07:00:00Z'),
+        officeHours
+      )
+    ).toBe(16);
+  });
+
+  it('should be negative when the end is before the start', () => {
+    expect(
+      BusinessCalendarService.workingHoursBetween(
+        new Date('2026-01-11T07:00:00Z'),
+        wednesdayMorning,
+        sundayToThursday
+      )
+    ).toBe(-48);
+  });
+
+  it('should count nothing over a weekend', () => {
+    expect(
+      BusinessCalendarService.workingHoursBetween(
+        new Date('2026-01-08T21:00:00Z'), // Friday 00:00 Riyadh
+        new Date('2026-01-10T21:00:00Z'), // Sunday 00:00 Riyadh
+        sundayToThursday
+      )
+    ).toBe(0);
+  });
+});
+
+describe('BusinessCalendarService.resolveCalendar', () => {
+  it('should default to an around-the-clock calendar in the tenant timezone', () => {
+    const calendar = BusinessCalendarService.resolveCalendar({
+      timezone: 'Asia/Riyadh',
+      currency: 'SAR',
+    });
+
+    expect(calendar.timezone).toBe('Asia/Riyadh');
+    expect(BusinessCalendarService.isAlwaysOpen(calendar)).toBe(true);
+  });
+
+  it('should read the working calendar from tenant settings', () => {
+    const calendar = BusinessCalendarService.resolveCalendar({
+      timezone: 'Asia/Riyadh',
+      workCalendar: { workDays: [0, 1, 2, 3, 4], workStart: '08:00', workEnd: '16:00' },
+    });
+
+    expect(calendar).toEqual(officeHours);
+  });
+
+  it('should fall back for invalid settings', () => {
+    const calendar = BusinessCalendarService.resolveCalendar({
+      timezone: 'Mars/Olympus',
+      workCalendar: { workDays: [], workStart: '17:00', workEnd: '09:00' },
+    });
+
+    expect(calendar.timezone).toBe('UTC');
+    expect(BusinessCalendarService.isAlwaysOpen(calendar)).toBe(true);
+  });
+});
+
+describe('workCalendarUpdateSchema', () => {
+  it('should reject unknown timezones and malformed times', () => {
+    expect(workCalendarUpdateSchema.safeParse({ timezone: 'Mars/Olympus' }).success).toBe(false);
+    expect(workCalendarUpdateSchema.safeParse({ workStart: '8am' }).success).toBe(false);
+  });
+
+  it('should reject duplicate holiday dates', () => {
+    expect(
+      workCalendarUpdateSchema.safeParse({
+        holidays: [
+          { date: '2026-09-23', name: 'National Day' },
+          { date: '2026-09-23', name: 'National Day (observed)' },
+        ],
+      }).success
+    ).toBe(false);
+  });
+});
+
+describe('SLAManagementService.calculateSLACompliance with a working calendar', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const instance = {
+    id: 'workflow-1',
+    currentStageId: 'stage-1',
+    currentStageStarted: wednesdayMorning,
+    slaDue: BusinessCalendarService.addWorkingHours(wednesdayMorning, 48, sundayToThursday),
+    currentStage: { id: 'stage-1', name: 'Approval', slaHours: 48 },
+  };
+
+  it('should not count the weekend towards SLA time', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-10T09:00:00Z')); // Saturday noon in Riyadh
+
+    const compliance = SLAManagementService.calculateSLACompliance(instance, sundayToThursday);
+
+    expect(compliance.isOverdue).toBe(false);
+    expect(compliance.currentStatus).toBe('Warning');
+    expect(compliance.hoursUsed).toBe(38);
+    expect(compliance.hoursRemaining).toBe(10);
+    expect(compliance.percentageUsed).toBe(79);
+  });
+
+  it('should breach once the working-hour due date passes', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-11T09:00:00Z')); // Sunday 12:00 in Riyadh
+
+    const compliance = SLAManagementService.calculateSLACompliance(instance, sundayToThursday);
+
+    expect(compliance.currentStatus).toBe('Breached');
+    expect(compliance.hoursBreach).toBe(2);
+  });
+});
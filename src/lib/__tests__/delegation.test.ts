@@ -0,0 +1,180 @@
+/**
+ * Delegation Tests
+ * Tests for delegation matching and delegated vote counting
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const db = vi.hoisted(() => ({
+  approvalDelegation: { findMany: vi.fn() },
+  userRole: { findMany: vi.fn() },
+}));
+
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: vi.fn(() => db),
+}));
+
+import { DelegationService } from '../services/delegation-service';
+import { RBACService } from '../services/rbac-service';
+import { StageApprovalService } from '../services/stage-approval-service';
+
+function delegation(
+  overrides: Partial<Parameters<typeof DelegationService.delegationApplies>[0]> = {}
+) {
+  return {
+    isActive: true,
+    startsAt: new Date('2026-03-01T00:00:00Z'),
+    endsAt: new Date('2026-03-15T00:00:00Z'),
+    templateFamilyIds: [] as string[],
+    scopeType: null,
+    scopeId: null,
+    ...overrides,
+  };
+}
+
+const during = new Date('2026-03-05T12:00:00Z');
+
+describe('DelegationService', () => {
+  describe('delegationApplies', () => {
+    it('should apply an unrestricted delegation within its date range', () => {
+      expect(DelegationService.delegationApplies(delegation(), { at: during })).toBe(true);
+    });
+
+    it('should not apply outside the date range or once revoked', () => {
+      expect(
+        DelegationService.delegationApplies(delegation(), {
+          at: new Date('2026-03-15T00:00:00Z'),
+        })
+      ).toBe(false);
+      expect(
+        DelegationService.delegationApplies(delegation(), {
+          at: new Date('2026-02-28T23:59:59Z'),
+        })
+      ).toBe(false);
+      expect(
+        DelegationService.delegationApplies(delegation({ isActive: false }), { at: during })
+      ).toBe(false);
+    });
+
+    it('should restrict delegations to the listed template families', () => {
+      const limited = delegation({ templateFamilyIds: ['family-1'] });
+
+      expect(
+        DelegationService.delegationApplies(limited, { at: during, templateFamilyId: 'family-1' })
+      ).toBe(true);
+      expect(
+        DelegationService.delegationApplies(limited, { at: during, templateFamilyId: 'family-2' })
+      ).toBe(false);
+      expect(DelegationService.delegationApplies(limited, { at: during })).toBe(false);
+    });
+
+    it('should restrict delegations to a program or project scope', () => {
+      const program = delegation({ scopeType: 'Program', scopeId: 'program-1' });
+      const project = delegation({ scopeType: 'Project', scopeId: 'project-1' });
+
+      expect(
+        DelegationService.delegationApplies(program, {
+          at: during,
+          programId: 'program-1',
+          projectId: 'project-9',
+        })
+      ).toBe(true);
+      expect(
+        DelegationService.delegationApplies(program, { at: during, programId: 'program-2' })
+      ).toBe(false);
+      expect(
+        DelegationService.delegationApplies(project, { at: during, projectId: 'project-1' })
+      ).toBe(true);
+      expect(
+        DelegationService.delegationApplies(project, { at: during, programId: 'program-1' })
+      ).toBe(false);
+    });
+  });
+
+  describe('filterApplicable', () => {
+    it('should keep only delegations covering the context', () => {
+      const result = DelegationService.filterApplicable(
+        [
+          { ...delegation(), delegateId: 'delegate-1' },
+          { ...delegation({ templateFamilyIds: ['family-2'] }), delegateId: 'delegate-2' },
+        ],
+        { at: during, templateFamilyId: 'family-1' }
+      );
+
+      expect(result.map((d) => d.delegateId)).toEqual(['delegate-1']);
+    });
+  });
+
+  describe('getDelegatesForPrincipals', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+    });
+
+    it("should only return delegations and delegates of the principals' tenant", async () => {
+      db.approvalDelegation.findMany.mockResolvedValue([
+        { ...delegation(), principalId: 'sponsor-1', delegateId: 'delegate-1' },
+      ]);
+
+      const delegates = await DelegationService.getDelegatesForPrincipals(
+        ['sponsor-1'],
+        'tenant-1',
+        { at: during }
+      );
+
+      expect(delegates.get('sponsor-1')).toEqual(['delegate-1']);
+      expect(db.approvalDelegation.findMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          tenantId: 'tenant-1',
+          delegate: { tenantId: 'tenant-1', isActive: true, deletedAt: null },
+        }),
+      });
+    });
+  });
+
+  describe('RBACService.getApprovers', () => {
+    it('should include delegates covering the template family only', async () => {
+      db.userRole.findMany.mockResolvedValue([{ userId: 'sponsor-1' }]);
+      db.approvalDelegation.findMany.mockResolvedValue([
+        { ...delegation(), principalId: 'sponsor-1', delegateId: 'delegate-1' },
+        {
+          ...delegation({ templateFamilyIds: ['family-2'] }),
+          principalId: 'sponsor-1',
+          delegateId: 'delegate-2',
+        },
+      ]);
+      vi.useFakeTimers({ now: during });
+
+      const approvers = await RBACService.getApprovers('Global', null, 'tenant-1', 'family-1');
+
+      vi.useRealTimers();
+      expect(approvers).toEqual(['sponsor-1', 'delegate-1']);
+      expect(db.userRole.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ user: { tenantId: 'tenant-1' } }),
+        })
+      );
+    });
+  });
+
+  describe('delegated votes', () => {
+    it('should count a delegate vote for the principal', () => {
+      const actions = [
+        { actorId: 'delegate-1', principalId: 'sponsor-1', action: 'Approved' as const },
+        { actorId: 'user-2', principalId: null, action: 'Approved' as const },
+      ];
+
+      expect(StageApprovalService.hasActorVoted(actions, 'sponsor-1')).toBe(true);
+      expect(StageApprovalService.hasActorVoted(actions, 'delegate-1')).toBe(false);
+
+      const result = StageApprovalService.evaluateApprovalRule(
+        { approvalMode: 'All', requiredApprovals: null },
+        [...actions, { actorId: 'sponsor-1', principalId: null, action: 'Approved' as const }],
+        3
+      );
+
+      expect(result.approvals).toBe(2);
+      expect(result.isMet).toBe(false);
+    });
+  });
+});
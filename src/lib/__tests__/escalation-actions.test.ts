@@ -0,0 +1,338 @@
+/**
+ * Escalation Action Tests
+ * Tests for the Reassign, ChangePriority and TriggerWebhook escalation actions
+ */
+
+import { createHmac } from 'crypto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('@/lib/services/notification-service');
+vi.mock('@/lib/services/audit-log-service');
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+const db = vi.hoisted(() => ({
+  workflowInstance: {
+    findUnique: vi.fn(),
+    update: vi.fn(async ({ data }: any) => data),
+    updateMany: vi.fn(async () => ({ count: 1 })),
+  },
+  escalationEvent: { update: vi.fn(async ({ data }: any) => data) },
+  webhookDelivery: {
+    create: vi.fn(async ({ data }: any) => ({ id: 'delivery-1', createdAt: new Date(), ...data })),
+    update: vi.fn(async ({ data }: any) => ({ id: 'delivery-1', ...data })),
+  },
+}));
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: vi.fn(() => db),
+}));
+
+import { EscalationExecutor } from '@/lib/services/escalation-executor';
+import { EscalationService } from '@/lib/services/escalation-service';
+import { BusinessCalendarService } from '@/lib/services/business-calendar-service';
+import { SLAManagementService } from '@/lib/services/sla-management-service';
+import { WebhookService } from '@/lib/services/webhook-service';
+import { AuditLogService } from '@/lib/services/audit-log-service';
+import { NotificationService } from '@/lib/services/notification-service';
+
+const instance = {
+  id: 'instance-1',
+  currentStageId: 'stage-1',
+  status: 'InProgress',
+  template: { id: 'template-1', name: 'Project Approval' },
+  currentStage: { id: 'stage-1', name: 'Finance Review' },
+};
+
+describe('Escalation actions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('ChangePriority', () => {
+    it('should update the instance priority and record it on the event', async () => {
+      db.workflowInstance.findUnique.mockResolvedValue({ priority: 'Medium' });
+
+      await EscalationExecutor.executeAction(
+        { actionType: 'ChangePriority', newPriority: 'Critical' },
+        instance,
+        'tenant-1',
+        null,
+        'event-1',
+        3
+      );
+
+      expect(db.workflowInstance.update).toHaveBeenCalledWith({
+        where: { id: 'instance-1' },
+        data: { priority: 'Critical' },
+      });
+      expect(db.escalationEvent.update).toHaveBeenCalledWith({
+        where: { id: 'event-1' },
+        data: { previousPriority: 'Medium', newPriority: 'Critical' },
+      });
+      expect(AuditLogService.logWorkflowAction).toHaveBeenCalledWith(
+        'tenant-1',
+        'instance-1',
+        'WorkflowPriorityChanged',
+        null,
+        expect.objectContaining({ newPriority: 'Critical' }),
+        { priority: 'Medium' },
+        { priority: 'Critical' }
+      );
+    });
+
+    it('should ignore an unknown priority', async () => {
+      await EscalationExecutor.executeAction(
+        { actionType: 'ChangePriority', newPriority: 'Urgent' },
+        instance,
+        'tenant-1',
+        null,
+        'event-1',
+        3
+      );
+
+      expect(db.workflowInstance.findUnique).not.toHaveBeenCalled();
+      expect(db.workflowInstance.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Reassign', () => {
+    beforeEach(() => {
+      db.workflowInstance.findUnique.mockResolvedValue({
+        id: 'instance-1',
+        currentStageId: 'stage-1',
+        currentStageStarted: new Date('2026-03-02T09:00:00Z'),
+        assigneeType: null,
+        assigneeValue: null,
+        assignedStageId: null,
+        assignedAt: null,
+      });
+    });
+
+    it('should reassign the current stage to a user and notify them', async () => {
+      await EscalationExecutor.executeAction(
+        { actionType: 'Reassign', reassignToUserId: 'director-1' },
+        instance,
+        'tenant-1',
+        'admin-1',
+        'event-1',
+        3
+      );
+
+      expect(db.workflowInstance.updateMany).toHaveBeenCalledWith({
+        where: { id: 'instance-1', status: 'InProgress', currentStageId: 'stage-1' },
+        data: expect.objectContaining({
+          assigneeType: 'User',
+          assigneeValue: 'director-1',
+          assignedStageId: 'stage-1',
+          assignedAt: expect.any(Date),
+        }),
+      });
+      expect(db.escalationEvent.update).toHaveBeenCalledWith({
+        where: { id: 'event-1' },
+        data: { previousAssigneeId: null, newAssigneeId: 'director-1' },
+      });
+      expect(NotificationService.sendBulkNotifications).toHaveBeenCalledWith(
+        'tenant-1',
+        expect.objectContaining({ userIds: ['director-1'], eventType: 'WorkflowAssigned' })
+      );
+    });
+
+    it('should reassign the current stage to a role', async () => {
+      await EscalationExecutor.executeAction(
+        { actionType: 'Reassign', reassignToRole: 'Management' },
+        instance,
+        'tenant-1',
+        null,
+        'event-1',
+        3
+      );
+
+      expect(db.workflowInstance.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ assigneeType: 'Role', assigneeValue: 'Management' }),
+        })
+      );
+      expect(NotificationService.sendBulkNotifications).not.toHaveBeenCalled();
+    });
+
+    it('should not reassign once the instance has left the stage', async () => {
+      db.workflowInstance.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await EscalationExecutor.executeAction(
+        { actionType: 'Reassign', reassignToUserId: 'director-1' },
+        instance,
+        'tenant-1',
+        null,
+        'event-1',
+        3
+      );
+
+      expect(db.escalationEvent.update).not.toHaveBeenCalled();
+      expect(AuditLogService.logWorkflowAction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('TriggerWebhook', () => {
+    it('should POST the escalation signed with the action secret', async () => {
+      const fetchMock = vi.fn(async () => new Response(null, { status: 204 }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      await EscalationExecutor.executeAction(
+        {
+          actionType: 'TriggerWebhook',
+          webhookUrl: 'https://hooks.example.com/escalations',
+          webhookSecret: 'a-very-secret-signing-key',
+        },
+        instance,
+        'tenant-1',
+        null,
+        'event-1',
+        3
+      );
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+      const headers = init.headers as Record<string, string>;
+      const body = init.body as string;
+
+      expect(url).toBe('https://hooks.example.com/escalations');
+      expect(JSON.parse(body)).toMatchObject({
+        event: 'workflow.escalated',
+        data: { escalationEventId: 'event-1', workflowInstanceId: 'instance-1' },
+      });
+      expect(headers['X-Webhook-Signature']).toBe(
+        `sha256=${createHmac('sha256', 'a-very-secret-signing-key')
+          .update(`${headers['X-Webhook-Timestamp']}.${body}`)
+          .digest('hex')}`
+      );
+      expect(db.webhookDelivery.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ status: 'Delivered', attempts: 1, responseStatus: 204 }),
+        })
+      );
+    });
+  });
+
+  describe('manualEscalate', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should run the rule actions in order before returning', async () => {
+      const order: string[] = [];
+      vi.spyOn(EscalationService, 'getRule').mockResolvedValue({
+        id: 'rule-1',
+        escalationPolicyId: 'policy-1',
+        escalationLevel: 1,
+        triggerType: 'Manual',
+        actions: [{ actionType: 'ChangePriority' }, { actionType: 'TriggerWebhook' }],
+      } as never);
+      db.workflowInstance.findUnique.mockResolvedValue({
+        ...instance,
+        workflowTemplateId: 'template-1',
+        template: { ...instance.template, tenantId: 'tenant-1' },
+      });
+      vi.spyOn(EscalationService, 'logEscalation').mockResolvedValue({
+        id: 'event-1',
+        escalationChainLevel: 1,
+      } as never);
+      vi.spyOn(BusinessCalendarService, 'getTenantCalendar').mockResolvedValue({} as never);
+      vi.spyOn(SLAManagementService, 'getThresholdBands').mockResolvedValue(new Map());
+      vi.spyOn(SLAManagementService, 'calculateSLACompliance').mockReturnValue({
+        hoursBreach: 0,
+      } as never);
+      vi.spyOn(EscalationService, 'listChainsForPolicy').mockResolvedValue([]);
+      vi.spyOn(EscalationExecutor, 'executeAction').mockImplementation(async (action) => {
+        order.push(`start ${action.actionType}`);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        order.push(`end ${action.actionType}`);
+      });
+
+      await EscalationExecutor.manualEscalate(
+        'instance-1',
+        'rule-1',
+        'tenant-1',
+        'admin-1',
+        'Stuck'
+      );
+      order.push('returned');
+
+      expect(order).toEqual([
+        'start ChangePriority',
+        'end ChangePriority',
+        'start TriggerWebhook',
+        'end TriggerWebhook',
+        'returned',
+      ]);
+    });
+  });
+});
+
+describe('WebhookService.deliver', () => {
+  const request = {
+    url: 'https://hooks.example.com/escalations',
+    secret: 'a-very-secret-signing-key',
+    event: 'workflow.escalated',
+    payload: { workflowInstanceId: 'instance-1' },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should retry server errors and network failures until delivered', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(null, { status: 503 }))
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce(new Response(null, { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const delivery = await WebhookService.deliver('tenant-1', request, [0, 0]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(delivery.status).toBe('Delivered');
+    expect(delivery.attempts).toBe(3);
+  });
+
+  it('should log a failed delivery after the last attempt', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response(null, { status: 500 }))
+    );
+
+    const delivery = await WebhookService.deliver('tenant-1', request, [0, 0]);
+
+    expect(delivery.status).toBe('Failed');
+    expect(delivery.attempts).toBe(3);
+    expect(delivery.lastError).toBe('HTTP 500');
+  });
+
+  it('should not retry a request the receiver rejected', async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 400 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const delivery = await WebhookService.deliver('tenant-1', request, [0, 0]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(delivery.status).toBe('Failed');
+    expect(delivery.responseStatus).toBe(400);
+  });
+
+  it('should treat rate limiting and server errors as retryable', () => {
+    expect(WebhookService.isRetryable(null)).toBe(true);
+    expect(WebhookService.isRetryable(429)).toBe(true);
+    expect(WebhookService.isRetryable(502)).toBe(true);
+    expect(WebhookService.isRetryable(404)).toBe(false);
+  });
+});
@@ -5,10 +5,39 @@
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 
-// Mock services (but not Prisma to avoid enum issues)
+// Mock services; Prisma keeps its real exports (to avoid enum issues) with an in-memory client
 vi.mock('@/lib/services/notification-service');
 vi.mock('@/lib/services/audit-log-service');
 
+/* eslint-disable @typescript-eslint/no-explicit-any */
+const db = vi.hoisted(() => ({
+  workflowTemplate: { findFirst: vi.fn(async () => ({ id: 'template-1' })) },
+  escalationPolicy: {
+    findFirst: vi.fn(async () => ({ id: 'policy-1' })),
+    create: vi.fn(async ({ data }: any) => ({ id: 'policy-1', ...data, rules: [] })),
+  },
+  escalationRule: {
+    create: vi.fn(async ({ data: { actions, ...data } }: any) => ({
+      id: 'rule-1',
+      ...data,
+      actions: actions.create,
+    })),
+  },
+  escalationChain: {
+    create: vi.fn(async ({ data }: any) => ({ id: 'chain-1', ...data })),
+  },
+  escalationEvent: {
+    findMany: vi.fn(async () => []),
+    count: vi.fn(async () => 0),
+  },
+}));
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: vi.fn(() => db),
+}));
+
 import { SLAManagementService } from '@/lib/services/sla-management-service';
 import { EscalationService } from '@/lib/services/escalation-service';
 import { EscalationExecutor } from '@/lib/services/escalation-executor';
@@ -159,6 +188,7 @@ describe('Escalation Management System', () => {
 
     it('should create escalation rule', async () => {
       const rule = await EscalationService.createRule(
+        'tenant-1',
         {
           escalationPolicyId: 'policy-1',
           name: 'SLA Breach Escalation',
@@ -189,6 +219,7 @@ describe('Escalation Management System', () => {
 
     it('should create escalation chain', async () => {
       const chain = await EscalationService.createChain(
+        'tenant-1',
         'policy-1',
         'Management Escalation',
         'Escalate to management hierarchy',
@@ -217,7 +248,7 @@ describe('Escalation Management System', () => {
     });
 
     it('should get escalation status for workflow', async () => {
-      const status = await EscalationExecutor.getEscalationStatus('instance-1');
+      const status = await EscalationExecutor.getEscalationStatus('instance-1', 'tenant-1');
 
       expect(status).toBeDefined();
       expect(status.isEscalated).toBe(false);
@@ -248,6 +279,7 @@ describe('Escalation Management System', () => {
 
       // 2. Create rule
       const rule = await EscalationService.createRule(
+        'tenant-1',
         {
           escalationPolicyId: policy.id,
           name: 'Test Rule',
@@ -282,7 +314,10 @@ describe('Escalation Management System', () => {
       expect(compliance.currentStatus).toBe('Breached');
 
       // 4. Check escalation status
-      const escalationStatus = await EscalationExecutor.getEscalationStatus('instance-1');
+      const escalationStatus = await EscalationExecutor.getEscalationStatus(
+        'instance-1',
+        'tenant-1'
+      );
       expect(escalationStatus.isEscalated).toBe(false);
     });
   });
@@ -3,15 +3,59 @@
  * Tests for escalation policies, rules, and event tracking
  */
 
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { EscalationService } from '../services/escalation-service';
 
-// Mock Prisma if needed
+// In-memory stand-in for the Prisma delegates the service uses; created rows echo their data
+/* eslint-disable @typescript-eslint/no-explicit-any */
+const db = vi.hoisted(() => {
+  const echo =
+    (id: string) =>
+    async ({ data }: any) => {
+      const { actions, ...fields } = data;
+      return {
+        id,
+        ...fields,
+        ...(actions && {
+          actions: actions.create.map((a: any, i: number) => ({ id: `a${i}`, ...a })),
+        }),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+    };
+
+  return {
+    echo,
+    workflowTemplate: { findFirst: vi.fn() },
+    workflowInstance: { findUnique: vi.fn() },
+    escalationPolicy: { create: vi.fn(), findFirst: vi.fn() },
+    escalationRule: { create: vi.fn() },
+    escalationChain: { create: vi.fn() },
+    escalationEvent: { create: vi.fn(), findFirst: vi.fn(), count: vi.fn() },
+  };
+});
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
 vi.mock('@prisma/client', () => ({
-  PrismaClient: vi.fn(() => ({})),
+  PrismaClient: vi.fn(() => db),
 }));
 
+const stageStarted = new Date('2026-01-12T09:00:00Z');
+
 describe('Escalation Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.workflowTemplate.findFirst.mockResolvedValue({ id: 'template-1' });
+    db.workflowInstance.findUnique.mockResolvedValue({ currentStageStarted: stageStarted });
+    db.escalationPolicy.findFirst.mockResolvedValue({ id: 'policy-1' });
+    db.escalationPolicy.create.mockImplementation(db.echo('policy-1'));
+    db.escalationRule.create.mockImplementation(db.echo('rule-1'));
+    db.escalationChain.create.mockImplementation(db.echo('chain-1'));
+    db.escalationEvent.create.mockImplementation(db.echo('event-1'));
+    db.escalationEvent.findFirst.mockResolvedValue(null);
+    db.escalationEvent.count.mockResolvedValue(0);
+  });
+
   describe('createPolicy', () => {
     it('should create a new escalation policy', async () => {
       const request = {
@@ -49,7 +93,7 @@ describe('Escalation Service', () => {
       expect(policy.description).toBeNull();
     });
 
-    it('should assign policy ID at creation time', async () => {
+    it('should persist the policy for the tenant', async () => {
       const request = {
         workflowTemplateId: 'template-1',
         name: 'Test Policy',
@@ -57,8 +101,24 @@ describe('Escalation Service', () => {
 
       const policy = await EscalationService.createPolicy('tenant-1', request, 'user-123');
 
-      expect(policy.id).toBeDefined();
-      expect(policy.id).toContain('policy-');
+      expect(policy.id).toBe('policy-1');
+      expect(db.workflowTemplate.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'template-1', tenantId: 'tenant-1' } })
+      );
+      expect(db.escalationPolicy.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject a template of another tenant', async () => {
+      db.workflowTemplate.findFirst.mockResolvedValue(null);
+
+      await expect(
+        EscalationService.createPolicy(
+          'tenant-2',
+          { workflowTemplateId: 'template-1', name: 'Policy' },
+          'user-123'
+        )
+      ).rejects.toThrow('Workflow template not found');
+      expect(db.escalationPolicy.create).not.toHaveBeenCalled();
     });
   });
 
@@ -87,7 +147,7 @@ describe('Escalation Service', () => {
         ],
       };
 
-      const rule = await EscalationService.createRule(request, 'user-123');
+      const rule = await EscalationService.createRule('tenant-1', request, 'user-123');
 
       expect(rule.escalationPolicyId).toBe('policy-1');
       expect(rule.name).toBe('SLA Warning Rule');
@@ -110,7 +170,7 @@ describe('Escalation Service', () => {
         actions: [],
       };
 
-      const rule = await EscalationService.createRule(request, 'user-123');
+      const rule = await EscalationService.createRule('tenant-1', request, 'user-123');
 
       expect(rule.cooldownMinutes).toBe(60); // default
     });
@@ -140,14 +200,14 @@ describe('Escalation Service', () => {
         ],
       };
 
-      const rule = await EscalationService.createRule(request, 'user-123');
+      const rule = await EscalationService.createRule('tenant-1', request, 'user-123');
 
       expect(rule.actions[0].order).toBe(0);
       expect(rule.actions[1].order).toBe(1);
       expect(rule.actions[2].order).toBe(2);
     });
 
-    it('should assign rule ID at creation time', async () => {
+    it('should persist the rule in a policy of the tenant', async () => {
       const request = {
         escalationPolicyId: 'policy-1',
         name: 'Test Rule',
@@ -157,16 +217,38 @@ describe('Escalation Service', () => {
         actions: [],
       };
 
-      const rule = await EscalationService.createRule(request, 'user-123');
+      const rule = await EscalationService.createRule('tenant-1', request, 'user-123');
 
-      expect(rule.id).toBeDefined();
-      expect(rule.id).toContain('rule-');
+      expect(rule.id).toBe('rule-1');
+      expect(db.escalationPolicy.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'policy-1', tenantId: 'tenant-1' } })
+      );
+    });
+
+    it('should reject a policy of another tenant', async () => {
+      db.escalationPolicy.findFirst.mockResolvedValue(null);
+
+      await expect(
+        EscalationService.createRule(
+          'tenant-2',
+          {
+            escalationPolicyId: 'policy-1',
+            name: 'Test Rule',
+            triggerType: 'SLABreach',
+            escalationLevel: 1,
+            actions: [],
+          },
+          'user-123'
+        )
+      ).rejects.toThrow('Escalation policy not found');
+      expect(db.escalationRule.create).not.toHaveBeenCalled();
     });
   });
 
   describe('createChain', () => {
     it('should create escalation chain with multiple levels', async () => {
       const chain = await EscalationService.createChain(
+        'tenant-1',
         'policy-1',
         'Emergency Escalation',
         'For urgent situations',
@@ -193,6 +275,7 @@ describe('Escalation Service', () => {
 
     it('should support two-level escalation chain', async () => {
       const chain = await EscalationService.createChain(
+        'tenant-1',
         'policy-1',
         'Two Level Chain',
         undefined,
@@ -209,6 +292,7 @@ describe('Escalation Service', () => {
 
     it('should support one-level escalation chain', async () => {
       const chain = await EscalationService.createChain(
+        'tenant-1',
         'policy-1',
         'Single Level',
         undefined,
@@ -223,6 +307,7 @@ describe('Escalation Service', () => {
 
     it('should use default escalation delays', async () => {
       const chain = await EscalationService.createChain(
+        'tenant-1',
         'policy-1',
         'Test Chain',
         undefined,
@@ -235,8 +320,9 @@ describe('Escalation Service', () => {
       expect(chain.level2?.escalationDelayMinutes).toBe(120); // default
     });
 
-    it('should assign chain ID at creation time', async () => {
+    it('should persist the chain', async () => {
       const chain = await EscalationService.createChain(
+        'tenant-1',
         'policy-1',
         'Test Chain',
         undefined,
@@ -244,8 +330,8 @@ describe('Escalation Service', () => {
         30
       );
 
-      expect(chain.id).toBeDefined();
-      expect(chain.id).toContain('chain-');
+      expect(chain.id).toBe('chain-1');
+      expect(db.escalationChain.create).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -290,7 +376,7 @@ describe('Escalation Service', () => {
       );
 
       expect(event.triggeredBy).toBe('Rule');
-      expect(event.triggeredByUserId).toBeUndefined();
+      expect(event.triggeredByUserId).toBeNull();
     });
 
     it('should include event details and timestamp', async () => {
@@ -304,12 +390,12 @@ describe('Escalation Service', () => {
       );
 
       expect(event.details).toBeDefined();
-      expect(event.details.ruleName).toBe('rule-1');
-      expect(event.details.timestamp).toBeDefined();
+      expect(event.details?.ruleName).toBe('rule-1');
+      expect(event.details?.timestamp).toBeDefined();
       expect(event.createdAt).toBeDefined();
     });
 
-    it('should assign event ID at creation time', async () => {
+    it('should start a new chain when no escalation is unresolved', async () => {
       const event = await EscalationService.logEscalation(
         'workflow-1',
         'rule-1',
@@ -319,8 +405,126 @@ describe('Escalation Service', () => {
         'SLAWarning'
       );
 
-      expect(event.id).toBeDefined();
-      expect(event.id).toContain('escalation-');
+      expect(event.id).toBe('event-1');
+      expect(event.escalationChainLevel).toBe(1);
+      expect(event.parentEscalationEventId).toBeNull();
+    });
+
+    it('should continue the chain of an unresolved escalation', async () => {
+      db.escalationEvent.findFirst.mockResolvedValue({ id: 'event-0', escalationChainLevel: 2 });
+
+      const event = await EscalationService.logEscalation(
+        'workflow-1',
+        'rule-2',
+        'tenant-1',
+        'SLA breached',
+        2,
+        'SLABreach'
+      );
+
+      expect(event.escalationChainLevel).toBe(3);
+      expect(event.parentEscalationEventId).toBe('event-0');
+    });
+
+    it('should only continue chains raised since the instance entered its stage', async () => {
+      await EscalationService.logEscalation(
+        'workflow-1',
+        'rule-1',
+        'tenant-1',
+        'SLA breached',
+        1,
+        'SLABreach'
+      );
+
+      expect(db.escalationEvent.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            workflowInstanceId: 'workflow-1',
+            tenantId: 'tenant-1',
+            resolvedAt: null,
+            createdAt: { gte: stageStarted },
+          },
+        })
+      );
+    });
+  });
+
+  describe('getOpenEscalation', () => {
+    it('should ignore escalations of earlier stage visits', async () => {
+      await EscalationService.getOpenEscalation('workflow-1', 'tenant-1');
+
+      expect(db.workflowInstance.findUnique).toHaveBeenCalledWith({
+        where: { id: 'workflow-1' },
+        select: { currentStageStarted: true },
+      });
+      expect(db.escalationEvent.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ createdAt: { gte: stageStarted } }),
+        })
+      );
+    });
+  });
+
+  describe('isInCooldown', () => {
+    it('should be in cooldown shortly after the rule last fired', async () => {
+      db.escalationEvent.findFirst.mockResolvedValue({
+        createdAt: new Date(Date.now() - 30 * 60 * 1000),
+      });
+
+      expect(await EscalationService.isInCooldown('workflow-1', 'rule-1', 60)).toBe(true);
+      expect(db.escalationEvent.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { workflowInstanceId: 'workflow-1', escalationRuleId: 'rule-1' },
+        })
+      );
+    });
+
+    it('should not be in cooldown once the period has passed', async () => {
+      db.escalationEvent.findFirst.mockResolvedValue({
+        createdAt: new Date(Date.now() - 90 * 60 * 1000),
+      });
+
+      expect(await EscalationService.isInCooldown('workflow-1', 'rule-1', 60)).toBe(false);
+    });
+
+    it('should not be in cooldown when the rule never fired', async () => {
+      expect(await EscalationService.isInCooldown('workflow-1', 'rule-1', 60)).toBe(false);
+    });
+
+    it('should be in cooldown when the history cannot be read', async () => {
+      db.escalationEvent.findFirst.mockRejectedValue(new Error('Connection lost'));
+
+      expect(await EscalationService.isInCooldown('workflow-1', 'rule-1', 60)).toBe(true);
+    });
+  });
+
+  describe('isWithinCooldown', () => {
+    const now = new Date('2026-01-07T10:00:00Z');
+
+    it('should compare the last escalation with the cooldown period', () => {
+      expect(EscalationService.isWithinCooldown(new Date('2026-01-07T09:30:00Z'), 60, now)).toBe(
+        true
+      );
+      expect(EscalationService.isWithinCooldown(new Date('2026-01-07T09:00:00Z'), 60, now)).toBe(
+        false
+      );
+      expect(EscalationService.isWithinCooldown(null, 60, now)).toBe(false);
+    });
+  });
+
+  describe('hasReachedMaxEscalations', () => {
+    it('should count earlier escalations of the rule for the instance', async () => {
+      db.escalationEvent.count.mockResolvedValue(2);
+
+      expect(await EscalationService.hasReachedMaxEscalations('workflow-1', 'rule-1', 2)).toBe(
+        true
+      );
+      expect(await EscalationService.hasReachedMaxEscalations('workflow-1', 'rule-1', 3)).toBe(
+        false
+      );
+      expect(db.escalationEvent.count).toHaveBeenCalledWith({
+        where: { workflowInstanceId: 'workflow-1', escalationRuleId: 'rule-1' },
+      });
     });
   });
 });
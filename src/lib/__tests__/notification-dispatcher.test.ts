@@ -0,0 +1,381 @@
+/**
+ * Notification Dispatcher Tests
+ * Tests for the notification outbox, retries, dead letters and the SMTP channel
+ */
+
+import { AddressInfo, createServer, Server } from 'net';
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest';
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+const db = vi.hoisted(() => ({
+  notification: {
+    findUnique: vi.fn(async () => ({ status: 'Pending', sentAt: null })),
+    update: vi.fn(async () => ({})),
+  },
+  notificationDelivery: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    updateMany: vi.fn(async () => ({ count: 1 })),
+    update: vi.fn(async ({ data }: any) => data),
+  },
+}));
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: vi.fn(() => db),
+}));
+
+import { NotificationDispatcherService } from '@/lib/services/notification-dispatcher-service';
+import { NotificationService } from '@/lib/services/notification-service';
+import { EmailChannel, NotificationChannel } from '@/lib/notifications/channels';
+
+const MINUTE = 60 * 1000;
+const now = new Date('2026-03-02T09:00:00Z');
+
+const delivery = (overrides: Record<string, unknown> = {}) => ({
+  id: 'delivery-1',
+  tenantId: 'tenant-1',
+  notificationId: 'notification-1',
+  channel: 'Email',
+  status: 'Pending',
+  attempts: 0,
+  nextAttemptAt: new Date(now.getTime() - MINUTE),
+  lastError: null,
+  sentAt: null,
+  notification: {
+    userId: 'user-1',
+    email: 'approver@ministry.gov',
+    eventType: 'WorkflowAssigned',
+    subject: 'New Workflow: Capex',
+    message: 'A new workflow has been assigned to you',
+    data: {},
+    workflowInstanceId: 'instance-1',
+  },
+  ...overrides,
+});
+
+const channel = (
+  name: NotificationChannel['name'],
+  send: () => Promise<void> = async () => {}
+) => ({
+  name,
+  send: vi.fn(send),
+});
+
+describe('NotificationDispatcherService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getRetryDelayMs', () => {
+    it('should double the wait after each failure up to an hour', () => {
+      expect(NotificationDispatcherService.getRetryDelayMs(1)).toBe(MINUTE);
+      expect(NotificationDispatcherService.getRetryDelayMs(2)).toBe(2 * MINUTE);
+      expect(NotificationDispatcherService.getRetryDelayMs(5)).toBe(16 * MINUTE);
+      expect(NotificationDispatcherService.getRetryDelayMs(10)).toBe(60 * MINUTE);
+    });
+  });
+
+  describe('resolveNotificationStatus', () => {
+    it('should derive the notification status from its deliveries', () => {
+      expect(NotificationDispatcherService.resolveNotificationStatus(['Sent', 'Pending'])).toBe(
+        'Pending'
+      );
+      expect(NotificationDispatcherService.resolveNotificationStatus(['Sent', 'DeadLetter'])).toBe(
+        'DeadLetter'
+      );
+      expect(NotificationDispatcherService.resolveNotificationStatus(['Sent', 'Skipped'])).toBe(
+        'Sent'
+      );
+      expect(NotificationDispatcherService.resolveNotificationStatus(['Skipped'])).toBe('Failed');
+    });
+  });
+
+  describe('dispatch', () => {
+    it('should send a due delivery and mark its notification sent', async () => {
+      db.notificationDelivery.findMany
+        .mockResolvedValueOnce([delivery()])
+        .mockResolvedValueOnce([{ status: 'Sent', lastError: null }]);
+      const email = channel('Email');
+
+      const stats = await NotificationDispatcherService.dispatch([email], now);
+
+      expect(stats).toEqual({ claimed: 1, sent: 1, retried: 0, deadLettered: 0, skipped: 0 });
+      expect(email.send).toHaveBeenCalledWith(
+        expect.objectContaining({ email: 'approver@ministry.gov', subject: 'New Workflow: Capex' })
+      );
+      expect(db.notificationDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'delivery-1' },
+        data: expect.objectContaining({ status: 'Sent', attempts: 1, lastError: null }),
+      });
+      expect(db.notification.update).toHaveBeenCalledWith({
+        where: { id: 'notification-1' },
+        data: expect.objectContaining({ status: 'Sent', sentAt: expect.any(Date) }),
+      });
+    });
+
+    it('should schedule a failed attempt with backoff and record the failure reason', async () => {
+      db.notificationDelivery.findMany
+        .mockResolvedValueOnce([delivery({ attempts: 2 })])
+        .mockResolvedValueOnce([{ status: 'Pending', lastError: 'Connection refused' }]);
+      const email = channel('Email', async () => {
+        throw new Error('Connection refused');
+      });
+
+      const stats = await NotificationDispatcherService.dispatch([email], now);
+
+      expect(stats.retried).toBe(1);
+      expect(db.notificationDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'delivery-1' },
+        data: {
+          status: 'Pending',
+          attempts: 3,
+          lastError: 'Connection refused',
+          nextAttemptAt: new Date(now.getTime() + 4 * MINUTE),
+        },
+      });
+      expect(db.notification.update).toHaveBeenCalledWith({
+        where: { id: 'notification-1' },
+        data: {
+          status: 'Pending',
+          failureReason: 'Email attempt 3 of 6 failed: Connection refused',
+        },
+      });
+    });
+
+    it('should dead-letter a delivery after its last attempt', async () => {
+      db.notificationDelivery.findMany
+        .mockResolvedValueOnce([delivery({ attempts: 5 })])
+        .mockResolvedValueOnce([{ status: 'DeadLetter', lastError: '550 Mailbox unavailable' }]);
+      const email = channel('Email', async () => {
+        throw new Error('550 Mailbox unavailable');
+      });
+
+      const stats = await NotificationDispatcherService.dispatch([email], now);
+
+      expect(stats.deadLettered).toBe(1);
+      expect(db.notificationDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'delivery-1' },
+        data: expect.objectContaining({ status: 'DeadLetter', attempts: 6 }),
+      });
+      expect(db.notification.update).toHaveBeenCalledWith({
+        where: { id: 'notification-1' },
+        data: expect.objectContaining({ status: 'DeadLetter' }),
+      });
+    });
+
+    it('should skip deliveries for channels that are not enabled', async () => {
+      db.notificationDelivery.findMany
+        .mockResolvedValueOnce([delivery({ channel: 'Webhook' })])
+        .mockResolvedValueOnce([{ status: 'Skipped', lastError: 'Channel not enabled: Webhook' }]);
+
+      const stats = await NotificationDispatcherService.dispatch([channel('Email')], now);
+
+      expect(stats.skipped).toBe(1);
+      expect(db.notificationDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'delivery-1' },
+        data: { status: 'Skipped', lastError: 'Channel not enabled: Webhook' },
+      });
+    });
+
+    it('should not send a delivery claimed by another dispatcher', async () => {
+      db.notificationDelivery.findMany.mockResolvedValueOnce([delivery()]);
+      db.notificationDelivery.updateMany.mockResolvedValueOnce({ count: 0 });
+      const email = channel('Email');
+
+      const stats = await NotificationDispatcherService.dispatch([email], now);
+
+      expect(stats.claimed).toBe(0);
+      expect(email.send).not.toHaveBeenCalled();
+    });
+
+    it('should keep the Read status of a notification opened in the app', async () => {
+      db.notificationDelivery.findMany
+        .mockResolvedValueOnce([delivery()])
+        .mockResolvedValueOnce([{ status: 'Sent', lastError: null }]);
+      db.notification.findUnique.mockResolvedValueOnce({ status: 'Read', sentAt: null } as never);
+
+      await NotificationDispatcherService.dispatch([channel('Email')], now);
+
+      expect(db.notification.update).toHaveBeenCalledWith({
+        where: { id: 'notification-1' },
+        data: { sentAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('retryDelivery', () => {
+    it('should restart the attempts of a dead-lettered delivery', async () => {
+      db.notificationDelivery.findFirst.mockResolvedValue(
+        delivery({ status: 'DeadLetter', attempts: 6 })
+      );
+      db.notificationDelivery.findMany.mockResolvedValueOnce([
+        { status: 'Pending', lastError: '550 Mailbox unavailable' },
+      ]);
+
+      await NotificationDispatcherService.retryDelivery('tenant-1', 'delivery-1');
+
+      expect(db.notificationDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'delivery-1' },
+        data: { status: 'Pending', attempts: 0, nextAttemptAt: expect.any(Date) },
+      });
+    });
+
+    it('should only retry dead-lettered deliveries', async () => {
+      db.notificationDelivery.findFirst.mockResolvedValue(delivery({ status: 'Sent' }));
+
+      await expect(
+        NotificationDispatcherService.retryDelivery('tenant-1', 'delivery-1')
+      ).rejects.toThrow('Only dead-lettered deliveries can be retried');
+    });
+  });
+});
+
+describe('NotificationService.getChannels', () => {
+  it('should map delivery methods to channels', () => {
+    expect(NotificationService.getChannels('Both')).toEqual(['Email', 'InApp']);
+    expect(NotificationService.getChannels('Email')).toEqual(['Email']);
+    expect(NotificationService.getChannels('Webhook')).toEqual(['Webhook']);
+  });
+});
+
+// ============================================================================
+// SMTP CHANNEL
+// ============================================================================
+
+/**
+ * Minimal SMTP catcher that accepts every message and keeps its raw data
+ */
+function startSmtpCatcher(messages: string[]): Promise<Server> {
+  const server = createServer((socket) => {
+    let inData = false;
+    let data = '';
+    let buffer = '';
+
+    socket.write('220 catcher ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            messages.push(data);
+            data = '';
+            socket.write('250 Queued\r\n');
+          } else {
+            data += `${line}\n`;
+          }
+        } else if (/^(EHLO|HELO)/i.test(line)) {
+          socket.write('250 catcher\r\n');
+        } else if (/^DATA/i.test(line)) {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (/^QUIT/i.test(line)) {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('EmailChannel', () => {
+  const messages: string[] = [];
+  let server: Server;
+
+  beforeAll(async () => {
+    server = await startSmtpCatcher(messages);
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should deliver the notification to a local SMTP catcher', async () => {
+    const email = new EmailChannel({
+      host: '127.0.0.1',
+      port: (server.address() as AddressInfo).port,
+      secure: false,
+      from: 'Masar <no-reply@masar.local>',
+    });
+
+    await email.send({
+      deliveryId: 'delivery-1',
+      notificationId: 'notification-1',
+      tenantId: 'tenant-1',
+      userId: 'user-1',
+      email: 'approver@ministry.gov',
+      eventType: 'WorkflowAssigned',
+      subject: 'New Workflow: Capex',
+      message: 'A new workflow has been assigned to you',
+      data: {},
+    });
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toContain('To: approver@ministry.gov');
+    expect(messages[0]).toContain('Subject: New Workflow: Capex');
+    expect(messages[0]).toMatch(/^X-Notification-Id: notification-1$/im);
+    expect(messages[0]).toContain('A new workflow has been assigned to you');
+  });
+
+  it('should send the rendered email subject and HTML body when present', async () => {
+    const email = new EmailChannel({
+      host: '127.0.0.1',
+      port: (server.address() as AddressInfo).port,
+      secure: false,
+      from: 'Masar <no-reply@masar.local>',
+    });
+
+    await email.send({
+      deliveryId: 'delivery-2',
+      notificationId: 'notification-2',
+      tenantId: 'tenant-1',
+      userId: 'user-1',
+      email: 'approver@ministry.gov',
+      eventType: 'WorkflowApproved',
+      subject: 'Workflow Approved: Capex',
+      message: 'Workflow "Capex" has been APPROVED',
+      emailSubject: 'Capex approved',
+      emailBody: '<p>Workflow <strong>Capex</strong> has been approved.</p>',
+      data: {},
+    });
+
+    const sent = messages[messages.length - 1];
+    expect(sent).toContain('Subject: Capex approved');
+    expect(sent).toMatch(/Content-Type: multipart\/alternative/i);
+    expect(sent).toContain('<strong>Capex</strong>');
+    expect(sent).toContain('Workflow "Capex" has been APPROVED');
+  });
+
+  it('should reject when the SMTP server is unreachable', async () => {
+    const email = new EmailChannel({
+      host: '127.0.0.1',
+      port: 1,
+      secure: false,
+      from: 'Masar <no-reply@masar.local>',
+    });
+
+    await expect(
+      email.send({
+        deliveryId: 'delivery-1',
+        notificationId: 'notification-1',
+        tenantId: 'tenant-1',
+        userId: 'user-1',
+        email: 'approver@ministry.gov',
+        eventType: 'WorkflowAssigned',
+        subject: 'New Workflow: Capex',
+        message: 'A new workflow has been assigned to you',
+        data: {},
+      })
+    ).rejects.toThrow();
+  });
+});
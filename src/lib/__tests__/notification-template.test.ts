@@ -0,0 +1,313 @@
+/**
+ * Notification Template Tests
+ * Tests for the sandboxed template renderer and template-driven notifications
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+const db = vi.hoisted(() => ({
+  notificationTemplate: { findFirst: vi.fn() },
+  tenant: { findUnique: vi.fn() },
+  notificationPreference: { findUnique: vi.fn(async () => null) },
+  user: { findFirst: vi.fn(async ({ where }: any) => ({ email: `${where.id}@example.com` })) },
+  notification: {
+    create: vi.fn(async ({ data }: any) => ({ id: 'notification-1', ...data })),
+  },
+}));
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: vi.fn(() => db),
+}));
+
+import {
+  DEFAULT_FORMAT_OPTIONS,
+  parseTemplate,
+  renderTemplate,
+  resolveFormatOptions,
+} from '@/lib/notifications/template-renderer';
+import { NotificationService } from '@/lib/services/notification-service';
+import { notificationTemplatePreviewSchema } from '@/lib/validation/notification-schema';
+
+const tenantTemplate = {
+  id: 'template-1',
+  tenantId: 'tenant-1',
+  eventType: 'SLAWarning',
+  name: 'SLA warning',
+  emailSubjectTemplate: 'Heads up: {{templateName}}',
+  emailBodyTemplate: '<p>{{templateName}} is due {{slaDue | date}}</p>',
+  inAppTitleTemplate: 'Heads up: {{templateName}}',
+  inAppMessageTemplate: '{{hoursRemaining}}h left in {{stageName}}',
+  deliveryMethod: 'Both',
+  isActive: true,
+};
+
+describe('renderTemplate', () => {
+  it('should render variables and dotted paths', () => {
+    expect(
+      renderTemplate('{{ name }} owns {{project.name}} ({{project.code | lower}})', {
+        name: 'Ana',
+        project: { name: 'Alpha', code: 'ALP' },
+      })
+    ).toBe('Ana owns Alpha (alp)');
+  });
+
+  it('should render missing values and objects as empty text', () => {
+    expect(
+      renderTemplate('[{{missing}}][{{project}}][{{project.none.deeper}}]', { project: {} })
+    ).toBe('[][][]');
+  });
+
+  it('should escape values but not template text when escaping HTML', () => {
+    expect(
+      renderTemplate(
+        '<b>{{name}}</b>',
+        { name: '<script>alert("x")</script>' },
+        { escapeHtml: true }
+      )
+    ).toBe('<b>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;</b>');
+  });
+
+  it('should render conditionals', () => {
+    const template =
+      '{{#if reason}}Reason: {{reason}}{{else}}No reason{{/if}}{{#unless urgent}}.{{/unless}}';
+
+    expect(renderTemplate(template, { reason: 'Budget' })).toBe('Reason: Budget.');
+    expect(renderTemplate(template, { reason: '', urgent: true })).toBe('No reason');
+  });
+
+  it('should loop over lists with the item, its fields and its index', () => {
+    const data = {
+      approvers: [{ name: 'Ana' }, { name: 'Ben' }],
+      tags: ['capex', 'q3'],
+      team: 'Finance',
+    };
+
+    expect(
+      renderTemplate('{{#each approvers}}{{@index}}:{{this.name}}@{{team}} {{/each}}', data)
+    ).toBe('0:Ana@Finance 1:Ben@Finance ');
+    expect(renderTemplate('{{#each tags}}#{{this}}{{/each}}', data)).toBe('#capex#q3');
+    expect(renderTemplate('{{#each none}}x{{else}}none{{/each}}', data)).toBe('none');
+    expect(renderTemplate('{{tags}}', data)).toBe('capex, q3');
+  });
+
+  it('should format dates, numbers and currency with the tenant settings', () => {
+    const format = {
+      locale: 'de-DE',
+      timezone: 'Asia/Tokyo',
+      currency: 'EUR',
+      dateFormat: 'dd.MM.yyyy',
+    };
+    const data = { due: '2026-03-31T20:30:00Z', amount: 1234.5 };
+
+    expect(renderTemplate('{{due | date}}', data, { format })).toBe('01.04.2026');
+    expect(renderTemplate('{{due | datetime}}', data, { format })).toBe('01.04.2026 05:30');
+    expect(renderTemplate('{{due | date:"MMM d"}}', data)).toBe('Mar 31');
+    expect(renderTemplate('{{amount | currency}}', data, { format })).toBe('1.234,50\u00a0€');
+    expect(renderTemplate('{{amount | currency:"USD"}}', data)).toBe('$1,234.50');
+    expect(renderTemplate('{{amount | number:"0"}}', data)).toBe('1,235');
+    expect(renderTemplate('{{missing | default:"n/a" | upper}}', data)).toBe('N/A');
+  });
+
+  it('should not reach prototypes or functions', () => {
+    const data = { name: 'Ana', list: ['a'] };
+
+    expect(
+      renderTemplate('{{constructor}}{{name.length}}{{__proto__}}{{list.length}}{{toString}}', data)
+    ).toBe('');
+    expect(() => renderTemplate('{{constructor.constructor("return 1")()}}', data)).toThrow(
+      'Template error'
+    );
+    expect(() => renderTemplate('{{name | eval}}', data)).toThrow('unknown filter');
+  });
+
+  it('should reject invalid templates', () => {
+    expect(() => parseTemplate('{{#if a}}open')).toThrow('"{{#if}}" is not closed');
+    expect(() => parseTemplate('{{#if a}}x{{/each}}')).toThrow('unexpected "{{/each}}"');
+    expect(() => parseTemplate('{{else}}')).toThrow('outside of an if');
+    expect(() => parseTemplate('{{#with a}}x{{/with}}')).toThrow('unknown block');
+    expect(() => parseTemplate('Hello {{name')).toThrow('without a closing');
+    expect(() => parseTemplate('{{! note }}{{a}}')).not.toThrow();
+  });
+
+  it('should enforce size, depth and loop limits', () => {
+    expect(() => parseTemplate('x'.repeat(20001))).toThrow('limited to 20000 characters');
+    expect(() => parseTemplate('{{#if a}}'.repeat(9) + '{{/if}}'.repeat(9))).toThrow(
+      'nested more than 8 deep'
+    );
+    expect(() =>
+      renderTemplate('{{#each items}}.{{/each}}', { items: Array.from({ length: 501 }, () => 1) })
+    ).toThrow('loops are limited to 500 items');
+    expect(() =>
+      renderTemplate('{{#each items}}{{text}}{{/each}}', {
+        items: Array.from({ length: 20 }, () => 1),
+        text: 'x'.repeat(6000),
+      })
+    ).toThrow('output is limited');
+    expect(() =>
+      renderTemplate(
+        '{{#each items}}{{#each items}}{{#each items}}{{#if none}}x{{/if}}{{/each}}{{/each}}{{/each}}',
+        { items: Array.from({ length: 100 }, () => 1) }
+      )
+    ).toThrow('rendering is limited to 100000 steps');
+  });
+});
+
+describe('notificationTemplatePreviewSchema', () => {
+  it('should cap the size of preview data', () => {
+    const preview = (text: string) =>
+      notificationTemplatePreviewSchema.safeParse({ eventType: 'SLAWarning', data: { text } });
+
+    expect(preview('x'.repeat(1000)).success).toBe(true);
+    expect(preview('x'.repeat(50000)).success).toBe(false);
+  });
+});
+
+describe('resolveFormatOptions', () => {
+  it('should keep valid tenant settings and default the rest', () => {
+    expect(
+      resolveFormatOptions({
+        timezone: 'Europe/Paris',
+        currency: 'GBP',
+        dateFormat: 'dd/MM/yyyy',
+        locale: 42,
+      })
+    ).toEqual({
+      locale: 'en-US',
+      timezone: 'Europe/Paris',
+      currency: 'GBP',
+      dateFormat: 'dd/MM/yyyy',
+    });
+    expect(resolveFormatOptions({ timezone: 'Mars/Base', currency: 'dollars' })).toEqual(
+      DEFAULT_FORMAT_OPTIONS
+    );
+    expect(resolveFormatOptions(null)).toEqual(DEFAULT_FORMAT_OPTIONS);
+  });
+});
+
+describe('NotificationService templates', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.notificationTemplate.findFirst.mockResolvedValue(null);
+    db.tenant.findUnique.mockResolvedValue({
+      settings: { timezone: 'America/New_York', dateFormat: 'MM/dd/yyyy' },
+    });
+  });
+
+  it('should render the system default when the tenant has no template', async () => {
+    const rendered = await NotificationService.renderNotification('tenant-1', 'WorkflowRejected', {
+      templateName: 'Capex <Q3>',
+      stageName: 'Finance',
+      reason: 'Over budget',
+    });
+
+    expect(rendered).toMatchObject({
+      source: 'Default',
+      emailSubject: 'Workflow Rejected: Capex <Q3>',
+      title: 'Workflow Rejected: Capex <Q3>',
+      message: 'Workflow "Capex <Q3>" has been REJECTED at stage "Finance". Reason: Over budget',
+    });
+    expect(rendered.emailBody).toContain('<strong>Capex &lt;Q3&gt;</strong>');
+  });
+
+  it("should render the tenant's template with its date format", async () => {
+    db.notificationTemplate.findFirst.mockResolvedValue(tenantTemplate);
+
+    const rendered = await NotificationService.renderNotification('tenant-1', 'SLAWarning', {
+      templateName: 'Capex',
+      stageName: 'Finance',
+      hoursRemaining: 4,
+      slaDue: '2026-01-15T03:00:00Z',
+    });
+
+    expect(rendered).toEqual({
+      source: 'Tenant',
+      emailSubject: 'Heads up: Capex',
+      emailBody: '<p>Capex is due 01/14/2026</p>',
+      title: 'Heads up: Capex',
+      message: '4h left in Finance',
+    });
+  });
+
+  it('should fall back to the default when the tenant template fails to render', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    db.notificationTemplate.findFirst.mockResolvedValue({
+      ...tenantTemplate,
+      inAppMessageTemplate: '{{#if stageName}}unclosed',
+    });
+
+    const rendered = await NotificationService.renderNotification('tenant-1', 'SLAWarning', {
+      templateName: 'Capex',
+    });
+
+    expect(rendered.source).toBe('Default');
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('should send the rendered content with each notification', async () => {
+    await NotificationService.sendTemplatedNotifications('tenant-1', {
+      userIds: ['user-1', 'user-2'],
+      eventType: 'WorkflowApproved',
+      data: { templateName: 'Capex' },
+      workflowInstanceId: 'instance-1',
+    });
+
+    expect(db.notification.create).toHaveBeenCalledTimes(2);
+    expect(db.notification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 'user-2',
+        email: 'user-2@example.com',
+        subject: 'Workflow Approved: Capex',
+        message: 'Workflow "Capex" has been APPROVED and is now complete.',
+        emailSubject: 'Workflow Approved: Capex',
+        emailBody: expect.stringContaining('<strong>Capex</strong>'),
+        workflowInstanceId: 'instance-1',
+      }),
+    });
+  });
+
+  it('should preview draft templates over the saved ones with sample data', async () => {
+    db.notificationTemplate.findFirst.mockResolvedValue(tenantTemplate);
+
+    const preview = await NotificationService.previewTemplate('tenant-1', {
+      eventType: 'SLAWarning',
+      template: { inAppTitleTemplate: '{{templateName | upper}}' },
+    });
+
+    expect(preview).toMatchObject({
+      source: 'Tenant',
+      title: 'CAPITAL EXPENDITURE REQUEST',
+      message: '4h left in Finance Review',
+      data: expect.objectContaining({ hoursRemaining: 4 }),
+    });
+  });
+
+  it('should surface template errors in a preview', async () => {
+    await expect(
+      NotificationService.previewTemplate('tenant-1', {
+        eventType: 'WorkflowApproved',
+        template: { emailBodyTemplate: '{{#each}}' },
+      })
+    ).rejects.toThrow('Template error');
+  });
+
+  it('should reject a template with invalid syntax on create', async () => {
+    await expect(
+      NotificationService.createTemplate(
+        'tenant-1',
+        {
+          eventType: 'WorkflowApproved',
+          name: 'Broken',
+          emailSubjectTemplate: 'Approved',
+          emailBodyTemplate: '{{#if a}}',
+          inAppTitleTemplate: 'Approved',
+          inAppMessageTemplate: 'Approved',
+        },
+        'admin-1'
+      )
+    ).rejects.toThrow('Template error');
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * Org Hierarchy Tests
+ * Tests for manager relationships, escalation targets and walking escalation chains
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+const db = vi.hoisted(() => ({
+  workflowInstance: { findFirst: vi.fn(), findUnique: vi.fn(async () => null) },
+  project: { findFirst: vi.fn() },
+  program: { findFirst: vi.fn() },
+  user: { findFirst: vi.fn(), findMany: vi.fn(), update: vi.fn(async () => ({})) },
+  userRole: { findMany: vi.fn(async () => []) },
+  escalationChain: { findMany: vi.fn(async () => []) },
+  escalationEvent: { findFirst: vi.fn(async () => null) },
+}));
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: vi.fn(() => db),
+}));
+
+import { OrgHierarchyService } from '@/lib/services/org-hierarchy-service';
+import { EscalationService } from '@/lib/services/escalation-service';
+import { EscalationExecutor } from '@/lib/services/escalation-executor';
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Users of the tenant and their managers
+ */
+const users: Record<string, { managerId: string | null; isActive: boolean }> = {
+  'approver-1': { managerId: 'director-1', isActive: true },
+  'approver-2': { managerId: 'director-1', isActive: true },
+  'requester-1': { managerId: 'manager-9', isActive: true },
+  'director-1': { managerId: 'dg-1', isActive: true },
+  'manager-9': { managerId: null, isActive: false },
+  'dg-1': { managerId: null, isActive: true },
+  'sponsor-1': { managerId: null, isActive: true },
+};
+
+const instance = {
+  id: 'instance-1',
+  entityType: 'Project',
+  entityId: 'project-1',
+  projectId: 'project-1',
+  currentStageId: 'stage-1',
+  currentStageStarted: new Date('2026-03-02T09:00:00Z'),
+  assigneeType: null,
+  assigneeValue: null,
+  assignedStageId: null,
+  assignedAt: null,
+  createdBy: 'requester-1',
+  currentStage: {
+    responsibilities: [
+      { id: 'r-1', stageId: 'stage-1', type: 'User', value: 'approver-1', scope: 'Global' },
+      { id: 'r-2', stageId: 'stage-1', type: 'User', value: 'approver-2', scope: 'Global' },
+    ],
+  },
+};
+
+const chain = {
+  id: 'chain-1',
+  escalationPolicyId: 'policy-1',
+  name: 'Ministry chain',
+  description: null,
+  level1RoleOrUserId: 'StageApproverManager',
+  level1DelayMinutes: 0,
+  level2RoleOrUserId: 'ProgramSponsor',
+  level2DelayMinutes: 120,
+  level3RoleOrUserId: 'Role:PMO',
+  level3DelayMinutes: 240,
+  isActive: true,
+  createdBy: 'admin-1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+describe('OrgHierarchyService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.workflowInstance.findFirst.mockResolvedValue(instance);
+    db.project.findFirst.mockResolvedValue({
+      id: 'project-1',
+      programId: 'program-1',
+      sponsorId: null,
+      pmId: null,
+      requesterId: 'requester-1',
+    });
+    db.program.findFirst.mockResolvedValue({
+      sponsorId: 'sponsor-1',
+      pmId: null,
+      requesterId: null,
+    });
+    /* eslint-disable @typescript-eslint/no-explicit-any */
+    db.user.findMany.mockImplementation(async ({ where, select }: any) =>
+      (where.id.in as string[])
+        .filter((id) => users[id] && (where.isActive === undefined || users[id]!.isActive))
+        .map((id) => (select.managerId ? { managerId: users[id]!.managerId } : { id }))
+    );
+    db.user.findFirst.mockImplementation(async ({ where }: any) =>
+      users[where.id] ? { id: where.id, managerId: users[where.id]!.managerId } : null
+    );
+    /* eslint-enable @typescript-eslint/no-explicit-any */
+  });
+
+  describe('parseTarget', () => {
+    it('should parse keywords and prefixed targets', () => {
+      expect(OrgHierarchyService.parseTarget('StageApproverManager')).toEqual({
+        kind: 'StageApproverManager',
+      });
+      expect(OrgHierarchyService.parseTarget('Role:PMO')).toEqual({ kind: 'Role', value: 'PMO' });
+      expect(OrgHierarchyService.parseTarget('User:user-1')).toEqual({
+        kind: 'User',
+        value: 'user-1',
+      });
+    });
+
+    it('should read a bare value as a role name when it is one, else a user ID', () => {
+      expect(OrgHierarchyService.parseTarget('Management')).toEqual({
+        kind: 'Role',
+        value: 'Management',
+      });
+      expect(OrgHierarchyService.parseTarget('ceo-1')).toEqual({ kind: 'User', value: 'ceo-1' });
+    });
+
+    it('should reject malformed targets', () => {
+      expect(OrgHierarchyService.parseTarget('')).toBeNull();
+      expect(OrgHierarchyService.parseTarget('Team:finance')).toBeNull();
+      expect(OrgHierarchyService.parseTarget('Role:')).toBeNull();
+    });
+  });
+
+  describe('resolveRecipients', () => {
+    it("should reach the managers of the stage's approvers", async () => {
+      const recipients = await OrgHierarchyService.resolveRecipients(
+        'instance-1',
+        'tenant-1',
+        'StageApproverManager'
+      );
+
+      expect(recipients).toEqual({
+        target: 'StageApproverManager',
+        isFallback: false,
+        userIds: ['director-1'],
+      });
+    });
+
+    it("should reach the sponsor of the request's program", async () => {
+      const recipients = await OrgHierarchyService.resolveRecipients(
+        'instance-1',
+        'tenant-1',
+        'ProgramSponsor'
+      );
+
+      expect(recipients.userIds).toEqual(['sponsor-1']);
+    });
+
+    it('should fall back to the program sponsor when the target reaches nobody', async () => {
+      // The requester's manager is inactive
+      const recipients = await OrgHierarchyService.resolveRecipients(
+        'instance-1',
+        'tenant-1',
+        'RequesterManager'
+      );
+
+      expect(recipients).toEqual({
+        target: 'ProgramSponsor',
+        isFallback: true,
+        userIds: ['sponsor-1'],
+      });
+    });
+
+    it('should fall back to PMO when the program has no sponsor', async () => {
+      db.program.findFirst.mockResolvedValue({ sponsorId: null, pmId: null, requesterId: null });
+      db.userRole.findMany.mockResolvedValue([
+        { userId: 'pmo-1', role: 'PMO', contextType: 'Program', contextId: 'program-1' },
+        { userId: 'pmo-other', role: 'PMO', contextType: 'Program', contextId: 'program-2' },
+      ] as never);
+
+      const recipients = await OrgHierarchyService.resolveRecipients(
+        'instance-1',
+        'tenant-1',
+        'ProjectSponsor'
+      );
+
+      expect(recipients).toEqual({ target: 'Role:PMO', isFallback: true, userIds: ['pmo-1'] });
+    });
+
+    it('should reject an instance of another tenant', async () => {
+      db.workflowInstance.findFirst.mockResolvedValue(null);
+
+      await expect(
+        OrgHierarchyService.resolveRecipients('instance-1', 'tenant-2', 'ProgramSponsor')
+      ).rejects.toThrow('Workflow instance not found');
+    });
+  });
+
+  describe('setManager', () => {
+    it('should set a manager', async () => {
+      await OrgHierarchyService.setManager('sponsor-1', 'dg-1', 'tenant-1');
+
+      expect(db.user.update).toHaveBeenCalledWith({
+        where: { id: 'sponsor-1' },
+        data: { managerId: 'dg-1' },
+      });
+    });
+
+    it('should not let a user report to someone who reports to them', async () => {
+      await expect(
+        OrgHierarchyService.setManager('dg-1', 'approver-1', 'tenant-1')
+      ).rejects.toThrow('Manager cycle');
+      expect(db.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should walk the management chain nearest first', async () => {
+      expect(await OrgHierarchyService.getManagementChain('approver-1', 'tenant-1')).toEqual([
+        'director-1',
+        'dg-1',
+      ]);
+    });
+  });
+});
+
+describe('Escalation chain walking', () => {
+  const now = new Date('2026-03-03T12:00:00Z');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.escalationChain.findMany.mockResolvedValue([chain] as never);
+  });
+
+  it('should clamp escalations past the last level to the last level', () => {
+    const mapped = { level1: { roleOrUserId: 'a', escalationDelayMinutes: 0 } };
+
+    expect(EscalationService.getChainLevel(mapped as never, 3)).toEqual({
+      roleOrUserId: 'a',
+      escalationDelayMinutes: 0,
+      level: 1,
+      isLastLevel: true,
+    });
+  });
+
+  it('should start at level 1 with no open escalation', async () => {
+    const step = await EscalationExecutor.getNextChainStep(
+      'policy-1',
+      'instance-1',
+      'tenant-1',
+      now
+    );
+
+    expect(step).toMatchObject({ level: 1, roleOrUserId: 'StageApproverManager', isDue: true });
+  });
+
+  it('should wait for the next level delay while the escalation is unresolved', async () => {
+    db.escalationEvent.findFirst.mockResolvedValue({
+      id: 'event-1',
+      escalationChainLevel: 1,
+      createdAt: new Date(now.getTime() - 60 * MINUTE),
+    } as never);
+
+    const step = await EscalationExecutor.getNextChainStep(
+      'policy-1',
+      'instance-1',
+      'tenant-1',
+      now
+    );
+
+    expect(step).toMatchObject({ level: 2, roleOrUserId: 'ProgramSponsor', isDue: false });
+  });
+
+  it('should move up a level once its delay has passed', async () => {
+    db.escalationEvent.findFirst.mockResolvedValue({
+      id: 'event-2',
+      escalationChainLevel: 2,
+      createdAt: new Date(now.getTime() - 240 * MINUTE),
+    } as never);
+
+    const step = await EscalationExecutor.getNextChainStep(
+      'policy-1',
+      'instance-1',
+      'tenant-1',
+      now
+    );
+
+    expect(step).toMatchObject({ level: 3, roleOrUserId: 'Role:PMO', isDue: true });
+  });
+
+  it('should stay on the last level past the end of the chain', async () => {
+    db.escalationEvent.findFirst.mockResolvedValue({
+      id: 'event-3',
+      escalationChainLevel: 3,
+      createdAt: new Date(now.getTime() - MINUTE),
+    } as never);
+
+    const step = await EscalationExecutor.getNextChainStep(
+      'policy-1',
+      'instance-1',
+      'tenant-1',
+      now
+    );
+
+    expect(step).toMatchObject({ level: 3, isDue: true });
+  });
+
+  it('should not walk a chain when the policy has none', async () => {
+    db.escalationChain.findMany.mockResolvedValue([]);
+
+    expect(
+      await EscalationExecutor.getNextChainStep('policy-1', 'instance-1', 'tenant-1', now)
+    ).toBeNull();
+  });
+});
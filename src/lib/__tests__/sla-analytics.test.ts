@@ -0,0 +1,260 @@
+/**
+ * SLA Analytics Tests
+ * Tests for recording stage exits and the analytics computed from them
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+const db = vi.hoisted(() => ({
+  workflowStage: { findUnique: vi.fn() },
+  workflowTemplate: { findUnique: vi.fn(), findFirst: vi.fn(), findMany: vi.fn() },
+  escalationPolicy: { findMany: vi.fn(async () => []) },
+  tenant: { findUnique: vi.fn(async () => ({ settings: {} })) },
+  user: { findMany: vi.fn() },
+  workflowSlaFact: {
+    create: vi.fn(async ({ data }: any) => ({ id: 'fact-1', createdAt: new Date(), ...data })),
+    groupBy: vi.fn(),
+    aggregate: vi.fn(),
+    findMany: vi.fn(),
+  },
+  $queryRaw: vi.fn(),
+}));
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: vi.fn(() => db),
+}));
+
+import { SLAManagementService } from '@/lib/services/sla-management-service';
+import { SLAAnalyticsService } from '@/lib/services/sla-analytics-service';
+
+const HOUR = 60 * 60 * 1000;
+
+const stageStats = (stageKey: string, totalBreachHours: number, p90CycleHours: number) => ({
+  templateFamilyId: 'template-1',
+  stageKey,
+  stageName: stageKey,
+  exits: 10,
+  p50CycleHours: 4,
+  p90CycleHours,
+  averageCycleHours: 5,
+  breachedCount: totalBreachHours > 0 ? 2 : 0,
+  breachRate: totalBreachHours > 0 ? 20 : 0,
+  totalBreachHours,
+});
+
+describe('SLAManagementService.recordSLAHistory', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.workflowStage.findUnique.mockResolvedValue({
+      id: 'stage-2',
+      stageKey: 'finance',
+      name: 'Finance Review',
+      slaHours: 8,
+      slaThresholds: null,
+    });
+    db.workflowTemplate.findUnique.mockResolvedValue({
+      tenantId: 'tenant-1',
+      templateFamilyId: 'template-1',
+    });
+    db.workflowTemplate.findMany.mockResolvedValue([
+      {
+        id: 'template-2',
+        tenantId: 'tenant-1',
+        templateFamilyId: 'template-1',
+        slaThresholds: null,
+      },
+    ]);
+  });
+
+  it('should store the exited stage against its template family', async () => {
+    const record = await SLAManagementService.recordSLAHistory(
+      {
+        id: 'instance-1',
+        workflowTemplateId: 'template-2',
+        currentStageId: 'stage-2',
+        currentStageStarted: new Date(Date.now() - 10 * HOUR),
+        slaDue: new Date(Date.now() - 2 * HOUR),
+        slaPausedAt: null,
+        slaPausedHours: 0,
+      },
+      'Approved',
+      'approver-1'
+    );
+
+    expect(db.workflowSlaFact.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        tenantId: 'tenant-1',
+        workflowTemplateId: 'template-2',
+        templateFamilyId: 'template-1',
+        stageKey: 'finance',
+        exitMonth: new Date().toISOString().slice(0, 7),
+        slaHours: 8,
+        cycleHours: 10,
+        status: 'Breached',
+        isBreached: true,
+        hoursBreach: 2,
+        outcome: 'Approved',
+        closedBy: 'approver-1',
+      }),
+    });
+    expect(record).toMatchObject({ stageName: 'Finance Review', cycleHours: 10, totalHours: 8 });
+  });
+
+  it('should not throw when the fact cannot be stored', async () => {
+    db.workflowSlaFact.create.mockRejectedValueOnce(new Error('Connection lost'));
+
+    await expect(
+      SLAManagementService.recordSLAHistory(
+        {
+          id: 'instance-1',
+          workflowTemplateId: 'template-2',
+          currentStageId: 'stage-2',
+          currentStageStarted: new Date(Date.now() - HOUR),
+          slaDue: new Date(Date.now() + 7 * HOUR),
+        },
+        'Rejected',
+        'approver-1'
+      )
+    ).resolves.toBeNull();
+  });
+});
+
+describe('SLAManagementService.querySLAMetrics', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should count every matching exit and page the records', async () => {
+    db.workflowSlaFact.groupBy.mockResolvedValue([
+      { status: 'Compliant', _count: { _all: 1500 } },
+      { status: 'Breached', _count: { _all: 500 } },
+    ]);
+    db.workflowSlaFact.aggregate.mockResolvedValue({ _avg: { cycleHours: 6.25 } });
+    db.workflowSlaFact.findMany.mockResolvedValue([]);
+
+    const metrics = await SLAManagementService.querySLAMetrics({
+      tenantId: 'tenant-1',
+      startDate: new Date('2024-01-01T00:00:00Z'),
+      take: 20,
+    });
+
+    expect(metrics).toMatchObject({
+      totalRecords: 2000,
+      compliantCount: 1500,
+      warningCount: 0,
+      breachedCount: 500,
+      complianceRate: 75,
+      averageTimeInStage: 6.3,
+    });
+    expect(db.workflowSlaFact.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { tenantId: 'tenant-1', exitedAt: { gte: new Date('2024-01-01T00:00:00Z') } },
+        take: 20,
+      })
+    );
+  });
+});
+
+describe('SLAAnalyticsService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should fold breach counts into rates per key', () => {
+    expect(
+      SLAAnalyticsService.toBreachRates([
+        { key: '2026-01', isBreached: false, count: 3 },
+        { key: '2026-01', isBreached: true, count: 1 },
+        { key: '2026-02', isBreached: true, count: 2 },
+      ])
+    ).toEqual([
+      { key: '2026-01', label: null, exits: 4, breachedCount: 1, breachRate: 25 },
+      { key: '2026-02', label: null, exits: 2, breachedCount: 2, breachRate: 100 },
+    ]);
+  });
+
+  it('should rank bottlenecks by breach hours, then p90 cycle time', () => {
+    const ranked = SLAAnalyticsService.rankBottlenecks([
+      stageStats('intake', 0, 30),
+      stageStats('finance', 40, 12),
+      stageStats('legal', 40, 20),
+      stageStats('board', 90, 8),
+    ]);
+
+    expect(ranked.map((s) => s.stageKey)).toEqual(['board', 'legal', 'finance']);
+  });
+
+  it('should build the report from database aggregates', async () => {
+    db.$queryRaw.mockResolvedValue([
+      {
+        templateFamilyId: 'template-1',
+        stageKey: 'finance',
+        stageName: 'Finance Review',
+        exits: 4,
+        p50CycleHours: 6.04,
+        p90CycleHours: 11.96,
+        averageCycleHours: 7,
+        breachedCount: 1,
+        totalBreachHours: 3.5,
+      },
+    ]);
+    db.workflowSlaFact.groupBy
+      .mockResolvedValueOnce([
+        { templateFamilyId: 'template-1', isBreached: false, _count: { _all: 3 } },
+        { templateFamilyId: 'template-1', isBreached: true, _count: { _all: 1 } },
+      ])
+      .mockResolvedValueOnce([{ closedBy: 'approver-1', isBreached: true, _count: { _all: 1 } }])
+      .mockResolvedValueOnce([
+        { exitMonth: '2026-02', isBreached: true, _count: { _all: 1 } },
+        { exitMonth: '2025-12', isBreached: false, _count: { _all: 3 } },
+      ]);
+    db.workflowTemplate.findMany.mockResolvedValue([{ id: 'template-1', name: 'Capex' }]);
+    db.user.findMany.mockResolvedValue([
+      { id: 'approver-1', name: null, email: 'approver@example.com' },
+    ]);
+
+    const report = await SLAAnalyticsService.getReport({ tenantId: 'tenant-1' });
+
+    expect(report.stages).toEqual([
+      {
+        templateFamilyId: 'template-1',
+        stageKey: 'finance',
+        stageName: 'Finance Review',
+        exits: 4,
+        p50CycleHours: 6,
+        p90CycleHours: 12,
+        averageCycleHours: 7,
+        breachedCount: 1,
+        breachRate: 25,
+        totalBreachHours: 3.5,
+      },
+    ]);
+    expect(report.bottlenecks).toHaveLength(1);
+    expect(report.byTemplate).toEqual([
+      { key: 'template-1', label: 'Capex', exits: 4, breachedCount: 1, breachRate: 25 },
+    ]);
+    expect(report.byApprover[0]).toMatchObject({ label: 'approver@example.com', breachRate: 100 });
+    expect(report.byMonth.map((m) => m.key)).toEqual(['2025-12', '2026-02']);
+    expect(db.workflowSlaFact.groupBy).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        where: {
+          tenantId: 'tenant-1',
+          outcome: { in: ['Approved', 'Rejected', 'Returned'] },
+          closedBy: { not: null },
+        },
+      })
+    );
+  });
+
+  it('should reject a template of another tenant', async () => {
+    db.workflowTemplate.findFirst.mockResolvedValue(null);
+
+    await expect(
+      SLAAnalyticsService.getReport({ tenantId: 'tenant-1', workflowTemplateId: 'template-9' })
+    ).rejects.toThrow('Template not found');
+  });
+});
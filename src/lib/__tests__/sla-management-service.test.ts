@@ -248,4 +248,175 @@ describe('SLA Management Service', () => {
       expect(compliance.hoursRemaining).toBeUndefined();
     });
   });
+
+  describe('Paused SLA clock', () => {
+    const hour = 60 * 60 * 1000;
+
+    it('should freeze time used and remaining while paused', () => {
+      const now = new Date();
+
+      const instance = {
+        id: 'workflow-1',
+        currentStageId: 'stage-1',
+        currentStageStarted: new Date(now.getTime() - 30 * hour),
+        slaDue: new Date(now.getTime() - 6 * hour),
+        slaPausedAt: new Date(now.getTime() - 20 * hour),
+        currentStage: { id: 'stage-1', name: 'Approval', slaHours: 24 },
+      };
+
+      const compliance = SLAManagementService.calculateSLACompliance(instance);
+
+      expect(compliance.isPaused).toBe(true);
+      expect(compliance.currentStatus).toBe('Compliant');
+      expect(compliance.isOverdue).toBe(false);
+      expect(compliance.hoursUsed).toBe(10);
+      expect(compliance.hoursRemaining).toBe(14);
+      expect(compliance.pausedHours).toBe(20);
+    });
+
+    it('should exclude earlier pauses from time used', () => {
+      const now = new Date();
+
+      // Started 30h ago with 24h SLA, paused for 10h and resumed, so due moved back 10h
+      const instance = {
+        id: 'workflow-1',
+        currentStageId: 'stage-1',
+        currentStageStarted: new Date(now.getTime() - 30 * hour),
+        slaDue: new Date(now.getTime() + 4 * hour),
+        slaPausedAt: null,
+        slaPausedHours: 10,
+        currentStage: { id: 'stage-1', name: 'Approval', slaHours: 24 },
+      };
+
+      const compliance = SLAManagementService.calculateSLACompliance(instance);
+
+      expect(compliance.isPaused).toBe(false);
+      expect(compliance.hoursUsed).toBe(20);
+      expect(compliance.hoursRemaining).toBe(4);
+      expect(compliance.percentageUsed).toBe(83);
+      expect(compliance.currentStatus).toBe('Warning');
+      expect(compliance.pausedHours).toBe(10);
+    });
+
+    it('should stay breached when paused after the due date', () => {
+      const now = new Date();
+
+      const instance = {
+        id: 'workflow-1',
+        currentStageId: 'stage-1',
+        currentStageStarted: new Date(now.getTime() - 30 * hour),
+        slaDue: new Date(now.getTime() - 6 * hour),
+        slaPausedAt: new Date(now.getTime() - 2 * hour),
+        currentStage: { id: 'stage-1', name: 'Approval', slaHours: 24 },
+      };
+
+      const compliance = SLAManagementService.calculateSLACompliance(instance);
+
+      expect(compliance.currentStatus).toBe('Breached');
+      expect(compliance.hoursBreach).toBe(4);
+    });
+  });
+
+  describe('SLA threshold bands', () => {
+    const hour = 60 * 60 * 1000;
+    const bands = [
+      { level: 'Info' as const, thresholdPercent: 50 },
+      { level: 'Warning' as const, thresholdPercent: 75 },
+      { level: 'Critical' as const, thresholdPercent: 90 },
+    ];
+
+    const instanceAt = (hoursUsed: number, slaThresholds: unknown = null) => {
+      const now = new Date();
+      return {
+        id: 'workflow-1',
+        currentStageId: 'stage-1',
+        currentStageStarted: new Date(now.getTime() - hoursUsed * hour),
+        slaDue: new Date(now.getTime() + (24 - hoursUsed) * hour),
+        currentStage: { id: 'stage-1', name: 'Approval', slaHours: 24, slaThresholds },
+      };
+    };
+
+    it('should report the highest band reached', () => {
+      const info = SLAManagementService.calculateSLACompliance(instanceAt(13), undefined, bands);
+      const critical = SLAManagementService.calculateSLACompliance(
+        instanceAt(22),
+        undefined,
+        bands
+      );
+
+      expect(info.band).toBe('Info');
+      expect(info.currentStatus).toBe('Compliant');
+      expect(critical.band).toBe('Critical');
+      expect(critical.currentStatus).toBe('Warning');
+      expect(critical.warningThresholdPercent).toBe(75);
+    });
+
+    it("should prefer the stage's bands over the template's", () => {
+      const compliance = SLAManagementService.calculateSLACompliance(
+        instanceAt(13, [{ level: 'Warning', thresholdPercent: 50 }]),
+        undefined,
+        bands
+      );
+
+      expect(compliance.band).toBe('Warning');
+      expect(compliance.isWarning).toBe(true);
+      expect(compliance.thresholdBands).toEqual([{ level: 'Warning', thresholdPercent: 50 }]);
+    });
+
+    it('should default to a single warning band at 75%', () => {
+      const compliance = SLAManagementService.calculateSLACompliance(instanceAt(13));
+
+      expect(compliance.band).toBeNull();
+      expect(compliance.thresholdBands).toEqual([{ level: 'Warning', thresholdPercent: 75 }]);
+    });
+
+    it('should order bands and compare levels', () => {
+      expect(
+        SLAManagementService.resolveThresholdBands([...bands].reverse()).map((b) => b.level)
+      ).toEqual(['Info', 'Warning', 'Critical']);
+      expect(SLAManagementService.getBand(49, bands)).toBeNull();
+      expect(SLAManagementService.getBand(100, bands)).toBe('Critical');
+      expect(SLAManagementService.compareBands('Info', 'Warning')).toBeLessThan(0);
+      expect(SLAManagementService.compareBands('Info', null)).toBeGreaterThan(0);
+    });
+  });
+
+  describe('calculateResume', () => {
+    const calendar = {
+      timezone: 'UTC',
+      workDays: [1, 2, 3, 4, 5] as Array<0 | 1 | 2 | 3 | 4 | 5 | 6>,
+      workStart: '09:00',
+      workEnd: '17:00',
+      holidays: [],
+    };
+
+    it('should push the due date back by the paused working hours', () => {
+      // Paused Friday 15:00, resumed Monday 11:00: 2h Friday + 2h Monday
+      const result = SLAManagementService.calculateResume(
+        {
+          slaDue: new Date('2026-01-13T10:00:00Z'),
+          slaPausedAt: new Date('2026-01-09T15:00:00Z'),
+        },
+        new Date('2026-01-12T11:00:00Z'),
+        calendar
+      );
+
+      expect(result.pausedHours).toBe(4);
+      expect(result.slaDue).toEqual(new Date('2026-01-13T14:00:00Z'));
+    });
+
+    it('should not move the due date for a pause outside working hours', () => {
+      const result = SLAManagementService.calculateResume(
+        {
+          slaDue: new Date('2026-01-13T10:00:00Z'),
+          slaPausedAt: new Date('2026-01-10T09:00:00Z'),
+        },
+        new Date('2026-01-11T18:00:00Z'),
+        calendar
+      );
+
+      expect(result.pausedHours).toBe(0);
+      expect(result.slaDue).toEqual(new Date('2026-01-13T10:00:00Z'));
+    });
+  });
 });
@@ -0,0 +1,296 @@
+/**
+ * SLA Sweeper Tests
+ * Tests for scheduler leases, run history and the background SLA sweep
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('@/lib/services/workflow-notification-integration');
+vi.mock('@/lib/services/escalation-executor');
+vi.mock('@/lib/services/escalation-service');
+
+const db = vi.hoisted(() => ({
+  tenant: { findMany: vi.fn() },
+  workflowInstance: { findMany: vi.fn() },
+  workflowTemplate: { findMany: vi.fn() },
+  escalationPolicy: { findMany: vi.fn() },
+  workflowSlaNotification: { createMany: vi.fn() },
+  schedulerLease: { updateMany: vi.fn(), createMany: vi.fn() },
+  schedulerRun: { create: vi.fn(), update: vi.fn() },
+}));
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => db),
+}));
+
+import { SchedulerService } from '../services/scheduler-service';
+import { SLASweeperService } from '../services/sla-sweeper-service';
+import { EscalationExecutor } from '../services/escalation-executor';
+import { EscalationService } from '../services/escalation-service';
+import { WorkflowNotificationIntegration } from '../services/workflow-notification-integration';
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * In-progress instance in an 8-hour stage, `hoursUsed` hours after it started
+ */
+const instanceAt = (id: string, hoursUsed: number) => ({
+  id,
+  workflowTemplateId: 'template-1',
+  currentStageId: 'stage-1',
+  currentStageStarted: new Date(Date.now() - hoursUsed * HOUR),
+  slaDue: new Date(Date.now() + (8 - hoursUsed) * HOUR),
+  slaPausedAt: null,
+  slaPausedHours: 0,
+  currentStage: { id: 'stage-1', name: 'Review', slaHours: 8 },
+});
+
+describe('SchedulerService.acquireLease', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should renew a lease this node holds or that has expired', async () => {
+    db.schedulerLease.updateMany.mockResolvedValue({ count: 1 });
+
+    expect(await SchedulerService.acquireLease('sla-sweep', 'node-a', 60_000)).toBe(true);
+    expect(db.schedulerLease.createMany).not.toHaveBeenCalled();
+  });
+
+  it('should take a lease nobody holds', async () => {
+    db.schedulerLease.updateMany.mockResolvedValue({ count: 0 });
+    db.schedulerLease.createMany.mockResolvedValue({ count: 1 });
+
+    expect(await SchedulerService.acquireLease('sla-sweep', 'node-a', 60_000)).toBe(true);
+  });
+
+  it('should not take a live lease held by another node', async () => {
+    db.schedulerLease.updateMany.mockResolvedValue({ count: 0 });
+    db.schedulerLease.createMany.mockResolvedValue({ count: 0 });
+
+    expect(await SchedulerService.acquireLease('sla-sweep', 'node-b', 60_000)).toBe(false);
+  });
+});
+
+describe('SchedulerService.runJob', () => {
+  const job = { name: 'test-job', intervalMs: 60_000, run: vi.fn() };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.schedulerLease.updateMany.mockResolvedValue({ count: 1 });
+    db.schedulerRun.create.mockResolvedValue({ id: 'run-1' });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    db.schedulerRun.update.mockImplementation(async ({ data }: any) => ({ id: 'run-1', ...data }));
+  });
+
+  it('should record a successful run with its stats', async () => {
+    job.run.mockResolvedValue({ processed: 3 });
+
+    const run = await SchedulerService.runJob(job);
+
+    expect(run?.status).toBe('Succeeded');
+    expect(run?.stats).toEqual({ processed: 3 });
+    expect(db.schedulerLease.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ expiresAt: expect.any(Date) }),
+      })
+    );
+  });
+
+  it('should record a failed run', async () => {
+    job.run.mockRejectedValue(new Error('Database unavailable'));
+
+    const run = await SchedulerService.runJob(job);
+
+    expect(run?.status).toBe('Failed');
+    expect(run?.error).toBe('Database unavailable');
+  });
+
+  it('should let a long run renew its lease', async () => {
+    job.run.mockImplementation(async (renewLease: () => Promise<boolean>) => ({
+      renewed: (await renewLease()) ? 1 : 0,
+    }));
+
+    const run = await SchedulerService.runJob(job);
+
+    expect(run?.stats).toEqual({ renewed: 1 });
+    expect(db.schedulerLease.updateMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('should skip the run when another node holds the lease', async () => {
+    db.schedulerLease.updateMany.mockResolvedValue({ count: 0 });
+    db.schedulerLease.createMany.mockResolvedValue({ count: 0 });
+
+    expect(await SchedulerService.runJob(job)).toBeNull();
+    expect(job.run).not.toHaveBeenCalled();
+    expect(db.schedulerRun.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('SLASweeperService.sweep', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.tenant.findMany.mockResolvedValue([{ id: 'tenant-1', settings: { timezone: 'UTC' } }]);
+    db.workflowSlaNotification.createMany.mockResolvedValue({ count: 1 });
+    db.workflowTemplate.findMany.mockResolvedValue([
+      { id: 'template-1', tenantId: 'tenant-1', templateFamilyId: null, slaThresholds: null },
+    ]);
+    db.escalationPolicy.findMany.mockResolvedValue([]);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vi.mocked(EscalationService.getPolicyForTemplate).mockResolvedValue({ id: 'policy-1' } as any);
+    vi.mocked(EscalationExecutor.checkAndEscalate).mockResolvedValue(null);
+  });
+
+  it('should notify warnings and breaches and run escalation rules', async () => {
+    db.workflowInstance.findMany.mockResolvedValue([
+      instanceAt('compliant', 2),
+      instanceAt('warning', 7),
+      instanceAt('breached', 10),
+    ]);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vi.mocked(EscalationExecutor.checkAndEscalate).mockResolvedValueOnce({ id: 'event-1' } as any);
+
+    const stats = await SLASweeperService.sweep();
+
+    expect(stats).toEqual({
+      tenantsScanned: 1,
+      instancesScanned: 3,
+      warningsSent: 1,
+      breachesSent: 1,
+      escalationsTriggered: 1,
+      failures: 0,
+    });
+    expect(WorkflowNotificationIntegration.notifySLAWarning).toHaveBeenCalledWith(
+      'warning',
+      'tenant-1',
+      'Review',
+      1
+    );
+    expect(WorkflowNotificationIntegration.notifySLABreach).toHaveBeenCalledWith(
+      'breached',
+      'tenant-1',
+      'Review',
+      2
+    );
+    expect(EscalationExecutor.checkAndEscalate).toHaveBeenCalledTimes(2);
+    expect(EscalationExecutor.checkAndEscalate).toHaveBeenCalledWith(
+      'breached',
+      'tenant-1',
+      'policy-1',
+      null
+    );
+    expect(EscalationService.getPolicyForTemplate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not notify again for the same stage entry', async () => {
+    db.workflowInstance.findMany.mockResolvedValue([instanceAt('breached', 10)]);
+    db.workflowSlaNotification.createMany.mockResolvedValue({ count: 0 });
+
+    const stats = await SLASweeperService.sweep();
+
+    expect(stats.breachesSent).toBe(0);
+    expect(WorkflowNotificationIntegration.notifySLABreach).not.toHaveBeenCalled();
+    expect(db.workflowSlaNotification.createMany).toHaveBeenCalledWith({
+      data: [
+        {
+          workflowInstanceId: 'breached',
+          stageId: 'stage-1',
+          stageStartedAt: expect.any(Date),
+          type: 'Breach',
+        },
+      ],
+      skipDuplicates: true,
+    });
+    // Escalation rules apply their own cooldown and maximum
+    expect(EscalationExecutor.checkAndEscalate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only scan unpaused in-progress instances of the tenant', async () => {
+    db.workflowInstance.findMany.mockResolvedValue([]);
+
+    await SLASweeperService.sweep();
+
+    expect(db.workflowInstance.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { status: 'InProgress', slaPausedAt: null, template: { tenantId: 'tenant-1' } },
+        orderBy: [{ slaDue: 'asc' }, { id: 'asc' }],
+      })
+    );
+  });
+
+  it('should stop before escalating once another node holds the lease', async () => {
+    db.tenant.findMany.mockResolvedValue([
+      { id: 'tenant-1', settings: {} },
+      { id: 'tenant-2', settings: {} },
+    ]);
+    db.workflowInstance.findMany.mockResolvedValue([instanceAt('breached', 10)]);
+    const renewLease = vi.fn().mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    await expect(SLASweeperService.sweep(renewLease)).rejects.toThrow('Lease lost');
+
+    expect(db.workflowInstance.findMany).toHaveBeenCalledTimes(1);
+    expect(EscalationExecutor.checkAndEscalate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should count failures and carry on with the next instance', async () => {
+    db.workflowInstance.findMany.mockResolvedValue([
+      instanceAt('breached-1', 10),
+      instanceAt('breached-2', 10),
+    ]);
+    db.workflowSlaNotification.createMany
+      .mockRejectedValueOnce(new Error('Connection lost'))
+      .mockResolvedValueOnce({ count: 1 });
+
+    const stats = await SLASweeperService.sweep();
+
+    expect(stats.failures).toBe(1);
+    expect(stats.breachesSent).toBe(1);
+  });
+
+  it("should notify once per band of the template's thresholds", async () => {
+    db.workflowTemplate.findMany.mockResolvedValue([
+      {
+        id: 'template-1',
+        tenantId: 'tenant-1',
+        templateFamilyId: null,
+        slaThresholds: [
+          { level: 'Info', thresholdPercent: 25 },
+          { level: 'Warning', thresholdPercent: 50 },
+          { level: 'Critical', thresholdPercent: 80 },
+        ],
+      },
+    ]);
+    db.workflowInstance.findMany.mockResolvedValue([
+      instanceAt('info', 3),
+      instanceAt('warning', 5),
+      instanceAt('critical', 7),
+    ]);
+
+    const stats = await SLASweeperService.sweep();
+
+    expect(stats.warningsSent).toBe(2);
+    expect(db.workflowSlaNotification.createMany.mock.calls.map((c) => c[0].data[0].type)).toEqual([
+      'Warning',
+      'Critical',
+    ]);
+    // Rules with a lower warningThresholdPercent may fire from the Info band
+    expect(EscalationExecutor.checkAndEscalate).toHaveBeenCalledTimes(3);
+    expect(db.workflowTemplate.findMany).toHaveBeenCalledTimes(1);
+  });
+
+  it("should warn at the escalation policy's threshold when the template sets no bands", async () => {
+    db.escalationPolicy.findMany.mockResolvedValue([
+      {
+        tenantId: 'tenant-1',
+        workflowTemplateId: 'template-1',
+        warningThresholdPercent: 50,
+        template: { id: 'template-1', templateFamilyId: null },
+      },
+    ]);
+    db.workflowInstance.findMany.mockResolvedValue([instanceAt('warning', 5)]);
+
+    const stats = await SLASweeperService.sweep();
+
+    expect(stats.warningsSent).toBe(1);
+  });
+});
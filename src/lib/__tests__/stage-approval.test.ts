@@ -0,0 +1,158 @@
+/**
+ * Stage Approval Tests
+ * Tests for Any / All / Quorum approval rule evaluation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { StageApprovalService } from '../services/stage-approval-service';
+import { ActionResult } from '@/types/workflow';
+
+function votes(...entries: Array<[string, ActionResult]>) {
+  return entries.map(([actorId, action]) => ({ actorId, action }));
+}
+
+describe('StageApprovalService', () => {
+  describe('evaluateApprovalRule', () => {
+    it('should complete an Any stage on the first approval', () => {
+      const result = StageApprovalService.evaluateApprovalRule(
+        { approvalMode: 'Any', requiredApprovals: null },
+        votes(['user-1', 'Approved']),
+        0
+      );
+
+      expect(result.isMet).toBe(true);
+      expect(result.requiredApprovals).toBe(1);
+    });
+
+    it('should defeat an Any stage on the first rejection', () => {
+      const result = StageApprovalService.evaluateApprovalRule(
+        { approvalMode: 'Any', requiredApprovals: null },
+        votes(['user-1', 'Rejected']),
+        0
+      );
+
+      expect(result.isDefeated).toBe(true);
+      expect(result.isMet).toBe(false);
+    });
+
+    it('should wait for every eligible approver in an All stage', () => {
+      const stage = { approvalMode: 'All' as const, requiredApprovals: null };
+
+      const partial = StageApprovalService.evaluateApprovalRule(
+        stage,
+        votes(['user-1', 'Approved'], ['user-2', 'Approved']),
+        3
+      );
+      const complete = StageApprovalService.evaluateApprovalRule(
+        stage,
+        votes(['user-1', 'Approved'], ['user-2', 'Approved'], ['user-3', 'Approved']),
+        3
+      );
+
+      expect(partial.isMet).toBe(false);
+      expect(partial.isDefeated).toBe(false);
+      expect(complete.isMet).toBe(true);
+    });
+
+    it('should defeat an All stage on any rejection', () => {
+      const result = StageApprovalService.evaluateApprovalRule(
+        { approvalMode: 'All', requiredApprovals: null },
+        votes(['user-1', 'Approved'], ['user-2', 'Rejected']),
+        3
+      );
+
+      expect(result.isDefeated).toBe(true);
+    });
+
+    it('should complete a Quorum stage at N distinct approvals', () => {
+      const stage = { approvalMode: 'Quorum' as const, requiredApprovals: 3 };
+
+      const pending = StageApprovalService.evaluateApprovalRule(
+        stage,
+        votes(['user-1', 'Approved'], ['user-2', 'Rejected'], ['user-3', 'Approved']),
+        5
+      );
+      const met = StageApprovalService.evaluateApprovalRule(
+        stage,
+        votes(
+          ['user-1', 'Approved'],
+          ['user-2', 'Rejected'],
+          ['user-3', 'Approved'],
+          ['user-4', 'Approved']
+        ),
+        5
+      );
+
+      expect(pending.isMet).toBe(false);
+      expect(pending.isDefeated).toBe(false);
+      expect(pending.approvals).toBe(2);
+      expect(met.isMet).toBe(true);
+    });
+
+    it('should defeat a Quorum stage once it can no longer be reached', () => {
+      const result = StageApprovalService.evaluateApprovalRule(
+        { approvalMode: 'Quorum', requiredApprovals: 3 },
+        votes(['user-1', 'Rejected'], ['user-2', 'Rejected'], ['user-3', 'Rejected']),
+        5
+      );
+
+      expect(result.isDefeated).toBe(true);
+    });
+
+    it('should defeat a Quorum stage larger than its eligible approvers', () => {
+      const result = StageApprovalService.evaluateApprovalRule(
+        { approvalMode: 'Quorum', requiredApprovals: 3 },
+        votes(['user-1', 'Approved']),
+        2
+      );
+
+      expect(result.isDefeated).toBe(true);
+      expect(result.isMet).toBe(false);
+    });
+
+    it('should count each actor once using their latest vote', () => {
+      const result = StageApprovalService.evaluateApprovalRule(
+        { approvalMode: 'Quorum', requiredApprovals: 2 },
+        votes(['user-1', 'Approved'], ['user-1', 'Approved'], ['user-1', 'Returned']),
+        5
+      );
+
+      expect(result.approvals).toBe(1);
+      expect(result.isMet).toBe(false);
+    });
+  });
+
+  describe('countEligibleApprovers', () => {
+    it('should count users eligible under several responsibilities once', () => {
+      const count = StageApprovalService.countEligibleApprovers([
+        {
+          responsibilityId: 'r-1',
+          type: 'Role',
+          value: 'Steering',
+          scope: 'Program',
+          userIds: ['user-1', 'user-2'],
+        },
+        {
+          responsibilityId: 'r-2',
+          type: 'User',
+          value: 'user-2',
+          scope: 'Global',
+          userIds: ['user-2'],
+        },
+      ]);
+
+      expect(count).toBe(2);
+    });
+  });
+
+  describe('hasActorVoted', () => {
+    it('should ignore non-vote actions', () => {
+      expect(StageApprovalService.hasActorVoted(votes(['user-1', 'Returned']), 'user-1')).toBe(
+        false
+      );
+      expect(StageApprovalService.hasActorVoted(votes(['user-1', 'Approved']), 'user-1')).toBe(
+        true
+      );
+    });
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * Stage Responsibility Tests
+ * Tests for resolving stage responsibilities against actors, roles and entity positions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { StageResponsibilityService } from '../services/stage-responsibility-service';
+import { StageEntityContext } from '@/types/workflow';
+import { UserRole } from '@/types/rbac';
+
+const projectContext: StageEntityContext = {
+  tenantId: 'tenant-1',
+  programId: 'program-1',
+  projectId: 'project-1',
+  programPositions: { Sponsor: 'program-sponsor', PM: 'program-pm', Requester: null },
+  projectPositions: { Sponsor: 'project-sponsor', PM: 'project-pm', Requester: 'requester-1' },
+};
+
+const programContext: StageEntityContext = {
+  tenantId: 'tenant-1',
+  programId: 'program-1',
+  projectId: null,
+  programPositions: { Sponsor: 'program-sponsor', PM: 'program-pm', Requester: null },
+  projectPositions: {},
+};
+
+function rolesContext(roles: {
+  global?: UserRole[];
+  program?: Record<string, UserRole[]>;
+  project?: Record<string, UserRole[]>;
+}) {
+  return {
+    globalRoles: roles.global || [],
+    programRoles: new Map(Object.entries(roles.program || {})),
+    projectRoles: new Map(Object.entries(roles.project || {})),
+  };
+}
+
+describe('StageResponsibilityService', () => {
+  describe('getApplicableContexts', () => {
+    it('should only use the global context for Global scope', () => {
+      const contexts = StageResponsibilityService.getApplicableContexts('Global', projectContext);
+
+      expect(contexts).toEqual([{ contextType: 'Global', contextId: null }]);
+    });
+
+    it('should include the parent program for Project scope', () => {
+      const contexts = StageResponsibilityService.getApplicableContexts('Project', projectContext);
+
+      expect(contexts).toContainEqual({ contextType: 'Program', contextId: 'program-1' });
+      expect(contexts).toContainEqual({ contextType: 'Project', contextId: 'project-1' });
+    });
+
+    it('should not include a project context for Program scope', () => {
+      const contexts = StageResponsibilityService.getApplicableContexts('Program', projectContext);
+
+      expect(contexts.some((c) => c.contextType === 'Project')).toBe(false);
+    });
+  });
+
+  describe('actorMatches', () => {
+    it('should match a User responsibility by user ID', () => {
+      const responsibility = { type: 'User' as const, value: 'user-1', scope: 'Global' as const };
+
+      expect(
+        StageResponsibilityService.actorMatches(
+          responsibility,
+          'user-1',
+          rolesContext({}),
+          projectContext
+        )
+      ).toBe(true);
+      expect(
+        StageResponsibilityService.actorMatches(
+          responsibility,
+          'user-2',
+          rolesContext({}),
+          projectContext
+        )
+      ).toBe(false);
+    });
+
+    it('should match a global role for any scope', () => {
+      const responsibility = { type: 'Role' as const, value: 'PMO', scope: 'Project' as const };
+
+      expect(
+        StageResponsibilityService.actorMatches(
+          responsibility,
+          'user-1',
+          rolesContext({ global: ['PMO'] }),
+          projectContext
+        )
+      ).toBe(true);
+    });
+
+    it("should inherit program roles on the program's projects", () => {
+      const responsibility = { type: 'Role' as const, value: 'Sponsor', scope: 'Project' as const };
+
+      expect(
+        StageResponsibilityService.actorMatches(
+          responsibility,
+          'user-1',
+          rolesContext({ program: { 'program-1': ['Sponsor'] } }),
+          projectContext
+        )
+      ).toBe(true);
+    });
+
+    it('should not accept a role held on a different project', () => {
+      const responsibility = { type: 'Role' as const, value: 'Sponsor', scope: 'Project' as const };
+
+      expect(
+        StageResponsibilityService.actorMatches(
+          responsibility,
+          'user-1',
+          rolesContext({ project: { 'project-2': ['Sponsor'] } }),
+          projectContext
+        )
+      ).toBe(false);
+    });
+
+    it('should not accept a project role for Global scope', () => {
+      const responsibility = { type: 'Role' as const, value: 'Finance', scope: 'Global' as const };
+
+      expect(
+        StageResponsibilityService.actorMatches(
+          responsibility,
+          'user-1',
+          rolesContext({ project: { 'project-1': ['Finance'] } }),
+          projectContext
+        )
+      ).toBe(false);
+    });
+
+    it('should resolve Position responsibilities against the entity', () => {
+      const projectSponsor = {
+        type: 'Position' as const,
+        value: 'Sponsor',
+        scope: 'Project' as const,
+      };
+      const programSponsor = {
+        type: 'Position' as const,
+        value: 'Sponsor',
+        scope: 'Program' as const,
+      };
+
+      expect(
+        StageResponsibilityService.actorMatches(
+          projectSponsor,
+          'project-sponsor',
+          rolesContext({}),
+          projectContext
+        )
+      ).toBe(true);
+      expect(
+        StageResponsibilityService.actorMatches(
+          programSponsor,
+          'program-sponsor',
+          rolesContext({}),
+          projectContext
+        )
+      ).toBe(true);
+      expect(
+        StageResponsibilityService.actorMatches(
+          projectSponsor,
+          'program-sponsor',
+          rolesContext({}),
+          projectContext
+        )
+      ).toBe(false);
+    });
+
+    it('should read program positions when the entity is a program', () => {
+      const responsibility = { type: 'Position' as const, value: 'PM', scope: 'Project' as const };
+
+      expect(
+        StageResponsibilityService.actorMatches(
+          responsibility,
+          'program-pm',
+          rolesContext({}),
+          programContext
+        )
+      ).toBe(true);
+    });
+  });
+
+  describe('getEffectiveResponsibilities', () => {
+    const stageStarted = new Date('2026-03-02T09:00:00Z');
+    const responsibilities = [
+      {
+        id: 'r-1',
+        stageId: 'stage-1',
+        type: 'Role' as const,
+        value: 'Finance',
+        scope: 'Global' as const,
+        notificationMethod: 'Both' as const,
+        createdAt: stageStarted,
+      },
+    ];
+    const instance = {
+      id: 'instance-1',
+      currentStageId: 'stage-1',
+      currentStageStarted: stageStarted,
+    };
+
+    it('should keep the stage responsibilities without a reassignment', () => {
+      expect(
+        StageResponsibilityService.getEffectiveResponsibilities(instance, responsibilities)
+      ).toBe(responsibilities);
+    });
+
+    it('should replace the stage responsibilities with the reassigned user', () => {
+      const effective = StageResponsibilityService.getEffectiveResponsibilities(
+        {
+          ...instance,
+          assigneeType: 'User',
+          assigneeValue: 'director-1',
+          assignedStageId: 'stage-1',
+          assignedAt: new Date('2026-03-03T09:00:00Z'),
+        },
+        responsibilities
+      );
+
+      expect(effective).toHaveLength(1);
+      expect(
+        StageResponsibilityService.findMatchingResponsibility(
+          effective,
+          'director-1',
+          rolesContext({}),
+          projectContext
+        )
+      ).not.toBeNull();
+      expect(
+        StageResponsibilityService.findMatchingResponsibility(
+          effective,
+          'finance-user',
+          rolesContext({ global: ['Finance'] }),
+          projectContext
+        )
+      ).toBeNull();
+    });
+
+    it('should match a reassigned role held on the parent program', () => {
+      const effective = StageResponsibilityService.getEffectiveResponsibilities(
+        {
+          ...instance,
+          assigneeType: 'Role',
+          assigneeValue: 'Sponsor',
+          assignedStageId: 'stage-1',
+          assignedAt: new Date('2026-03-03T09:00:00Z'),
+        },
+        responsibilities
+      );
+
+      expect(
+        StageResponsibilityService.findMatchingResponsibility(
+          effective,
+          'user-1',
+          rolesContext({ program: { 'program-1': ['Sponsor'] } }),
+          projectContext
+        )
+      ).not.toBeNull();
+    });
+
+    it('should ignore a reassignment of another stage', () => {
+      const effective = StageResponsibilityService.getEffectiveResponsibilities(
+        {
+          ...instance,
+          assigneeType: 'User',
+          assigneeValue: 'director-1',
+          assignedStageId: 'stage-0',
+          assignedAt: new Date('2026-03-01T09:00:00Z'),
+        },
+        responsibilities
+      );
+
+      expect(effective).toBe(responsibilities);
+    });
+
+    it('should ignore a reassignment made before the stage was re-entered', () => {
+      const effective = StageResponsibilityService.getEffectiveResponsibilities(
+        {
+          ...instance,
+          assigneeType: 'User',
+          assigneeValue: 'director-1',
+          assignedStageId: 'stage-1',
+          assignedAt: new Date('2026-03-01T09:00:00Z'),
+        },
+        responsibilities
+      );
+
+      expect(effective).toBe(responsibilities);
+    });
+  });
+
+  describe('findMatchingResponsibility', () => {
+    it('should return null when no responsibility matches', () => {
+      const responsibilities = [
+        { id: 'r-1', type: 'Role' as const, value: 'Finance', scope: 'Global' as const },
+        { id: 'r-2', type: 'User' as const, value: 'user-9', scope: 'Global' as const },
+      ];
+
+      expect(
+        StageResponsibilityService.findMatchingResponsibility(
+          responsibilities,
+          'user-1',
+          rolesContext({ global: ['PM'] }),
+          projectContext
+        )
+      ).toBeNull();
+    });
+
+    it('should return the first matching responsibility', () => {
+      const responsibilities = [
+        { id: 'r-1', type: 'Role' as const, value: 'Finance', scope: 'Global' as const },
+        { id: 'r-2', type: 'User' as const, value: 'user-1', scope: 'Global' as const },
+      ];
+
+      const matched = StageResponsibilityService.findMatchingResponsibility(
+        responsibilities,
+        'user-1',
+        rolesContext({}),
+        projectContext
+      );
+
+      expect(matched?.id).toBe('r-2');
+    });
+  });
+});
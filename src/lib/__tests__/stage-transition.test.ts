@@ -0,0 +1,177 @@
+/**
+ * Stage Transition Tests
+ * Tests for the condition language and transition selection used for stage branching
+ */
+
+import { describe, it, expect } from 'vitest';
+import { StageTransitionService } from '../services/stage-transition-service';
+import { TransitionCondition } from '@/types/workflow';
+
+const budgetIncrease = StageTransitionService.buildConditionContext(
+  { budget: '120000', reason: 'Scope increase' },
+  { budget: 100000, complexityBand: 'Medium', type: 'Project', status: 'Active' }
+);
+
+const smallChange = StageTransitionService.buildConditionContext(
+  { budget: 105000 },
+  { budget: 100000, complexityBand: 'Low', type: 'Initiative', status: 'Active' }
+);
+
+const financeReview: TransitionCondition = {
+  field: 'derived.budgetChangePercent',
+  operator: 'gt',
+  value: 10,
+};
+
+describe('StageTransitionService', () => {
+  describe('calculateBudgetChangePercent', () => {
+    it('should calculate absolute percentage change', () => {
+      expect(StageTransitionService.calculateBudgetChangePercent(100000, 120000)).toBe(20);
+      expect(StageTransitionService.calculateBudgetChangePercent(100000, 80000)).toBe(20);
+    });
+
+    it('should return undefined when no budget is requested', () => {
+      expect(StageTransitionService.calculateBudgetChangePercent(100000, undefined)).toBe(
+        undefined
+      );
+    });
+
+    it('should treat any change from a zero budget as unbounded', () => {
+      expect(StageTransitionService.calculateBudgetChangePercent(0, 500)).toBe(
+        Number.POSITIVE_INFINITY
+      );
+      expect(StageTransitionService.calculateBudgetChangePercent(0, 0)).toBe(0);
+    });
+  });
+
+  describe('evaluateCondition', () => {
+    it('should require finance review only above a 10% budget change', () => {
+      expect(StageTransitionService.evaluateCondition(financeReview, budgetIncrease)).toBe(true);
+      expect(StageTransitionService.evaluateCondition(financeReview, smallChange)).toBe(false);
+    });
+
+    it('should treat a missing condition as always true', () => {
+      expect(StageTransitionService.evaluateCondition(null, smallChange)).toBe(true);
+    });
+
+    it('should compare entity fields', () => {
+      expect(
+        StageTransitionService.evaluateCondition(
+          { field: 'entity.complexityBand', operator: 'in', value: ['Medium', 'High'] },
+          budgetIncrease
+        )
+      ).toBe(true);
+      expect(
+        StageTransitionService.evaluateCondition(
+          { field: 'entity.type', operator: 'eq', value: 'Project' },
+          smallChange
+        )
+      ).toBe(false);
+    });
+
+    it('should compare numeric strings from the request payload as numbers', () => {
+      expect(
+        StageTransitionService.evaluateCondition(
+          { field: 'request.budget', operator: 'gte', value: 120000 },
+          budgetIncrease
+        )
+      ).toBe(true);
+    });
+
+    it('should support all, any and not', () => {
+      const condition: TransitionCondition = {
+        all: [
+          financeReview,
+          {
+            any: [
+              { field: 'entity.complexityBand', operator: 'eq', value: 'High' },
+              { not: { field: 'request.reason', operator: 'exists' } },
+            ],
+          },
+        ],
+      };
+
+      expect(StageTransitionService.evaluateCondition(condition, budgetIncrease)).toBe(false);
+    });
+
+    it('should not match comparisons against missing fields', () => {
+      expect(
+        StageTransitionService.evaluateCondition(
+          { field: 'request.missing.value', operator: 'gt', value: 0 },
+          smallChange
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('selectTransition', () => {
+    const transitions = [
+      { id: 'default', priority: 10, condition: null },
+      { id: 'finance', priority: 1, condition: financeReview },
+    ];
+
+    it('should pick the first matching transition by priority', () => {
+      expect(StageTransitionService.selectTransition(transitions, budgetIncrease)?.id).toBe(
+        'finance'
+      );
+    });
+
+    it('should fall through to the default branch', () => {
+      expect(StageTransitionService.selectTransition(transitions, smallChange)?.id).toBe('default');
+    });
+
+    it('should return null when nothing matches', () => {
+      expect(StageTransitionService.selectTransition([transitions[1]!], smallChange)).toBeNull();
+    });
+  });
+
+  describe('validateCondition', () => {
+    it('should accept a well-formed condition tree', () => {
+      expect(
+        StageTransitionService.validateCondition({ all: [financeReview, { not: financeReview }] })
+      ).toEqual([]);
+    });
+
+    it('should report unknown operators, roots and missing values', () => {
+      const errors = StageTransitionService.validateCondition({
+        any: [
+          { field: 'payload.budget', operator: 'gt', value: 1 },
+          { field: 'request.budget', operator: 'between', value: 1 },
+          { field: 'request.budget', operator: 'gt' },
+        ],
+      });
+
+      expect(errors).toHaveLength(3);
+    });
+  });
+
+  describe('createsLoop', () => {
+    const stages = [
+      { id: 'review', stageOrder: 1, outgoingTransitions: [] },
+      { id: 'finance', stageOrder: 2, outgoingTransitions: [] },
+      { id: 'board', stageOrder: 3, outgoingTransitions: [{ toStageId: null }] },
+    ];
+
+    it('allows routing forward to a later stage', () => {
+      expect(StageTransitionService.createsLoop(stages, 'review', 'board')).toBe(false);
+    });
+
+    it('rejects routing a stage to itself', () => {
+      expect(StageTransitionService.createsLoop(stages, 'finance', 'finance')).toBe(true);
+    });
+
+    it('rejects routing back to an earlier stage that falls through to the source', () => {
+      expect(StageTransitionService.createsLoop(stages, 'board', 'review')).toBe(true);
+    });
+
+    it('follows existing transitions when looking for a way back', () => {
+      const routed = [
+        { id: 'review', stageOrder: 1, outgoingTransitions: [{ toStageId: 'board' }] },
+        { id: 'board', stageOrder: 2, outgoingTransitions: [{ toStageId: null }] },
+        { id: 'finance', stageOrder: 3, outgoingTransitions: [{ toStageId: 'review' }] },
+      ];
+
+      expect(StageTransitionService.createsLoop(routed, 'board', 'finance')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Workflow Action Validation Tests
+ * Tests for validating actions against stage configuration and return targets
+ */
+
+import { describe, it, expect } from 'vitest';
+import { WorkflowExecutor } from '../services/workflow-service';
+import { WorkflowAction } from '@/types/workflow';
+
+const stages = [
+  { id: 'stage-1', stageOrder: 1 },
+  { id: 'stage-2', stageOrder: 2 },
+  { id: 'stage-3', stageOrder: 3 },
+];
+
+const stage = (actions: WorkflowAction[], requireComment = false) => ({
+  id: 'stage-2',
+  name: 'Finance Review',
+  stageOrder: 2,
+  actions,
+  requireComment,
+});
+
+describe('WorkflowExecutor.validateStageAction', () => {
+  it('should accept an action enabled on the stage', () => {
+    expect(
+      WorkflowExecutor.validateStageAction({ action: 'Approved' }, stage(['Approve']), stages)
+    ).toBeNull();
+  });
+
+  it('should reject an action the stage does not allow', () => {
+    const failure = WorkflowExecutor.validateStageAction(
+      { action: 'Rejected' },
+      stage(['Approve']),
+      stages
+    );
+
+    expect(failure?.code).toBe('ActionNotAllowed');
+    expect(failure?.message).toContain('allowed: Approve');
+  });
+
+  it('should require a comment when the stage requires one', () => {
+    expect(
+      WorkflowExecutor.validateStageAction(
+        { action: 'Approved', comment: '  ' },
+        stage(['Approve'], true),
+        stages
+      )?.code
+    ).toBe('CommentRequired');
+    expect(
+      WorkflowExecutor.validateStageAction(
+        { action: 'Approved', comment: 'Budget confirmed' },
+        stage(['Approve'], true),
+        stages
+      )
+    ).toBeNull();
+  });
+
+  it('should require a return target', () => {
+    expect(
+      WorkflowExecutor.validateStageAction({ action: 'Returned' }, stage(['Return']), stages)?.code
+    ).toBe('ReturnTargetRequired');
+  });
+
+  it('should accept a return to an earlier stage', () => {
+    expect(
+      WorkflowExecutor.validateStageAction(
+        { action: 'Returned', returnToStageId: 'stage-1' },
+        stage(['Approve', 'Return']),
+        stages
+      )
+    ).toBeNull();
+  });
+
+  it('should reject a return to the current or a later stage', () => {
+    for (const returnToStageId of ['stage-2', 'stage-3']) {
+      expect(
+        WorkflowExecutor.validateStageAction(
+          { action: 'Returned', returnToStageId },
+          stage(['Return']),
+          stages
+        )?.code
+      ).toBe('InvalidReturnTarget');
+    }
+  });
+
+  it('should reject a return to a stage of another template', () => {
+    const failure = WorkflowExecutor.validateStageAction(
+      { action: 'Returned', returnToStageId: 'other-template-stage' },
+      stage(['Return']),
+      stages
+    );
+
+    expect(failure?.code).toBe('InvalidReturnTarget');
+    expect(failure?.message).toContain("not part of this workflow's template");
+  });
+});
+
+describe('WorkflowExecutor.getErrorStatus', () => {
+  it('should map error codes to HTTP statuses', () => {
+    expect(WorkflowExecutor.getErrorStatus('InstanceNotFound')).toBe(404);
+    expect(WorkflowExecutor.getErrorStatus('NotAuthorized')).toBe(403);
+    expect(WorkflowExecutor.getErrorStatus('AlreadyVoted')).toBe(409);
+    expect(WorkflowExecutor.getErrorStatus('ActionNotAllowed')).toBe(400);
+    expect(WorkflowExecutor.getErrorStatus(undefined)).toBe(500);
+  });
+});
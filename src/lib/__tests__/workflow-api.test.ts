@@ -0,0 +1,223 @@
+/**
+ * Workflow API Tests
+ * Tests for request validation schemas and instance timeline building
+ */
+
+import { describe, it, expect } from 'vitest';
+import { WorkflowInstanceService } from '../services/workflow-service';
+import {
+  workflowActionRequestSchema,
+  workflowInstanceQuerySchema,
+  workflowStageUpdateSchema,
+  workflowSubmissionSchema,
+  workflowTemplateCreateSchema,
+  workflowTemplateUpdateSchema,
+} from '../validation/workflow-schema';
+import { StageAction, WorkflowComment, WorkflowRequestRevision } from '@/types/workflow';
+import { Attachment } from '@/types/attachment';
+
+const at = (minutes: number) => new Date(Date.UTC(2026, 0, 1, 9, minutes));
+
+describe('workflowSubmissionSchema', () => {
+  it('should accept a request without a template', () => {
+    expect(
+      workflowSubmissionSchema.safeParse({
+        entityType: 'Project',
+        entityId: 'project-1',
+        requestType: 'Update',
+        requestData: { budget: 250000 },
+        budget: 250000,
+      }).success
+    ).toBe(true);
+  });
+
+  it('should reject unknown entity types and missing request data', () => {
+    expect(
+      workflowSubmissionSchema.safeParse({
+        entityType: 'Portfolio',
+        entityId: 'p-1',
+        requestType: 'Create',
+      }).success
+    ).toBe(false);
+  });
+});
+
+describe('workflowInstanceQuerySchema', () => {
+  it('should coerce query string values', () => {
+    const parsed = workflowInstanceQuerySchema.parse({
+      status: 'Returned',
+      overdueSLAOnly: 'true',
+      skip: '20',
+      take: '10',
+    });
+
+    expect(parsed).toEqual({ status: 'Returned', overdueSLAOnly: true, skip: 20, take: 10 });
+  });
+
+  it('should reject unknown statuses', () => {
+    expect(workflowInstanceQuerySchema.safeParse({ status: 'Pending' }).success).toBe(false);
+  });
+});
+
+describe('workflowActionRequestSchema', () => {
+  it('should accept an approval', () => {
+    expect(
+      workflowActionRequestSchema.safeParse({ action: 'Approve', stageId: 'stage-1' }).success
+    ).toBe(true);
+  });
+
+  it('should require a return target for returns', () => {
+    const result = workflowActionRequestSchema.safeParse({ action: 'Return', stageId: 'stage-2' });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]?.path).toEqual(['returnToStageId']);
+  });
+
+  it('should reject action results in place of actions', () => {
+    expect(
+      workflowActionRequestSchema.safeParse({ action: 'Approved', stageId: 'stage-1' }).success
+    ).toBe(false);
+  });
+});
+
+describe('workflow template schemas', () => {
+  it('should reject inverted budget bands', () => {
+    expect(
+      workflowTemplateCreateSchema.safeParse({ name: 'Capital', budgetMin: 500, budgetMax: 100 })
+        .success
+    ).toBe(false);
+  });
+
+  it('should allow partial template and stage updates', () => {
+    expect(workflowTemplateUpdateSchema.safeParse({ isActive: false }).success).toBe(true);
+    expect(workflowStageUpdateSchema.safeParse({ slaHours: 48 }).success).toBe(true);
+    expect(workflowStageUpdateSchema.safeParse({ actions: [] }).success).toBe(false);
+  });
+});
+
+describe('WorkflowInstanceService.buildTimeline', () => {
+  const revisions = [
+    { id: 'rev-1', revision: 1, submittedBy: 'requester', createdAt: at(0) },
+    {
+      id: 'rev-2',
+      revision: 2,
+      submittedBy: 'requester',
+      comment: 'Fixed costs',
+      createdAt: at(30),
+    },
+  ] as WorkflowRequestRevision[];
+  const actions = [
+    {
+      id: 'action-1',
+      stageId: 'stage-1',
+      action: 'Returned',
+      actorId: 'approver',
+      comment: 'Costs missing',
+      actionDate: at(20),
+    },
+    {
+      id: 'action-2',
+      stageId: 'stage-1',
+      action: 'Approved',
+      actorId: 'delegate',
+      principalId: 'approver',
+      actionDate: at(40),
+    },
+  ] as unknown as StageAction[];
+  const comments = [
+    {
+      id: 'comment-1',
+      parentId: null,
+      authorId: 'approver',
+      stageId: 'stage-1',
+      createdAt: at(10),
+    },
+    {
+      id: 'comment-2',
+      parentId: 'comment-1',
+      authorId: 'requester',
+      stageId: 'stage-1',
+      createdAt: at(15),
+    },
+  ] as WorkflowComment[];
+  const attachments = [
+    {
+      id: 'file-1',
+      uploadedBy: 'requester',
+      stageId: 'stage-1',
+      fileName: 'costs.xlsx',
+      createdAt: at(25),
+    },
+  ] as Attachment[];
+
+  it('should merge every source in chronological order', () => {
+    const timeline = WorkflowInstanceService.buildTimeline(
+      { id: 'instance-1', status: 'InProgress' },
+      actions,
+      revisions,
+      comments,
+      attachments
+    );
+
+    expect(timeline.map((e) => e.referenceId)).toEqual([
+      'rev-1',
+      'comment-1',
+      'comment-2',
+      'action-1',
+      'file-1',
+      'rev-2',
+      'action-2',
+    ]);
+    expect(timeline.map((e) => e.type)).toEqual([
+      'Submitted',
+      'Comment',
+      'Comment',
+      'StageAction',
+      'Attachment',
+      'Resubmitted',
+      'StageAction',
+    ]);
+  });
+
+  it('should describe each event', () => {
+    const timeline = WorkflowInstanceService.buildTimeline(
+      { id: 'instance-1', status: 'InProgress' },
+      actions,
+      revisions,
+      comments,
+      attachments
+    );
+    const summaries = Object.fromEntries(timeline.map((e) => [e.referenceId, e.summary]));
+
+    expect(summaries['action-1']).toBe('Returned: Costs missing');
+    expect(summaries['action-2']).toBe('Approved on behalf of approver');
+    expect(summaries['rev-2']).toBe('Revision 2 resubmitted: Fixed costs');
+    expect(summaries['comment-2']).toBe('Replied to a comment');
+    expect(summaries['file-1']).toBe('Attached costs.xlsx');
+  });
+
+  it('should end with the closure of a withdrawn request', () => {
+    const timeline = WorkflowInstanceService.buildTimeline(
+      {
+        id: 'instance-1',
+        status: 'Withdrawn',
+        closedAt: at(50),
+        closedBy: 'requester',
+        closeReason: 'No longer needed',
+      },
+      actions,
+      revisions,
+      [],
+      []
+    );
+
+    expect(timeline[timeline.length - 1]).toEqual({
+      type: 'Closed',
+      occurredAt: at(50),
+      actorId: 'requester',
+      stageId: null,
+      referenceId: 'instance-1',
+      summary: 'Withdrawn: No longer needed',
+    });
+  });
+});
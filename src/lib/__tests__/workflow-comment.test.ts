@@ -0,0 +1,103 @@
+/**
+ * Workflow Comment Tests
+ * Tests for mention parsing, edit mention diffs and thread building
+ */
+
+import { describe, it, expect } from 'vitest';
+import { WorkflowCommentService } from '../services/workflow-comment-service';
+import { workflowCommentSchema } from '../validation/workflow-schema';
+import { WorkflowComment } from '@/types/workflow';
+
+const comment = (id: string, parentId: string | null = null): WorkflowComment => ({
+  id,
+  tenantId: 'tenant-1',
+  workflowInstanceId: 'instance-1',
+  parentId,
+  stageId: 'stage-1',
+  authorId: 'user-1',
+  body: `Comment ${id}`,
+  mentionedUserIds: [],
+  editedAt: null,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+});
+
+describe('WorkflowCommentService.extractMentions', () => {
+  it('should extract mentioned emails', () => {
+    expect(
+      WorkflowCommentService.extractMentions(
+        '@jane.doe@example.gov can you confirm the budget with @Finance.Lead@Example.gov?'
+      )
+    ).toEqual(['jane.doe@example.gov', 'finance.lead@example.gov']);
+  });
+
+  it('should de-duplicate mentions case-insensitively', () => {
+    expect(
+      WorkflowCommentService.extractMentions('@a@example.gov and again @A@EXAMPLE.GOV')
+    ).toEqual(['a@example.gov']);
+  });
+
+  it('should not treat plain email addresses as mentions', () => {
+    expect(WorkflowCommentService.extractMentions('Send it to jane@example.gov')).toEqual([]);
+  });
+
+  it('should ignore trailing punctuation', () => {
+    expect(WorkflowCommentService.extractMentions('Thanks @bob@example.gov.')).toEqual([
+      'bob@example.gov',
+    ]);
+    expect(WorkflowCommentService.extractMentions('(@bob@example.gov)')).toEqual([
+      'bob@example.gov',
+    ]);
+  });
+
+  it('should return nothing for a body without mentions', () => {
+    expect(WorkflowCommentService.extractMentions('Looks good to me @ all')).toEqual([]);
+  });
+});
+
+describe('WorkflowCommentService.getAddedMentions', () => {
+  it('should return only users not previously mentioned', () => {
+    expect(WorkflowCommentService.getAddedMentions(['u1', 'u2'], ['u2', 'u3'])).toEqual(['u3']);
+  });
+
+  it('should return nothing when mentions are removed', () => {
+    expect(WorkflowCommentService.getAddedMentions(['u1', 'u2'], ['u1'])).toEqual([]);
+  });
+});
+
+describe('WorkflowCommentService.buildThreads', () => {
+  it('should nest replies under their parents in order', () => {
+    const threads = WorkflowCommentService.buildThreads([
+      comment('c1'),
+      comment('c2'),
+      comment('r1', 'c1'),
+      comment('r2', 'r1'),
+      comment('r3', 'c1'),
+    ]);
+
+    expect(threads.map((t) => t.id)).toEqual(['c1', 'c2']);
+    expect(threads[0]!.replies.map((r) => r.id)).toEqual(['r1', 'r3']);
+    expect(threads[0]!.replies[0]!.replies.map((r) => r.id)).toEqual(['r2']);
+    expect(threads[1]!.replies).toEqual([]);
+  });
+
+  it('should promote replies whose parent is missing', () => {
+    const threads = WorkflowCommentService.buildThreads([comment('r1', 'gone'), comment('c1')]);
+
+    expect(threads.map((t) => t.id)).toEqual(['r1', 'c1']);
+  });
+
+  it('should return no threads for no comments', () => {
+    expect(WorkflowCommentService.buildThreads([])).toEqual([]);
+  });
+});
+
+describe('workflowCommentSchema', () => {
+  it('should reject empty or whitespace-only comments', () => {
+    expect(workflowCommentSchema.safeParse({ body: '   ' }).success).toBe(false);
+  });
+
+  it('should accept a reply', () => {
+    expect(workflowCommentSchema.safeParse({ body: 'Agreed', parentId: 'c1' }).success).toBe(true);
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Workflow Definition Tests
+ * Tests for exporting, validating and remapping portable workflow template definitions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { WorkflowDefinitionService } from '../services/workflow-definition-service';
+import { WorkflowTemplateDefinition } from '@/types/workflow';
+
+function definition(): WorkflowTemplateDefinition {
+  return {
+    formatVersion: 1,
+    template: {
+      name: 'Capital Project Approval',
+      description: null,
+      entityType: 'Project',
+      complexityBand: 'High',
+      budgetMin: 1000000,
+      budgetMax: null,
+      isDefault: false,
+      slaThresholds: null,
+    },
+    stages: [
+      {
+        stageKey: 'sponsor',
+        stageOrder: 1,
+        name: 'Sponsor Approval',
+        description: null,
+        slaHours: 48,
+        slaThresholds: null,
+        actions: ['Approve', 'Reject', 'Return'],
+        requireComment: false,
+        requireAttachment: false,
+        approvalMode: 'Any',
+        requiredApprovals: null,
+        responsibilities: [
+          { type: 'Position', value: 'Sponsor', scope: 'Project', notificationMethod: 'Both' },
+        ],
+        transitions: [
+          {
+            toStageKey: 'committee',
+            priority: 0,
+            condition: { field: 'entity.budget', operator: 'gt', value: 5000000 },
+            description: null,
+          },
+        ],
+      },
+      {
+        stageKey: 'committee',
+        stageOrder: 2,
+        name: 'Steering Committee',
+        description: 'Vote of the steering committee',
+        slaHours: 120,
+        slaThresholds: [
+          { level: 'Warning', thresholdPercent: 60 },
+          { level: 'Critical', thresholdPercent: 90 },
+        ],
+        actions: ['Approve', 'Reject'],
+        requireComment: true,
+        requireAttachment: false,
+        approvalMode: 'Quorum',
+        requiredApprovals: 3,
+        responsibilities: [
+          { type: 'Role', value: 'Steering', scope: 'Global', notificationMethod: 'Email' },
+          {
+            type: 'User',
+            value: 'chair@ministry.gov',
+            scope: 'Global',
+            notificationMethod: 'Email',
+          },
+        ],
+        transitions: [],
+      },
+    ],
+  };
+}
+
+describe('WorkflowDefinitionService', () => {
+  describe('buildDefinition', () => {
+    it('should replace stage IDs with keys and user IDs with emails', () => {
+      const now = new Date();
+      const result = WorkflowDefinitionService.buildDefinition(
+        {
+          id: 'template-1',
+          tenantId: 'tenant-1',
+          name: 'Approval',
+          description: null,
+          entityType: 'Project',
+          complexityBand: null,
+          budgetMin: 1000,
+          budgetMax: null,
+          matchScore: 30,
+          isDefault: false,
+          isActive: true,
+          slaThresholds: null,
+          templateFamilyId: null,
+          version: 1,
+          status: 'Published',
+          publishedAt: now,
+          publishedBy: null,
+          createdAt: now,
+          updatedAt: now,
+          stages: [
+            {
+              id: 'stage-1',
+              workflowTemplateId: 'template-1',
+              stageKey: 'review',
+              stageOrder: 1,
+              name: 'Review',
+              slaHours: 24,
+              slaThresholds: null,
+              actions: ['Approve'],
+              requireComment: false,
+              requireAttachment: false,
+              approvalMode: 'Any',
+              requiredApprovals: null,
+              createdAt: now,
+              updatedAt: now,
+              responsibilities: [
+                {
+                  id: 'r-1',
+                  stageId: 'stage-1',
+                  type: 'User',
+                  value: 'user-1',
+                  scope: 'Global',
+                  notificationMethod: 'Both',
+                  createdAt: now,
+                },
+              ],
+              outgoingTransitions: [
+                {
+                  id: 't-1',
+                  fromStageId: 'stage-1',
+                  toStageId: null,
+                  priority: 0,
+                  condition: null,
+                  description: null,
+                  createdAt: now,
+                },
+              ],
+            },
+          ],
+        },
+        new Map([['user-1', 'reviewer@ministry.gov']])
+      );
+
+      expect(result.template.budgetMin).toBe(1000);
+      expect(result.stages[0]?.description).toBeNull();
+      expect(result.stages[0]?.responsibilities[0]?.value).toBe('reviewer@ministry.gov');
+      expect(result.stages[0]?.transitions[0]?.toStageKey).toBeNull();
+    });
+  });
+
+  describe('serialize and parse', () => {
+    it('should round trip through JSON', () => {
+      const json = WorkflowDefinitionService.serialize(definition(), 'json');
+
+      expect(WorkflowDefinitionService.parse(json, 'json')).toEqual(definition());
+    });
+
+    it('should round trip through YAML', () => {
+      const yaml = WorkflowDefinitionService.serialize(definition(), 'yaml');
+
+      expect(yaml).toContain('stageKey: committee');
+      expect(WorkflowDefinitionService.parse(yaml, 'yaml')).toEqual(definition());
+    });
+  });
+
+  describe('validateDefinition', () => {
+    it('should accept a valid definition', () => {
+      const result = WorkflowDefinitionService.validateDefinition(definition());
+
+      expect(result.errors).toEqual([]);
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject duplicate stageOrder', () => {
+      const doc = definition();
+      doc.stages[1]!.stageOrder = 1;
+
+      const result = WorkflowDefinitionService.validateDefinition(doc);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.some((e) => e.includes('Duplicate stageOrder'))).toBe(true);
+    });
+
+    it('should reject unknown actions', () => {
+      const doc = definition() as unknown as { stages: Array<{ actions: string[] }> };
+      doc.stages[0]!.actions = ['Approve', 'Escalate'];
+
+      const result = WorkflowDefinitionService.validateDefinition(doc);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.some((e) => e.includes('Unknown action'))).toBe(true);
+    });
+
+    it('should reject stages without responsibilities', () => {
+      const doc = definition();
+      doc.stages[1]!.responsibilities = [];
+
+      const result = WorkflowDefinitionService.validateDefinition(doc);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.some((e) => e.includes('at least one responsibility'))).toBe(true);
+    });
+
+    it('should reject transitions to unknown stages and malformed conditions', () => {
+      const doc = definition();
+      doc.stages[1]!.transitions = [
+        { toStageKey: 'legal', priority: 0, condition: null, description: null },
+      ];
+
+      expect(WorkflowDefinitionService.validateDefinition(doc).errors[0]).toContain(
+        'Unknown target stage: legal'
+      );
+
+      const malformed = definition();
+      malformed.stages[0]!.transitions[0]!.condition = {
+        field: 'entity.budget',
+        operator: 'between' as 'gt',
+        value: 1,
+      };
+
+      expect(WorkflowDefinitionService.validateDefinition(malformed).valid).toBe(false);
+    });
+
+    it('should reject SLA threshold bands that do not rise with their level', () => {
+      const doc = definition();
+      doc.stages[1]!.slaThresholds = [
+        { level: 'Info', thresholdPercent: 80 },
+        { level: 'Warning', thresholdPercent: 75 },
+      ];
+
+      expect(WorkflowDefinitionService.validateDefinition(doc).errors[0]).toContain(
+        'Warning threshold must be above the Info threshold'
+      );
+
+      doc.stages[1]!.slaThresholds = [{ level: 'Info', thresholdPercent: 50 }];
+
+      expect(WorkflowDefinitionService.validateDefinition(doc).errors[0]).toContain(
+        'A Warning or Critical band is required'
+      );
+    });
+  });
+
+  describe('remapReferences', () => {
+    it('should remap role names and resolve users for the target tenant', () => {
+      const { definition: remapped, unresolvedUsers } = WorkflowDefinitionService.remapReferences(
+        definition(),
+        { Steering: 'SteeringCommittee' },
+        new Map([['chair@ministry.gov', 'target-user-9']])
+      );
+
+      expect(unresolvedUsers).toEqual([]);
+      expect(remapped.stages[1]?.responsibilities.map((r) => r.value)).toEqual([
+        'SteeringCommittee',
+        'target-user-9',
+      ]);
+      expect(remapped.stages[0]?.responsibilities[0]?.value).toBe('Sponsor');
+    });
+
+    it('should report users that cannot be resolved', () => {
+      const { unresolvedUsers } = WorkflowDefinitionService.remapReferences(
+        definition(),
+        {},
+        new Map()
+      );
+
+      expect(unresolvedUsers).toEqual(['chair@ministry.gov']);
+    });
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Workflow Executor Tests
+ * Tests for recording an action and the transition it completes in one transaction
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+const db = vi.hoisted(() => {
+  const client: any = {
+    workflowInstance: {
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+      update: vi.fn(async ({ data }: any) => data),
+    },
+    stageAction: {
+      findMany: vi.fn(),
+      create: vi.fn(async ({ data }: any) => ({ id: 'action-1', ...data })),
+    },
+    attachment: { updateMany: vi.fn() },
+    tenant: { findUnique: vi.fn(async () => ({ settings: {} })) },
+  };
+  client.$transaction = vi.fn(async (fn: any) => fn(client));
+  return client;
+});
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: vi.fn(() => db),
+}));
+vi.mock('../services/workflow-notification-integration', () => ({
+  WorkflowNotificationIntegration: {
+    notifyWorkflowAdvanced: vi.fn(),
+    notifyWorkflowApproved: vi.fn(),
+    notifyWorkflowRejected: vi.fn(),
+    notifyWorkflowReturned: vi.fn(),
+  },
+}));
+
+import { WorkflowExecutor, WorkflowStageService } from '../services/workflow-service';
+import { AttachmentService } from '../services/attachment-service';
+import { DelegationService } from '../services/delegation-service';
+import { RBACService } from '../services/rbac-service';
+import { SLAManagementService } from '../services/sla-management-service';
+import { StageResponsibilityService } from '../services/stage-responsibility-service';
+import { WorkflowRequestService } from '../services/workflow-request-service';
+
+const financeRole = { id: 'r-1', type: 'Role', value: 'Finance', scope: 'Global' };
+
+const stage = {
+  id: 'stage-1',
+  name: 'Finance Review',
+  stageOrder: 1,
+  slaHours: 8,
+  actions: ['Approve', 'Reject'],
+  requireComment: false,
+  requireAttachment: false,
+  approvalMode: 'Any',
+  requiredApprovals: null as number | null,
+  responsibilities: [financeRole],
+};
+
+function instanceAt(currentStage: typeof stage) {
+  return {
+    id: 'instance-1',
+    workflowTemplateId: 'template-1',
+    entityType: 'Project',
+    entityId: 'project-1',
+    requestData: {},
+    status: 'InProgress',
+    currentStageId: currentStage.id,
+    currentStageStarted: new Date('2026-01-12T09:00:00Z'),
+    slaDue: new Date('2026-01-12T17:00:00Z'),
+    slaPausedAt: null,
+    slaPausedHours: 0,
+    template: { id: 'template-1', tenantId: 'tenant-1', stages: [currentStage] },
+    currentStage,
+  };
+}
+
+const request = { instanceId: 'instance-1', stageId: 'stage-1', action: 'Approved' as const };
+const context = { tenantId: 'tenant-1', actorId: 'user-1', timestamp: new Date() };
+
+describe('WorkflowExecutor.executeAction', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.workflowInstance.findUnique.mockResolvedValue(instanceAt(stage));
+    db.workflowInstance.updateMany.mockResolvedValue({ count: 1 });
+    db.stageAction.findMany.mockResolvedValue([]);
+    vi.spyOn(WorkflowExecutor, 'verifyPermission').mockResolvedValue({
+      isAuthorized: true,
+      reason: 'Authorized',
+    } as Awaited<ReturnType<typeof WorkflowExecutor.verifyPermission>>);
+    vi.spyOn(AttachmentService, 'getSubmittableAttachments').mockResolvedValue([]);
+    vi.spyOn(SLAManagementService, 'recordSLAHistory').mockResolvedValue(null);
+    vi.spyOn(WorkflowStageService, 'resolveNextStage').mockResolvedValue(null);
+    vi.spyOn(WorkflowRequestService, 'applyApprovedRequest').mockResolvedValue({
+      applied: false,
+    } as Awaited<ReturnType<typeof WorkflowRequestService.applyApprovedRequest>>);
+  });
+
+  it('should claim the stage before reading prior votes, all in one transaction', async () => {
+    const result = await WorkflowExecutor.executeAction(request, context);
+
+    expect(result.success).toBe(true);
+    expect(db.$transaction).toHaveBeenCalledTimes(1);
+    expect(db.workflowInstance.updateMany).toHaveBeenCalledWith({
+      where: { id: 'instance-1', currentStageId: 'stage-1', status: 'InProgress' },
+      data: { updatedAt: expect.any(Date) },
+    });
+    expect(db.workflowInstance.updateMany.mock.invocationCallOrder[0]).toBeLessThan(
+      db.stageAction.findMany.mock.invocationCallOrder[0]
+    );
+    expect(db.stageAction.create.mock.invocationCallOrder[0]).toBeLessThan(
+      vi.mocked(WorkflowRequestService.applyApprovedRequest).mock.invocationCallOrder[0]!
+    );
+  });
+
+  it('should approve the last stage only through applying its request in the transaction', async () => {
+    const result = await WorkflowExecutor.executeAction(request, context);
+
+    expect(result.workflowStatus).toBe('Approved');
+    expect(WorkflowRequestService.applyApprovedRequest).toHaveBeenCalledWith(
+      'instance-1',
+      'tenant-1',
+      db
+    );
+    expect(db.workflowInstance.update).not.toHaveBeenCalledWith(
+      expect.objectContaining({ data: { status: 'Approved' } })
+    );
+  });
+
+  it('should fail the action when its request cannot be applied', async () => {
+    vi.mocked(WorkflowRequestService.applyApprovedRequest).mockRejectedValue(
+      new Error('Project not found: project-1')
+    );
+
+    const result = await WorkflowExecutor.executeAction(request, context);
+
+    expect(result).toMatchObject({
+      success: false,
+      errorCode: 'ExecutionFailed',
+      error: 'Project not found: project-1',
+    });
+    expect(SLAManagementService.recordSLAHistory).not.toHaveBeenCalled();
+  });
+
+  it('should fail the action when a concurrent action linked its attachment first', async () => {
+    vi.mocked(AttachmentService.getSubmittableAttachments).mockResolvedValue([
+      { id: 'attachment-1' },
+    ] as Awaited<ReturnType<typeof AttachmentService.getSubmittableAttachments>>);
+    db.attachment.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await WorkflowExecutor.executeAction(request, context);
+
+    expect(result).toMatchObject({ success: false, errorCode: 'AttachmentUnavailable' });
+    expect(WorkflowRequestService.applyApprovedRequest).not.toHaveBeenCalled();
+    expect(SLAManagementService.recordSLAHistory).not.toHaveBeenCalled();
+  });
+
+  it('should record nothing once a concurrent action has moved the workflow on', async () => {
+    db.workflowInstance.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await WorkflowExecutor.executeAction(request, context);
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe('StageMismatch');
+    expect(db.stageAction.create).not.toHaveBeenCalled();
+    expect(db.workflowInstance.update).not.toHaveBeenCalled();
+  });
+
+  it('should reject a second vote seen after waiting for the stage', async () => {
+    db.stageAction.findMany.mockResolvedValue([
+      { id: 'action-0', actorId: 'user-1', principalId: null, action: 'Approved' },
+    ]);
+
+    const result = await WorkflowExecutor.executeAction(request, context);
+
+    expect(result.errorCode).toBe('AlreadyVoted');
+    expect(db.stageAction.create).not.toHaveBeenCalled();
+  });
+
+  it('should count hours to action in working hours and overdue past the SLA due date', async () => {
+    // Saturday after a stage due at the end of Friday
+    vi.useFakeTimers({ now: new Date('2026-01-17T11:00:00Z'), toFake: ['Date'] });
+    db.workflowInstance.findUnique.mockResolvedValue({
+      ...instanceAt(stage),
+      slaDue: new Date('2026-01-16T17:00:00Z'),
+    });
+    db.tenant.findUnique.mockResolvedValue({
+      settings: {
+        workCalendar: {
+          workDays: [1, 2, 3, 4, 5],
+          workStart: '09:00',
+          workEnd: '17:00',
+          holidays: [],
+        },
+      },
+    });
+
+    try {
+      await WorkflowExecutor.executeAction(request, context);
+    } finally {
+      vi.useRealTimers();
+      db.tenant.findUnique.mockResolvedValue({ settings: {} });
+    }
+
+    expect(db.stageAction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ hoursToAction: 40, wasOverdue: true }),
+    });
+    expect(db.tenant.findUnique).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject a workflow whose quorum exceeds its eligible approvers', async () => {
+    db.workflowInstance.findUnique.mockResolvedValue(
+      instanceAt({ ...stage, approvalMode: 'Quorum', requiredApprovals: 3 })
+    );
+    vi.spyOn(StageResponsibilityService, 'resolveEntityContext').mockResolvedValue(
+      {} as Awaited<ReturnType<typeof StageResponsibilityService.resolveEntityContext>>
+    );
+    vi.spyOn(StageResponsibilityService, 'resolveEligibleApprovers').mockResolvedValue([
+      {
+        responsibilityId: 'r-1',
+        type: 'Role',
+        value: 'Finance',
+        scope: 'Global',
+        userIds: ['user-1', 'user-2'],
+      },
+    ]);
+
+    const result = await WorkflowExecutor.executeAction(request, context);
+
+    expect(result.success).toBe(true);
+    expect(result.workflowStatus).toBe('Rejected');
+    expect(result.approvalProgress).toMatchObject({ isDefeated: true, eligibleApprovers: 2 });
+    expect(db.workflowInstance.update).toHaveBeenCalledWith({
+      where: { id: 'instance-1' },
+      data: { status: 'Rejected' },
+    });
+    expect(WorkflowRequestService.applyApprovedRequest).not.toHaveBeenCalled();
+  });
+});
+
+describe('WorkflowExecutor.verifyPermission', () => {
+  const financeUser = (userId: string) =>
+    ({
+      userId,
+      globalRoles: ['Finance'],
+      programRoles: new Map(),
+      projectRoles: new Map(),
+      allRoles: ['Finance'],
+      highestRole: 'Finance',
+    }) as Awaited<ReturnType<typeof RBACService.getRolesForUser>>;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(StageResponsibilityService, 'isActiveTenantUser').mockResolvedValue(true);
+    vi.spyOn(StageResponsibilityService, 'resolveEntityContext').mockResolvedValue({
+      programId: null,
+      projectId: null,
+    } as Awaited<ReturnType<typeof StageResponsibilityService.resolveEntityContext>>);
+    vi.spyOn(StageResponsibilityService, 'resolveEligibleApprovers').mockResolvedValue([]);
+    vi.spyOn(RBACService, 'getRolesForUser').mockImplementation(async (userId) =>
+      financeUser(userId)
+    );
+    vi.spyOn(DelegationService, 'getDelegationsForDelegate').mockResolvedValue([
+      { principalId: 'principal-1', delegateId: 'user-1' },
+    ] as Awaited<ReturnType<typeof DelegationService.getDelegationsForDelegate>>);
+  });
+
+  it('should let an approver act for themselves unless they name a principal', async () => {
+    const own = await WorkflowExecutor.verifyPermission(instanceAt(stage), context);
+    const delegated = await WorkflowExecutor.verifyPermission(
+      instanceAt(stage),
+      context,
+      'principal-1'
+    );
+
+    expect(own).toMatchObject({ isAuthorized: true, matchedResponsibilityId: 'r-1' });
+    expect(own.onBehalfOfId).toBeUndefined();
+    expect(delegated).toMatchObject({ isAuthorized: true, onBehalfOfId: 'principal-1' });
+  });
+
+  it('should deny acting for a principal without a delegation from them', async () => {
+    const result = await WorkflowExecutor.verifyPermission(
+      instanceAt(stage),
+      context,
+      'principal-2'
+    );
+
+    expect(result.isAuthorized).toBe(false);
+    expect(result.reason).toContain('no delegation from principal-2');
+  });
+});
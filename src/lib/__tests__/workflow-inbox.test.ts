@@ -0,0 +1,240 @@
+/**
+ * Workflow Inbox Tests
+ * Tests for inbox ranking and counts, and the batched role and entity context builders
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+const db = vi.hoisted(() => ({
+  workflowInstance: { findMany: vi.fn() },
+  project: { findMany: vi.fn() },
+  program: { findMany: vi.fn() },
+})) as any;
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: vi.fn(() => db),
+}));
+
+import { WorkflowInboxService } from '../services/workflow-inbox-service';
+import { BusinessCalendarService } from '../services/business-calendar-service';
+import { DelegationService } from '../services/delegation-service';
+import { RBACService } from '../services/rbac-service';
+import { SLAManagementService } from '../services/sla-management-service';
+import { StageResponsibilityService } from '../services/stage-responsibility-service';
+import { PriorityLevel, SLAComplianceInfo, SLAStatus } from '@/types/escalation';
+import { InboxItem } from '@/types/inbox';
+
+const item = (
+  instanceId: string,
+  status: SLAStatus,
+  priority: PriorityLevel,
+  budget: number | null,
+  dueHour = 12,
+  onBehalfOfId: string | null = null
+): InboxItem => ({
+  instanceId,
+  workflowTemplateId: 'template-1',
+  templateName: 'Capital Review',
+  entityType: 'Project',
+  entityId: `project-${instanceId}`,
+  requestType: 'Update',
+  priority,
+  budget,
+  stageId: 'stage-1',
+  stageName: 'Finance Review',
+  sla: {
+    currentStatus: status,
+    slaDueAt: new Date(Date.UTC(2026, 0, 1, dueHour)),
+  } as SLAComplianceInfo,
+  matchedResponsibilityId: 'resp-1',
+  onBehalfOfId,
+  createdBy: 'requester',
+  createdAt: new Date(Date.UTC(2026, 0, 1)),
+});
+
+describe('WorkflowInboxService.rankInboxItems', () => {
+  it('should put breached and warning SLAs first', () => {
+    const ranked = WorkflowInboxService.rankInboxItems([
+      item('compliant', 'Compliant', 'Critical', 1000000),
+      item('breached', 'Breached', 'Low', null),
+      item('warning', 'Warning', 'Low', 10),
+    ]);
+
+    expect(ranked.map((i) => i.instanceId)).toEqual(['breached', 'warning', 'compliant']);
+  });
+
+  it('should order by priority, then budget, then due date within an SLA status', () => {
+    const ranked = WorkflowInboxService.rankInboxItems([
+      item('medium-small', 'Compliant', 'Medium', 100),
+      item('high', 'Compliant', 'High', 50),
+      item('medium-large-late', 'Compliant', 'Medium', 5000, 18),
+      item('medium-large-early', 'Compliant', 'Medium', 5000, 9),
+      item('medium-unknown', 'Compliant', 'Medium', null),
+    ]);
+
+    expect(ranked.map((i) => i.instanceId)).toEqual([
+      'high',
+      'medium-large-early',
+      'medium-large-late',
+      'medium-small',
+      'medium-unknown',
+    ]);
+  });
+
+  it('should not modify the input', () => {
+    const items = [item('a', 'Compliant', 'Low', 1), item('b', 'Breached', 'Low', 1)];
+
+    WorkflowInboxService.rankInboxItems(items);
+
+    expect(items.map((i) => i.instanceId)).toEqual(['a', 'b']);
+  });
+});
+
+describe('WorkflowInboxService.countInboxItems', () => {
+  it('should count by SLA status, priority and delegation', () => {
+    const counts = WorkflowInboxService.countInboxItems([
+      item('a', 'Breached', 'High', 1),
+      item('b', 'Breached', 'Medium', 1, 12, 'principal'),
+      item('c', 'Compliant', 'Medium', 1),
+    ]);
+
+    expect(counts).toEqual({
+      total: 3,
+      bySlaStatus: { Compliant: 1, Warning: 0, Breached: 2, NotApplicable: 0 },
+      byPriority: { Low: 0, Medium: 2, High: 1, Critical: 0 },
+      delegated: 1,
+    });
+  });
+});
+
+describe('RBACService.buildRolesContext', () => {
+  it('should organize role assignments by context', () => {
+    const context = RBACService.buildRolesContext('user-1', [
+      { role: 'PMO', contextType: 'Global', contextId: null },
+      { role: 'PM', contextType: 'Program', contextId: 'program-1' },
+      { role: 'Sponsor', contextType: 'Project', contextId: 'project-1' },
+    ]);
+
+    expect(context.globalRoles).toEqual(['PMO']);
+    expect(context.programRoles.get('program-1')).toEqual(['PM']);
+    expect(context.projectRoles.get('project-1')).toEqual(['Sponsor']);
+    expect(context.allRoles).toHaveLength(3);
+  });
+
+  it('should build an empty context for users without roles', () => {
+    const context = RBACService.buildRolesContext('user-1', []);
+
+    expect(context.allRoles).toEqual([]);
+    expect(context.highestRole).toBeNull();
+  });
+});
+
+describe('StageResponsibilityService.buildEntityContext', () => {
+  const positions = { sponsorId: 'sponsor', pmId: 'pm', requesterId: 'requester' };
+
+  it('should inherit the program of a project', () => {
+    const context = StageResponsibilityService.buildEntityContext(
+      'tenant-1',
+      { entityType: 'Project', entityId: 'project-1' },
+      { id: 'project-1', programId: 'program-1', ...positions },
+      { sponsorId: 'program-sponsor', pmId: null, requesterId: null }
+    );
+
+    expect(context.programId).toBe('program-1');
+    expect(context.projectId).toBe('project-1');
+    expect(context.projectPositions.PM).toBe('pm');
+    expect(context.programPositions.Sponsor).toBe('program-sponsor');
+  });
+
+  it('should use the entity itself for programs', () => {
+    const context = StageResponsibilityService.buildEntityContext(
+      'tenant-1',
+      { entityType: 'Program', entityId: 'program-1' },
+      null,
+      null
+    );
+
+    expect(context).toEqual({
+      tenantId: 'tenant-1',
+      programId: 'program-1',
+      projectId: null,
+      programPositions: {},
+      projectPositions: {},
+    });
+  });
+});
+
+describe('WorkflowInboxService.getInbox', () => {
+  const candidate = (id: string) => ({
+    id,
+    workflowTemplateId: 'template-1',
+    entityType: 'Project',
+    entityId: 'project-1',
+    projectId: null,
+    status: 'InProgress',
+    currentStageId: 'stage-1',
+    template: { id: 'template-1', name: 'Capital Review', templateFamilyId: null },
+    currentStage: { id: 'stage-1', name: 'Finance Review', responsibilities: [] },
+    stageActions: [],
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(RBACService, 'getRolesForUser').mockResolvedValue(
+      RBACService.buildRolesContext('user-1', [])
+    );
+    vi.spyOn(RBACService, 'getRolesForUsers').mockResolvedValue(new Map());
+    vi.spyOn(DelegationService, 'listDelegations').mockResolvedValue([]);
+    vi.spyOn(BusinessCalendarService, 'getTenantCalendar').mockResolvedValue(
+      {} as Awaited<ReturnType<typeof BusinessCalendarService.getTenantCalendar>>
+    );
+    vi.spyOn(SLAManagementService, 'getThresholdBands').mockResolvedValue(new Map());
+    db.program.findMany.mockResolvedValue([]);
+    db.project.findMany.mockResolvedValue([]);
+  });
+
+  it('should only consider position stages on entities where the user holds a position', async () => {
+    db.program.findMany.mockResolvedValueOnce([{ id: 'program-1' }]);
+    db.project.findMany.mockResolvedValueOnce([{ id: 'project-1' }]);
+    db.workflowInstance.findMany.mockResolvedValue([]);
+
+    await WorkflowInboxService.getInbox('tenant-1', 'user-1', { skip: 0, take: 20 });
+
+    const { where } = db.workflowInstance.findMany.mock.calls[0][0];
+    expect(where.OR).toContainEqual({
+      currentStage: { responsibilities: { some: { type: 'Position' } } },
+      OR: [
+        { entityType: 'Program', entityId: { in: ['program-1'] } },
+        { entityType: { not: 'Program' }, projectId: { in: ['project-1'] } },
+        { entityType: { not: 'Program' }, projectId: null, entityId: { in: ['project-1'] } },
+      ],
+    });
+    expect(where.OR[0].currentStage.responsibilities.some.OR).not.toContainEqual({
+      type: 'Position',
+    });
+  });
+
+  it('should read candidates from the database in batches', async () => {
+    const firstBatch = Array.from({ length: 200 }, (_, i) => candidate(`instance-${i}`));
+    db.workflowInstance.findMany
+      .mockResolvedValueOnce(firstBatch)
+      .mockResolvedValueOnce([candidate('instance-200')]);
+
+    await WorkflowInboxService.getInbox('tenant-1', 'user-1', { skip: 0, take: 20 });
+
+    expect(db.workflowInstance.findMany).toHaveBeenCalledTimes(2);
+    expect(db.workflowInstance.findMany.mock.calls[0][0]).toMatchObject({
+      orderBy: { id: 'asc' },
+      take: 200,
+    });
+    expect(db.workflowInstance.findMany.mock.calls[0][0].cursor).toBeUndefined();
+    expect(db.workflowInstance.findMany.mock.calls[1][0]).toMatchObject({
+      cursor: { id: 'instance-199' },
+      skip: 1,
+      take: 200,
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Workflow Lifecycle Tests
+ * Tests for the workflow instance status state machine and resubmission
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+const db = vi.hoisted(() => {
+  const client: any = {
+    workflowInstance: {
+      findUnique: vi.fn(),
+      updateMany: vi.fn(async () => ({ count: 1 })),
+      update: vi.fn(async ({ data }: any) => data),
+    },
+    workflowStage: { findUnique: vi.fn(async () => ({ slaHours: 8 })) },
+    workflowRequestRevision: { create: vi.fn() },
+    workflowSlaPause: { findFirst: vi.fn(), update: vi.fn() },
+    tenant: { findUnique: vi.fn(async () => ({ settings: {} })) },
+  };
+  client.$transaction = vi.fn(async (fn: any) => fn(client));
+  return client;
+});
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: vi.fn(() => db),
+}));
+vi.mock('../services/audit-log-service', () => ({
+  AuditLogService: { logWorkflowAction: vi.fn() },
+}));
+
+import { WorkflowLifecycleService } from '../services/workflow-lifecycle-service';
+import { BusinessCalendarService } from '../services/business-calendar-service';
+import { SLAManagementService } from '../services/sla-management-service';
+import { WorkflowRequestService } from '../services/workflow-request-service';
+
+describe('WorkflowLifecycleService', () => {
+  describe('canTransition', () => {
+    it('should allow in-progress workflows to be decided, withdrawn or cancelled', () => {
+      expect(WorkflowLifecycleService.canTransition('InProgress', 'Approved')).toBe(true);
+      expect(WorkflowLifecycleService.canTransition('InProgress', 'Returned')).toBe(true);
+      expect(WorkflowLifecycleService.canTransition('InProgress', 'Withdrawn')).toBe(true);
+      expect(WorkflowLifecycleService.canTransition('InProgress', 'Cancelled')).toBe(true);
+    });
+
+    it('should only allow returned workflows to be resubmitted, withdrawn or cancelled', () => {
+      expect(WorkflowLifecycleService.canTransition('Returned', 'InProgress')).toBe(true);
+      expect(WorkflowLifecycleService.canTransition('Returned', 'Withdrawn')).toBe(true);
+      expect(WorkflowLifecycleService.canTransition('Returned', 'Approved')).toBe(false);
+      expect(WorkflowLifecycleService.canTransition('Returned', 'Rejected')).toBe(false);
+    });
+
+    it('should treat decided and closed workflows as terminal', () => {
+      for (const status of ['Approved', 'Rejected', 'Withdrawn', 'Cancelled']) {
+        expect(WorkflowLifecycleService.canTransition(status, 'InProgress')).toBe(false);
+        expect(WorkflowLifecycleService.canTransition(status, 'Cancelled')).toBe(false);
+      }
+    });
+
+    it('should reject unknown statuses', () => {
+      expect(WorkflowLifecycleService.canTransition('Archived', 'InProgress')).toBe(false);
+    });
+  });
+
+  describe('assertTransition', () => {
+    it('should throw for disallowed transitions', () => {
+      expect(() => WorkflowLifecycleService.assertTransition('Approved', 'Withdrawn')).toThrow(
+        'Workflow cannot move from Approved to Withdrawn'
+      );
+      expect(() =>
+        WorkflowLifecycleService.assertTransition('Returned', 'Cancelled')
+      ).not.toThrow();
+    });
+  });
+
+  describe('getActionStatus', () => {
+    it('should map stage actions to the status they lead to', () => {
+      expect(WorkflowLifecycleService.getActionStatus('Approved')).toBe('Approved');
+      expect(WorkflowLifecycleService.getActionStatus('Returned')).toBe('Returned');
+    });
+  });
+
+  describe('resubmitInstance', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+      db.workflowInstance.findUnique.mockResolvedValue({
+        id: 'instance-1',
+        status: 'Returned',
+        createdBy: 'requester-1',
+        currentStageId: 'stage-1',
+        revision: 1,
+        requestData: { budget: 100 },
+        slaDue: new Date('2026-01-10T00:00:00Z'),
+        slaPausedAt: new Date('2026-01-05T00:00:00Z'),
+        slaPausedHours: 0,
+        template: { tenantId: 'tenant-1' },
+      });
+      db.workflowSlaPause.findFirst.mockResolvedValue({ id: 'pause-1' });
+      vi.spyOn(WorkflowRequestService, 'captureEntitySnapshot').mockResolvedValue(null);
+      vi.spyOn(BusinessCalendarService, 'calculateSlaDue').mockResolvedValue(
+        new Date('2026-01-20T00:00:00Z')
+      );
+    });
+
+    it('should restart the SLA clock in the same transaction as the resubmission', async () => {
+      const resume = vi.spyOn(SLAManagementService, 'resumeSLA');
+
+      const updated = await WorkflowLifecycleService.resubmitInstance(
+        'instance-1',
+        'tenant-1',
+        'requester-1',
+        { requestData: { budget: 80 } }
+      );
+
+      expect(db.$transaction).toHaveBeenCalledTimes(1);
+      expect(resume).toHaveBeenCalledWith('instance-1', 'requester-1', db);
+      expect(db.workflowSlaPause.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'pause-1' } })
+      );
+      expect(updated).toMatchObject({ status: 'InProgress', revision: 2, slaPausedAt: null });
+    });
+
+    it('should leave the clock stopped when the resubmission fails', async () => {
+      db.$transaction.mockImplementationOnce(async (fn: (tx: unknown) => Promise<unknown>) => {
+        const rolledBack = { ...db, workflowSlaPause: { ...db.workflowSlaPause, update: vi.fn() } };
+        rolledBack.workflowRequestRevision = {
+          create: vi.fn().mockRejectedValue(new Error('Connection lost')),
+        };
+        return fn(rolledBack);
+      });
+
+      await expect(
+        WorkflowLifecycleService.resubmitInstance('instance-1', 'tenant-1', 'requester-1', {
+          requestData: { budget: 80 },
+        })
+      ).rejects.toThrow('Connection lost');
+      expect(db.workflowSlaPause.update).not.toHaveBeenCalled();
+    });
+
+    it('should not resubmit a request closed since it was read', async () => {
+      db.workflowInstance.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(
+        WorkflowLifecycleService.resubmitInstance('instance-1', 'tenant-1', 'requester-1', {
+          requestData: { budget: 80 },
+        })
+      ).rejects.toThrow('Only returned workflows can be resubmitted');
+      expect(db.workflowInstance.updateMany).toHaveBeenCalledWith({
+        where: { id: 'instance-1', status: 'Returned' },
+        data: { updatedAt: expect.any(Date) },
+      });
+      expect(db.workflowRequestRevision.create).not.toHaveBeenCalled();
+    });
+
+    it('should only resubmit returned requests of the requester', async () => {
+      await expect(
+        WorkflowLifecycleService.resubmitInstance('instance-1', 'tenant-1', 'someone-else', {
+          requestData: {},
+        })
+      ).rejects.toThrow('Only the requester');
+    });
+  });
+
+  describe('withdrawInstance', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+      db.workflowInstance.findUnique.mockResolvedValue({
+        id: 'instance-1',
+        status: 'InProgress',
+        createdBy: 'requester-1',
+        template: { tenantId: 'tenant-1' },
+      });
+    });
+
+    it('should not overwrite a workflow approved since it was read', async () => {
+      db.workflowInstance.updateMany.mockResolvedValueOnce({ count: 0 });
+      const history = vi.spyOn(SLAManagementService, 'recordSLAHistory');
+
+      await expect(
+        WorkflowLifecycleService.withdrawInstance('instance-1', 'tenant-1', 'requester-1')
+      ).rejects.toThrow('Workflow cannot move from InProgress to Withdrawn');
+      expect(db.workflowInstance.updateMany).toHaveBeenCalledWith({
+        where: { id: 'instance-1', status: 'InProgress' },
+        data: expect.objectContaining({ status: 'Withdrawn' }),
+      });
+      expect(db.workflowInstance.update).not.toHaveBeenCalled();
+      expect(history).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Workflow Request Tests
+ * Tests for snapshotting entities and detecting conflicts before applying approved requests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+const db = vi.hoisted(() => {
+  const client: any = {
+    workflowInstance: { findUnique: vi.fn(), update: vi.fn(async ({ data }: any) => data) },
+    project: { findFirst: vi.fn() },
+  };
+  client.$transaction = vi.fn(async (fn: any) => fn(client));
+  return client;
+});
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: vi.fn(() => db),
+}));
+
+import { Prisma } from '@prisma/client';
+import { WorkflowRequestService } from '../services/workflow-request-service';
+import { ProjectService } from '../services/project-service';
+
+const project = {
+  id: 'project-1',
+  name: 'CRM Upgrade',
+  status: 'Active',
+  budget: new Prisma.Decimal('100000.00'),
+  endDate: new Date('2026-12-31T00:00:00.000Z'),
+  pmId: null,
+};
+
+describe('WorkflowRequestService', () => {
+  describe('getTrackedFields', () => {
+    it('should track requested fields for Update requests', () => {
+      expect(
+        WorkflowRequestService.getTrackedFields('Update', { budget: 120000, endDate: null })
+      ).toEqual(['budget', 'endDate']);
+    });
+
+    it('should track status for Close requests', () => {
+      expect(WorkflowRequestService.getTrackedFields('Close', { reason: 'Done' })).toEqual([
+        'status',
+      ]);
+    });
+
+    it('should track nothing for Create requests', () => {
+      expect(WorkflowRequestService.getTrackedFields('Create', { name: 'New' })).toEqual([]);
+    });
+  });
+
+  describe('buildEntitySnapshot', () => {
+    it('should normalize decimals, dates and missing values', () => {
+      const snapshot = WorkflowRequestService.buildEntitySnapshot(project, [
+        'budget',
+        'endDate',
+        'pmId',
+        'unknownField',
+      ]);
+
+      expect(snapshot).toEqual({
+        budget: 100000,
+        endDate: '2026-12-31T00:00:00.000Z',
+        pmId: null,
+        unknownField: null,
+      });
+    });
+  });
+
+  describe('detectConflicts', () => {
+    const snapshot = WorkflowRequestService.buildEntitySnapshot(project, ['budget', 'endDate']);
+
+    it('should report no conflicts when tracked fields are unchanged', () => {
+      expect(
+        WorkflowRequestService.detectConflicts(snapshot, { ...project, name: 'Renamed' })
+      ).toEqual([]);
+    });
+
+    it('should report fields that changed since submission', () => {
+      const conflicts = WorkflowRequestService.detectConflicts(snapshot, {
+        ...project,
+        budget: new Prisma.Decimal('90000.00'),
+      });
+
+      expect(conflicts).toEqual([{ field: 'budget', submittedValue: 100000, currentValue: 90000 }]);
+    });
+
+    it('should skip conflict detection without a snapshot', () => {
+      expect(WorkflowRequestService.detectConflicts(null, project)).toEqual([]);
+    });
+  });
+
+  describe('resolveCloseStatus', () => {
+    it('should default to Completed', () => {
+      expect(WorkflowRequestService.resolveCloseStatus({})).toBe('Completed');
+      expect(WorkflowRequestService.resolveCloseStatus({ status: 'Active' })).toBe('Completed');
+    });
+
+    it('should allow closing as Cancelled', () => {
+      expect(WorkflowRequestService.resolveCloseStatus({ status: 'Cancelled' })).toBe('Cancelled');
+    });
+  });
+
+  describe('validateRequestData', () => {
+    it('should accept payloads the entity schemas accept', () => {
+      expect(() =>
+        WorkflowRequestService.validateRequestData('Project', 'Create', { name: 'Data Platform' })
+      ).not.toThrow();
+      expect(() =>
+        WorkflowRequestService.validateRequestData('Program', 'Close', { status: 'Unknown' })
+      ).not.toThrow();
+    });
+
+    it('should reject payloads that could never be applied', () => {
+      expect(() => WorkflowRequestService.validateRequestData('Project', 'Create', {})).toThrow(
+        'Invalid request data: name'
+      );
+      expect(() =>
+        WorkflowRequestService.validateRequestData('Program', 'Update', { name: '' })
+      ).toThrow('Program name is required');
+    });
+  });
+
+  describe('applyApprovedRequest', () => {
+    const instance = {
+      id: 'instance-1',
+      status: 'InProgress',
+      requestType: 'Update',
+      entityType: 'Project',
+      entityId: 'project-1',
+      requestData: { budget: 120000 },
+      entitySnapshot: { budget: 100000 },
+      requestExecutedAt: null,
+      template: { tenantId: 'tenant-1' },
+    };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      db.workflowInstance.findUnique.mockResolvedValue(instance);
+      db.project.findFirst.mockResolvedValue(project);
+    });
+
+    it('should approve the workflow and apply its request together', async () => {
+      const updateProject = vi
+        .spyOn(ProjectService, 'updateProject')
+        .mockResolvedValue({} as Awaited<ReturnType<typeof ProjectService.updateProject>>);
+
+      const result = await WorkflowRequestService.applyApprovedRequest('instance-1', 'tenant-1');
+
+      expect(result.applied).toBe(true);
+      expect(db.$transaction).toHaveBeenCalledTimes(1);
+      expect(db.workflowInstance.update).toHaveBeenCalledWith({
+        where: { id: 'instance-1' },
+        data: { status: 'Approved' },
+      });
+      expect(updateProject).toHaveBeenCalledWith('project-1', expect.anything(), {
+        tenantId: 'tenant-1',
+        tx: db,
+      });
+    });
+
+    it('should fail without committing when the request cannot be applied', async () => {
+      vi.spyOn(ProjectService, 'updateProject').mockRejectedValue(new Error('Invalid budget'));
+
+      await expect(
+        WorkflowRequestService.applyApprovedRequest('instance-1', 'tenant-1', db)
+      ).rejects.toThrow('Invalid budget');
+      expect(db.workflowInstance.update).not.toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ requestExecutedAt: expect.any(Date) }),
+        })
+      );
+    });
+
+    it('should keep a conflicting request approved but unapplied', async () => {
+      db.project.findFirst.mockResolvedValue({ ...project, budget: new Prisma.Decimal('90000') });
+
+      const result = await WorkflowRequestService.applyApprovedRequest('instance-1', 'tenant-1');
+
+      expect(result).toMatchObject({ applied: false, conflicts: [{ field: 'budget' }] });
+      expect(db.workflowInstance.update).toHaveBeenCalledWith({
+        where: { id: 'instance-1' },
+        data: { executionError: 'Conflict: budget changed since submission' },
+      });
+    });
+
+    it('should only approve in-progress workflows', async () => {
+      db.workflowInstance.findUnique.mockResolvedValue({ ...instance, status: 'Withdrawn' });
+
+      await expect(
+        WorkflowRequestService.applyApprovedRequest('instance-1', 'tenant-1')
+      ).rejects.toThrow('cannot be approved from Withdrawn');
+    });
+  });
+});
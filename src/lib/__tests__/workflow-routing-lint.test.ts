@@ -0,0 +1,117 @@
+/**
+ * Workflow Routing Lint Tests
+ * Tests for overlapping, uncovered, unreachable and default routing checks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { WorkflowRoutingLintService } from '../services/workflow-routing-lint-service';
+
+function template(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    name: id,
+    entityType: 'Project' as string | null,
+    complexityBand: null as string | null,
+    budgetMin: null as number | null,
+    budgetMax: null as number | null,
+    isDefault: false,
+    ...overrides,
+  };
+}
+
+describe('WorkflowRoutingLintService', () => {
+  describe('findOverlappingBands', () => {
+    it('should report tied overlaps as errors', () => {
+      const issues = WorkflowRoutingLintService.findOverlappingBands([
+        template('a', { budgetMin: 0, budgetMax: 1000000 }),
+        template('b', { budgetMin: 500000, budgetMax: 2000000 }),
+      ]);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]?.severity).toBe('Error');
+      expect(issues[0]?.budgetRange).toEqual({ min: 500000, max: 1000000 });
+    });
+
+    it('should downgrade overlaps resolved by a default to warnings', () => {
+      const issues = WorkflowRoutingLintService.findOverlappingBands([
+        template('a', { budgetMin: 0, budgetMax: 1000000, isDefault: true }),
+        template('b', { budgetMin: 1000000, budgetMax: null }),
+      ]);
+
+      expect(issues[0]?.severity).toBe('Warning');
+      expect(issues[0]?.budgetRange).toEqual({ min: 1000000, max: 1000000 });
+    });
+
+    it('should ignore templates for different complexity bands', () => {
+      const issues = WorkflowRoutingLintService.findOverlappingBands([
+        template('a', { budgetMin: 0, budgetMax: 1000000, complexityBand: 'Low' }),
+        template('b', { budgetMin: 0, budgetMax: 1000000, complexityBand: 'High' }),
+      ]);
+
+      expect(issues).toEqual([]);
+    });
+  });
+
+  describe('findBudgetGaps', () => {
+    it('should report uncovered budgets between and beyond bands', () => {
+      const issues = WorkflowRoutingLintService.findBudgetGaps([
+        template('a', { budgetMin: 0, budgetMax: 1000000 }),
+        template('b', { budgetMin: 2000000, budgetMax: 5000000 }),
+      ]);
+
+      expect(issues.map((i) => i.budgetRange)).toEqual([
+        { min: 1000000, max: 2000000 },
+        { min: 5000000, max: null },
+      ]);
+      expect(issues.every((i) => i.entityType === 'Project')).toBe(true);
+    });
+
+    it('should not report gaps when bands are contiguous and open-ended', () => {
+      const issues = WorkflowRoutingLintService.findBudgetGaps([
+        template('a', { budgetMin: 0, budgetMax: 1000000 }),
+        template('b', { budgetMin: 1000000, budgetMax: null }),
+      ]);
+
+      expect(issues).toEqual([]);
+    });
+  });
+
+  describe('findUnreachableTemplates', () => {
+    it('should report templates that never win', () => {
+      const issues = WorkflowRoutingLintService.findUnreachableTemplates([
+        template('broad', { budgetMin: 0, budgetMax: 5000000, complexityBand: 'High' }),
+        template('shadowed', { budgetMin: 1000000, budgetMax: 2000000, complexityBand: 'High' }),
+        template('fallback', { entityType: null, isDefault: true }),
+      ]);
+
+      expect(issues.map((i) => i.templateIds[0])).toEqual(['shadowed']);
+    });
+  });
+
+  describe('findDefaultIssues', () => {
+    it('should report missing and duplicate defaults per entity type', () => {
+      const issues = WorkflowRoutingLintService.findDefaultIssues([
+        template('p1', { isDefault: true }),
+        template('p2', { isDefault: true }),
+        template('program', { entityType: 'Program', isDefault: true }),
+      ]);
+
+      expect(issues.map((i) => [i.code, i.entityType])).toEqual([
+        ['MultipleDefaults', 'Project'],
+        ['MissingDefault', 'Initiative'],
+      ]);
+    });
+  });
+
+  describe('lintTemplates', () => {
+    it('should list errors before warnings', () => {
+      const issues = WorkflowRoutingLintService.lintTemplates([
+        template('a', { budgetMin: 0, budgetMax: 1000000 }),
+        template('b', { budgetMin: 0, budgetMax: 1000000 }),
+      ]);
+
+      expect(issues[0]?.severity).toBe('Error');
+      expect(issues[issues.length - 1]?.severity).toBe('Warning');
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Workflow Simulation Tests
+ * Tests for dry-run template selection, ranking and stage path resolution
+ */
+
+import { describe, it, expect } from 'vitest';
+import { WorkflowSimulationService } from '../services/workflow-simulation-service';
+import { StageTransitionService } from '../services/stage-transition-service';
+
+function template(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    name: `Template ${id}`,
+    templateFamilyId: null,
+    version: 1,
+    status: 'Published',
+    entityType: 'Project',
+    complexityBand: null,
+    budgetMin: null,
+    budgetMax: null,
+    isDefault: false,
+    ...overrides,
+  };
+}
+
+function stage(id: string, stageOrder: number, outgoingTransitions: unknown[] = []) {
+  return {
+    id,
+    stageOrder,
+    outgoingTransitions: outgoingTransitions as Array<{
+      toStageId: string | null;
+      priority: number;
+      condition: null;
+      description: string | null;
+    }>,
+  };
+}
+
+describe('WorkflowSimulationService', () => {
+  describe('selectCandidates', () => {
+    it('should use published versions only by default', () => {
+      const result = WorkflowSimulationService.selectCandidates(
+        [template('a'), template('a-v2', { templateFamilyId: 'a', status: 'Draft' })],
+        false
+      );
+
+      expect(result.map((t) => t.id)).toEqual(['a']);
+    });
+
+    it('should replace a published version with its draft when drafts are included', () => {
+      const result = WorkflowSimulationService.selectCandidates(
+        [
+          template('a'),
+          template('a-v2', { templateFamilyId: 'a', version: 2, status: 'Draft' }),
+          template('b'),
+        ],
+        true
+      );
+
+      expect(result.map((t) => t.id).sort()).toEqual(['a-v2', 'b']);
+    });
+  });
+
+  describe('rankCandidates', () => {
+    it('should select the routed template and rank the alternatives with reasons', () => {
+      const { selected, alternatives } = WorkflowSimulationService.rankCandidates(
+        [
+          template('small', { budgetMin: 0, budgetMax: 1000000 }),
+          template('large', { budgetMin: 1000000, budgetMax: null, complexityBand: 'High' }),
+          template('fallback', { entityType: null, isDefault: true }),
+        ],
+        { entityType: 'Project', complexityBand: 'High', budget: 5000000 }
+      );
+
+      expect(selected?.templateId).toBe('large');
+      expect(selected?.score).toBe(75);
+      expect(selected?.reasons).toContain('Complexity matches: High');
+      expect(alternatives.map((a) => a.templateId)).toEqual(['fallback', 'small']);
+      expect(alternatives[0]?.reasons).toContain('Default template');
+      expect(alternatives[1]?.reasons).toEqual(['Entity type matches: Project']);
+    });
+
+    it('should score like template matching and keep the earliest of tied templates', () => {
+      const { selected, alternatives } = WorkflowSimulationService.rankCandidates(
+        [template('first'), template('second'), template('other', { entityType: 'Program' })],
+        { entityType: 'Project' }
+      );
+
+      expect(selected).toMatchObject({ templateId: 'first', score: 30 });
+      expect(alternatives.map((a) => [a.templateId, a.score])).toEqual([
+        ['second', 30],
+        ['other', 0],
+      ]);
+    });
+
+    it('should return no selection without candidates', () => {
+      const result = WorkflowSimulationService.rankCandidates([], { entityType: 'Program' });
+
+      expect(result.selected).toBeNull();
+      expect(result.alternatives).toEqual([]);
+    });
+  });
+
+  describe('buildStagePath', () => {
+    const context = StageTransitionService.buildConditionContext({}, { budget: 8000000 });
+
+    it('should follow stage order when no transitions are configured', () => {
+      const { path, warnings } = WorkflowSimulationService.buildStagePath(
+        [stage('s2', 2), stage('s1', 1), stage('s3', 3)],
+        context
+      );
+
+      expect(path.map((p) => p.stage.id)).toEqual(['s1', 's2', 's3']);
+      expect(path[0]?.enteredBy).toBe('First stage');
+      expect(warnings).toEqual([]);
+    });
+
+    it('should follow the first matching conditional transition', () => {
+      const { path } = WorkflowSimulationService.buildStagePath(
+        [
+          stage('s1', 1, [
+            {
+              toStageId: 's3',
+              priority: 0,
+              condition: { field: 'entity.budget', operator: 'gt', value: 5000000 },
+              description: 'Large budget',
+            },
+          ]),
+          stage('s2', 2),
+          stage('s3', 3, [{ toStageId: null, priority: 0, condition: null, description: null }]),
+          stage('s4', 4),
+        ],
+        context
+      );
+
+      expect(path.map((p) => p.stage.id)).toEqual(['s1', 's3']);
+      expect(path[1]?.enteredBy).toBe('Large budget');
+    });
+
+    it('should stop and warn on transition loops', () => {
+      const { path, warnings } = WorkflowSimulationService.buildStagePath(
+        [
+          stage('s1', 1),
+          stage('s2', 2, [{ toStageId: 's1', priority: 0, condition: null, description: null }]),
+        ],
+        context
+      );
+
+      expect(path.map((p) => p.stage.id)).toEqual(['s1', 's2']);
+      expect(warnings[0]).toContain('loop');
+    });
+  });
+});
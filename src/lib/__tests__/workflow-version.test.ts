@@ -0,0 +1,142 @@
+/**
+ * Workflow Version Tests
+ * Tests for template version families and diffs between versions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { WorkflowVersionService } from '../services/workflow-version-service';
+
+function stage(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'v1-stage-1',
+    stageKey: 'sponsor',
+    name: 'Sponsor Approval',
+    description: null,
+    stageOrder: 1,
+    slaHours: 24,
+    slaThresholds: null,
+    actions: ['Approve', 'Reject'],
+    requireComment: false,
+    requireAttachment: false,
+    approvalMode: 'Any',
+    requiredApprovals: null,
+    responsibilities: [{ type: 'Position', value: 'Sponsor', scope: 'Project' }],
+    outgoingTransitions: [],
+    ...overrides,
+  };
+}
+
+function version(versionNumber: number, stages: ReturnType<typeof stage>[]) {
+  return {
+    id: `template-v${versionNumber}`,
+    templateFamilyId: versionNumber === 1 ? null : 'template-v1',
+    version: versionNumber,
+    name: 'Project Approval',
+    description: null,
+    entityType: 'Project',
+    complexityBand: null,
+    budgetMin: null,
+    budgetMax: null,
+    isDefault: false,
+    slaThresholds: null,
+    stages,
+  };
+}
+
+describe('WorkflowVersionService', () => {
+  describe('getFamilyId', () => {
+    it('should use the template ID for the first version', () => {
+      expect(WorkflowVersionService.getFamilyId({ id: 't-1', templateFamilyId: null })).toBe('t-1');
+    });
+
+    it('should use the family ID for later versions', () => {
+      expect(WorkflowVersionService.getFamilyId({ id: 't-2', templateFamilyId: 't-1' })).toBe(
+        't-1'
+      );
+    });
+  });
+
+  describe('diffVersions', () => {
+    it('should report no differences between identical versions', () => {
+      const diff = WorkflowVersionService.diffVersions(
+        version(1, [stage()]),
+        version(2, [stage({ id: 'v2-stage-1' })])
+      );
+
+      expect(diff.templateChanges).toEqual([]);
+      expect(diff.stagesAdded).toEqual([]);
+      expect(diff.stagesRemoved).toEqual([]);
+      expect(diff.stagesChanged).toEqual([]);
+      expect(diff.templateFamilyId).toBe('template-v1');
+    });
+
+    it('should match stages by key and report field changes', () => {
+      const diff = WorkflowVersionService.diffVersions(
+        version(1, [stage()]),
+        version(2, [
+          stage({ id: 'v2-stage-1', slaHours: 48, approvalMode: 'Quorum', requiredApprovals: 3 }),
+        ])
+      );
+
+      expect(diff.stagesChanged).toHaveLength(1);
+      expect(diff.stagesChanged[0]?.changes).toEqual([
+        { field: 'slaHours', from: 24, to: 48 },
+        { field: 'approvalMode', from: 'Any', to: 'Quorum' },
+        { field: 'requiredApprovals', from: null, to: 3 },
+      ]);
+    });
+
+    it('should report added and removed stages', () => {
+      const diff = WorkflowVersionService.diffVersions(
+        version(1, [stage(), stage({ id: 'v1-stage-2', stageKey: 'legal', name: 'Legal' })]),
+        version(2, [
+          stage({ id: 'v2-stage-1' }),
+          stage({ id: 'v2-stage-2', stageKey: 'finance', name: 'Finance', stageOrder: 2 }),
+        ])
+      );
+
+      expect(diff.stagesAdded).toEqual([{ stageKey: 'finance', name: 'Finance' }]);
+      expect(diff.stagesRemoved).toEqual([{ stageKey: 'legal', name: 'Legal' }]);
+    });
+
+    it('should compare responsibilities and transitions across versions', () => {
+      const diff = WorkflowVersionService.diffVersions(
+        version(1, [stage()]),
+        version(2, [
+          stage({
+            id: 'v2-stage-1',
+            responsibilities: [{ type: 'Role', value: 'PMO', scope: 'Global' }],
+            outgoingTransitions: [{ toStageId: null, priority: 0, condition: null }],
+          }),
+        ])
+      );
+
+      expect(diff.stagesChanged[0]?.responsibilitiesAdded).toEqual(['Role:PMO@Global']);
+      expect(diff.stagesChanged[0]?.responsibilitiesRemoved).toEqual(['Position:Sponsor@Project']);
+      expect(diff.stagesChanged[0]?.transitionsAdded).toEqual(['-> Complete (priority 0) null']);
+    });
+
+    it('should ignore stage IDs when comparing transition targets', () => {
+      const v1Next = stage({ id: 'v1-stage-2', stageKey: 'finance', stageOrder: 2 });
+      const v2Next = stage({ id: 'v2-stage-2', stageKey: 'finance', stageOrder: 2 });
+
+      const diff = WorkflowVersionService.diffVersions(
+        version(1, [
+          stage({
+            outgoingTransitions: [{ toStageId: 'v1-stage-2', priority: 0, condition: null }],
+          }),
+          v1Next,
+        ]),
+        version(2, [
+          stage({
+            id: 'v2-stage-1',
+            outgoingTransitions: [{ toStageId: 'v2-stage-2', priority: 0, condition: null }],
+          }),
+          v2Next,
+        ])
+      );
+
+      expect(diff.stagesChanged).toEqual([]);
+    });
+  });
+});
@@ -13,6 +13,7 @@ export interface ApiResponse<T = unknown> {
   success: boolean;
   data?: T;
   error?: string;
+  code?: string; // Machine-readable error code
   meta?: {
     total?: number;
     skip?: number;
@@ -88,13 +89,20 @@ export class ApiResponseBuilder {
   }
 
   /**
-   * Error response
+   * Error response, optionally with a machine-readable error code and details for the caller
    */
-  static error(message: string, status: number = 400): NextResponse<ApiResponse> {
+  static error<T>(
+    message: string,
+    status: number = 400,
+    code?: string,
+    data?: T
+  ): NextResponse<ApiResponse<T>> {
     return NextResponse.json(
       {
         success: false,
         error: message,
+        ...(code && { code }),
+        ...(data !== undefined && { data }),
       },
       { status }
     );
@@ -76,6 +76,29 @@ const envSchema = z.object({
     .transform((val) => val === 'true' || val === '1')
     .default('true'),
 
+  // Background jobs
+  ENABLE_SLA_SWEEP: z
+    .string()
+    .transform((val) => val === 'true' || val === '1')
+    .default('true'),
+
+  SLA_SWEEP_INTERVAL_MINUTES: z
+    .string()
+    .default('5')
+    .transform(Number)
+    .pipe(z.number().int().min(1, 'SLA_SWEEP_INTERVAL_MINUTES must be at least 1')),
+
+  ENABLE_NOTIFICATION_DISPATCH: z
+    .string()
+    .transform((val) => val === 'true' || val === '1')
+    .default('true'),
+
+  NOTIFICATION_DISPATCH_INTERVAL_SECONDS: z
+    .string()
+    .default('30')
+    .transform(Number)
+    .pipe(z.number().int().min(5, 'NOTIFICATION_DISPATCH_INTERVAL_SECONDS must be at least 5')),
+
   // Redis (Optional)
   REDIS_URL: z.string().optional(),
 
@@ -85,8 +108,29 @@ const envSchema = z.object({
   S3_ACCESS_KEY_ID: z.string().optional(),
   S3_SECRET_ACCESS_KEY: z.string().optional(),
 
+  // File storage (local backend when S3 is not enabled)
+  FILE_STORAGE_PATH: z.string().default('./storage/uploads'),
+
   // Email (Optional)
   RESEND_API_KEY: z.string().optional(),
+
+  // SMTP for email notifications (Optional)
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.string().default('587').transform(Number).pipe(z.number().int().min(1)),
+  SMTP_SECURE: z
+    .string()
+    .transform((val) => val === 'true' || val === '1')
+    .default('false'),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  SMTP_FROM: z.string().default('Masar <no-reply@masar.local>'),
+
+  // Webhook notification channel (Optional)
+  NOTIFICATION_WEBHOOK_URL: z
+    .string()
+    .url('NOTIFICATION_WEBHOOK_URL must be a valid URL')
+    .optional(),
+  NOTIFICATION_WEBHOOK_SECRET: z.string().optional(),
 });
 
 type EnvVars = z.infer<typeof envSchema>;
@@ -155,6 +199,18 @@ export const config: AppConfiguration = {
     enableAuditLogging: env.ENABLE_AUDIT_LOGGING,
   },
 
+  scheduler: {
+    enableSlaSweep: env.ENABLE_SLA_SWEEP,
+    slaSweepIntervalMinutes: env.SLA_SWEEP_INTERVAL_MINUTES,
+    enableNotificationDispatch: env.ENABLE_NOTIFICATION_DISPATCH,
+    notificationDispatchIntervalSeconds: env.NOTIFICATION_DISPATCH_INTERVAL_SECONDS,
+  },
+
+  storage: {
+    driver: 'local',
+    localPath: env.FILE_STORAGE_PATH,
+  },
+
   externalServices: {
     ...(env.REDIS_URL && {
       redis: {
@@ -174,6 +230,23 @@ export const config: AppConfiguration = {
         apiKey: env.RESEND_API_KEY,
       },
     }),
+    ...(env.SMTP_HOST && {
+      smtp: {
+        host: env.SMTP_HOST,
+        port: env.SMTP_PORT,
+        secure: env.SMTP_SECURE,
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+        from: env.SMTP_FROM,
+      },
+    }),
+    ...(env.NOTIFICATION_WEBHOOK_URL &&
+      env.NOTIFICATION_WEBHOOK_SECRET && {
+        notificationWebhook: {
+          url: env.NOTIFICATION_WEBHOOK_URL,
+          secret: env.NOTIFICATION_WEBHOOK_SECRET,
+        },
+      }),
   },
 };
 
@@ -193,8 +266,19 @@ if (config.features.enableS3 && !config.externalServices.s3) {
   console.warn('S3 feature enabled but S3 credentials not configured');
 }
 
-if (config.features.enableEmailNotifications && !config.externalServices.email) {
-  console.warn('Email notifications enabled but RESEND_API_KEY not configured');
+// Attachments are stored on the local backend only; fail fast rather than on every upload
+if (config.features.enableS3 && config.externalServices.s3) {
+  throw new Error(
+    'S3 file storage is not supported; unset ENABLE_S3 to store files under FILE_STORAGE_PATH'
+  );
+}
+
+if (config.features.enableEmailNotifications && !config.externalServices.smtp) {
+  console.warn('Email notifications enabled but SMTP_HOST not configured');
+}
+
+if (env.NOTIFICATION_WEBHOOK_URL && !env.NOTIFICATION_WEBHOOK_SECRET) {
+  console.warn('NOTIFICATION_WEBHOOK_URL set but NOTIFICATION_WEBHOOK_SECRET not configured');
 }
 
 /**
@@ -0,0 +1,154 @@
+/**
+ * Notification Channels
+ * Delivery channels for notifications, selected from the application configuration
+ */
+
+import nodemailer, { Transporter } from 'nodemailer';
+import { WebhookService } from '@/lib/services/webhook-service';
+import { NotificationChannelName, NotificationMessage } from '@/types/notifications';
+
+/**
+ * Channel that delivers a notification to its recipient
+ * send() rejects when the attempt failed, so the dispatcher can retry it
+ */
+export interface NotificationChannel {
+  readonly name: NotificationChannelName;
+  send(message: NotificationMessage): Promise<void>;
+}
+
+/**
+ * Time allowed to connect to the SMTP server and for each reply
+ */
+const SMTP_TIMEOUT_MS = 15000;
+
+// ============================================================================
+// EMAIL CHANNEL
+// ============================================================================
+
+/**
+ * SMTP server and sender address for email notifications
+ */
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (port 465); otherwise STARTTLS when offered
+  user?: string | undefined;
+  password?: string | undefined;
+  from: string;
+}
+
+/**
+ * Sends notifications as email over SMTP
+ * Notifications rendered from a template are sent as HTML with a plain-text part
+ */
+export class EmailChannel implements NotificationChannel {
+  readonly name = 'Email';
+  private readonly transporter: Transporter;
+  private readonly from: string;
+
+  constructor(options: SmtpOptions) {
+    this.from = options.from;
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      ...(options.user && { auth: { user: options.user, pass: options.password ?? '' } }),
+      connectionTimeout: SMTP_TIMEOUT_MS,
+      greetingTimeout: SMTP_TIMEOUT_MS,
+      socketTimeout: SMTP_TIMEOUT_MS,
+    });
+  }
+
+  async send(message: NotificationMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: message.email,
+      subject: message.emailSubject || message.subject,
+      text: message.message,
+      ...(message.emailBody && { html: message.emailBody }),
+      headers: { 'X-Notification-Id': message.notificationId },
+    });
+  }
+}
+
+// ============================================================================
+// IN-APP CHANNEL
+// ============================================================================
+
+/**
+ * In-app notifications are read from the notification table, so there is nothing
+ * to send; the delivery records that the notification reached the inbox
+ */
+export class InAppChannel implements NotificationChannel {
+  readonly name = 'InApp';
+
+  async send(): Promise<void> {}
+}
+
+// ============================================================================
+// WEBHOOK CHANNEL
+// ============================================================================
+
+/**
+ * Posts notifications as signed webhooks to one endpoint
+ * Each attempt is a single request; the dispatcher schedules the retries
+ */
+export class WebhookChannel implements NotificationChannel {
+  readonly name = 'Webhook';
+  private readonly url: string;
+  private readonly secret: string;
+
+  constructor(url: string, secret: string) {
+    this.url = url;
+    this.secret = secret;
+  }
+
+  async send(message: NotificationMessage): Promise<void> {
+    const delivery = await WebhookService.deliver(
+      message.tenantId,
+      {
+        url: this.url,
+        secret: this.secret,
+        event: 'notification.created',
+        payload: {
+          notificationId: message.notificationId,
+          userId: message.userId,
+          email: message.email,
+          eventType: message.eventType,
+          subject: message.subject,
+          message: message.message,
+          data: message.data,
+        },
+        ...(message.workflowInstanceId && { workflowInstanceId: message.workflowInstanceId }),
+      },
+      []
+    );
+
+    if (delivery.status !== 'Delivered') {
+      throw new Error(delivery.lastError || 'Webhook delivery failed');
+    }
+  }
+}
+
+let channels: NotificationChannel[] | null = null;
+
+/**
+ * Get the channels enabled on this node
+ * Configuration is loaded on first use so importing modules do not require it
+ */
+export async function getNotificationChannels(): Promise<NotificationChannel[]> {
+  if (!channels) {
+    const { config } = await import('@/lib/config');
+    const { smtp, notificationWebhook } = config.externalServices;
+
+    channels = [
+      new InAppChannel(),
+      ...(config.features.enableEmailNotifications && smtp ? [new EmailChannel(smtp)] : []),
+      ...(notificationWebhook
+        ? [new WebhookChannel(notificationWebhook.url, notificationWebhook.secret)]
+        : []),
+    ];
+  }
+
+  return channels;
+}
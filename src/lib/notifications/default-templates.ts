@@ -0,0 +1,145 @@
+/**
+ * Default Notification Templates
+ * System templates used for events that a tenant has no active template for
+ */
+
+import {
+  NotificationData,
+  NotificationEventType,
+  NotificationTemplateContent,
+} from '@/types/notifications';
+
+const FOOTER =
+  '<p style="color:#6b7280;font-size:12px">Workflow notification for {{templateName}}</p>';
+
+export const DEFAULT_NOTIFICATION_TEMPLATES: Record<
+  NotificationEventType,
+  NotificationTemplateContent
+> = {
+  WorkflowAssigned: {
+    emailSubjectTemplate:
+      '{{#if previousStage}}Workflow Advanced{{else}}New Workflow{{/if}}: {{templateName | default:"Untitled"}}',
+    emailBodyTemplate:
+      '{{#if previousStage}}<p>Workflow <strong>{{templateName}}</strong> has advanced from {{previousStage}} to your stage: <strong>{{stageName}}</strong>.</p>' +
+      '{{else}}<p>A new workflow <strong>{{templateName}}</strong> has been assigned to you.</p><p>Stage: {{stageName}}</p>{{/if}}' +
+      FOOTER,
+    inAppTitleTemplate:
+      '{{#if previousStage}}Workflow Advanced{{else}}New Workflow{{/if}}: {{templateName | default:"Untitled"}}',
+    inAppMessageTemplate:
+      '{{#if previousStage}}Workflow "{{templateName}}" has advanced from "{{previousStage}}" to your stage: "{{stageName}}"' +
+      '{{else}}A new workflow "{{templateName}}" has been assigned to you. Stage: {{stageName}}{{/if}}',
+  },
+  WorkflowApproved: {
+    emailSubjectTemplate: 'Workflow Approved: {{templateName | default:"Untitled"}}',
+    emailBodyTemplate:
+      '<p>Workflow <strong>{{templateName}}</strong> has been <strong>approved</strong> and is now complete.</p>' +
+      FOOTER,
+    inAppTitleTemplate: 'Workflow Approved: {{templateName | default:"Untitled"}}',
+    inAppMessageTemplate: 'Workflow "{{templateName}}" has been APPROVED and is now complete.',
+  },
+  WorkflowRejected: {
+    emailSubjectTemplate: 'Workflow Rejected: {{templateName | default:"Untitled"}}',
+    emailBodyTemplate:
+      '<p>Workflow <strong>{{templateName}}</strong> has been <strong>rejected</strong> at stage {{stageName}}.</p>' +
+      '{{#if reason}}<p>Reason: {{reason}}</p>{{/if}}' +
+      FOOTER,
+    inAppTitleTemplate: 'Workflow Rejected: {{templateName | default:"Untitled"}}',
+    inAppMessageTemplate:
+      'Workflow "{{templateName}}" has been REJECTED at stage "{{stageName}}".{{#if reason}} Reason: {{reason}}{{/if}}',
+  },
+  WorkflowReturned: {
+    emailSubjectTemplate: 'Workflow Returned: {{templateName | default:"Untitled"}}',
+    emailBodyTemplate:
+      '<p>Workflow <strong>{{templateName}}</strong> has been returned to your stage <strong>{{returnToStage}}</strong> for review.</p>' +
+      '{{#if reason}}<p>Reason: {{reason}}</p>{{/if}}' +
+      FOOTER,
+    inAppTitleTemplate: 'Workflow Returned: {{templateName | default:"Untitled"}}',
+    inAppMessageTemplate:
+      'Workflow "{{templateName}}" has been RETURNED to your stage "{{returnToStage}}" for review.{{#if reason}} Reason: {{reason}}{{/if}}',
+  },
+  SLAWarning: {
+    emailSubjectTemplate: 'SLA Warning: {{templateName | default:"Untitled"}}',
+    emailBodyTemplate:
+      '<p>Workflow <strong>{{templateName}}</strong> has {{hoursRemaining}} hours remaining before its SLA is breached in stage <strong>{{stageName}}</strong>.</p>' +
+      '{{#if slaDue}}<p>Due {{slaDue | datetime}}</p>{{/if}}' +
+      FOOTER,
+    inAppTitleTemplate: 'SLA Warning: {{templateName | default:"Untitled"}}',
+    inAppMessageTemplate:
+      'Workflow "{{templateName}}" has {{hoursRemaining}} hours remaining before SLA breach in stage "{{stageName}}".{{#if slaDue}} Due {{slaDue | datetime}}.{{/if}}',
+  },
+  SLABreached: {
+    emailSubjectTemplate: 'SLA BREACH: {{templateName | default:"Untitled"}}',
+    emailBodyTemplate:
+      '<p><strong>Critical:</strong> workflow <strong>{{templateName}}</strong> has breached its SLA by {{hoursBreach}} hours at stage <strong>{{stageName}}</strong>.</p>' +
+      '<p>Immediate action required.</p>' +
+      FOOTER,
+    inAppTitleTemplate: 'SLA BREACH: {{templateName | default:"Untitled"}}',
+    inAppMessageTemplate:
+      'CRITICAL: Workflow "{{templateName}}" has breached its SLA by {{hoursBreach}} hours at stage "{{stageName}}". Immediate action required.',
+  },
+  WorkflowCompleted: {
+    emailSubjectTemplate: 'Workflow Completed: {{templateName | default:"Untitled"}}',
+    emailBodyTemplate: '<p>Workflow <strong>{{templateName}}</strong> is complete.</p>' + FOOTER,
+    inAppTitleTemplate: 'Workflow Completed: {{templateName | default:"Untitled"}}',
+    inAppMessageTemplate: 'Workflow "{{templateName}}" is complete.',
+  },
+  WorkflowMentioned: {
+    emailSubjectTemplate: 'You were mentioned in a workflow discussion',
+    emailBodyTemplate: '<p>You were mentioned in a comment on workflow {{workflowInstanceId}}.</p>',
+    inAppTitleTemplate: 'You were mentioned in a workflow discussion',
+    inAppMessageTemplate: 'You were mentioned in a comment on workflow {{workflowInstanceId}}',
+  },
+};
+
+/**
+ * Data used to preview a template when the request gives none
+ */
+export const SAMPLE_NOTIFICATION_DATA: Record<NotificationEventType, NotificationData> = {
+  WorkflowAssigned: {
+    workflowInstanceId: 'sample-instance',
+    templateName: 'Capital Expenditure Request',
+    stageName: 'Finance Review',
+    previousStage: 'Intake',
+  },
+  WorkflowApproved: {
+    workflowInstanceId: 'sample-instance',
+    templateName: 'Capital Expenditure Request',
+    approvedBy: 'sample-user',
+  },
+  WorkflowRejected: {
+    workflowInstanceId: 'sample-instance',
+    templateName: 'Capital Expenditure Request',
+    stageName: 'Finance Review',
+    rejectedBy: 'sample-user',
+    reason: 'Budget not approved',
+  },
+  WorkflowReturned: {
+    workflowInstanceId: 'sample-instance',
+    templateName: 'Capital Expenditure Request',
+    returnToStage: 'Intake',
+    returnedBy: 'sample-user',
+    reason: 'Missing cost breakdown',
+  },
+  SLAWarning: {
+    workflowInstanceId: 'sample-instance',
+    templateName: 'Capital Expenditure Request',
+    stageName: 'Finance Review',
+    hoursRemaining: 4,
+    slaDue: '2026-01-15T17:00:00.000Z',
+  },
+  SLABreached: {
+    workflowInstanceId: 'sample-instance',
+    templateName: 'Capital Expenditure Request',
+    stageName: 'Finance Review',
+    hoursBreach: 6,
+  },
+  WorkflowCompleted: {
+    workflowInstanceId: 'sample-instance',
+    templateName: 'Capital Expenditure Request',
+  },
+  WorkflowMentioned: {
+    workflowInstanceId: 'sample-instance',
+    commentId: 'sample-comment',
+    mentionedBy: 'sample-user',
+  },
+};
@@ -0,0 +1,469 @@
+/**
+ * Notification Template Renderer
+ * Sandboxed, logic-light templates: variables, filters, conditionals and loops over
+ * notification data, with no access to code or object prototypes
+ *
+ * Syntax:
+ *   {{ name }}  {{ stage.name }}  {{ amount | currency }}  {{ dueAt | date:"d MMM yyyy" }}
+ *   {{#if reason}}...{{else}}...{{/if}}   {{#unless reason}}...{{/unless}}
+ *   {{#each approvers}}{{@index}}. {{this.name}}{{else}}none{{/each}}
+ *   {{! comment }}
+ */
+
+import { format as formatDate } from 'date-fns';
+import { BusinessCalendarService } from '@/lib/services/business-calendar-service';
+import { timezoneSchema } from '@/lib/validation/calendar-schema';
+import {
+  NotificationData,
+  NotificationDataValue,
+  TemplateFormatOptions,
+} from '@/types/notifications';
+
+/**
+ * Formatting used when a tenant has not configured its own
+ */
+export const DEFAULT_FORMAT_OPTIONS: TemplateFormatOptions = {
+  locale: 'en-US',
+  timezone: 'UTC',
+  currency: 'USD',
+  dateFormat: 'yyyy-MM-dd',
+};
+
+/**
+ * Limits that keep a template from using unbounded time or memory
+ */
+const MAX_TEMPLATE_LENGTH = 20000;
+const MAX_OUTPUT_LENGTH = 100000;
+const MAX_BLOCK_DEPTH = 8;
+const MAX_LOOP_ITEMS = 500;
+const MAX_RENDER_STEPS = 100000; // Nodes rendered, counting every pass of every loop
+
+const TAG_PATTERN = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+const PATH_PATTERN = /^(@index|this(\.[A-Za-z_]\w*)*|[A-Za-z_]\w*(\.[A-Za-z_]\w*)*)$/;
+const FILTER_PATTERN = /^([a-z]+)(?:\s*:\s*(?:"([^"]*)"|'([^']*)'))?$/;
+
+type Filter = { name: string; arg?: string };
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; path: string; filters: Filter[] }
+  | { type: 'if'; negate: boolean; path: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; path: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+type Block = Extract<TemplateNode, { type: 'if' | 'each' }>;
+
+type Scope = { value: NotificationDataValue; index?: number };
+
+type RenderOutput = { text: string; steps: number };
+
+type FilterFn = (
+  value: NotificationDataValue,
+  arg: string | undefined,
+  format: TemplateFormatOptions
+) => NotificationDataValue;
+
+const FILTERS: Record<string, FilterFn> = {
+  upper: (value) => toText(value).toUpperCase(),
+  lower: (value) => toText(value).toLowerCase(),
+  default: (value, arg) => (value === null || value === undefined || value === '' ? arg : value),
+  number: (value, arg, format) => {
+    const amount = toNumber(value);
+    const digits = arg === undefined ? undefined : Number(arg);
+
+    if (amount === null) return '';
+    if (digits !== undefined && !(Number.isInteger(digits) && digits >= 0 && digits <= 10)) {
+      throw new Error(`Template error: number filter takes 0 to 10 decimals, got "${arg}"`);
+    }
+
+    return new Intl.NumberFormat(format.locale, {
+      ...(digits !== undefined && { minimumFractionDigits: digits, maximumFractionDigits: digits }),
+    }).format(amount);
+  },
+  currency: (value, arg, format) => {
+    const amount = toNumber(value);
+
+    if (amount === null) return '';
+
+    try {
+      return new Intl.NumberFormat(format.locale, {
+        style: 'currency',
+        currency: arg || format.currency,
+      }).format(amount);
+    } catch {
+      throw new Error(`Template error: unknown currency "${arg}"`);
+    }
+  },
+  date: (value, arg, format) => formatInTimezone(value, arg || format.dateFormat, format),
+  datetime: (value, arg, format) =>
+    formatInTimezone(value, arg || `${format.dateFormat} HH:mm`, format),
+};
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/**
+ * Render a template with notification data
+ * Missing values render as empty text; with escapeHtml, every value is HTML-escaped
+ * Throws "Template error: ..." for invalid templates and for templates over the limits
+ */
+export function renderTemplate(
+  template: string,
+  data: NotificationData,
+  options: { escapeHtml?: boolean; format?: TemplateFormatOptions } = {}
+): string {
+  const output = { text: '', steps: 0 };
+
+  renderNodes(parseTemplate(template), [{ value: data }], output, {
+    escapeHtml: options.escapeHtml ?? false,
+    format: options.format ?? DEFAULT_FORMAT_OPTIONS,
+  });
+
+  return output.text;
+}
+
+/**
+ * Parse a template, throwing "Template error: ..." when it is invalid
+ */
+export function parseTemplate(template: string): TemplateNode[] {
+  if (template.length > MAX_TEMPLATE_LENGTH) {
+    throw new Error(`Template error: templates are limited to ${MAX_TEMPLATE_LENGTH} characters`);
+  }
+
+  const root: TemplateNode[] = [];
+  const stack: Array<{ block: Block; name: 'if' | 'unless' | 'each'; inElse: boolean }> = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    return top
+      ? top.inElse
+        ? top.block.otherwise
+        : top.block.type === 'if'
+          ? top.block.then
+          : top.block.body
+      : root;
+  };
+
+  let lastIndex = 0;
+
+  for (const match of Array.from(template.matchAll(TAG_PATTERN))) {
+    const tag = match[1] ?? '';
+    const index = match.index ?? 0;
+
+    if (index > lastIndex) {
+      current().push({ type: 'text', value: template.slice(lastIndex, index) });
+    }
+    lastIndex = index + match[0].length;
+
+    if (tag.startsWith('!')) {
+      continue;
+    }
+
+    if (tag.startsWith('#')) {
+      const [name = '', ...rest] = tag.slice(1).trim().split(/\s+/);
+      const path = parsePath(rest.join(' '), tag);
+
+      if (name !== 'if' && name !== 'unless' && name !== 'each') {
+        throw new Error(`Template error: unknown block "{{${tag}}}"`);
+      }
+      if (stack.length >= MAX_BLOCK_DEPTH) {
+        throw new Error(`Template error: blocks are nested more than ${MAX_BLOCK_DEPTH} deep`);
+      }
+
+      const block: Block =
+        name === 'each'
+          ? { type: 'each', path, body: [], otherwise: [] }
+          : { type: 'if', negate: name === 'unless', path, then: [], otherwise: [] };
+
+      current().push(block);
+      stack.push({ block, name, inElse: false });
+      continue;
+    }
+
+    if (tag === 'else') {
+      const top = stack[stack.length - 1];
+
+      if (!top || top.inElse) {
+        throw new Error('Template error: "{{else}}" outside of an if, unless or each block');
+      }
+
+      top.inElse = true;
+      continue;
+    }
+
+    if (tag.startsWith('/')) {
+      const name = tag.slice(1).trim();
+      const top = stack.pop();
+
+      if (!top || top.name !== name) {
+        throw new Error(`Template error: unexpected "{{${tag}}}"`);
+      }
+
+      continue;
+    }
+
+    const [expression = '', ...filters] = splitFilters(tag);
+
+    current().push({
+      type: 'output',
+      path: parsePath(expression, tag),
+      filters: filters.map((f) => parseFilter(f, tag)),
+    });
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Template error: "{{#${stack[stack.length - 1]!.name}}}" is not closed`);
+  }
+
+  if (lastIndex < template.length) {
+    const rest = template.slice(lastIndex);
+
+    if (rest.includes('{{')) {
+      throw new Error('Template error: "{{" without a closing "}}"');
+    }
+
+    root.push({ type: 'text', value: rest });
+  }
+
+  return root;
+}
+
+/**
+ * Read Tenant.settings into formatting options, ignoring invalid values
+ * Pure function with no side effects
+ */
+export function resolveFormatOptions(settings: unknown): TemplateFormatOptions {
+  const values =
+    settings && typeof settings === 'object' ? (settings as Record<string, unknown>) : {};
+  const pick = (key: keyof TemplateFormatOptions, isValid: (value: string) => boolean) => {
+    const value = values[key];
+    return typeof value === 'string' && isValid(value) ? value : DEFAULT_FORMAT_OPTIONS[key];
+  };
+
+  return {
+    locale: pick('locale', (locale) => succeeds(() => new Intl.NumberFormat(locale))),
+    timezone: pick('timezone', (timezone) => timezoneSchema.safeParse(timezone).success),
+    currency: pick('currency', (currency) =>
+      succeeds(() => new Intl.NumberFormat('en-US', { style: 'currency', currency }))
+    ),
+    dateFormat: pick('dateFormat', (pattern) => succeeds(() => formatDate(new Date(), pattern))),
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function renderNodes(
+  nodes: TemplateNode[],
+  scopes: Scope[],
+  output: RenderOutput,
+  options: { escapeHtml: boolean; format: TemplateFormatOptions }
+): void {
+  for (const node of nodes) {
+    // Nested loops multiply; bound the work even when they render nothing
+    if (++output.steps > MAX_RENDER_STEPS) {
+      throw new Error(`Template error: rendering is limited to ${MAX_RENDER_STEPS} steps`);
+    }
+
+    switch (node.type) {
+      case 'text':
+        append(output, node.value);
+        break;
+
+      case 'output': {
+        let value = lookup(node.path, scopes);
+
+        for (const filter of node.filters) {
+          value = FILTERS[filter.name]!(value, filter.arg, options.format);
+        }
+
+        append(output, options.escapeHtml ? escapeHtml(toText(value)) : toText(value));
+        break;
+      }
+
+      case 'if':
+        renderNodes(
+          isTruthy(lookup(node.path, scopes)) !== node.negate ? node.then : node.otherwise,
+          scopes,
+          output,
+          options
+        );
+        break;
+
+      case 'each': {
+        const items = lookup(node.path, scopes);
+
+        if (!Array.isArray(items) || items.length === 0) {
+          renderNodes(node.otherwise, scopes, output, options);
+          break;
+        }
+
+        if (items.length > MAX_LOOP_ITEMS) {
+          throw new Error(`Template error: loops are limited to ${MAX_LOOP_ITEMS} items`);
+        }
+
+        items.forEach((item, index) =>
+          renderNodes(node.body, [...scopes, { value: item, index }], output, options)
+        );
+        break;
+      }
+    }
+  }
+}
+
+function append(output: RenderOutput, text: string): void {
+  output.text += text;
+
+  if (output.text.length > MAX_OUTPUT_LENGTH) {
+    throw new Error(`Template error: output is limited to ${MAX_OUTPUT_LENGTH} characters`);
+  }
+}
+
+/**
+ * Resolve a path against the innermost scope that has its first segment
+ * Only own properties are read, so prototypes and functions are unreachable
+ */
+function lookup(path: string, scopes: Scope[]): NotificationDataValue {
+  const innermost = scopes[scopes.length - 1]!;
+
+  if (path === '@index') {
+    return innermost.index;
+  }
+
+  const segments = path.split('.');
+  let value: NotificationDataValue;
+
+  if (segments[0] === 'this') {
+    value = innermost.value;
+    segments.shift();
+  } else {
+    const scope = [...scopes].reverse().find((s) => hasOwn(s.value, segments[0]!));
+    value = scope?.value;
+  }
+
+  for (const segment of segments) {
+    if (!hasOwn(value, segment)) {
+      return undefined;
+    }
+    value = (value as Record<string, NotificationDataValue>)[segment];
+  }
+
+  return value;
+}
+
+function hasOwn(value: NotificationDataValue, key: string): boolean {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    Object.prototype.hasOwnProperty.call(value, key)
+  );
+}
+
+function parsePath(expression: string, tag: string): string {
+  if (!PATH_PATTERN.test(expression)) {
+    throw new Error(`Template error: invalid expression "{{${tag}}}"`);
+  }
+
+  return expression;
+}
+
+function parseFilter(expression: string, tag: string): Filter {
+  const match = FILTER_PATTERN.exec(expression);
+
+  if (!match || !Object.prototype.hasOwnProperty.call(FILTERS, match[1]!)) {
+    throw new Error(`Template error: unknown filter "${expression}" in "{{${tag}}}"`);
+  }
+
+  const arg = match[2] ?? match[3];
+
+  return { name: match[1]!, ...(arg !== undefined && { arg }) };
+}
+
+/**
+ * Split "value | filter:'a|b'" on the pipes that are outside quotes
+ */
+function splitFilters(tag: string): string[] {
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let part = '';
+
+  for (const char of tag) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '|') {
+      parts.push(part.trim());
+      part = '';
+      continue;
+    }
+    part += char;
+  }
+
+  parts.push(part.trim());
+  return parts;
+}
+
+function formatInTimezone(
+  value: NotificationDataValue,
+  pattern: string,
+  format: TemplateFormatOptions
+): string {
+  const instant = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+
+  if (!instant || isNaN(instant.getTime())) {
+    return '';
+  }
+
+  // Shift to the tenant's wall-clock time, which date-fns then formats as local time
+  const local = BusinessCalendarService.getLocalParts(instant, format.timezone);
+  const wallClock = new Date(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+    local.second
+  );
+
+  try {
+    return formatDate(wallClock, pattern);
+  } catch {
+    throw new Error(`Template error: invalid date format "${pattern}"`);
+  }
+}
+
+function toNumber(value: NotificationDataValue): number | null {
+  const amount = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof amount === 'number' && isFinite(amount) ? amount : null;
+}
+
+function toText(value: NotificationDataValue): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(toText).join(', ');
+  if (typeof value === 'object') return '';
+  return String(value);
+}
+
+function isTruthy(value: NotificationDataValue): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function succeeds(fn: () => unknown): boolean {
+  try {
+    fn();
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * Attachment Service
+ * Uploads, downloads and links files attached to workflow instances and stage actions
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { getFileStorage } from '@/lib/storage/file-storage';
+import { attachmentUploadSchema } from '@/lib/validation/attachment-schema';
+import { Attachment, AttachmentContent, AttachmentUpload } from '@/types/attachment';
+import { AuditLogService } from './audit-log-service';
+import { StageResponsibilityService } from './stage-responsibility-service';
+
+const prisma = new PrismaClient();
+
+/**
+ * Statuses in which files can still be added; a returned workflow is being revised
+ */
+const OPEN_STATUSES = ['InProgress', 'Returned'];
+
+// ============================================================================
+// ATTACHMENT SERVICE
+// ============================================================================
+
+export class AttachmentService {
+  /**
+   * Validate and store a file against a workflow instance's current stage
+   * The attachment stays pending until it is submitted with a stage action
+   */
+  static async uploadAttachment(
+    tenantId: string,
+    instanceId: string,
+    upload: AttachmentUpload,
+    uploadedBy: string
+  ): Promise<Attachment> {
+    const validation = attachmentUploadSchema.safeParse(upload);
+
+    if (!validation.success) {
+      throw new Error(
+        `Invalid attachment: ${validation.error.issues.map((i) => i.message).join('; ')}`
+      );
+    }
+
+    const instance = await this.getTenantInstance(instanceId, tenantId);
+
+    if (!OPEN_STATUSES.includes(instance.status)) {
+      throw new Error(
+        `Attachments cannot be added to a ${instance.status} workflow: ${instanceId}`
+      );
+    }
+
+    if (!(await StageResponsibilityService.isActiveTenantUser(uploadedBy, tenantId))) {
+      throw new Error(`Uploader is not an active user of tenant: ${tenantId}`);
+    }
+
+    const storageKey = `${tenantId}/${instanceId}/${randomUUID()}`;
+    const storage = await getFileStorage();
+
+    await storage.put(storageKey, upload.content, upload.mimeType);
+
+    let attachment;
+    try {
+      attachment = await prisma.attachment.create({
+        data: {
+          tenantId,
+          workflowInstanceId: instanceId,
+          stageId: instance.currentStageId,
+          fileName: upload.fileName,
+          mimeType: upload.mimeType,
+          sizeBytes: upload.content.length,
+          checksum: createHash('sha256').update(upload.content).digest('hex'),
+          storageKey,
+          uploadedBy,
+        },
+      });
+    } catch (error) {
+      await storage.delete(storageKey);
+      throw error;
+    }
+
+    await AuditLogService.logWorkflowAction(tenantId, instanceId, 'AttachmentAdded', uploadedBy, {
+      attachmentId: attachment.id,
+      fileName: attachment.fileName,
+      mimeType: attachment.mimeType,
+      sizeBytes: attachment.sizeBytes,
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return attachment as any;
+  }
+
+  /**
+   * List the attachments of a workflow instance, newest first
+   */
+  static async listAttachments(instanceId: string, tenantId: string): Promise<Attachment[]> {
+    await this.getTenantInstance(instanceId, tenantId);
+
+    const attachments = await prisma.attachment.findMany({
+      where: { workflowInstanceId: instanceId, tenantId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return attachments as any;
+  }
+
+  /**
+   * Load an attachment and its content for download
+   */
+  static async getAttachmentContent(
+    attachmentId: string,
+    tenantId: string
+  ): Promise<AttachmentContent> {
+    const attachment = await prisma.attachment.findFirst({
+      where: { id: attachmentId, tenantId },
+    });
+
+    if (!attachment) {
+      throw new Error(`Attachment not found: ${attachmentId}`);
+    }
+
+    const content = await (await getFileStorage()).get(attachment.storageKey);
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return { attachment: attachment as any, content };
+  }
+
+  /**
+   * Delete a pending attachment; only its uploader may do so
+   * Attachments submitted with an action are part of the record and cannot be removed
+   */
+  static async deleteAttachment(
+    attachmentId: string,
+    tenantId: string,
+    actorId: string
+  ): Promise<void> {
+    const attachment = await prisma.attachment.findFirst({
+      where: { id: attachmentId, tenantId },
+    });
+
+    if (!attachment) {
+      throw new Error(`Attachment not found: ${attachmentId}`);
+    }
+
+    if (attachment.uploadedBy !== actorId) {
+      throw new Error('Only the uploader can delete an attachment');
+    }
+
+    if (attachment.stageActionId) {
+      throw new Error('Attachments submitted with an action cannot be deleted');
+    }
+
+    await prisma.attachment.delete({ where: { id: attachmentId } });
+    await (await getFileStorage()).delete(attachment.storageKey);
+
+    await AuditLogService.logWorkflowAction(
+      tenantId,
+      attachment.workflowInstanceId,
+      'AttachmentRemoved',
+      actorId,
+      { attachmentId, fileName: attachment.fileName }
+    );
+  }
+
+  /**
+   * Resolve the attachments an actor submits with an action
+   * Each must be pending, uploaded by the actor to the instance's current stage
+   */
+  static async getSubmittableAttachments(
+    instanceId: string,
+    stageId: string,
+    actorId: string,
+    attachmentIds: string[]
+  ): Promise<Attachment[]> {
+    if (attachmentIds.length === 0) {
+      return [];
+    }
+
+    const attachments = await prisma.attachment.findMany({
+      where: {
+        id: { in: attachmentIds },
+        workflowInstanceId: instanceId,
+        stageId,
+        uploadedBy: actorId,
+        stageActionId: null,
+      },
+    });
+
+    const found = new Set(attachments.map((a) => a.id));
+    const missing = attachmentIds.filter((id) => !found.has(id));
+
+    if (missing.length > 0) {
+      throw new Error(`Attachments not available for this action: ${missing.join(', ')}`);
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return attachments as any;
+  }
+
+  /**
+   * Link submitted attachments to the stage action they support
+   */
+  static async linkToAction(
+    attachmentIds: string[],
+    stageActionId: string,
+    tx: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    if (attachmentIds.length === 0) return;
+
+    const linked = await tx.attachment.updateMany({
+      where: { id: { in: attachmentIds }, stageActionId: null },
+      data: { stageActionId },
+    });
+
+    // Another action claimed some of them after they were checked; throwing rolls this one back
+    if (linked.count !== attachmentIds.length) {
+      throw new Error(
+        'Attachments not available for this action: already linked to another action'
+      );
+    }
+  }
+
+  /**
+   * Load an instance and verify it belongs to the tenant
+   */
+  private static async getTenantInstance(instanceId: string, tenantId: string) {
+    const instance = await prisma.workflowInstance.findUnique({
+      where: { id: instanceId },
+      include: { template: { select: { tenantId: true } } },
+    });
+
+    if (!instance || instance.template.tenantId !== tenantId) {
+      throw new Error(`Workflow instance not found: ${instanceId}`);
+    }
+
+    return instance;
+  }
+}
@@ -333,7 +333,7 @@ export class AuditLogService {
     tenantId: string,
     workflowInstanceId: string,
     action: string,
-    actorId: string,
+    actorId: string | null,
     changeDetails: Record<string, unknown>,
     oldValues?: Record<string, unknown>,
     newValues?: Record<string, unknown>
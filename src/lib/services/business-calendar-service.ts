@@ -0,0 +1,333 @@
+/**
+ * Business Calendar Service
+ * Per-tenant working calendars: SLA due dates and elapsed time measured in working hours
+ */
+
+import { PrismaClient } from '@prisma/client';
+import {
+  UpdateWorkCalendarRequest,
+  Weekday,
+  WorkCalendar,
+  WorkCalendarSettings,
+} from '@/types/calendar';
+import { timezoneSchema, workCalendarSettingsSchema } from '@/lib/validation/calendar-schema';
+import { AuditLogService } from './audit-log-service';
+
+const prisma = new PrismaClient();
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/**
+ * Calendar used when a tenant has not configured one, matching wall-clock SLAs
+ */
+const ALWAYS_OPEN: WorkCalendarSettings = {
+  workDays: [0, 1, 2, 3, 4, 5, 6],
+  workStart: '00:00',
+  workEnd: '24:00',
+  holidays: [],
+};
+
+/**
+ * Longest run of consecutive non-working days before a calendar is treated as broken
+ */
+const MAX_NON_WORKING_DAYS = 366;
+
+const localFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// ============================================================================
+// BUSINESS CALENDAR SERVICE
+// ============================================================================
+
+export class BusinessCalendarService {
+  /**
+   * Get the working calendar of a tenant
+   */
+  static async getTenantCalendar(tenantId: string): Promise<WorkCalendar> {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { settings: true },
+    });
+
+    if (!tenant) {
+      throw new Error(`Tenant not found: ${tenantId}`);
+    }
+
+    return this.resolveCalendar(tenant.settings);
+  }
+
+  /**
+   * Get the working calendars of several tenants in one query
+   */
+  static async getTenantCalendars(tenantIds: string[]): Promise<Map<string, WorkCalendar>> {
+    if (tenantIds.length === 0) {
+      return new Map();
+    }
+
+    const tenants = await prisma.tenant.findMany({
+      where: { id: { in: Array.from(new Set(tenantIds)) } },
+      select: { id: true, settings: true },
+    });
+
+    return new Map(tenants.map((t) => [t.id, this.resolveCalendar(t.settings)]));
+  }
+
+  /**
+   * Calculate when a stage SLA falls due for a tenant
+   */
+  static async calculateSlaDue(tenantId: string, start: Date, slaHours: number): Promise<Date> {
+    return this.addWorkingHours(start, slaHours, await this.getTenantCalendar(tenantId));
+  }
+
+  /**
+   * Change the timezone, working week, working hours or holidays of a tenant
+   * Due dates of instances already in a stage are not recalculated
+   */
+  static async updateTenantCalendar(
+    tenantId: string,
+    request: UpdateWorkCalendarRequest,
+    actorId: string
+  ): Promise<WorkCalendar> {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { settings: true },
+    });
+
+    if (!tenant) {
+      throw new Error(`Tenant not found: ${tenantId}`);
+    }
+
+    const current = this.resolveCalendar(tenant.settings);
+    const { timezone, ...calendarChanges } = request;
+
+    const parsed = workCalendarSettingsSchema.safeParse({
+      workDays: current.workDays,
+      workStart: current.workStart,
+      workEnd: current.workEnd,
+      holidays: current.holidays,
+      ...calendarChanges,
+    });
+
+    if (!parsed.success) {
+      throw new Error(
+        `Validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+
+    const workCalendar = {
+      ...parsed.data,
+      workDays: [...parsed.data.workDays].sort((a, b) => a - b) as Weekday[],
+      holidays: [...parsed.data.holidays].sort((a, b) => a.date.localeCompare(b.date)),
+    };
+    const settings = {
+      ...((tenant.settings as Record<string, unknown> | null) || {}),
+      timezone: timezone || current.timezone,
+      workCalendar,
+    };
+
+    await prisma.tenant.update({
+      where: { id: tenantId },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      data: { settings: settings as any },
+    });
+
+    const updated = this.resolveCalendar(settings);
+
+    await AuditLogService.logAction(tenantId, {
+      actionType: 'CalendarUpdated',
+      actionDescription: 'Working calendar updated',
+      entityType: 'System',
+      entityId: tenantId,
+      actorId,
+      changeDetails: { fields: Object.keys(request) },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      oldValues: current as any,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      newValues: updated as any,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Build a calendar from Tenant.settings
+   * A missing or invalid workCalendar falls back to around-the-clock working time
+   * Pure function with no side effects
+   */
+  static resolveCalendar(settings: unknown): WorkCalendar {
+    const values =
+      settings && typeof settings === 'object' ? (settings as Record<string, unknown>) : {};
+    const timezone = timezoneSchema.safeParse(values.timezone);
+    const workCalendar = workCalendarSettingsSchema.safeParse(values.workCalendar);
+
+    return {
+      timezone: timezone.success ? timezone.data : 'UTC',
+      ...(workCalendar.success
+        ? { ...workCalendar.data, workDays: workCalendar.data.workDays as Weekday[] }
+        : ALWAYS_OPEN),
+    };
+  }
+
+  /**
+   * Check whether a calendar counts every hour of every day
+   * Pure function with no side effects
+   */
+  static isAlwaysOpen(calendar: WorkCalendar): boolean {
+    return (
+      calendar.workDays.length === 7 &&
+      calendar.workStart === '00:00' &&
+      calendar.workEnd === '24:00' &&
+      calendar.holidays.length === 0
+    );
+  }
+
+  /**
+   * Add working hours to a start time, skipping non-working days, hours and holidays
+   * Pure function with no side effects
+   */
+  static addWorkingHours(start: Date, hours: number, calendar: WorkCalendar): Date {
+    if (hours <= 0 || this.isAlwaysOpen(calendar)) {
+      return new Date(start.getTime() + Math.max(hours, 0) * MS_PER_HOUR);
+    }
+
+    let remainingMs = hours * MS_PER_HOUR;
+
+    for (const [windowStart, windowEnd] of this.workingWindows(start, calendar)) {
+      const from = Math.max(windowStart, start.getTime());
+
+      if (from + remainingMs <= windowEnd) {
+        return new Date(from + remainingMs);
+      }
+
+      remainingMs -= Math.max(windowEnd - from, 0);
+    }
+
+    throw new Error('Working calendar has no working time');
+  }
+
+  /**
+   * Count the working hours between two instants; negative when end is before start
+   * Pure function with no side effects
+   */
+  static workingHoursBetween(start: Date, end: Date, calendar: WorkCalendar): number {
+    if (end < start) {
+      return -this.workingHoursBetween(end, start, calendar);
+    }
+
+    if (this.isAlwaysOpen(calendar)) {
+      return (end.getTime() - start.getTime()) / MS_PER_HOUR;
+    }
+
+    let workingMs = 0;
+
+    for (const [windowStart, windowEnd] of this.workingWindows(start, calendar)) {
+      if (windowStart >= end.getTime()) {
+        break;
+      }
+
+      workingMs += Math.max(
+        Math.min(windowEnd, end.getTime()) - Math.max(windowStart, start.getTime()),
+        0
+      );
+    }
+
+    return workingMs / MS_PER_HOUR;
+  }
+
+  /**
+   * Yield [start, end) epoch milliseconds of each working period from the local day of `from`
+   */
+  private static *workingWindows(from: Date, calendar: WorkCalendar): Generator<[number, number]> {
+    const holidays = new Set(calendar.holidays.map((h) => h.date));
+    const workStart = this.toMinutes(calendar.workStart);
+    const workEnd = this.toMinutes(calendar.workEnd);
+    const local = this.getLocalParts(from, calendar.timezone);
+
+    let day = Date.UTC(local.year, local.month - 1, local.day);
+    let nonWorkingDays = 0;
+
+    while (nonWorkingDays <= MAX_NON_WORKING_DAYS) {
+      const date = new Date(day);
+      const key = date.toISOString().slice(0, 10);
+
+      if (calendar.workDays.includes(date.getUTCDay() as Weekday) && !holidays.has(key)) {
+        nonWorkingDays = 0;
+        yield [
+          this.toInstant(day, workStart, calendar.timezone),
+          this.toInstant(day, workEnd, calendar.timezone),
+        ];
+      } else {
+        nonWorkingDays++;
+      }
+
+      day += MS_PER_DAY;
+    }
+  }
+
+  /**
+   * Convert a local calendar day and minute of day in a timezone to epoch milliseconds
+   */
+  private static toInstant(day: number, minutes: number, timezone: string): number {
+    const wallClock = day + minutes * 60 * 1000;
+    const guess = wallClock - this.getOffset(wallClock, timezone);
+
+    // Re-check at the guessed instant in case a DST change falls between the two
+    return wallClock - this.getOffset(guess, timezone);
+  }
+
+  /**
+   * Offset of a timezone from UTC at an instant, in milliseconds
+   */
+  private static getOffset(instant: number, timezone: string): number {
+    const local = this.getLocalParts(new Date(instant), timezone);
+    const localAsUtc = Date.UTC(
+      local.year,
+      local.month - 1,
+      local.day,
+      local.hour,
+      local.minute,
+      local.second
+    );
+
+    return localAsUtc - Math.floor(instant / 1000) * 1000;
+  }
+
+  /**
+   * Wall-clock date and time of an instant in a timezone
+   */
+  static getLocalParts(instant: Date, timezone: string) {
+    let formatter = localFormatters.get(timezone);
+
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      });
+      localFormatters.set(timezone, formatter);
+    }
+
+    const parts = formatter.formatToParts(instant);
+    const get = (type: Intl.DateTimeFormatPartTypes) =>
+      Number(parts.find((p) => p.type === type)?.value);
+
+    return {
+      year: get('year'),
+      month: get('month'),
+      day: get('day'),
+      hour: get('hour'),
+      minute: get('minute'),
+      second: get('second'),
+    };
+  }
+
+  private static toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours! * 60 + minutes!;
+  }
+}
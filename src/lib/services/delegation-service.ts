@@ -0,0 +1,224 @@
+/**
+ * Delegation Service
+ * Out-of-office delegation of stage approval authority between users
+ */
+
+import { PrismaClient } from '@prisma/client';
+import {
+  ApprovalDelegation,
+  CreateDelegationRequest,
+  DelegationMatchContext,
+  ListDelegationsFilter,
+} from '@/types/workflow';
+
+const prisma = new PrismaClient();
+
+// ============================================================================
+// DELEGATION SERVICE
+// ============================================================================
+
+export class DelegationService {
+  /**
+   * Create a delegation from a principal to a delegate for a date range
+   */
+  static async createDelegation(
+    tenantId: string,
+    data: CreateDelegationRequest,
+    createdBy: string
+  ): Promise<ApprovalDelegation> {
+    const startsAt = new Date(data.startsAt);
+    const endsAt = new Date(data.endsAt);
+
+    if (data.principalId === data.delegateId) {
+      throw new Error('A user cannot delegate to themselves');
+    }
+
+    if (Number.isNaN(startsAt.getTime()) || Number.isNaN(endsAt.getTime()) || endsAt <= startsAt) {
+      throw new Error('Delegation end must be after its start');
+    }
+
+    if ((data.scopeType && !data.scopeId) || (!data.scopeType && data.scopeId)) {
+      throw new Error('Delegation scope requires both scopeType and scopeId');
+    }
+
+    const users = await prisma.user.count({
+      where: {
+        id: { in: [data.principalId, data.delegateId] },
+        tenantId,
+        isActive: true,
+        deletedAt: null,
+      },
+    });
+
+    if (users !== 2) {
+      throw new Error(`Principal and delegate must be active users of tenant: ${tenantId}`);
+    }
+
+    const delegation = await prisma.approvalDelegation.create({
+      data: {
+        tenantId,
+        principalId: data.principalId,
+        delegateId: data.delegateId,
+        startsAt,
+        endsAt,
+        templateFamilyIds: data.templateFamilyIds || [],
+        scopeType: data.scopeType || null,
+        scopeId: data.scopeId || null,
+        reason: data.reason || null,
+        createdBy,
+      },
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return delegation as any;
+  }
+
+  /**
+   * Revoke a delegation before it ends
+   */
+  static async revokeDelegation(delegationId: string, tenantId: string): Promise<void> {
+    const result = await prisma.approvalDelegation.updateMany({
+      where: { id: delegationId, tenantId },
+      data: { isActive: false },
+    });
+
+    if (result.count === 0) {
+      throw new Error(`Delegation not found: ${delegationId}`);
+    }
+  }
+
+  /**
+   * Get a delegation of a tenant
+   */
+  static async getDelegation(
+    delegationId: string,
+    tenantId: string
+  ): Promise<ApprovalDelegation | null> {
+    const delegation = await prisma.approvalDelegation.findFirst({
+      where: { id: delegationId, tenantId },
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return delegation as any;
+  }
+
+  /**
+   * List delegations for a tenant
+   */
+  static async listDelegations(
+    tenantId: string,
+    filter: ListDelegationsFilter = {}
+  ): Promise<ApprovalDelegation[]> {
+    const delegations = await prisma.approvalDelegation.findMany({
+      where: {
+        tenantId,
+        ...(filter.principalId && { principalId: filter.principalId }),
+        ...(filter.delegateId && { delegateId: filter.delegateId }),
+        ...(!filter.includeRevoked && { isActive: true }),
+        ...(filter.activeAt && {
+          startsAt: { lte: filter.activeAt },
+          endsAt: { gt: filter.activeAt },
+        }),
+      },
+      orderBy: { startsAt: 'desc' },
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return delegations as any;
+  }
+
+  /**
+   * Get delegations that currently let a user act on behalf of others
+   */
+  static async getDelegationsForDelegate(
+    delegateId: string,
+    tenantId: string,
+    context: DelegationMatchContext
+  ): Promise<ApprovalDelegation[]> {
+    const delegations = await this.listDelegations(tenantId, {
+      delegateId,
+      activeAt: context.at,
+    });
+
+    return this.filterApplicable(delegations, context);
+  }
+
+  /**
+   * Get the delegates currently acting for a set of principals
+   * Returns a map of principal ID to delegate IDs
+   */
+  static async getDelegatesForPrincipals(
+    principalIds: string[],
+    tenantId: string,
+    context: DelegationMatchContext
+  ): Promise<Map<string, string[]>> {
+    if (principalIds.length === 0) {
+      return new Map();
+    }
+
+    const delegations = (await prisma.approvalDelegation.findMany({
+      where: {
+        tenantId,
+        principalId: { in: principalIds },
+        isActive: true,
+        startsAt: { lte: context.at },
+        endsAt: { gt: context.at },
+        delegate: { tenantId, isActive: true, deletedAt: null },
+      },
+    })) as unknown as ApprovalDelegation[];
+
+    const delegates = new Map<string, string[]>();
+
+    for (const delegation of this.filterApplicable(delegations, context)) {
+      const existing = delegates.get(delegation.principalId) || [];
+      existing.push(delegation.delegateId);
+      delegates.set(delegation.principalId, existing);
+    }
+
+    return delegates;
+  }
+
+  /**
+   * Check whether a delegation covers a workflow context
+   * Pure function with no side effects
+   */
+  static delegationApplies(
+    delegation: Pick<
+      ApprovalDelegation,
+      'isActive' | 'startsAt' | 'endsAt' | 'templateFamilyIds' | 'scopeType' | 'scopeId'
+    >,
+    context: DelegationMatchContext
+  ): boolean {
+    if (!delegation.isActive) return false;
+    if (context.at < delegation.startsAt || context.at >= delegation.endsAt) return false;
+
+    if (
+      delegation.templateFamilyIds.length > 0 &&
+      (!context.templateFamilyId ||
+        !delegation.templateFamilyIds.includes(context.templateFamilyId))
+    ) {
+      return false;
+    }
+
+    if (delegation.scopeType === 'Program') {
+      return delegation.scopeId === context.programId;
+    }
+
+    if (delegation.scopeType === 'Project') {
+      return delegation.scopeId === context.projectId;
+    }
+
+    return true;
+  }
+
+  /**
+   * Keep only delegations that cover a workflow context
+   * Pure function with no side effects
+   */
+  static filterApplicable<T extends Parameters<typeof DelegationService.delegationApplies>[0]>(
+    delegations: T[],
+    context: DelegationMatchContext
+  ): T[] {
+    return delegations.filter((d) => this.delegationApplies(d, context));
+  }
+}
@@ -5,13 +5,27 @@
 
 import { PrismaClient } from '@prisma/client';
 import { SLAManagementService } from './sla-management-service';
+import { BusinessCalendarService } from './business-calendar-service';
 import { EscalationService } from './escalation-service';
 import { NotificationService } from './notification-service';
 import { AuditLogService } from './audit-log-service';
-import { EscalationActionType, EscalationTriggerType, EscalationEvent } from '@/types/escalation';
+import { StageResponsibilityService } from './stage-responsibility-service';
+import { WebhookService } from './webhook-service';
+import { OrgHierarchyService } from './org-hierarchy-service';
+import {
+  EscalationActionType,
+  EscalationChainLevel,
+  EscalationTriggerType,
+  EscalationEvent,
+  EscalationRecipients,
+  PriorityLevel,
+} from '@/types/escalation';
+import { AssigneeType } from '@/types/workflow';
 
 const prisma = new PrismaClient();
 
+const PRIORITY_LEVELS: PriorityLevel[] = ['Low', 'Medium', 'High', 'Critical'];
+
 // ============================================================================
 // ESCALATION EXECUTOR
 // ============================================================================
@@ -19,12 +33,15 @@ const prisma = new PrismaClient();
 export class EscalationExecutor {
   /**
    * Check if workflow needs escalation and execute if necessary
+   * SLAWarning rules fire at their own warningThresholdPercent when set, else once a
+   * Warning or Critical band is reached
+   * actorId is null when run by the background SLA sweep
    */
   static async checkAndEscalate(
     workflowInstanceId: string,
     tenantId: string,
     escalationPolicyId: string,
-    actorId: string
+    actorId: string | null
   ): Promise<EscalationEvent | null> {
     try {
       // Get workflow instance
@@ -42,8 +59,21 @@ export class EscalationExecutor {
         return null;
       }
 
-      // Get SLA compliance
-      const slaCompliance = SLAManagementService.calculateSLACompliance(instance);
+      // Rules do not fire while the SLA clock is stopped
+      if (instance.slaPausedAt) {
+        return null;
+      }
+
+      // Get SLA compliance in tenant working hours
+      const calendar = await BusinessCalendarService.getTenantCalendar(tenantId);
+      const templateBands = await SLAManagementService.getThresholdBands([
+        instance.workflowTemplateId,
+      ]);
+      const slaCompliance = SLAManagementService.calculateSLACompliance(
+        instance,
+        calendar,
+        templateBands.get(instance.workflowTemplateId)
+      );
 
       // Check which rules should trigger
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -51,7 +81,7 @@ export class EscalationExecutor {
 
       if (slaCompliance.currentStatus === 'Breached') {
         triggerType = 'SLABreach';
-      } else if (slaCompliance.currentStatus === 'Warning') {
+      } else if (slaCompliance.band) {
         triggerType = 'SLAWarning';
       }
 
@@ -59,11 +89,20 @@ export class EscalationExecutor {
         return null;
       }
 
-      // Get applicable rules
-      const applicableRules = await EscalationService.getApplicableRules(
-        workflowInstanceId,
-        escalationPolicyId,
-        triggerType
+      // Get applicable rules; SLAWarning rules with their own threshold wait for it
+      const applicableRules = (
+        await EscalationService.getApplicableRules(
+          workflowInstanceId,
+          escalationPolicyId,
+          tenantId,
+          triggerType
+        )
+      ).filter(
+        (rule) =>
+          triggerType === 'SLABreach' ||
+          (rule.warningThresholdPercent
+            ? slaCompliance.percentageUsed >= rule.warningThresholdPercent
+            : slaCompliance.isWarning)
       );
 
       if (applicableRules.length === 0) {
@@ -87,12 +126,14 @@ export class EscalationExecutor {
         return null;
       }
 
-      // Check max escalations
-      if (rule.maxEscalations) {
+      // Check max escalations; a non-repeatable rule fires once per instance
+      const maxEscalations = rule.isRepeatable ? rule.maxEscalations : 1;
+
+      if (maxEscalations) {
         const maxReached = await EscalationService.hasReachedMaxEscalations(
           workflowInstanceId,
           rule.id,
-          rule.maxEscalations
+          maxEscalations
         );
 
         if (maxReached) {
@@ -100,6 +141,25 @@ export class EscalationExecutor {
         }
       }
 
+      // Walk the policy's escalation chain one level per unresolved escalation
+      const chainStep = await this.getNextChainStep(
+        escalationPolicyId,
+        workflowInstanceId,
+        tenantId
+      );
+
+      if (chainStep && !chainStep.isDue) {
+        return null;
+      }
+
+      const recipients = chainStep
+        ? await OrgHierarchyService.resolveRecipients(
+            workflowInstanceId,
+            tenantId,
+            chainStep.roleOrUserId
+          )
+        : undefined;
+
       // Execute escalation actions
       const escalationEvent = await this.executeEscalation(
         instance,
@@ -107,7 +167,8 @@ export class EscalationExecutor {
         tenantId,
         triggerType,
         actorId,
-        slaCompliance.hoursBreach || slaCompliance.hoursRemaining || 0
+        slaCompliance.hoursBreach || slaCompliance.hoursRemaining || 0,
+        recipients
       );
 
       return escalationEvent;
@@ -117,8 +178,44 @@ export class EscalationExecutor {
     }
   }
 
+  /**
+   * Get the chain level the next escalation of an instance reaches
+   * A later level is due once the previous escalation has been unresolved for its delay;
+   * past the last level only the rule cooldown applies
+   */
+  static async getNextChainStep(
+    escalationPolicyId: string,
+    workflowInstanceId: string,
+    tenantId: string,
+    now: Date = new Date()
+  ): Promise<(EscalationChainLevel & { level: number; isDue: boolean }) | null> {
+    const chains = await EscalationService.listChainsForPolicy(escalationPolicyId, tenantId);
+    const chain = chains.find((c) => c.isActive);
+
+    if (!chain) return null;
+
+    const open = await EscalationService.getOpenEscalation(workflowInstanceId, tenantId);
+    const chainLevel = (open?.escalationChainLevel ?? 0) + 1;
+    const step = EscalationService.getChainLevel(chain, chainLevel);
+
+    if (!step) return null;
+
+    const isDue =
+      !open ||
+      step.level < chainLevel ||
+      now.getTime() - open.createdAt.getTime() >= step.escalationDelayMinutes * 60 * 1000;
+
+    return {
+      roleOrUserId: step.roleOrUserId,
+      escalationDelayMinutes: step.escalationDelayMinutes,
+      level: step.level,
+      isDue,
+    };
+  }
+
   /**
    * Execute escalation with all its actions
+   * Notify actions reach the chain level's recipients when given, else the stage's users
    */
   static async executeEscalation(
     instance: {
@@ -137,17 +234,20 @@ export class EscalationExecutor {
       actions: Array<{
         id: string;
         actionType: EscalationActionType;
-        reassignToUserId?: string;
-        reassignToRole?: string;
-        notificationTemplate?: string;
-        newPriority?: string;
-        comment?: string;
+        reassignToUserId?: string | null;
+        reassignToRole?: string | null;
+        notificationTemplate?: string | null;
+        newPriority?: string | null;
+        comment?: string | null;
+        webhookUrl?: string | null;
+        webhookSecret?: string | null;
       }>;
     },
     tenantId: string,
     triggerType: EscalationTriggerType,
-    actorId: string,
-    breachHours: number
+    actorId: string | null,
+    breachHours: number,
+    recipients?: EscalationRecipients
   ): Promise<EscalationEvent> {
     try {
       // Create escalation event
@@ -162,13 +262,20 @@ export class EscalationExecutor {
         undefined, // Will be set by actions
         undefined,
         undefined,
-        actorId
+        actorId ?? undefined
       );
 
       // Execute all actions in order
       for (const action of rule.actions) {
-        // eslint-disable-next-line @typescript-eslint/no-floating-promises
-        this.executeAction(action, instance, tenantId, actorId, escalationEvent.id, breachHours);
+        await this.executeAction(
+          action,
+          instance,
+          tenantId,
+          actorId,
+          escalationEvent.id,
+          breachHours,
+          recipients?.userIds
+        );
       }
 
       // Log audit event
@@ -182,6 +289,10 @@ export class EscalationExecutor {
           triggerType,
           ruleName: rule.name,
           breachHours,
+          ...(recipients && {
+            escalatedTo: recipients.target,
+            recipientIds: recipients.userIds,
+          }),
         }
       );
 
@@ -198,11 +309,13 @@ export class EscalationExecutor {
   static async executeAction(
     action: {
       actionType: EscalationActionType;
-      reassignToUserId?: string;
-      reassignToRole?: string;
-      notificationTemplate?: string;
-      newPriority?: string;
-      comment?: string;
+      reassignToUserId?: string | null;
+      reassignToRole?: string | null;
+      notificationTemplate?: string | null;
+      newPriority?: string | null;
+      comment?: string | null;
+      webhookUrl?: string | null;
+      webhookSecret?: string | null;
     },
     instance: {
       id: string;
@@ -213,14 +326,25 @@ export class EscalationExecutor {
       createdBy?: string;
     },
     tenantId: string,
-    actorId: string,
+    actorId: string | null,
     escalationEventId: string,
-    breachHours: number
+    breachHours: number,
+    recipientIds?: string[]
   ): Promise<void> {
     try {
       switch (action.actionType) {
         case 'Reassign':
-          await this.performReassign(instance.id, action.reassignToUserId, tenantId, actorId);
+          await this.performReassign(
+            instance,
+            action.reassignToUserId
+              ? { type: 'User', value: action.reassignToUserId }
+              : action.reassignToRole
+                ? { type: 'Role', value: action.reassignToRole }
+                : null,
+            tenantId,
+            actorId,
+            escalationEventId
+          );
           break;
 
         case 'Notify':
@@ -228,12 +352,19 @@ export class EscalationExecutor {
             instance,
             tenantId,
             action.notificationTemplate || 'EscalationNotification',
-            breachHours
+            breachHours,
+            recipientIds
           );
           break;
 
         case 'ChangePriority':
-          await this.performChangePriority(instance.id, action.newPriority, tenantId, actorId);
+          await this.performChangePriority(
+            instance.id,
+            action.newPriority,
+            tenantId,
+            actorId,
+            escalationEventId
+          );
           break;
 
         case 'AddComment':
@@ -245,9 +376,14 @@ export class EscalationExecutor {
           break;
 
         case 'TriggerWebhook':
-          // Placeholder for webhook trigger
-          // eslint-disable-next-line no-console
-          console.log(`Would trigger webhook for escalation event ${escalationEventId}`);
+          await this.performWebhook(
+            instance,
+            action.webhookUrl,
+            action.webhookSecret,
+            tenantId,
+            escalationEventId,
+            breachHours
+          );
           break;
       }
     } catch (error) {
@@ -258,21 +394,97 @@ export class EscalationExecutor {
 
   /**
    * Perform reassignment action
+   * The assignee replaces the current stage's responsibilities until the instance
+   * leaves the stage; nothing changes if it already has
    */
   private static async performReassign(
-    workflowInstanceId: string,
-    newAssigneeId: string | undefined,
-    _tenantId: string,
-    _actorId: string
+    instance: {
+      id: string;
+      currentStageId: string;
+      template?: { id: string; name: string };
+      currentStage?: { id: string; name: string };
+    },
+    assignee: { type: AssigneeType; value: string } | null,
+    tenantId: string,
+    actorId: string | null,
+    escalationEventId: string
   ): Promise<void> {
-    if (!newAssigneeId) return;
+    if (!assignee) return;
 
     try {
-      // In production, update workflow assignment in database
-      // eslint-disable-next-line no-console
-      console.log(`Reassigning workflow ${workflowInstanceId} to user ${newAssigneeId}`);
+      const previous = await prisma.workflowInstance.findUnique({
+        where: { id: instance.id },
+        select: {
+          id: true,
+          currentStageId: true,
+          currentStageStarted: true,
+          assigneeType: true,
+          assigneeValue: true,
+          assignedStageId: true,
+          assignedAt: true,
+        },
+      });
+
+      if (!previous || previous.currentStageId !== instance.currentStageId) return;
+
+      const { count } = await prisma.workflowInstance.updateMany({
+        where: { id: instance.id, status: 'InProgress', currentStageId: instance.currentStageId },
+        data: {
+          assigneeType: assignee.type,
+          assigneeValue: assignee.value,
+          assignedStageId: instance.currentStageId,
+          assignedAt: new Date(),
+        },
+      });
+
+      if (count === 0) return;
+
+      const [previousAssignee] = StageResponsibilityService.getEffectiveResponsibilities(
+        previous,
+        []
+      );
+
+      await prisma.escalationEvent.update({
+        where: { id: escalationEventId },
+        data: {
+          previousAssigneeId: previousAssignee?.type === 'User' ? previousAssignee.value : null,
+          newAssigneeId: assignee.type === 'User' ? assignee.value : null,
+        },
+      });
+
+      await AuditLogService.logWorkflowAction(
+        tenantId,
+        instance.id,
+        'WorkflowReassigned',
+        actorId,
+        {
+          stageId: instance.currentStageId,
+          assigneeType: assignee.type,
+          assignee: assignee.value,
+          escalationEventId,
+        },
+        previousAssignee
+          ? { assigneeType: previousAssignee.type, assignee: previousAssignee.value }
+          : undefined,
+        { assigneeType: assignee.type, assignee: assignee.value }
+      );
+
+      if (assignee.type === 'User') {
+        await NotificationService.sendBulkNotifications(tenantId, {
+          userIds: [assignee.value],
+          eventType: 'WorkflowAssigned',
+          subject: `Escalated to you: ${instance.template?.name || 'Workflow'}`,
+          message: `Workflow "${instance.template?.name}" has been escalated and reassigned to you. Stage: ${instance.currentStage?.name}`,
+          data: {
+            workflowInstanceId: instance.id,
+            templateName: instance.template?.name,
+            stageName: instance.currentStage?.name,
+          },
+          workflowInstanceId: instance.id,
+        });
+      }
     } catch (error) {
-      console.error(`Failed to reassign workflow ${workflowInstanceId}: ${error}`);
+      console.error(`Failed to reassign workflow ${instance.id}: ${error}`);
     }
   }
 
@@ -288,23 +500,28 @@ export class EscalationExecutor {
     },
     tenantId: string,
     _notificationTemplate: string,
-    breachHours: number
+    breachHours: number,
+    recipientIds?: string[]
   ): Promise<void> {
     try {
       const message = `⚠️ ESCALATION: Workflow "${instance.template?.name}" has been escalated. SLA breach: ${breachHours} hours. Immediate action required.`;
 
-      // Get stage users to notify
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const stageResponsibilities = (await prisma.stageResponsibility.findMany({
-        where: {
-          stageId: instance.currentStageId,
-          type: 'User',
-        },
-        distinct: ['value'],
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      })) as any[];
+      let userIds = recipientIds || [];
 
-      const userIds = stageResponsibilities.map((sr) => sr.value);
+      if (userIds.length === 0) {
+        // Without an escalation chain, notify the stage's users
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const stageResponsibilities = (await prisma.stageResponsibility.findMany({
+          where: {
+            stageId: instance.currentStageId,
+            type: 'User',
+          },
+          distinct: ['value'],
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        })) as any[];
+
+        userIds = stageResponsibilities.map((sr) => sr.value);
+      }
 
       if (userIds.length === 0) return;
 
@@ -333,26 +550,43 @@ export class EscalationExecutor {
    */
   private static async performChangePriority(
     workflowInstanceId: string,
-    newPriority: string | undefined,
+    newPriority: string | null | undefined,
     tenantId: string,
-    _actorId: string
+    actorId: string | null,
+    escalationEventId: string
   ): Promise<void> {
-    if (!newPriority) return;
+    if (!newPriority || !PRIORITY_LEVELS.includes(newPriority as PriorityLevel)) return;
 
     try {
-      // In production, update priority in database
-      // eslint-disable-next-line no-console
-      console.log(`Changed priority of workflow ${workflowInstanceId} to ${newPriority}`);
+      const instance = await prisma.workflowInstance.findUnique({
+        where: { id: workflowInstanceId },
+        select: { priority: true },
+      });
+
+      if (!instance || instance.priority === newPriority) return;
+
+      await prisma.workflowInstance.update({
+        where: { id: workflowInstanceId },
+        data: { priority: newPriority },
+      });
+
+      await prisma.escalationEvent.update({
+        where: { id: escalationEventId },
+        data: { previousPriority: instance.priority, newPriority },
+      });
 
       await AuditLogService.logWorkflowAction(
         tenantId,
         workflowInstanceId,
         'WorkflowPriorityChanged',
-        _actorId,
+        actorId,
         {
           newPriority,
           reason: 'Escalation action',
-        }
+          escalationEventId,
+        },
+        { priority: instance.priority },
+        { priority: newPriority }
       );
     } catch (error) {
       console.error(`Failed to change priority for workflow ${workflowInstanceId}: ${error}`);
@@ -365,7 +599,7 @@ export class EscalationExecutor {
   private static async performAddComment(
     workflowInstanceId: string,
     comment: string,
-    _actorId: string
+    _actorId: string | null
   ): Promise<void> {
     try {
       // In production, add comment to workflow
@@ -395,6 +629,46 @@ export class EscalationExecutor {
     }
   }
 
+  /**
+   * Perform webhook action
+   * Delivery is retried and logged by WebhookService
+   */
+  private static async performWebhook(
+    instance: {
+      id: string;
+      currentStageId: string;
+      template?: { id: string; name: string };
+      currentStage?: { id: string; name: string };
+    },
+    url: string | null | undefined,
+    secret: string | null | undefined,
+    tenantId: string,
+    escalationEventId: string,
+    breachHours: number
+  ): Promise<void> {
+    if (!url || !secret) {
+      console.error(`Webhook action of escalation ${escalationEventId} has no URL or secret`);
+      return;
+    }
+
+    await WebhookService.deliver(tenantId, {
+      url,
+      secret,
+      event: 'workflow.escalated',
+      payload: {
+        tenantId,
+        escalationEventId,
+        workflowInstanceId: instance.id,
+        templateName: instance.template?.name ?? null,
+        stageId: instance.currentStageId,
+        stageName: instance.currentStage?.name ?? null,
+        breachHours,
+      },
+      workflowInstanceId: instance.id,
+      escalationEventId,
+    });
+  }
+
   /**
    * Manually trigger escalation (admin action)
    */
@@ -407,7 +681,7 @@ export class EscalationExecutor {
   ): Promise<EscalationEvent | null> {
     try {
       // Get rule
-      const rule = await EscalationService.getRule(escalationRuleId);
+      const rule = await EscalationService.getRule(escalationRuleId, tenantId);
       if (!rule) {
         console.error(`Rule ${escalationRuleId} not found`);
         return null;
@@ -424,7 +698,7 @@ export class EscalationExecutor {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
       })) as any;
 
-      if (!instance) {
+      if (!instance || instance.template.tenantId !== tenantId) {
         console.error(`Instance ${workflowInstanceId} not found`);
         return null;
       }
@@ -444,17 +718,38 @@ export class EscalationExecutor {
         actorId
       );
 
-      // Execute actions
-      const slaCompliance = SLAManagementService.calculateSLACompliance(instance);
+      // Execute actions, reaching the chain level this escalation moved to
+      const calendar = await BusinessCalendarService.getTenantCalendar(tenantId);
+      const templateBands = await SLAManagementService.getThresholdBands([
+        instance.workflowTemplateId,
+      ]);
+      const slaCompliance = SLAManagementService.calculateSLACompliance(
+        instance,
+        calendar,
+        templateBands.get(instance.workflowTemplateId)
+      );
+      const chains = await EscalationService.listChainsForPolicy(rule.escalationPolicyId, tenantId);
+      const chain = chains.find((c) => c.isActive);
+      const chainStep = chain
+        ? EscalationService.getChainLevel(chain, escalationEvent.escalationChainLevel)
+        : null;
+      const recipients = chainStep
+        ? await OrgHierarchyService.resolveRecipients(
+            workflowInstanceId,
+            tenantId,
+            chainStep.roleOrUserId
+          )
+        : undefined;
+
       for (const action of rule.actions) {
-        // eslint-disable-next-line @typescript-eslint/no-floating-promises
-        this.executeAction(
+        await this.executeAction(
           action,
           instance,
           tenantId,
           actorId,
           escalationEvent.id,
-          slaCompliance.hoursBreach || 0
+          slaCompliance.hoursBreach || 0,
+          recipients?.userIds
         );
       }
 
@@ -468,14 +763,22 @@ export class EscalationExecutor {
   /**
    * Get escalation status for workflow
    */
-  static async getEscalationStatus(workflowInstanceId: string): Promise<{
+  static async getEscalationStatus(
+    workflowInstanceId: string,
+    tenantId: string
+  ): Promise<{
     isEscalated: boolean;
     escalationLevel: number;
     lastEscalationAt: Date | null;
     escalationCount: number;
   }> {
     try {
-      const { events } = await EscalationService.getEscalationHistory(workflowInstanceId, 0, 1);
+      const { events, total } = await EscalationService.getEscalationHistory(
+        workflowInstanceId,
+        tenantId,
+        0,
+        1
+      );
 
       if (events.length === 0) {
         return {
@@ -492,8 +795,7 @@ export class EscalationExecutor {
         isEscalated: true,
         escalationLevel: latestEscalation.escalationLevel,
         lastEscalationAt: latestEscalation.createdAt,
-        escalationCount: (await EscalationService.getEscalationHistory(workflowInstanceId, 0, 1000))
-          .total,
+        escalationCount: total,
       };
     } catch (error) {
       console.error(`Failed to get escalation status for ${workflowInstanceId}: ${error}`);
@@ -3,16 +3,31 @@
  * Manages escalation policies, rules, actions, and chains
  */
 
+import { randomBytes } from 'crypto';
+import { EscalationChain as EscalationChainRecord, Prisma, PrismaClient } from '@prisma/client';
 import {
   EscalationPolicy,
   EscalationRule,
-  EscalationAction,
   EscalationEvent,
   EscalationChain,
+  EscalationChainLevel,
+  CreateEscalationActionRequest,
   CreateEscalationPolicyRequest,
   CreateEscalationRuleRequest,
+  UpdateEscalationPolicyRequest,
+  UpdateEscalationRuleRequest,
 } from '@/types/escalation';
 
+const prisma = new PrismaClient();
+
+const RULE_INCLUDE = {
+  actions: { orderBy: { order: 'asc' as const } },
+};
+
+const POLICY_INCLUDE = {
+  rules: { include: RULE_INCLUDE, orderBy: { escalationLevel: 'asc' as const } },
+};
+
 // ============================================================================
 // ESCALATION SERVICE
 // ============================================================================
@@ -31,26 +46,31 @@ export class EscalationService {
     createdBy: string
   ): Promise<EscalationPolicy> {
     try {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const policy = {
-        id: `policy-${Date.now()}`,
-        workflowTemplateId: request.workflowTemplateId,
-        tenantId,
-        name: request.name,
-        description: request.description || null,
-        warningThresholdPercent: request.warningThresholdPercent || 75,
-        maxEscalationLevels: request.maxEscalationLevels || 3,
-        cooldownBetweenEscalations: request.cooldownBetweenEscalations || 60,
-        rules: [],
-        isActive: true,
-        isDefault: request.isDefault || false,
-        createdBy,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
-      // In production, this would be persisted to database
-      // For now, return the created policy
+      const template = await prisma.workflowTemplate.findFirst({
+        where: { id: request.workflowTemplateId, tenantId },
+        select: { id: true },
+      });
+
+      if (!template) {
+        throw new Error(`Workflow template not found: ${request.workflowTemplateId}`);
+      }
+
+      const policy = await prisma.escalationPolicy.create({
+        data: {
+          tenantId,
+          workflowTemplateId: request.workflowTemplateId,
+          name: request.name,
+          description: request.description ?? null,
+          warningThresholdPercent: request.warningThresholdPercent ?? 75,
+          maxEscalationLevels: request.maxEscalationLevels ?? 3,
+          cooldownBetweenEscalations: request.cooldownBetweenEscalations ?? 60,
+          isActive: true,
+          isDefault: request.isDefault ?? false,
+          createdBy,
+        },
+        include: POLICY_INCLUDE,
+      });
+
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       return policy as any;
     } catch (error) {
@@ -62,11 +82,15 @@ export class EscalationService {
   /**
    * Get escalation policy by ID
    */
-  static async getPolicy(policyId: string): Promise<EscalationPolicy | null> {
+  static async getPolicy(policyId: string, tenantId: string): Promise<EscalationPolicy | null> {
     try {
-      // In production, fetch from database
-      // For now, return null (not found)
-      return null;
+      const policy = await prisma.escalationPolicy.findFirst({
+        where: { id: policyId, tenantId },
+        include: POLICY_INCLUDE,
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return policy as any;
     } catch (error) {
       console.error(`Failed to get escalation policy ${policyId}: ${error}`);
       return null;
@@ -74,16 +98,39 @@ export class EscalationService {
   }
 
   /**
-   * Get escalation policy for workflow template
+   * Get the active escalation policy for a workflow template
+   * A policy on the template itself wins over one on another version of its family
    */
   static async getPolicyForTemplate(
     workflowTemplateId: string,
-    _isDefault?: boolean
+    tenantId: string
   ): Promise<EscalationPolicy | null> {
     try {
-      // In production, query database for template's policy
-      // For now, return null
-      return null;
+      const template = await prisma.workflowTemplate.findFirst({
+        where: { id: workflowTemplateId, tenantId },
+        select: { id: true, templateFamilyId: true },
+      });
+
+      if (!template) {
+        return null;
+      }
+
+      const familyId = template.templateFamilyId || template.id;
+      const policies = await prisma.escalationPolicy.findMany({
+        where: {
+          tenantId,
+          isActive: true,
+          template: { OR: [{ id: familyId }, { templateFamilyId: familyId }] },
+        },
+        include: POLICY_INCLUDE,
+        orderBy: [{ isDefault: 'desc' }, { createdAt: 'desc' }],
+      });
+
+      const policy =
+        policies.find((p) => p.workflowTemplateId === template.id) || policies[0] || null;
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return policy as any;
     } catch (error) {
       console.error(`Failed to get policy for template ${workflowTemplateId}: ${error}`);
       return null;
@@ -94,12 +141,18 @@ export class EscalationService {
    * List escalation policies for tenant
    */
   static async listPolicies(
-    _tenantId: string,
-    _workflowTemplateId?: string
+    tenantId: string,
+    workflowTemplateId?: string
   ): Promise<EscalationPolicy[]> {
     try {
-      // In production, query database
-      return [];
+      const policies = await prisma.escalationPolicy.findMany({
+        where: { tenantId, ...(workflowTemplateId && { workflowTemplateId }) },
+        include: POLICY_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return policies as any;
     } catch (error) {
       console.error(`Failed to list escalation policies: ${error}`);
       return [];
@@ -111,12 +164,28 @@ export class EscalationService {
    */
   static async updatePolicy(
     policyId: string,
-    _updates: Partial<EscalationPolicy>,
+    tenantId: string,
+    updates: UpdateEscalationPolicyRequest,
     _userId?: string
   ): Promise<EscalationPolicy | null> {
     try {
-      // In production, update in database
-      return null;
+      const existing = await prisma.escalationPolicy.findFirst({
+        where: { id: policyId, tenantId },
+        select: { id: true },
+      });
+
+      if (!existing) {
+        return null;
+      }
+
+      const policy = await prisma.escalationPolicy.update({
+        where: { id: policyId },
+        data: updates,
+        include: POLICY_INCLUDE,
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return policy as any;
     } catch (error) {
       console.error(`Failed to update escalation policy ${policyId}: ${error}`);
       return null;
@@ -124,12 +193,20 @@ export class EscalationService {
   }
 
   /**
-   * Delete escalation policy
+   * Delete escalation policy with its rules and chains
+   * Escalation events are kept as history
    */
-  static async deletePolicy(policyId: string, _userId?: string): Promise<boolean> {
+  static async deletePolicy(
+    policyId: string,
+    tenantId: string,
+    _userId?: string
+  ): Promise<boolean> {
     try {
-      // In production, delete from database
-      return true;
+      const { count } = await prisma.escalationPolicy.deleteMany({
+        where: { id: policyId, tenantId },
+      });
+
+      return count > 0;
     } catch (error) {
       console.error(`Failed to delete escalation policy ${policyId}: ${error}`);
       return false;
@@ -144,54 +221,46 @@ export class EscalationService {
    * Create escalation rule within policy
    */
   static async createRule(
+    tenantId: string,
     request: CreateEscalationRuleRequest,
     createdBy: string
   ): Promise<EscalationRule> {
     try {
-      // Convert action requests to action objects
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const actions: EscalationAction[] = request.actions.map((actionReq, index) => ({
-        id: `action-${Date.now()}-${index}`,
-        escalationRuleId: `rule-${Date.now()}`,
-        actionType: actionReq.actionType,
-        reassignToUserId: actionReq.reassignToUserId,
-        reassignToRole: actionReq.reassignToRole,
-        notificationTemplate: actionReq.notificationTemplate,
-        newPriority: actionReq.newPriority,
-        comment: actionReq.comment,
-        webhookUrl: actionReq.webhookUrl,
-        isActive: true,
-        order: actionReq.order || index,
-        createdBy,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      } as any));
+      const policy = await prisma.escalationPolicy.findFirst({
+        where: { id: request.escalationPolicyId, tenantId },
+        select: { id: true },
+      });
+
+      if (!policy) {
+        throw new Error(`Escalation policy not found: ${request.escalationPolicyId}`);
+      }
+
+      const rule = await prisma.escalationRule.create({
+        data: {
+          escalationPolicyId: request.escalationPolicyId,
+          name: request.name,
+          description: request.description ?? null,
+          triggerType: request.triggerType,
+          escalationLevel: request.escalationLevel,
+          hoursInStage: request.hoursInStage ?? null,
+          warningThresholdPercent: request.warningThresholdPercent ?? null,
+          minimumPriority: request.minimumPriority ?? null,
+          isActive: true,
+          isRepeatable: request.isRepeatable !== false,
+          cooldownMinutes: request.cooldownMinutes ?? 60,
+          maxEscalations: request.maxEscalations ?? null,
+          createdBy,
+          actions: {
+            create: request.actions.map((action, index) =>
+              this.toActionData(action, index, createdBy)
+            ),
+          },
+        },
+        include: RULE_INCLUDE,
+      });
 
-      // Create rule
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const rule: any = {
-        id: `rule-${Date.now()}`,
-        escalationPolicyId: request.escalationPolicyId,
-        name: request.name,
-        description: request.description,
-        triggerType: request.triggerType,
-        escalationLevel: request.escalationLevel,
-        hoursInStage: request.hoursInStage,
-        warningThresholdPercent: request.warningThresholdPercent,
-        minimumPriority: request.minimumPriority,
-        customCondition: null,
-        isActive: true,
-        isRepeatable: request.isRepeatable !== false,
-        cooldownMinutes: request.cooldownMinutes || 60,
-        maxEscalations: request.maxEscalations,
-        actions,
-        createdBy,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
-      return rule;
+      return rule as any;
     } catch (error) {
       console.error(`Failed to create escalation rule: ${error}`);
       throw error;
@@ -201,9 +270,15 @@ export class EscalationService {
   /**
    * Get escalation rule by ID
    */
-  static async getRule(ruleId: string): Promise<EscalationRule | null> {
+  static async getRule(ruleId: string, tenantId: string): Promise<EscalationRule | null> {
     try {
-      return null;
+      const rule = await prisma.escalationRule.findFirst({
+        where: { id: ruleId, policy: { tenantId } },
+        include: RULE_INCLUDE,
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return rule as any;
     } catch (error) {
       console.error(`Failed to get escalation rule ${ruleId}: ${error}`);
       return null;
@@ -213,9 +288,16 @@ export class EscalationService {
   /**
    * List rules for policy
    */
-  static async listRulesForPolicy(policyId: string): Promise<EscalationRule[]> {
+  static async listRulesForPolicy(policyId: string, tenantId: string): Promise<EscalationRule[]> {
     try {
-      return [];
+      const rules = await prisma.escalationRule.findMany({
+        where: { escalationPolicyId: policyId, policy: { tenantId } },
+        include: RULE_INCLUDE,
+        orderBy: { escalationLevel: 'asc' },
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return rules as any;
     } catch (error) {
       console.error(`Failed to list rules for policy ${policyId}: ${error}`);
       return [];
@@ -223,15 +305,41 @@ export class EscalationService {
   }
 
   /**
-   * Update escalation rule
+   * Update escalation rule; actions, when given, replace the existing ones
    */
   static async updateRule(
     ruleId: string,
-    _updates: Partial<EscalationRule>,
-    _userId?: string
+    tenantId: string,
+    updates: UpdateEscalationRuleRequest,
+    userId: string
   ): Promise<EscalationRule | null> {
     try {
-      return null;
+      const existing = await prisma.escalationRule.findFirst({
+        where: { id: ruleId, policy: { tenantId } },
+        select: { id: true },
+      });
+
+      if (!existing) {
+        return null;
+      }
+
+      const { actions, ...fields } = updates;
+      const rule = await prisma.escalationRule.update({
+        where: { id: ruleId },
+        data: {
+          ...fields,
+          ...(actions && {
+            actions: {
+              deleteMany: {},
+              create: actions.map((action, index) => this.toActionData(action, index, userId)),
+            },
+          }),
+        },
+        include: RULE_INCLUDE,
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return rule as any;
     } catch (error) {
       console.error(`Failed to update escalation rule ${ruleId}: ${error}`);
       return null;
@@ -239,11 +347,16 @@ export class EscalationService {
   }
 
   /**
-   * Delete escalation rule
+   * Delete escalation rule and its actions
+   * Escalation events are kept as history
    */
-  static async deleteRule(ruleId: string, _userId?: string): Promise<boolean> {
+  static async deleteRule(ruleId: string, tenantId: string, _userId?: string): Promise<boolean> {
     try {
-      return true;
+      const { count } = await prisma.escalationRule.deleteMany({
+        where: { id: ruleId, policy: { tenantId } },
+      });
+
+      return count > 0;
     } catch (error) {
       console.error(`Failed to delete escalation rule ${ruleId}: ${error}`);
       return false;
@@ -258,6 +371,7 @@ export class EscalationService {
    * Create escalation chain
    */
   static async createChain(
+    tenantId: string,
     policyId: string,
     name: string,
     description: string | undefined,
@@ -270,35 +384,32 @@ export class EscalationService {
     createdBy?: string
   ): Promise<EscalationChain> {
     try {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const chain: any = {
-        id: `chain-${Date.now()}`,
-        escalationPolicyId: policyId,
-        name,
-        description,
-        level1: {
-          roleOrUserId: level1UserId,
-          escalationDelayMinutes: level1DelayMinutes,
+      const policy = await prisma.escalationPolicy.findFirst({
+        where: { id: policyId, tenantId },
+        select: { id: true },
+      });
+
+      if (!policy) {
+        throw new Error(`Escalation policy not found: ${policyId}`);
+      }
+
+      const chain = await prisma.escalationChain.create({
+        data: {
+          escalationPolicyId: policyId,
+          name,
+          description: description ?? null,
+          level1RoleOrUserId: level1UserId,
+          level1DelayMinutes,
+          level2RoleOrUserId: level2UserId ?? null,
+          level2DelayMinutes: level2UserId ? level2DelayMinutes || 120 : null,
+          level3RoleOrUserId: level3UserId ?? null,
+          level3DelayMinutes: level3UserId ? level3DelayMinutes || 240 : null,
+          isActive: true,
+          createdBy: createdBy || 'system',
         },
-        level2: level2UserId
-          ? {
-              roleOrUserId: level2UserId,
-              escalationDelayMinutes: level2DelayMinutes || 120,
-            }
-          : undefined,
-        level3: level3UserId
-          ? {
-              roleOrUserId: level3UserId,
-              escalationDelayMinutes: level3DelayMinutes || 240,
-            }
-          : undefined,
-        isActive: true,
-        createdBy: createdBy || 'system',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
-      return chain;
+      });
+
+      return this.toChain(chain);
     } catch (error) {
       console.error(`Failed to create escalation chain: ${error}`);
       throw error;
@@ -308,9 +419,13 @@ export class EscalationService {
   /**
    * Get escalation chain
    */
-  static async getChain(chainId: string): Promise<EscalationChain | null> {
+  static async getChain(chainId: string, tenantId: string): Promise<EscalationChain | null> {
     try {
-      return null;
+      const chain = await prisma.escalationChain.findFirst({
+        where: { id: chainId, policy: { tenantId } },
+      });
+
+      return chain ? this.toChain(chain) : null;
     } catch (error) {
       console.error(`Failed to get escalation chain ${chainId}: ${error}`);
       return null;
@@ -320,9 +435,14 @@ export class EscalationService {
   /**
    * List chains for policy
    */
-  static async listChainsForPolicy(policyId: string): Promise<EscalationChain[]> {
+  static async listChainsForPolicy(policyId: string, tenantId: string): Promise<EscalationChain[]> {
     try {
-      return [];
+      const chains = await prisma.escalationChain.findMany({
+        where: { escalationPolicyId: policyId, policy: { tenantId } },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      return chains.map((chain) => this.toChain(chain));
     } catch (error) {
       console.error(`Failed to list chains for policy ${policyId}: ${error}`);
       return [];
@@ -330,15 +450,46 @@ export class EscalationService {
   }
 
   /**
-   * Update escalation chain
+   * Update escalation chain; a level set to undefined is removed
    */
   static async updateChain(
     chainId: string,
-    _updates: Partial<EscalationChain>,
+    tenantId: string,
+    updates: Partial<EscalationChain>,
     _userId?: string
   ): Promise<EscalationChain | null> {
     try {
-      return null;
+      const existing = await prisma.escalationChain.findFirst({
+        where: { id: chainId, policy: { tenantId } },
+        select: { id: true },
+      });
+
+      if (!existing) {
+        return null;
+      }
+
+      const chain = await prisma.escalationChain.update({
+        where: { id: chainId },
+        data: {
+          ...(updates.name !== undefined && { name: updates.name }),
+          ...(updates.description !== undefined && { description: updates.description }),
+          ...(updates.isActive !== undefined && { isActive: updates.isActive }),
+          ...(updates.level1 && {
+            level1RoleOrUserId: updates.level1.roleOrUserId,
+            level1DelayMinutes: updates.level1.escalationDelayMinutes,
+          }),
+          ...('level2' in updates && {
+            level2RoleOrUserId: updates.level2?.roleOrUserId ?? null,
+            level2DelayMinutes: updates.level2?.escalationDelayMinutes ?? null,
+          }),
+          ...('level3' in updates && {
+            level3RoleOrUserId: updates.level3?.roleOrUserId ?? null,
+            level3DelayMinutes: updates.level3?.escalationDelayMinutes ?? null,
+          }),
+        },
+      });
+
+      return this.toChain(chain);
     } catch (error) {
       console.error(`Failed to update escalation chain ${chainId}: ${error}`);
       return null;
@@ -348,9 +499,13 @@ export class EscalationService {
   /**
    * Delete escalation chain
    */
-  static async deleteChain(chainId: string): Promise<boolean> {
+  static async deleteChain(chainId: string, tenantId: string): Promise<boolean> {
     try {
-      return true;
+      const { count } = await prisma.escalationChain.deleteMany({
+        where: { id: chainId, policy: { tenantId } },
+      });
+
+      return count > 0;
     } catch (error) {
       console.error(`Failed to delete escalation chain ${chainId}: ${error}`);
       return false;
@@ -363,6 +518,7 @@ export class EscalationService {
 
   /**
    * Log escalation event
+   * An escalation while an earlier one of the same stage visit is unresolved continues its chain
    */
   static async logEscalation(
     workflowInstanceId: string,
@@ -378,36 +534,37 @@ export class EscalationService {
     triggeredByUserId?: string
   ): Promise<EscalationEvent> {
     try {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const event: EscalationEvent = {
-        id: `escalation-${Date.now()}`,
-        workflowInstanceId,
-        escalationRuleId,
-        tenantId,
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        triggerType: triggerType as any,
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        escalationLevel: escalationLevel as any,
-        triggeredBy: triggeredByUserId ? 'Manual' : 'Rule',
-        triggeredByUserId,
-        previousAssigneeId: previousAssignee,
-        newAssigneeId: newAssignee,
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        previousPriority: previousPriority as any,
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        newPriority: newPriority as any,
-        reason,
-        details: {
-          ruleName: escalationRuleId,
-          timestamp: new Date().toISOString(),
+      const parent = await prisma.escalationEvent.findFirst({
+        where: await this.openEscalationWhere(workflowInstanceId, tenantId),
+        orderBy: { createdAt: 'desc' },
+        select: { id: true, escalationChainLevel: true },
+      });
+
+      const event = await prisma.escalationEvent.create({
+        data: {
+          tenantId,
+          workflowInstanceId,
+          escalationRuleId,
+          triggerType,
+          escalationLevel,
+          triggeredBy: triggeredByUserId ? 'Manual' : 'Rule',
+          triggeredByUserId: triggeredByUserId ?? null,
+          previousAssigneeId: previousAssignee ?? null,
+          newAssigneeId: newAssignee ?? null,
+          previousPriority: previousPriority ?? null,
+          newPriority: newPriority ?? null,
+          reason,
+          details: {
+            ruleName: escalationRuleId,
+            timestamp: new Date().toISOString(),
+          },
+          escalationChainLevel: parent ? parent.escalationChainLevel + 1 : 1,
+          parentEscalationEventId: parent?.id ?? null,
         },
-        escalationChainLevel: 1,
-        createdAt: new Date(),
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      } as any;
+      });
 
-      // In production, persist to database
-      return event;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return event as any;
     } catch (error) {
       console.error(`Failed to log escalation for workflow ${workflowInstanceId}: ${error}`);
       throw error;
@@ -415,16 +572,23 @@ export class EscalationService {
   }
 
   /**
-   * Get escalation events for workflow
+   * Get escalation events for workflow, newest first
    */
   static async getEscalationHistory(
     workflowInstanceId: string,
-    _skip: number = 0,
-    _take: number = 50
+    tenantId: string,
+    skip: number = 0,
+    take: number = 50
   ): Promise<{ events: EscalationEvent[]; total: number }> {
     try {
-      // In production, query database
-      return { events: [], total: 0 };
+      const where = { workflowInstanceId, tenantId };
+      const [events, total] = await Promise.all([
+        prisma.escalationEvent.findMany({ where, orderBy: { createdAt: 'desc' }, skip, take }),
+        prisma.escalationEvent.count({ where }),
+      ]);
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return { events: events as any, total };
     } catch (error) {
       console.error(
         `Failed to get escalation history for workflow ${workflowInstanceId}: ${error}`
@@ -434,18 +598,24 @@ export class EscalationService {
   }
 
   /**
-   * Get escalation events for tenant
+   * Get escalation events for tenant, newest first
    */
   static async getEscalationsByTenant(
     tenantId: string,
-    _startDate: Date,
-    _endDate: Date,
-    _skip: number = 0,
-    _take: number = 50
+    startDate: Date,
+    endDate: Date,
+    skip: number = 0,
+    take: number = 50
   ): Promise<{ events: EscalationEvent[]; total: number }> {
     try {
-      // In production, query database with date range
-      return { events: [], total: 0 };
+      const where = { tenantId, createdAt: { gte: startDate, lte: endDate } };
+      const [events, total] = await Promise.all([
+        prisma.escalationEvent.findMany({ where, orderBy: { createdAt: 'desc' }, skip, take }),
+        prisma.escalationEvent.count({ where }),
+      ]);
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return { events: events as any, total };
     } catch (error) {
       console.error(`Failed to get escalations for tenant ${tenantId}: ${error}`);
       return { events: [], total: 0 };
@@ -457,12 +627,17 @@ export class EscalationService {
    */
   static async resolveEscalation(
     escalationEventId: string,
-    _resolvedBy: string,
-    _resolutionNotes?: string
+    tenantId: string,
+    resolvedBy: string,
+    resolutionNotes?: string
   ): Promise<boolean> {
     try {
-      // In production, update database
-      return true;
+      const { count } = await prisma.escalationEvent.updateMany({
+        where: { id: escalationEventId, tenantId, resolvedAt: null },
+        data: { resolvedAt: new Date(), resolvedBy, resolutionNotes: resolutionNotes ?? null },
+      });
+
+      return count > 0;
     } catch (error) {
       console.error(`Failed to resolve escalation ${escalationEventId}: ${error}`);
       return false;
@@ -474,16 +649,28 @@ export class EscalationService {
   // ============================================================================
 
   /**
-   * Get applicable rules for a workflow instance
+   * Get active rules of an active policy for a trigger, highest escalation level first
    */
   static async getApplicableRules(
     workflowInstanceId: string,
     policyId: string,
+    tenantId: string,
     triggerType: string
   ): Promise<EscalationRule[]> {
     try {
-      const rules = await this.listRulesForPolicy(policyId);
-      return rules.filter((rule) => rule.triggerType === triggerType && rule.isActive);
+      const rules = await prisma.escalationRule.findMany({
+        where: {
+          escalationPolicyId: policyId,
+          triggerType,
+          isActive: true,
+          policy: { tenantId, isActive: true },
+        },
+        include: RULE_INCLUDE,
+        orderBy: { escalationLevel: 'desc' },
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return rules as any;
     } catch (error) {
       console.error(
         `Failed to get applicable rules for workflow ${workflowInstanceId}: ${error}`
@@ -494,62 +681,198 @@ export class EscalationService {
 
   /**
    * Check if escalation should be skipped (cooldown period)
+   * Treated as in cooldown when the event history cannot be read
    */
   static async isInCooldown(
     workflowInstanceId: string,
-    _ruleId: string,
-    _cooldownMinutes: number
+    ruleId: string,
+    cooldownMinutes: number
   ): Promise<boolean> {
     try {
-      // In production, check last escalation time against cooldown
-      // For now, return false (not in cooldown)
-      return false;
+      const lastEvent = await prisma.escalationEvent.findFirst({
+        where: { workflowInstanceId, escalationRuleId: ruleId },
+        orderBy: { createdAt: 'desc' },
+        select: { createdAt: true },
+      });
+
+      return this.isWithinCooldown(lastEvent?.createdAt ?? null, cooldownMinutes);
     } catch (error) {
       console.error(
         `Failed to check cooldown for workflow ${workflowInstanceId}: ${error}`
       );
-      return false;
+      return true;
     }
   }
 
   /**
    * Check if max escalations reached
+   * Treated as reached when the event history cannot be read
    */
   static async hasReachedMaxEscalations(
     workflowInstanceId: string,
-    _ruleId: string,
-    _maxEscalations: number
+    ruleId: string,
+    maxEscalations: number
   ): Promise<boolean> {
     try {
-      // In production, count escalations and check against max
-      // For now, return false (not reached)
-      return false;
+      const count = await prisma.escalationEvent.count({
+        where: { workflowInstanceId, escalationRuleId: ruleId },
+      });
+
+      return count >= maxEscalations;
     } catch (error) {
       console.error(
         `Failed to check max escalations for workflow ${workflowInstanceId}: ${error}`
       );
-      return false;
+      return true;
     }
   }
 
   /**
-   * Get next escalation level in chain
+   * Check whether the last escalation happened less than cooldownMinutes ago
+   * Pure function with no side effects
    */
-  static async getNextEscalationLevel(chainId: string, currentLevel: number): Promise<string | null> {
+  static isWithinCooldown(
+    lastEscalatedAt: Date | null,
+    cooldownMinutes: number,
+    now: Date = new Date()
+  ): boolean {
+    return (
+      !!lastEscalatedAt && now.getTime() - lastEscalatedAt.getTime() < cooldownMinutes * 60 * 1000
+    );
+  }
+
+  /**
+   * Get the target of the next escalation level in chain, or null after the last level
+   * Targets are resolved to users by OrgHierarchyService.resolveRecipients
+   */
+  static async getNextEscalationLevel(
+    chainId: string,
+    tenantId: string,
+    currentLevel: number
+  ): Promise<string | null> {
     try {
-      const chain = await this.getChain(chainId);
+      const chain = await this.getChain(chainId, tenantId);
       if (!chain) return null;
 
-      if (currentLevel === 1 && chain.level2) {
-        return chain.level2.roleOrUserId;
-      } else if (currentLevel === 2 && chain.level3) {
-        return chain.level3.roleOrUserId;
-      }
+      const next = this.getChainLevel(chain, currentLevel + 1);
 
-      return null;
+      return next && next.level > currentLevel ? next.roleOrUserId : null;
     } catch (error) {
       console.error(`Failed to get next escalation level for chain ${chainId}: ${error}`);
       return null;
     }
   }
+
+  /**
+   * Get the chain level an escalation at chainLevel reaches
+   * Escalations past the last defined level stay with the last level
+   * Pure function with no side effects
+   */
+  static getChainLevel(
+    chain: EscalationChain,
+    chainLevel: number
+  ): (EscalationChainLevel & { level: number; isLastLevel: boolean }) | null {
+    const levels = [chain.level1, chain.level2, chain.level3].filter(
+      (level): level is EscalationChainLevel => !!level
+    );
+    const index = Math.min(Math.max(chainLevel, 1), levels.length) - 1;
+    const level = levels[index];
+
+    if (!level) return null;
+
+    return { ...level, level: index + 1, isLastLevel: index === levels.length - 1 };
+  }
+
+  /**
+   * Get the latest unresolved escalation of a workflow instance's current stage visit
+   */
+  static async getOpenEscalation(
+    workflowInstanceId: string,
+    tenantId: string
+  ): Promise<{ id: string; escalationChainLevel: number; createdAt: Date } | null> {
+    return prisma.escalationEvent.findFirst({
+      where: await this.openEscalationWhere(workflowInstanceId, tenantId),
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, escalationChainLevel: true, createdAt: true },
+    });
+  }
+
+  /**
+   * Filter for unresolved escalations raised since the instance entered its current stage
+   * Escalations of earlier stages, or of an earlier visit to the same stage, start no chain
+   */
+  private static async openEscalationWhere(
+    workflowInstanceId: string,
+    tenantId: string
+  ): Promise<Prisma.EscalationEventWhereInput> {
+    const instance = await prisma.workflowInstance.findUnique({
+      where: { id: workflowInstanceId },
+      select: { currentStageStarted: true },
+    });
+
+    return {
+      workflowInstanceId,
+      tenantId,
+      resolvedAt: null,
+      ...(instance && { createdAt: { gte: instance.currentStageStarted } }),
+    };
+  }
+
+  /**
+   * Build the columns of an escalation action
+   * Webhook actions get a random signing secret unless one is given
+   */
+  private static toActionData(
+    action: CreateEscalationActionRequest,
+    index: number,
+    createdBy: string
+  ) {
+    return {
+      actionType: action.actionType,
+      reassignToUserId: action.reassignToUserId ?? null,
+      reassignToRole: action.reassignToRole ?? null,
+      notificationTemplate: action.notificationTemplate ?? null,
+      newPriority: action.newPriority ?? null,
+      comment: action.comment ?? null,
+      webhookUrl: action.webhookUrl ?? null,
+      webhookSecret:
+        action.webhookSecret ??
+        (action.actionType === 'TriggerWebhook' ? randomBytes(32).toString('hex') : null),
+      isActive: true,
+      order: action.order ?? index,
+      createdBy,
+    };
+  }
+
+  /**
+   * Map a stored chain to its level structure
+   */
+  private static toChain(chain: EscalationChainRecord): EscalationChain {
+    return {
+      id: chain.id,
+      escalationPolicyId: chain.escalationPolicyId,
+      name: chain.name,
+      description: chain.description,
+      level1: {
+        roleOrUserId: chain.level1RoleOrUserId,
+        escalationDelayMinutes: chain.level1DelayMinutes,
+      },
+      ...(chain.level2RoleOrUserId && {
+        level2: {
+          roleOrUserId: chain.level2RoleOrUserId,
+          escalationDelayMinutes: chain.level2DelayMinutes ?? 120,
+        },
+      }),
+      ...(chain.level3RoleOrUserId && {
+        level3: {
+          roleOrUserId: chain.level3RoleOrUserId,
+          escalationDelayMinutes: chain.level3DelayMinutes ?? 240,
+        },
+      }),
+      isActive: chain.isActive,
+      createdBy: chain.createdBy,
+      createdAt: chain.createdAt,
+      updatedAt: chain.updatedAt,
+    };
+  }
 }
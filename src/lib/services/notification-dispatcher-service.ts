@@ -0,0 +1,289 @@
+/**
+ * Notification Dispatcher Service
+ * Background job that sends queued notification deliveries through their channels
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import type { NotificationChannel } from '@/lib/notifications/channels';
+import {
+  NotificationChannelName,
+  NotificationData,
+  NotificationDelivery,
+  NotificationDeliveryFilters,
+  NotificationDeliveryStatus,
+  NotificationDispatchStats,
+  NotificationEventType,
+  NotificationStatus,
+} from '@/types/notifications';
+import { ScheduledJob } from '@/types/scheduler';
+
+const prisma = new PrismaClient();
+
+/**
+ * Deliveries sent per run
+ */
+const BATCH_SIZE = 50;
+
+/**
+ * Attempts before a delivery is dead-lettered
+ */
+const MAX_ATTEMPTS = 6;
+
+/**
+ * Wait after the first failed attempt, doubled after each further failure
+ */
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * How long a claimed delivery is hidden from other dispatchers; a delivery claimed
+ * by a dispatcher that stopped mid-send is picked up again after this
+ */
+const CLAIM_TTL_MS = 5 * 60 * 1000;
+
+type DispatchOutcome = 'sent' | 'retried' | 'deadLettered' | 'skipped';
+
+// ============================================================================
+// NOTIFICATION DISPATCHER SERVICE
+// ============================================================================
+
+export class NotificationDispatcherService {
+  static readonly JOB_NAME = 'notification-dispatch';
+
+  /**
+   * Scheduler job that dispatches every intervalSeconds through the given channels
+   */
+  static createJob(channels: NotificationChannel[], intervalSeconds: number): ScheduledJob {
+    return {
+      name: this.JOB_NAME,
+      intervalMs: intervalSeconds * 1000,
+      run: async () => ({ ...(await this.dispatch(channels)) }),
+    };
+  }
+
+  /**
+   * Send the deliveries that are due, oldest first
+   * Each delivery is claimed before it is sent, so overlapping dispatchers never
+   * send the same attempt twice
+   */
+  static async dispatch(
+    channels: NotificationChannel[],
+    now: Date = new Date(),
+    batchSize: number = BATCH_SIZE
+  ): Promise<NotificationDispatchStats> {
+    const stats: NotificationDispatchStats = {
+      claimed: 0,
+      sent: 0,
+      retried: 0,
+      deadLettered: 0,
+      skipped: 0,
+    };
+    const channelsByName = new Map(channels.map((c) => [c.name, c]));
+
+    const due = await prisma.notificationDelivery.findMany({
+      where: { status: 'Pending', nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: batchSize,
+      include: { notification: true },
+    });
+
+    for (const delivery of due) {
+      const claimed = await prisma.notificationDelivery.updateMany({
+        where: { id: delivery.id, status: 'Pending', nextAttemptAt: delivery.nextAttemptAt },
+        data: { nextAttemptAt: new Date(now.getTime() + CLAIM_TTL_MS) },
+      });
+
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      stats.claimed++;
+
+      try {
+        const outcome = await this.attempt(
+          delivery,
+          channelsByName.get(delivery.channel as NotificationChannelName),
+          now
+        );
+        stats[outcome]++;
+      } catch (error) {
+        // The claim expires, so the delivery is attempted again later
+        console.error(`Failed to dispatch notification delivery ${delivery.id}:`, error);
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * Make one attempt at a claimed delivery and record its outcome on the delivery
+   * and on its notification
+   */
+  private static async attempt(
+    delivery: Prisma.NotificationDeliveryGetPayload<{ include: { notification: true } }>,
+    channel: NotificationChannel | undefined,
+    now: Date
+  ): Promise<DispatchOutcome> {
+    if (!channel) {
+      await prisma.notificationDelivery.update({
+        where: { id: delivery.id },
+        data: { status: 'Skipped', lastError: `Channel not enabled: ${delivery.channel}` },
+      });
+      await this.refreshNotificationStatus(delivery.notificationId);
+      return 'skipped';
+    }
+
+    const attempts = delivery.attempts + 1;
+
+    try {
+      await channel.send({
+        deliveryId: delivery.id,
+        notificationId: delivery.notificationId,
+        tenantId: delivery.tenantId,
+        userId: delivery.notification.userId,
+        email: delivery.notification.email,
+        eventType: delivery.notification.eventType as NotificationEventType,
+        subject: delivery.notification.subject,
+        message: delivery.notification.message,
+        emailSubject: delivery.notification.emailSubject,
+        emailBody: delivery.notification.emailBody,
+        data: (delivery.notification.data ?? {}) as NotificationData,
+        workflowInstanceId: delivery.notification.workflowInstanceId,
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      const isDeadLetter = attempts >= MAX_ATTEMPTS;
+
+      await prisma.notificationDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: isDeadLetter ? 'DeadLetter' : 'Pending',
+          attempts,
+          lastError: reason,
+          nextAttemptAt: new Date(now.getTime() + this.getRetryDelayMs(attempts)),
+        },
+      });
+      await this.refreshNotificationStatus(
+        delivery.notificationId,
+        `${delivery.channel} attempt ${attempts} of ${MAX_ATTEMPTS} failed: ${reason}`
+      );
+
+      return isDeadLetter ? 'deadLettered' : 'retried';
+    }
+
+    await prisma.notificationDelivery.update({
+      where: { id: delivery.id },
+      data: { status: 'Sent', attempts, lastError: null, sentAt: new Date() },
+    });
+    await this.refreshNotificationStatus(delivery.notificationId);
+
+    return 'sent';
+  }
+
+  /**
+   * Wait before the attempt after failed attempt number `attempts`
+   * Pure function with no side effects
+   */
+  static getRetryDelayMs(attempts: number): number {
+    return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+  }
+
+  /**
+   * Status of a notification from the statuses of its deliveries
+   * Pure function with no side effects
+   */
+  static resolveNotificationStatus(statuses: NotificationDeliveryStatus[]): NotificationStatus {
+    if (statuses.includes('Pending')) return 'Pending';
+    if (statuses.includes('DeadLetter')) return 'DeadLetter';
+    if (statuses.includes('Sent')) return 'Sent';
+    return 'Failed';
+  }
+
+  /**
+   * Bring a notification's status in line with its deliveries
+   * A notification already read in the app keeps its Read status
+   */
+  private static async refreshNotificationStatus(
+    notificationId: string,
+    failureReason?: string
+  ): Promise<void> {
+    const [notification, deliveries] = await Promise.all([
+      prisma.notification.findUnique({
+        where: { id: notificationId },
+        select: { status: true, sentAt: true },
+      }),
+      prisma.notificationDelivery.findMany({
+        where: { notificationId },
+        select: { status: true, lastError: true },
+      }),
+    ]);
+
+    if (!notification) {
+      return;
+    }
+
+    const status = this.resolveNotificationStatus(
+      deliveries.map((d) => d.status as NotificationDeliveryStatus)
+    );
+
+    await prisma.notification.update({
+      where: { id: notificationId },
+      data: {
+        ...(notification.status !== 'Read' && { status }),
+        ...(status === 'Sent' && !notification.sentAt && { sentAt: new Date() }),
+        ...(failureReason && { failureReason }),
+        ...(status === 'Failed' && {
+          failureReason: deliveries.map((d) => d.lastError).join('; '),
+        }),
+      },
+    });
+  }
+
+  /**
+   * Send a dead-lettered delivery again, starting a fresh set of attempts
+   */
+  static async retryDelivery(tenantId: string, deliveryId: string): Promise<NotificationDelivery> {
+    const delivery = await prisma.notificationDelivery.findFirst({
+      where: { id: deliveryId, tenantId },
+    });
+
+    if (!delivery) {
+      throw new Error(`Notification delivery not found: ${deliveryId}`);
+    }
+
+    if (delivery.status !== 'DeadLetter') {
+      throw new Error(`Only dead-lettered deliveries can be retried: ${deliveryId}`);
+    }
+
+    const retried = await prisma.notificationDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'Pending', attempts: 0, nextAttemptAt: new Date() },
+    });
+    await this.refreshNotificationStatus(delivery.notificationId);
+
+    return retried as NotificationDelivery;
+  }
+
+  /**
+   * List a tenant's notification deliveries, most recently updated first
+   */
+  static async listDeliveries(
+    tenantId: string,
+    filters: NotificationDeliveryFilters = {},
+    skip: number = 0,
+    take: number = 50
+  ): Promise<{ deliveries: NotificationDelivery[]; total: number }> {
+    const where = {
+      tenantId,
+      ...(filters.channel && { channel: filters.channel }),
+      ...(filters.status && { status: filters.status }),
+    };
+
+    const [deliveries, total] = await Promise.all([
+      prisma.notificationDelivery.findMany({ where, orderBy: { updatedAt: 'desc' }, skip, take }),
+      prisma.notificationDelivery.count({ where }),
+    ]);
+
+    return { deliveries: deliveries as NotificationDelivery[], total };
+  }
+}
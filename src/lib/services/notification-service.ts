@@ -4,6 +4,15 @@
  */
 
 import { PrismaClient } from '@prisma/client';
+import {
+  DEFAULT_NOTIFICATION_TEMPLATES,
+  SAMPLE_NOTIFICATION_DATA,
+} from '@/lib/notifications/default-templates';
+import {
+  parseTemplate,
+  renderTemplate,
+  resolveFormatOptions,
+} from '@/lib/notifications/template-renderer';
 import {
   Notification,
   CreateNotificationRequest,
@@ -15,6 +24,14 @@ import {
   NotificationEventType,
   NotificationDeliveryMethod,
   NotificationStats,
+  NotificationChannelName,
+  NotificationData,
+  NotificationTemplateContent,
+  NotificationTemplatePreview,
+  NotificationTemplatePreviewRequest,
+  RenderedNotification,
+  TemplateFormatOptions,
+  TemplatedNotificationRequest,
 } from '@/types/notifications';
 
 const prisma = new PrismaClient();
@@ -26,6 +43,8 @@ const prisma = new PrismaClient();
 export class NotificationService {
   /**
    * Send a single notification
+   * The notification and one outbox delivery per channel are written together; the
+   * notification dispatcher sends them in the background
    */
   static async sendNotification(
     tenantId: string,
@@ -44,18 +63,19 @@ export class NotificationService {
         eventType: request.eventType,
         subject: request.subject,
         message: request.message,
+        emailSubject: request.emailSubject ?? null,
+        emailBody: request.emailBody ?? null,
         data: request.data || {},
         deliveryMethod,
         status: 'Pending',
         workflowInstanceId: request.workflowInstanceId || null,
+        deliveries: {
+          create: this.getChannels(deliveryMethod).map((channel) => ({ tenantId, channel })),
+        },
       },
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
     } as any);
 
-    // Queue for sending (would be async in production)
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    await this.queueNotificationSend(notification as any);
-
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     return notification as any;
   }
@@ -70,9 +90,19 @@ export class NotificationService {
     const results: NotificationSendResult[] = [];
 
     for (const userId of request.userIds) {
+      let userEmail = '';
+
       try {
-        // Get user email (would fetch from user table in production)
-        const userEmail = `user-${userId}@example.com`;
+        const user = await prisma.user.findFirst({
+          where: { id: userId, tenantId },
+          select: { email: true },
+        });
+
+        if (!user) {
+          throw new Error(`User not found: ${userId}`);
+        }
+
+        userEmail = user.email;
 
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const notification = await this.sendNotification(tenantId, {
@@ -81,6 +111,8 @@ export class NotificationService {
           eventType: request.eventType,
           subject: request.subject,
           message: request.message,
+          emailSubject: request.emailSubject,
+          emailBody: request.emailBody,
           data: request.data || {},
           workflowInstanceId: request.workflowInstanceId,
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -103,7 +135,7 @@ export class NotificationService {
         results.push({
           notificationId: '',
           userId,
-          email: `user-${userId}@example.com`,
+          email: userEmail,
           eventType: request.eventType,
           deliveryMethod: 'Both',
           status: 'Failed',
@@ -115,6 +147,27 @@ export class NotificationService {
     return results;
   }
 
+  /**
+   * Send bulk notifications rendered from the tenant's template for the event
+   */
+  static async sendTemplatedNotifications(
+    tenantId: string,
+    request: TemplatedNotificationRequest
+  ): Promise<NotificationSendResult[]> {
+    const rendered = await this.renderNotification(tenantId, request.eventType, request.data);
+
+    return this.sendBulkNotifications(tenantId, {
+      userIds: request.userIds,
+      eventType: request.eventType,
+      subject: rendered.title,
+      message: rendered.message,
+      emailSubject: rendered.emailSubject,
+      emailBody: rendered.emailBody,
+      data: request.data,
+      ...(request.workflowInstanceId && { workflowInstanceId: request.workflowInstanceId }),
+    });
+  }
+
   /**
    * Mark notification as sent
    */
@@ -216,6 +269,16 @@ export class NotificationService {
     request: CreateNotificationTemplateRequest,
     createdBy: string
   ): Promise<NotificationTemplate> {
+    // Reject templates that could never render
+    for (const template of [
+      request.emailSubjectTemplate,
+      request.emailBodyTemplate,
+      request.inAppTitleTemplate,
+      request.inAppMessageTemplate,
+    ]) {
+      parseTemplate(template);
+    }
+
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     return await (prisma.notificationTemplate.create({
       data: {
@@ -255,16 +318,109 @@ export class NotificationService {
 
   /**
    * Render template with data
+   * Missing values render as empty text; see template-renderer for the syntax
+   */
+  static renderTemplate(
+    template: string,
+    data: NotificationData,
+    format?: TemplateFormatOptions
+  ): string {
+    return renderTemplate(template, data, format ? { format } : {});
+  }
+
+  /**
+   * Render an event's notification from the tenant's template, falling back to the
+   * system default when the tenant has none or its template fails to render
    */
-  static renderTemplate(template: string, data: Record<string, unknown>): string {
-    let rendered = template;
+  static async renderNotification(
+    tenantId: string,
+    eventType: NotificationEventType,
+    data: NotificationData
+  ): Promise<RenderedNotification> {
+    const [template, format] = await Promise.all([
+      this.getTemplate(tenantId, eventType),
+      this.getFormatOptions(tenantId),
+    ]);
 
-    for (const [key, value] of Object.entries(data)) {
-      const placeholder = `{{${key}}}`;
-      rendered = rendered.replace(new RegExp(placeholder, 'g'), String(value || ''));
+    if (template) {
+      try {
+        return this.renderContent(template, data, format, 'Tenant');
+      } catch (error) {
+        console.error(`Failed to render ${eventType} template for tenant ${tenantId}:`, error);
+      }
     }
 
-    return rendered;
+    return this.renderContent(DEFAULT_NOTIFICATION_TEMPLATES[eventType], data, format, 'Default');
+  }
+
+  /**
+   * Render templates for an admin without sending anything
+   * Template errors are thrown, so the admin sees what is wrong
+   */
+  static async previewTemplate(
+    tenantId: string,
+    request: NotificationTemplatePreviewRequest
+  ): Promise<NotificationTemplatePreview> {
+    const [saved, format] = await Promise.all([
+      this.getTemplate(tenantId, request.eventType),
+      this.getFormatOptions(tenantId),
+    ]);
+    const data = request.data ?? SAMPLE_NOTIFICATION_DATA[request.eventType];
+    const isDefault = !saved && !request.template;
+
+    return {
+      ...this.renderContent(
+        {
+          ...DEFAULT_NOTIFICATION_TEMPLATES[request.eventType],
+          ...(saved && this.toContent(saved)),
+          ...request.template,
+        },
+        data,
+        format,
+        isDefault ? 'Default' : 'Tenant'
+      ),
+      data,
+    };
+  }
+
+  /**
+   * Render the four templates of a notification; only the email body is HTML-escaped
+   * Pure function with no side effects
+   */
+  static renderContent(
+    content: NotificationTemplateContent,
+    data: NotificationData,
+    format: TemplateFormatOptions,
+    source: RenderedNotification['source']
+  ): RenderedNotification {
+    return {
+      emailSubject: renderTemplate(content.emailSubjectTemplate, data, { format }),
+      emailBody: renderTemplate(content.emailBodyTemplate, data, { format, escapeHtml: true }),
+      title: renderTemplate(content.inAppTitleTemplate, data, { format }),
+      message: renderTemplate(content.inAppMessageTemplate, data, { format }),
+      source,
+    };
+  }
+
+  /**
+   * Formatting from the tenant's settings
+   */
+  private static async getFormatOptions(tenantId: string): Promise<TemplateFormatOptions> {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { settings: true },
+    });
+
+    return resolveFormatOptions(tenant?.settings);
+  }
+
+  private static toContent(template: NotificationTemplate): NotificationTemplateContent {
+    return {
+      emailSubjectTemplate: template.emailSubjectTemplate,
+      emailBodyTemplate: template.emailBodyTemplate,
+      inAppTitleTemplate: template.inAppTitleTemplate,
+      inAppMessageTemplate: template.inAppMessageTemplate,
+    };
   }
 
   /**
@@ -444,14 +600,19 @@ export class NotificationService {
   }
 
   /**
-   * Queue notification for sending (placeholder for async queue)
+   * Channels a delivery method sends through
+   * Pure function with no side effects
    */
-  private static async queueNotificationSend(notification: Notification): Promise<void> {
-    // In production, this would:
-    // 1. Queue to Redis/message broker
-    // 2. Have background worker process
-    // 3. Call email service (SendGrid, SES, etc.)
-    // For now, just mark as sent immediately
-    await this.markAsSent(notification.id);
+  static getChannels(deliveryMethod: NotificationDeliveryMethod): NotificationChannelName[] {
+    switch (deliveryMethod) {
+      case 'Email':
+        return ['Email'];
+      case 'InApp':
+        return ['InApp'];
+      case 'Webhook':
+        return ['Webhook'];
+      default:
+        return ['Email', 'InApp'];
+    }
   }
 }
@@ -0,0 +1,288 @@
+/**
+ * Org Hierarchy Service
+ * Manager-of relationships and resolution of symbolic escalation targets
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { EscalationRecipients, EscalationTarget } from '@/types/escalation';
+import { StageEntityContext, StageResponsibility } from '@/types/workflow';
+import { UserRole } from '@/types/rbac';
+import { StageResponsibilityService } from './stage-responsibility-service';
+
+const prisma = new PrismaClient();
+
+const TARGET_KEYWORDS = [
+  'StageApproverManager',
+  'RequesterManager',
+  'ProgramSponsor',
+  'ProjectSponsor',
+] as const;
+
+const ROLE_NAMES: UserRole[] = [
+  'Admin',
+  'PMO',
+  'Sponsor',
+  'PM',
+  'Finance',
+  'TeamMember',
+  'Management',
+];
+
+/**
+ * Tried in order when a chain level's target resolves to nobody
+ */
+const FALLBACK_TARGETS = ['ProgramSponsor', 'Role:PMO', 'Role:Admin'];
+
+/**
+ * Longest manager chain followed, guarding against cycles in stored data
+ */
+const MAX_HIERARCHY_DEPTH = 50;
+
+/**
+ * Instance fields needed to resolve targets
+ */
+type TargetInstance = {
+  id: string;
+  entityType: string;
+  entityId: string;
+  projectId: string | null;
+  currentStageId: string;
+  currentStageStarted: Date;
+  assigneeType: string | null;
+  assigneeValue: string | null;
+  assignedStageId: string | null;
+  assignedAt: Date | null;
+  createdBy: string | null;
+  currentStage: { responsibilities: unknown[] };
+};
+
+// ============================================================================
+// ORG HIERARCHY SERVICE
+// ============================================================================
+
+export class OrgHierarchyService {
+  /**
+   * Parse an escalation target; returns null when it is malformed
+   * Pure function with no side effects
+   */
+  static parseTarget(value: string): EscalationTarget | null {
+    const target = value.trim();
+
+    if ((TARGET_KEYWORDS as readonly string[]).includes(target)) {
+      return { kind: target as EscalationTarget['kind'] };
+    }
+
+    const separator = target.indexOf(':');
+
+    if (separator === -1) {
+      if (!target) return null;
+      return ROLE_NAMES.includes(target as UserRole)
+        ? { kind: 'Role', value: target }
+        : { kind: 'User', value: target };
+    }
+
+    const kind = target.slice(0, separator);
+    const rest = target.slice(separator + 1).trim();
+
+    if ((kind === 'Role' || kind === 'User') && rest) {
+      return { kind, value: rest };
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve who a chain level reaches for a workflow instance
+   * Falls back to the program sponsor, then PMO, then Admin when the target reaches nobody
+   */
+  static async resolveRecipients(
+    workflowInstanceId: string,
+    tenantId: string,
+    target: string
+  ): Promise<EscalationRecipients> {
+    const instance = (await prisma.workflowInstance.findFirst({
+      where: { id: workflowInstanceId, template: { tenantId } },
+      include: { currentStage: { include: { responsibilities: true } } },
+    })) as TargetInstance | null;
+
+    if (!instance) {
+      throw new Error(`Workflow instance not found: ${workflowInstanceId}`);
+    }
+
+    const entityContext = await StageResponsibilityService.resolveEntityContext(tenantId, instance);
+
+    for (const candidate of [target, ...FALLBACK_TARGETS.filter((t) => t !== target)]) {
+      const parsed = this.parseTarget(candidate);
+      const userIds = parsed ? await this.resolveTarget(parsed, instance, entityContext) : [];
+
+      if (userIds.length > 0) {
+        return { target: candidate, isFallback: candidate !== target, userIds };
+      }
+    }
+
+    return { target, isFallback: false, userIds: [] };
+  }
+
+  /**
+   * Active tenant users a single target refers to
+   */
+  private static async resolveTarget(
+    target: EscalationTarget,
+    instance: TargetInstance,
+    entityContext: StageEntityContext
+  ): Promise<string[]> {
+    switch (target.kind) {
+      case 'StageApproverManager': {
+        const responsibilities = StageResponsibilityService.getEffectiveResponsibilities(
+          instance,
+          instance.currentStage.responsibilities as StageResponsibility[]
+        );
+        const approvers = await StageResponsibilityService.resolveEligibleApprovers(
+          responsibilities,
+          entityContext
+        );
+        return this.getManagers(
+          approvers.flatMap((a) => a.userIds),
+          entityContext.tenantId
+        );
+      }
+
+      case 'RequesterManager':
+        return instance.createdBy
+          ? this.getManagers([instance.createdBy], entityContext.tenantId)
+          : [];
+
+      case 'ProgramSponsor':
+        return this.filterActive(
+          [entityContext.programPositions.Sponsor ?? null],
+          entityContext.tenantId
+        );
+
+      case 'ProjectSponsor':
+        return this.filterActive(
+          [entityContext.projectPositions.Sponsor ?? null],
+          entityContext.tenantId
+        );
+
+      case 'Role': {
+        const [holders] = await StageResponsibilityService.resolveEligibleApprovers(
+          [
+            {
+              id: `escalation-role:${target.value}`,
+              stageId: instance.currentStageId,
+              type: 'Role',
+              value: target.value!,
+              scope: 'Project',
+              notificationMethod: 'Both',
+              createdAt: new Date(),
+            },
+          ],
+          entityContext
+        );
+        return holders?.userIds ?? [];
+      }
+
+      case 'User':
+        return this.filterActive([target.value!], entityContext.tenantId);
+    }
+  }
+
+  /**
+   * Get the distinct active managers of a set of users
+   */
+  static async getManagers(userIds: string[], tenantId: string): Promise<string[]> {
+    if (userIds.length === 0) return [];
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: Array.from(new Set(userIds)) }, tenantId },
+      select: { managerId: true },
+    });
+
+    return this.filterActive(
+      users.map((u) => u.managerId),
+      tenantId
+    );
+  }
+
+  /**
+   * Get a user's managers, nearest first
+   */
+  static async getManagementChain(userId: string, tenantId: string): Promise<string[]> {
+    const chain: string[] = [];
+    let currentId: string | null = userId;
+
+    while (currentId && chain.length < MAX_HIERARCHY_DEPTH) {
+      const user: { managerId: string | null } | null = await prisma.user.findFirst({
+        where: { id: currentId, tenantId },
+        select: { managerId: true },
+      });
+
+      if (!user?.managerId || chain.includes(user.managerId)) break;
+
+      chain.push(user.managerId);
+      currentId = user.managerId;
+    }
+
+    return chain;
+  }
+
+  /**
+   * Set or clear a user's manager
+   * Both users must belong to the tenant and the change may not create a cycle
+   */
+  static async setManager(
+    userId: string,
+    managerId: string | null,
+    tenantId: string
+  ): Promise<{ userId: string; managerId: string | null }> {
+    const user = await prisma.user.findFirst({
+      where: { id: userId, tenantId, deletedAt: null },
+      select: { id: true },
+    });
+
+    if (!user) {
+      throw new Error(`User not found: ${userId}`);
+    }
+
+    if (managerId) {
+      const manager = await prisma.user.findFirst({
+        where: { id: managerId, tenantId, isActive: true, deletedAt: null },
+        select: { id: true },
+      });
+
+      if (!manager) {
+        throw new Error(`Manager not found: ${managerId}`);
+      }
+
+      if (
+        managerId === userId ||
+        (await this.getManagementChain(managerId, tenantId)).includes(userId)
+      ) {
+        throw new Error(`Manager cycle: ${userId} cannot report to ${managerId}`);
+      }
+    }
+
+    await prisma.user.update({ where: { id: userId }, data: { managerId } });
+
+    return { userId, managerId };
+  }
+
+  /**
+   * Keep the IDs of active users of the tenant
+   */
+  private static async filterActive(
+    userIds: Array<string | null>,
+    tenantId: string
+  ): Promise<string[]> {
+    const ids = Array.from(new Set(userIds.filter((id): id is string => !!id)));
+
+    if (ids.length === 0) return [];
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: ids }, tenantId, isActive: true, deletedAt: null },
+      select: { id: true },
+    });
+
+    return users.map((u) => u.id);
+  }
+}
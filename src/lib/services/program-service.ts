@@ -156,14 +156,17 @@ export class ProgramService {
 
   /**
    * Create a new program (tenant-scoped)
+   * Tenant and transaction client can be passed explicitly outside a request
    */
   static async createProgram(
-    data: CreateProgramRequest
+    data: CreateProgramRequest,
+    options: { tenantId?: string; tx?: Prisma.TransactionClient } = {}
   ): Promise<Program> {
-    const tenantId = getTenantId();
+    const tenantId = options.tenantId ?? getTenantId();
+    const db = options.tx ?? prisma;
 
     // Check for duplicate name in tenant
-    const existing = await prisma.program.findFirst({
+    const existing = await db.program.findFirst({
       where: {
         tenantId,
         name: data.name,
@@ -177,7 +180,7 @@ export class ProgramService {
       );
     }
 
-    const program = await prisma.program.create({
+    const program = await db.program.create({
       data: {
         tenantId,
         name: data.name,
@@ -203,15 +206,18 @@ export class ProgramService {
 
   /**
    * Update an existing program (tenant-scoped)
+   * Tenant and transaction client can be passed explicitly outside a request
    */
   static async updateProgram(
     programId: string,
-    data: UpdateProgramRequest
+    data: UpdateProgramRequest,
+    options: { tenantId?: string; tx?: Prisma.TransactionClient } = {}
   ): Promise<Program> {
-    const tenantId = getTenantId();
+    const tenantId = options.tenantId ?? getTenantId();
+    const db = options.tx ?? prisma;
 
     // Verify program belongs to tenant
-    const program = await prisma.program.findFirst({
+    const program = await db.program.findFirst({
       where: {
         id: programId,
         tenantId,
@@ -225,7 +231,7 @@ export class ProgramService {
 
     // Check for duplicate name if changing
     if (data.name && data.name !== program.name) {
-      const existing = await prisma.program.findFirst({
+      const existing = await db.program.findFirst({
         where: {
           tenantId,
           name: data.name,
@@ -255,7 +261,7 @@ export class ProgramService {
     if (data.actualCost !== undefined) updateData.actualCost = data.actualCost;
     if (data.scoreValue !== undefined) updateData.scoreValue = data.scoreValue ?? null;
 
-    const updated = await prisma.program.update({
+    const updated = await db.program.update({
       where: { id: programId },
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       data: updateData as any,
@@ -157,15 +157,18 @@ export class ProjectService {
 
   /**
    * Create a new project (tenant-scoped)
+   * Tenant and transaction client can be passed explicitly outside a request
    */
   static async createProject(
-    data: CreateProjectRequest
+    data: CreateProjectRequest,
+    options: { tenantId?: string; tx?: Prisma.TransactionClient } = {}
   ): Promise<Project> {
-    const tenantId = getTenantId();
+    const tenantId = options.tenantId ?? getTenantId();
+    const db = options.tx ?? prisma;
 
     // If programId provided, verify it belongs to tenant
     if (data.programId) {
-      const program = await prisma.program.findFirst({
+      const program = await db.program.findFirst({
         where: {
           id: data.programId,
           tenantId,
@@ -181,7 +184,7 @@ export class ProjectService {
     }
 
     // Check for duplicate name in tenant
-    const existing = await prisma.project.findFirst({
+    const existing = await db.project.findFirst({
       where: {
         tenantId,
         name: data.name,
@@ -195,7 +198,7 @@ export class ProjectService {
       );
     }
 
-    const project = await prisma.project.create({
+    const project = await db.project.create({
       data: {
         tenantId,
         programId: data.programId ?? null,
@@ -223,15 +226,18 @@ export class ProjectService {
 
   /**
    * Update an existing project (tenant-scoped)
+   * Tenant and transaction client can be passed explicitly outside a request
    */
   static async updateProject(
     projectId: string,
-    data: UpdateProjectRequest
+    data: UpdateProjectRequest,
+    options: { tenantId?: string; tx?: Prisma.TransactionClient } = {}
   ): Promise<Project> {
-    const tenantId = getTenantId();
+    const tenantId = options.tenantId ?? getTenantId();
+    const db = options.tx ?? prisma;
 
     // Verify project belongs to tenant
-    const project = await prisma.project.findFirst({
+    const project = await db.project.findFirst({
       where: {
         id: projectId,
         tenantId,
@@ -245,7 +251,7 @@ export class ProjectService {
 
     // If programId is changing, verify new program belongs to tenant
     if (data.programId !== undefined && data.programId !== null && data.programId !== project.programId) {
-      const program = await prisma.program.findFirst({
+      const program = await db.program.findFirst({
         where: {
           id: data.programId,
           tenantId,
@@ -262,7 +268,7 @@ export class ProjectService {
 
     // Check for duplicate name if changing
     if (data.name && data.name !== project.name) {
-      const existing = await prisma.project.findFirst({
+      const existing = await db.project.findFirst({
         where: {
           tenantId,
           name: data.name,
@@ -294,7 +300,7 @@ export class ProjectService {
     if (data.actualCost !== undefined) updateData.actualCost = data.actualCost;
     if (data.scoreValue !== undefined) updateData.scoreValue = data.scoreValue ?? null;
 
-    const updated = await prisma.project.update({
+    const updated = await db.project.update({
       where: { id: projectId },
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       data: updateData as any,
@@ -18,6 +18,7 @@ import {
   hasPermission,
   getRoleHierarchyLevel,
 } from '@/types/rbac';
+import { DelegationService } from './delegation-service';
 
 const prisma = new PrismaClient();
 
@@ -39,6 +40,44 @@ export class RBACService {
       },
     });
 
+    return this.buildRolesContext(userId, userRoles);
+  }
+
+  /**
+   * Get the role contexts of several users with a single query
+   * Returns a map of user ID to roles; users without roles get an empty context
+   */
+  static async getRolesForUsers(userIds: string[]): Promise<Map<string, UserRolesContext>> {
+    const userRoles =
+      userIds.length > 0
+        ? await prisma.userRole.findMany({
+            where: {
+              userId: { in: userIds },
+              isActive: true,
+              OR: [{ validUntil: null }, { validUntil: { gt: new Date() } }],
+            },
+          })
+        : [];
+
+    return new Map(
+      userIds.map((userId) => [
+        userId,
+        this.buildRolesContext(
+          userId,
+          userRoles.filter((r) => r.userId === userId)
+        ),
+      ])
+    );
+  }
+
+  /**
+   * Organize a user's active role assignments by context
+   * Pure function with no side effects
+   */
+  static buildRolesContext(
+    userId: string,
+    userRoles: Array<{ role: string; contextType: string; contextId: string | null }>
+  ): UserRolesContext {
     const context: UserRolesContext = {
       userId,
       globalRoles: [],
@@ -335,30 +374,42 @@ export class RBACService {
 
   /**
    * Get users who can approve a project/program (have Sponsor, PMO, or Admin role)
+   * Includes delegates currently acting for those approvers on the template family
    */
   static async getApprovers(
     contextType: RoleContextType,
-    contextId: string | null
+    contextId: string | null,
+    tenantId: string,
+    templateFamilyId?: string
   ): Promise<string[]> {
     const approverRoles = ['Admin', 'PMO', 'Sponsor'] as UserRole[];
+    const now = new Date();
 
     const userRoles = await prisma.userRole.findMany({
       where: {
         role: { in: approverRoles },
         ...(contextType === 'Global' && { contextType: 'Global' }),
-        ...(contextType !== 'Global' && {
-          OR: [
-            { contextType: 'Global' },
-            { contextType, contextId },
-          ],
-        }),
         isActive: true,
-        OR: [{ validUntil: null }, { validUntil: { gt: new Date() } }],
+        user: { tenantId },
+        AND: [
+          ...(contextType !== 'Global'
+            ? [{ OR: [{ contextType: 'Global' as const }, { contextType, contextId }] }]
+            : []),
+          { OR: [{ validUntil: null }, { validUntil: { gt: now } }] },
+        ],
       },
       select: { userId: true },
       distinct: ['userId'],
     });
 
-    return userRoles.map((r) => r.userId);
+    const approverIds = userRoles.map((r) => r.userId);
+    const delegates = await DelegationService.getDelegatesForPrincipals(approverIds, tenantId, {
+      at: now,
+      ...(templateFamilyId && { templateFamilyId }),
+      programId: contextType === 'Program' ? contextId : null,
+      projectId: contextType === 'Project' ? contextId : null,
+    });
+
+    return Array.from(new Set([...approverIds, ...Array.from(delegates.values()).flat()]));
   }
 }
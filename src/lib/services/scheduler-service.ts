@@ -0,0 +1,154 @@
+/**
+ * Scheduler Service
+ * Runs background jobs on an interval, on one app node at a time, with a run history
+ */
+
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { PrismaClient } from '@prisma/client';
+import { ScheduledJob, SchedulerRun } from '@/types/scheduler';
+
+const prisma = new PrismaClient();
+
+/**
+ * Identifies this process as a lease holder
+ */
+const HOLDER_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+const timers = new Map<string, ReturnType<typeof setInterval>>();
+const runningJobs = new Set<string>();
+
+// ============================================================================
+// SCHEDULER SERVICE
+// ============================================================================
+
+export class SchedulerService {
+  /**
+   * Run a job now and then every job.intervalMs until stopped
+   * Starting a job that is already scheduled in this process does nothing
+   */
+  static start(job: ScheduledJob): void {
+    if (timers.has(job.name)) {
+      return;
+    }
+
+    const timer = setInterval(() => void this.runJob(job), job.intervalMs);
+    // Do not keep the process alive for the scheduler alone
+    timer.unref?.();
+    timers.set(job.name, timer);
+
+    void this.runJob(job);
+  }
+
+  /**
+   * Stop one scheduled job, or all of them
+   */
+  static stop(jobName?: string): void {
+    for (const [name, timer] of Array.from(timers)) {
+      if (!jobName || name === jobName) {
+        clearInterval(timer);
+        timers.delete(name);
+      }
+    }
+  }
+
+  /**
+   * Run a job once if this node holds its lease and it is not already running here
+   * The lease lasts two intervals, so the holder keeps it while alive and another
+   * node takes over only after it stops renewing; a run longer than that renews it as it goes
+   */
+  static async runJob(job: ScheduledJob): Promise<SchedulerRun | null> {
+    if (runningJobs.has(job.name)) {
+      return null;
+    }
+
+    runningJobs.add(job.name);
+
+    try {
+      const renewLease = () => this.acquireLease(job.name, HOLDER_ID, job.intervalMs * 2);
+
+      if (!(await renewLease())) {
+        return null;
+      }
+
+      const run = await prisma.schedulerRun.create({
+        data: { job: job.name, holderId: HOLDER_ID, status: 'Running' },
+      });
+
+      try {
+        const stats = await job.run(renewLease);
+
+        return (await prisma.schedulerRun.update({
+          where: { id: run.id },
+          data: { status: 'Succeeded', stats, finishedAt: new Date() },
+        })) as SchedulerRun;
+      } catch (error) {
+        console.error(`Scheduled job ${job.name} failed:`, error);
+
+        return (await prisma.schedulerRun.update({
+          where: { id: run.id },
+          data: {
+            status: 'Failed',
+            error: error instanceof Error ? error.message : String(error),
+            finishedAt: new Date(),
+          },
+        })) as SchedulerRun;
+      }
+    } catch (error) {
+      console.error(`Failed to run scheduled job ${job.name}:`, error);
+      return null;
+    } finally {
+      runningJobs.delete(job.name);
+    }
+  }
+
+  /**
+   * Take or renew the lease on a job
+   * Succeeds when the lease is free, expired or already held by holderId
+   */
+  static async acquireLease(
+    name: string,
+    holderId: string,
+    ttlMs: number,
+    now: Date = new Date()
+  ): Promise<boolean> {
+    const expiresAt = new Date(now.getTime() + ttlMs);
+
+    const renewed = await prisma.schedulerLease.updateMany({
+      where: { name, OR: [{ holderId }, { expiresAt: { lt: now } }] },
+      data: { holderId, expiresAt },
+    });
+
+    if (renewed.count > 0) {
+      return true;
+    }
+
+    const created = await prisma.schedulerLease.createMany({
+      data: [{ name, holderId, expiresAt }],
+      skipDuplicates: true,
+    });
+
+    return created.count > 0;
+  }
+
+  /**
+   * Get the run history of a job, newest first
+   */
+  static async listRuns(
+    job: string,
+    skip: number = 0,
+    take: number = 50
+  ): Promise<{ runs: SchedulerRun[]; total: number }> {
+    const [runs, total] = await Promise.all([
+      prisma.schedulerRun.findMany({
+        where: { job },
+        orderBy: { startedAt: 'desc' },
+        skip,
+        take,
+      }),
+      prisma.schedulerRun.count({ where: { job } }),
+    ]);
+
+    return { runs: runs as SchedulerRun[], total };
+  }
+}
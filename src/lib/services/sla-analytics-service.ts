@@ -0,0 +1,230 @@
+/**
+ * SLA Analytics Service
+ * Cycle times, breach rates and bottlenecks computed from recorded stage exits
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  SLAAnalyticsQuery,
+  SLAAnalyticsReport,
+  SLABreachRate,
+  SLAStageOutcome,
+  StageCycleTimeStats,
+} from '@/types/escalation';
+
+const prisma = new PrismaClient();
+
+/**
+ * Outcomes decided by an approver; withdrawals and cancellations are left out of
+ * per-approver breach rates
+ */
+const APPROVER_OUTCOMES: SLAStageOutcome[] = ['Approved', 'Rejected', 'Returned'];
+
+/**
+ * Stages listed as bottlenecks
+ */
+const BOTTLENECK_LIMIT = 10;
+
+/**
+ * Per-stage aggregate row returned by the database
+ */
+type StageStatsRow = {
+  templateFamilyId: string;
+  stageKey: string;
+  stageName: string;
+  exits: number;
+  p50CycleHours: number;
+  p90CycleHours: number;
+  averageCycleHours: number;
+  breachedCount: number;
+  totalBreachHours: number;
+};
+
+// ============================================================================
+// SLA ANALYTICS SERVICE
+// ============================================================================
+
+export class SLAAnalyticsService {
+  /**
+   * Build the SLA analytics report of a tenant
+   * Aggregation runs in the database, so the cost does not grow with the rows returned
+   */
+  static async getReport(query: SLAAnalyticsQuery): Promise<SLAAnalyticsReport> {
+    let templateFamilyId: string | null = null;
+
+    if (query.workflowTemplateId) {
+      const template = await prisma.workflowTemplate.findFirst({
+        where: { id: query.workflowTemplateId, tenantId: query.tenantId },
+        select: { id: true, templateFamilyId: true },
+      });
+
+      if (!template) {
+        throw new Error(`Template not found: ${query.workflowTemplateId}`);
+      }
+
+      templateFamilyId = template.templateFamilyId || template.id;
+    }
+
+    const where: Prisma.WorkflowSlaFactWhereInput = {
+      tenantId: query.tenantId,
+      ...(templateFamilyId && { templateFamilyId }),
+      ...((query.startDate || query.endDate) && {
+        exitedAt: {
+          ...(query.startDate && { gte: query.startDate }),
+          ...(query.endDate && { lte: query.endDate }),
+        },
+      }),
+    };
+
+    const [stages, templateRows, approverRows, monthRows] = await Promise.all([
+      this.getStageStats(query, templateFamilyId),
+      prisma.workflowSlaFact.groupBy({
+        by: ['templateFamilyId', 'isBreached'],
+        where,
+        _count: { _all: true },
+      }),
+      prisma.workflowSlaFact.groupBy({
+        by: ['closedBy', 'isBreached'],
+        where: { ...where, outcome: { in: APPROVER_OUTCOMES }, closedBy: { not: null } },
+        _count: { _all: true },
+      }),
+      prisma.workflowSlaFact.groupBy({
+        by: ['exitMonth', 'isBreached'],
+        where,
+        _count: { _all: true },
+      }),
+    ]);
+
+    const byTemplate = this.toBreachRates(
+      templateRows.map((r) => ({
+        key: r.templateFamilyId,
+        isBreached: r.isBreached,
+        count: r._count._all,
+      }))
+    );
+    const byApprover = this.toBreachRates(
+      approverRows.map((r) => ({
+        key: r.closedBy!,
+        isBreached: r.isBreached,
+        count: r._count._all,
+      }))
+    );
+    const byMonth = this.toBreachRates(
+      monthRows.map((r) => ({ key: r.exitMonth, isBreached: r.isBreached, count: r._count._all }))
+    ).sort((a, b) => a.key.localeCompare(b.key));
+
+    const [templates, users] = await Promise.all([
+      prisma.workflowTemplate.findMany({
+        where: { id: { in: byTemplate.map((r) => r.key) } },
+        select: { id: true, name: true },
+      }),
+      prisma.user.findMany({
+        where: { id: { in: byApprover.map((r) => r.key) }, tenantId: query.tenantId },
+        select: { id: true, name: true, email: true },
+      }),
+    ]);
+    const templateNames = new Map(templates.map((t) => [t.id, t.name]));
+    const userNames = new Map(users.map((u) => [u.id, u.name || u.email]));
+
+    return {
+      stages,
+      bottlenecks: this.rankBottlenecks(stages),
+      byTemplate: byTemplate.map((r) => ({ ...r, label: templateNames.get(r.key) ?? null })),
+      byApprover: byApprover.map((r) => ({ ...r, label: userNames.get(r.key) ?? null })),
+      byMonth,
+    };
+  }
+
+  /**
+   * Cycle time percentiles and breaches per stage, across versions of each template
+   */
+  static async getStageStats(
+    query: SLAAnalyticsQuery,
+    templateFamilyId: string | null
+  ): Promise<StageCycleTimeStats[]> {
+    const rows = await prisma.$queryRaw<StageStatsRow[]>`
+      SELECT "templateFamilyId",
+             "stageKey",
+             (ARRAY_AGG("stageName" ORDER BY "exitedAt" DESC))[1] AS "stageName",
+             COUNT(*)::int AS "exits",
+             PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY "cycleHours") AS "p50CycleHours",
+             PERCENTILE_CONT(0.9) WITHIN GROUP (ORDER BY "cycleHours") AS "p90CycleHours",
+             AVG("cycleHours") AS "averageCycleHours",
+             (COUNT(*) FILTER (WHERE "isBreached"))::int AS "breachedCount",
+             COALESCE(SUM("hoursBreach"), 0) AS "totalBreachHours"
+      FROM "WorkflowSlaFact"
+      WHERE "tenantId" = ${query.tenantId}
+        ${templateFamilyId ? Prisma.sql`AND "templateFamilyId" = ${templateFamilyId}` : Prisma.empty}
+        ${query.startDate ? Prisma.sql`AND "exitedAt" >= ${query.startDate}` : Prisma.empty}
+        ${query.endDate ? Prisma.sql`AND "exitedAt" <= ${query.endDate}` : Prisma.empty}
+      GROUP BY "templateFamilyId", "stageKey"
+      ORDER BY "templateFamilyId", "stageKey"
+    `;
+
+    return rows.map((row) => this.toStageStats(row));
+  }
+
+  /**
+   * Round an aggregate row and add its breach rate
+   * Pure function with no side effects
+   */
+  static toStageStats(row: StageStatsRow): StageCycleTimeStats {
+    const round = (hours: number) => Math.round(Number(hours) * 10) / 10;
+
+    return {
+      templateFamilyId: row.templateFamilyId,
+      stageKey: row.stageKey,
+      stageName: row.stageName,
+      exits: row.exits,
+      p50CycleHours: round(row.p50CycleHours),
+      p90CycleHours: round(row.p90CycleHours),
+      averageCycleHours: round(row.averageCycleHours),
+      breachedCount: row.breachedCount,
+      breachRate: row.exits > 0 ? Math.round((row.breachedCount / row.exits) * 100) : 0,
+      totalBreachHours: round(row.totalBreachHours),
+    };
+  }
+
+  /**
+   * Fold breached / not breached counts into a breach rate per key
+   * Pure function with no side effects
+   */
+  static toBreachRates(
+    rows: Array<{ key: string; isBreached: boolean; count: number }>
+  ): SLABreachRate[] {
+    const rates = new Map<string, SLABreachRate>();
+
+    for (const row of rows) {
+      const rate = rates.get(row.key) || {
+        key: row.key,
+        label: null,
+        exits: 0,
+        breachedCount: 0,
+        breachRate: 0,
+      };
+      rate.exits += row.count;
+      if (row.isBreached) rate.breachedCount += row.count;
+      rates.set(row.key, rate);
+    }
+
+    return Array.from(rates.values()).map((rate) => ({
+      ...rate,
+      breachRate: Math.round((rate.breachedCount / rate.exits) * 100),
+    }));
+  }
+
+  /**
+   * Rank stages by the working hours lost past their SLA, then by p90 cycle time
+   * Stages that never breached are not bottlenecks
+   * Pure function with no side effects
+   */
+  static rankBottlenecks(
+    stages: StageCycleTimeStats[],
+    limit: number = BOTTLENECK_LIMIT
+  ): StageCycleTimeStats[] {
+    return stages
+      .filter((s) => s.breachedCount > 0)
+      .sort((a, b) => b.totalBreachHours - a.totalBreachHours || b.p90CycleHours - a.p90CycleHours)
+      .slice(0, limit);
+  }
+}
@@ -3,17 +3,32 @@
  * Tracks SLA compliance, calculates time metrics, and detects warnings/breaches
  */
 
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import {
+  SLABandLevel,
   SLAComplianceInfo,
   SLAStatus,
+  SLAThresholdBand,
   SLAHistoryRecord,
+  SLAPause,
+  SLAPauseReason,
+  SLAStageFact,
+  SLAStageOutcome,
   QuerySLAMetricsRequest,
   SLAMetricsResponse,
 } from '@/types/escalation';
+import { WorkCalendar } from '@/types/calendar';
+import { BusinessCalendarService } from './business-calendar-service';
 
 const prisma = new PrismaClient();
 
+const BAND_LEVELS: SLABandLevel[] = ['Info', 'Warning', 'Critical'];
+
+/**
+ * Bands used when neither the stage, its template nor an escalation policy sets any
+ */
+const DEFAULT_THRESHOLD_BANDS: SLAThresholdBand[] = [{ level: 'Warning', thresholdPercent: 75 }];
+
 // ============================================================================
 // SLA MANAGEMENT SERVICE
 // ============================================================================
@@ -21,32 +36,62 @@ const prisma = new PrismaClient();
 export class SLAManagementService {
   /**
    * Calculate SLA compliance for a workflow instance
+   * Time used and remaining are counted in the working hours of the tenant calendar
+   * While the clock is paused, figures are frozen at the moment it stopped
+   * The stage's threshold bands apply, else templateBands (see getThresholdBands)
    */
-  static calculateSLACompliance(instance: {
-    id: string;
-    currentStageId: string;
-    currentStageStarted: Date;
-    slaDue: Date;
-    currentStage?: {
+  static calculateSLACompliance(
+    instance: {
       id: string;
-      name: string;
-      slaHours?: number;
-    };
-  }): SLAComplianceInfo {
+      currentStageId: string;
+      currentStageStarted: Date;
+      slaDue: Date;
+      slaPausedAt?: Date | null;
+      slaPausedHours?: number;
+      currentStage?: {
+        id: string;
+        name: string;
+        slaHours?: number;
+        slaThresholds?: unknown;
+      };
+    },
+    calendar: WorkCalendar = BusinessCalendarService.resolveCalendar(null),
+    templateBands: SLAThresholdBand[] = DEFAULT_THRESHOLD_BANDS
+  ): SLAComplianceInfo {
     const now = new Date();
     const stageName = instance.currentStage?.name || 'Unknown';
     const totalSLAHours = instance.currentStage?.slaHours || 24; // default 24 hours
-
-    // Calculate time in stage
-    const timeInStageMs = now.getTime() - instance.currentStageStarted.getTime();
-    const hoursUsed = Math.round((timeInStageMs / (1000 * 60 * 60)) * 10) / 10; // 1 decimal place
-
-    // Calculate time remaining
-    const timeRemainingMs = instance.slaDue.getTime() - now.getTime();
-    const hoursRemaining = Math.round((timeRemainingMs / (1000 * 60 * 60)) * 10) / 10;
+    const thresholdBands = this.resolveThresholdBands(
+      instance.currentStage?.slaThresholds,
+      templateBands
+    );
+
+    // The clock reads the pause start while stopped
+    const clock = instance.slaPausedAt || now;
+    const pausedHours =
+      (instance.slaPausedHours || 0) +
+      (instance.slaPausedAt
+        ? BusinessCalendarService.workingHoursBetween(instance.slaPausedAt, now, calendar)
+        : 0);
+
+    // Calculate working time in stage, less time paused earlier in the stage
+    const hoursInStage = BusinessCalendarService.workingHoursBetween(
+      instance.currentStageStarted,
+      clock,
+      calendar
+    );
+    const hoursUsed = Math.round((hoursInStage - (instance.slaPausedHours || 0)) * 10) / 10; // 1 decimal place
+
+    // Calculate working time remaining
+    const timeRemainingMs = instance.slaDue.getTime() - clock.getTime();
+    const hoursRemaining =
+      Math.round(
+        BusinessCalendarService.workingHoursBetween(clock, instance.slaDue, calendar) * 10
+      ) / 10;
 
     // Calculate percentage used
     const percentageUsed = Math.round((hoursUsed / totalSLAHours) * 100);
+    const band = this.getBand(percentageUsed, thresholdBands);
 
     // Determine status
     let status: SLAStatus = 'Compliant';
@@ -54,20 +99,21 @@ export class SLAManagementService {
     let isWarning = false;
     let hoursBreach: number | undefined;
 
-    const warningThresholdPercent = 75; // Default warning at 75% of SLA used
+    // Info bands are reported without changing the status
+    const warningThresholdPercent =
+      thresholdBands.find((b) => b.level !== 'Info')?.thresholdPercent ?? 100;
 
     if (timeRemainingMs < 0) {
       // SLA breached
       status = 'Breached';
       isOverdue = true;
       hoursBreach = Math.abs(hoursRemaining);
-    } else if (percentageUsed >= warningThresholdPercent) {
+    } else if (band === 'Warning' || band === 'Critical') {
       // Warning level
       status = 'Warning';
       isWarning = true;
     }
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
     return {
       workflowInstanceId: instance.id,
       stageId: instance.currentStageId,
@@ -77,14 +123,271 @@ export class SLAManagementService {
       currentStatus: status,
       totalSLAHours,
       hoursUsed,
-      hoursRemaining: isOverdue ? undefined : hoursRemaining,
+      ...(!isOverdue && { hoursRemaining }),
       percentageUsed,
       isOverdue,
       isWarning,
       warningThresholdPercent,
-      hoursBreach,
+      band,
+      thresholdBands,
+      ...(hoursBreach !== undefined && { hoursBreach }),
+      isPaused: !!instance.slaPausedAt,
+      pausedHours: Math.round(pausedHours * 10) / 10,
+    };
+  }
+
+  /**
+   * Pick a stage's threshold bands, lowest first: its own when set, else the fallback
+   * Pure function with no side effects
+   */
+  static resolveThresholdBands(
+    stageBands: unknown,
+    fallbackBands: SLAThresholdBand[] = DEFAULT_THRESHOLD_BANDS
+  ): SLAThresholdBand[] {
+    const bands =
+      Array.isArray(stageBands) && stageBands.length > 0
+        ? (stageBands as SLAThresholdBand[])
+        : fallbackBands;
+
+    return [...bands].sort((a, b) => a.thresholdPercent - b.thresholdPercent);
+  }
+
+  /**
+   * Highest band reached at a percentage of the SLA used; null below every band
+   * Pure function with no side effects
+   */
+  static getBand(percentageUsed: number, bands: SLAThresholdBand[]): SLABandLevel | null {
+    return bands.reduce<SLABandLevel | null>(
+      (reached, band) =>
+        percentageUsed >= band.thresholdPercent && this.compareBands(band.level, reached) > 0
+          ? band.level
+          : reached,
+      null
+    );
+  }
+
+  /**
+   * Order of two band levels; null ranks below every level
+   * Pure function with no side effects
+   */
+  static compareBands(a: SLABandLevel | null, b: SLABandLevel | null): number {
+    return (a ? BAND_LEVELS.indexOf(a) : -1) - (b ? BAND_LEVELS.indexOf(b) : -1);
+  }
+
+  /**
+   * Get the threshold bands of templates for stages without their own
+   * A template's bands apply, else a single Warning band at the warningThresholdPercent
+   * of the escalation policy that applies to the template, else the 75% default
+   */
+  static async getThresholdBands(templateIds: string[]): Promise<Map<string, SLAThresholdBand[]>> {
+    const bands = new Map<string, SLAThresholdBand[]>();
+
+    if (templateIds.length === 0) return bands;
+
+    const templates = await prisma.workflowTemplate.findMany({
+      where: { id: { in: Array.from(new Set(templateIds)) } },
+      select: { id: true, tenantId: true, templateFamilyId: true, slaThresholds: true },
+    });
+    const withoutBands = templates.filter(
+      (t) => !Array.isArray(t.slaThresholds) || t.slaThresholds.length === 0
+    );
+    const familyIds = Array.from(new Set(withoutBands.map((t) => t.templateFamilyId || t.id)));
+
+    // Same choice of policy as EscalationService.getPolicyForTemplate
+    const policies =
+      familyIds.length > 0
+        ? await prisma.escalationPolicy.findMany({
+            where: {
+              tenantId: { in: Array.from(new Set(withoutBands.map((t) => t.tenantId))) },
+              isActive: true,
+              template: {
+                OR: [{ id: { in: familyIds } }, { templateFamilyId: { in: familyIds } }],
+              },
+            },
+            select: {
+              tenantId: true,
+              workflowTemplateId: true,
+              warningThresholdPercent: true,
+              template: { select: { id: true, templateFamilyId: true } },
+            },
+            orderBy: [{ isDefault: 'desc' }, { createdAt: 'desc' }],
+          })
+        : [];
+
+    for (const template of templates) {
+      if (!withoutBands.includes(template)) {
+        bands.set(template.id, this.resolveThresholdBands(template.slaThresholds));
+        continue;
+      }
+
+      const familyId = template.templateFamilyId || template.id;
+      const policy =
+        policies.find((p) => p.workflowTemplateId === template.id) ||
+        policies.find(
+          (p) =>
+            p.tenantId === template.tenantId &&
+            (p.template.templateFamilyId || p.template.id) === familyId
+        );
+
+      bands.set(
+        template.id,
+        policy
+          ? [{ level: 'Warning', thresholdPercent: policy.warningThresholdPercent }]
+          : DEFAULT_THRESHOLD_BANDS
+      );
+    }
+
+    return bands;
+  }
+
+  /**
+   * Work out the clock after a pause ends: the paused working hours and the due date
+   * pushed back by them
+   * Pure function with no side effects
+   */
+  static calculateResume(
+    instance: { slaDue: Date; slaPausedAt: Date },
+    resumedAt: Date,
+    calendar: WorkCalendar
+  ): { pausedHours: number; slaDue: Date } {
+    const pausedHours = Math.max(
+      BusinessCalendarService.workingHoursBetween(instance.slaPausedAt, resumedAt, calendar),
+      0
+    );
+
+    return {
+      pausedHours,
+      slaDue: BusinessCalendarService.addWorkingHours(instance.slaDue, pausedHours, calendar),
+    };
+  }
+
+  /**
+   * Stop the SLA clock of an instance's current stage
+   * Returns null if the clock is already stopped
+   * Pass a transaction client to pause as part of a larger change
+   */
+  static async pauseSLA(
+    workflowInstanceId: string,
+    reason: SLAPauseReason,
+    actorId: string,
+    note?: string,
+    pausedAt: Date = new Date(),
+    tx?: Prisma.TransactionClient
+  ): Promise<SLAPause | null> {
+    if (!tx) {
+      return prisma.$transaction((client) =>
+        this.pauseSLA(workflowInstanceId, reason, actorId, note, pausedAt, client)
+      );
+    }
+
+    const instance = await tx.workflowInstance.findUnique({
+      where: { id: workflowInstanceId },
+      select: { currentStageId: true, slaPausedAt: true },
+    });
+
+    if (!instance) {
+      throw new Error(`Workflow instance not found: ${workflowInstanceId}`);
+    }
+
+    if (instance.slaPausedAt) {
+      return null;
+    }
+
+    const pause = await tx.workflowSlaPause.create({
+      data: {
+        workflowInstanceId,
+        stageId: instance.currentStageId,
+        reason,
+        note: note || null,
+        pausedAt,
+        pausedBy: actorId,
+      },
+    });
+    await tx.workflowInstance.update({
+      where: { id: workflowInstanceId },
+      data: { slaPausedAt: pausedAt },
+    });
+
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    } as any;
+    return pause as any;
+  }
+
+  /**
+   * Restart a stopped SLA clock, pushing the due date back by the paused working hours
+   * Returns null if the clock is running
+   * Pass a transaction client to resume as part of a larger change
+   */
+  static async resumeSLA(
+    workflowInstanceId: string,
+    actorId: string,
+    tx?: Prisma.TransactionClient
+  ): Promise<SLAPause | null> {
+    if (!tx) {
+      return prisma.$transaction((client) => this.resumeSLA(workflowInstanceId, actorId, client));
+    }
+
+    const instance = await tx.workflowInstance.findUnique({
+      where: { id: workflowInstanceId },
+      select: {
+        slaDue: true,
+        slaPausedAt: true,
+        slaPausedHours: true,
+        template: { select: { tenantId: true } },
+      },
+    });
+
+    if (!instance) {
+      throw new Error(`Workflow instance not found: ${workflowInstanceId}`);
+    }
+
+    if (!instance.slaPausedAt) {
+      return null;
+    }
+
+    const resumedAt = new Date();
+    const calendar = await BusinessCalendarService.getTenantCalendar(instance.template.tenantId);
+    const { pausedHours, slaDue } = this.calculateResume(
+      { slaDue: instance.slaDue, slaPausedAt: instance.slaPausedAt },
+      resumedAt,
+      calendar
+    );
+
+    const openPause = await tx.workflowSlaPause.findFirst({
+      where: { workflowInstanceId, resumedAt: null },
+      orderBy: { pausedAt: 'desc' },
+    });
+
+    await tx.workflowInstance.update({
+      where: { id: workflowInstanceId },
+      data: {
+        slaDue,
+        slaPausedAt: null,
+        slaPausedHours: instance.slaPausedHours + pausedHours,
+      },
+    });
+
+    const pause = openPause
+      ? await tx.workflowSlaPause.update({
+          where: { id: openPause.id },
+          data: { resumedAt, resumedBy: actorId, pausedHours },
+        })
+      : null;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return pause as any;
+  }
+
+  /**
+   * Get the pause periods of an instance, oldest first
+   */
+  static async getPauseHistory(workflowInstanceId: string): Promise<SLAPause[]> {
+    const pauses = await prisma.workflowSlaPause.findMany({
+      where: { workflowInstanceId },
+      orderBy: { pausedAt: 'asc' },
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return pauses as any;
   }
 
   /**
@@ -97,6 +400,7 @@ export class SLAManagementService {
         where: { id: workflowInstanceId },
         include: {
           currentStage: true,
+          template: { select: { tenantId: true } },
         },
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
       } as any);
@@ -105,8 +409,18 @@ export class SLAManagementService {
         return null;
       }
 
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      return this.calculateSLACompliance(instance as any);
+      const calendar = await BusinessCalendarService.getTenantCalendar(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (instance as any).template.tenantId
+      );
+      const templateBands = await this.getThresholdBands([instance.workflowTemplateId]);
+
+      return this.calculateSLACompliance(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        instance as any,
+        calendar,
+        templateBands.get(instance.workflowTemplateId)
+      );
     } catch (error) {
       console.error(`Failed to get SLA compliance for instance ${workflowInstanceId}: ${error}`);
       return null;
@@ -131,12 +445,23 @@ export class SLAManagementService {
         },
         include: {
           currentStage: true,
+          template: { select: { tenantId: true } },
         },
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
       })) as any[];
+      const calendars = await BusinessCalendarService.getTenantCalendars(
+        instances.map((i) => i.template.tenantId)
+      );
+      const templateBands = await this.getThresholdBands(
+        instances.map((i) => i.workflowTemplateId)
+      );
 
       for (const instance of instances) {
-        const compliance = this.calculateSLACompliance(instance);
+        const compliance = this.calculateSLACompliance(
+          instance,
+          calendars.get(instance.template.tenantId),
+          templateBands.get(instance.workflowTemplateId)
+        );
         results.set(instance.id, compliance);
       }
     } catch (error) {
@@ -148,9 +473,13 @@ export class SLAManagementService {
 
   /**
    * Check all workflows for SLA warnings
+   * Warnings are the instances that reached minimumBand without breaching; passing 'Info'
+   * includes those that have only reached an Info band
+   * Instances with a stopped clock are left out
    */
   static async checkSLAWarnings(
-    tenantId: string
+    tenantId: string,
+    minimumBand: SLABandLevel = 'Warning'
   ): Promise<{ warnings: SLAComplianceInfo[]; breaches: SLAComplianceInfo[] }> {
     const warnings: SLAComplianceInfo[] = [];
     const breaches: SLAComplianceInfo[] = [];
@@ -160,19 +489,29 @@ export class SLAManagementService {
       const instances = (await prisma.workflowInstance.findMany({
         where: {
           status: { in: ['InProgress', 'Returned'] },
+          template: { tenantId },
+          slaPausedAt: null,
         },
         include: {
           currentStage: true,
         },
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
       })) as any[];
+      const calendar = await BusinessCalendarService.getTenantCalendar(tenantId);
+      const templateBands = await this.getThresholdBands(
+        instances.map((i) => i.workflowTemplateId)
+      );
 
       for (const instance of instances) {
-        const compliance = this.calculateSLACompliance(instance);
+        const compliance = this.calculateSLACompliance(
+          instance,
+          calendar,
+          templateBands.get(instance.workflowTemplateId)
+        );
 
         if (compliance.currentStatus === 'Breached') {
           breaches.push(compliance);
-        } else if (compliance.currentStatus === 'Warning') {
+        } else if (this.compareBands(compliance.band, minimumBand) >= 0) {
           warnings.push(compliance);
         }
       }
@@ -184,138 +523,165 @@ export class SLAManagementService {
   }
 
   /**
-   * Record SLA history snapshot
+   * Persist the SLA fact of the stage an instance is leaving
+   * Pass the instance as it was before the transition; failures are logged rather than
+   * thrown so reporting cannot block the workflow
    */
-  static async recordSLAHistory(workflowInstanceId: string): Promise<SLAHistoryRecord | null> {
+  static async recordSLAHistory(
+    instance: {
+      id: string;
+      workflowTemplateId: string;
+      currentStageId: string;
+      currentStageStarted: Date;
+      slaDue: Date;
+      slaPausedAt?: Date | null;
+      slaPausedHours?: number;
+    },
+    outcome: SLAStageOutcome,
+    closedBy: string | null
+  ): Promise<SLAHistoryRecord | null> {
     try {
-      const compliance = await this.getSLACompliance(workflowInstanceId);
-
-      if (!compliance) {
+      const [stage, template] = await Promise.all([
+        prisma.workflowStage.findUnique({ where: { id: instance.currentStageId } }),
+        prisma.workflowTemplate.findUnique({
+          where: { id: instance.workflowTemplateId },
+          select: { tenantId: true, templateFamilyId: true },
+        }),
+      ]);
+
+      if (!stage || !template) {
         return null;
       }
 
-      // Create history record
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const historyRecord = {
-        id: `sla-${workflowInstanceId}-${Date.now()}`,
-        workflowInstanceId,
-        stageId: compliance.stageId,
-        stageName: compliance.stageName,
-        startTime: compliance.stageStartedAt,
-        endTime: new Date(),
-        slaDueTime: compliance.slaDueAt,
-        totalHours: compliance.totalSLAHours,
-        hoursUsed: compliance.hoursUsed,
-        status: compliance.currentStatus,
-        isBreached: compliance.isOverdue,
-        hoursBreach: compliance.hoursBreach,
-        recordedAt: new Date(),
-      };
+      const exitedAt = new Date();
+      const calendar = await BusinessCalendarService.getTenantCalendar(template.tenantId);
+      const templateBands = await this.getThresholdBands([instance.workflowTemplateId]);
+      const compliance = this.calculateSLACompliance(
+        { ...instance, currentStage: stage },
+        calendar,
+        templateBands.get(instance.workflowTemplateId)
+      );
 
-      // In production, this would be persisted to database
-      // For now, we return the record
-      return historyRecord as unknown as SLAHistoryRecord;
+      const fact = await prisma.workflowSlaFact.create({
+        data: {
+          tenantId: template.tenantId,
+          workflowInstanceId: instance.id,
+          workflowTemplateId: instance.workflowTemplateId,
+          templateFamilyId: template.templateFamilyId || instance.workflowTemplateId,
+          stageId: stage.id,
+          stageKey: stage.stageKey,
+          stageName: stage.name,
+          enteredAt: instance.currentStageStarted,
+          exitedAt,
+          exitMonth: exitedAt.toISOString().slice(0, 7),
+          slaDueAt: instance.slaDue,
+          slaHours: compliance.totalSLAHours,
+          cycleHours:
+            Math.round(
+              BusinessCalendarService.workingHoursBetween(
+                instance.currentStageStarted,
+                exitedAt,
+                calendar
+              ) * 10
+            ) / 10,
+          hoursUsed: compliance.hoursUsed,
+          pausedHours: compliance.pausedHours,
+          percentageUsed: compliance.percentageUsed,
+          status: compliance.currentStatus,
+          band: compliance.band,
+          isBreached: compliance.isOverdue,
+          hoursBreach: compliance.hoursBreach ?? null,
+          outcome,
+          closedBy,
+        },
+      });
+
+      return this.toHistoryRecord(fact as SLAStageFact);
     } catch (error) {
-      console.error(`Failed to record SLA history for ${workflowInstanceId}: ${error}`);
+      console.error(`Failed to record SLA history for ${instance.id}: ${error}`);
       return null;
     }
   }
 
   /**
-   * Query SLA metrics with filters
+   * Present a stored SLA fact as a history record
+   * Pure function with no side effects
+   */
+  static toHistoryRecord(fact: SLAStageFact): SLAHistoryRecord {
+    return {
+      id: fact.id,
+      workflowInstanceId: fact.workflowInstanceId,
+      stageId: fact.stageId,
+      stageName: fact.stageName,
+      startTime: fact.enteredAt,
+      endTime: fact.exitedAt,
+      slaDueTime: fact.slaDueAt,
+      totalHours: fact.slaHours,
+      hoursUsed: fact.hoursUsed,
+      pausedHours: fact.pausedHours,
+      cycleHours: fact.cycleHours,
+      status: fact.status,
+      isBreached: fact.isBreached,
+      ...(fact.hoursBreach !== null && { hoursBreach: fact.hoursBreach }),
+      outcome: fact.outcome,
+      recordedAt: fact.createdAt,
+    };
+  }
+
+  /**
+   * Query SLA metrics over recorded stage exits
+   * Counts and averages cover every matching exit; records are one page, newest first
    */
   static async querySLAMetrics(query: QuerySLAMetricsRequest): Promise<SLAMetricsResponse> {
     try {
-      // Build where clause
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const where: any = {
-        tenantId: query.tenantId,
-        status: { in: ['InProgress', 'Returned', 'Approved', 'Rejected'] },
-      };
+      let templateFamilyId: string | undefined;
 
       if (query.workflowTemplateId) {
-        where.workflowTemplateId = query.workflowTemplateId;
-      }
-
-      if (query.startDate || query.endDate) {
-        where.currentStageStarted = {};
-        if (query.startDate) {
-          where.currentStageStarted.gte = query.startDate;
-        }
-        if (query.endDate) {
-          where.currentStageStarted.lte = query.endDate;
-        }
-      }
-
-      // Get instances
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const instances = (await prisma.workflowInstance.findMany({
-        where,
-        include: {
-          currentStage: true,
-        },
-        orderBy: { currentStageStarted: 'desc' },
-        skip: query.skip || 0,
-        take: query.take || 50,
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      })) as any[];
-
-      // Calculate compliance for each
-      const records: SLAHistoryRecord[] = [];
-      let compliantCount = 0;
-      let warningCount = 0;
-      let breachedCount = 0;
-      let totalTimeInStage = 0;
-
-      for (const instance of instances) {
-        const compliance = this.calculateSLACompliance(instance);
-
-        if (query.status && compliance.currentStatus !== query.status) {
-          continue; // Skip if doesn't match filter
-        }
-
-        // Add to records
-        records.push({
-          id: instance.id,
-          workflowInstanceId: instance.id,
-          stageId: compliance.stageId,
-          stageName: compliance.stageName,
-          startTime: compliance.stageStartedAt,
-          endTime: new Date(),
-          slaDueTime: compliance.slaDueAt,
-          totalHours: compliance.totalSLAHours,
-          hoursUsed: compliance.hoursUsed,
-          status: compliance.currentStatus,
-          isBreached: compliance.isOverdue,
-          hoursBreach: compliance.hoursBreach || 0,
-          recordedAt: new Date(),
+        const template = await prisma.workflowTemplate.findUnique({
+          where: { id: query.workflowTemplateId },
+          select: { templateFamilyId: true },
         });
-
-        // Update counters
-        if (compliance.currentStatus === 'Compliant') {
-          compliantCount++;
-        } else if (compliance.currentStatus === 'Warning') {
-          warningCount++;
-        } else if (compliance.currentStatus === 'Breached') {
-          breachedCount++;
-        }
-
-        totalTimeInStage += compliance.hoursUsed;
+        templateFamilyId = template?.templateFamilyId || query.workflowTemplateId;
       }
 
-      const totalRecords = records.length;
-      const complianceRate =
-        totalRecords > 0 ? Math.round((compliantCount / totalRecords) * 100) : 0;
-      const averageTimeInStage = totalRecords > 0 ? totalTimeInStage / totalRecords : 0;
+      const where: Prisma.WorkflowSlaFactWhereInput = {
+        ...(query.tenantId && { tenantId: query.tenantId }),
+        ...(templateFamilyId && { templateFamilyId }),
+        ...(query.workflowInstanceId && { workflowInstanceId: query.workflowInstanceId }),
+        ...(query.stageName && { stageName: query.stageName }),
+        ...(query.status && { status: query.status }),
+        ...((query.startDate || query.endDate) && {
+          exitedAt: {
+            ...(query.startDate && { gte: query.startDate }),
+            ...(query.endDate && { lte: query.endDate }),
+          },
+        }),
+      };
+
+      const [statusCounts, totals, facts] = await Promise.all([
+        prisma.workflowSlaFact.groupBy({ by: ['status'], where, _count: { _all: true } }),
+        prisma.workflowSlaFact.aggregate({ where, _avg: { cycleHours: true } }),
+        prisma.workflowSlaFact.findMany({
+          where,
+          orderBy: { exitedAt: 'desc' },
+          skip: query.skip || 0,
+          take: query.take || 50,
+        }),
+      ]);
+
+      const countOf = (status: SLAStatus) =>
+        statusCounts.find((c) => c.status === status)?._count._all ?? 0;
+      const totalRecords = statusCounts.reduce((sum, c) => sum + c._count._all, 0);
+      const compliantCount = countOf('Compliant');
 
       return {
         totalRecords,
         compliantCount,
-        warningCount,
-        breachedCount,
-        complianceRate,
-        averageTimeInStage: Math.round(averageTimeInStage * 10) / 10,
-        records,
+        warningCount: countOf('Warning'),
+        breachedCount: countOf('Breached'),
+        complianceRate: totalRecords > 0 ? Math.round((compliantCount / totalRecords) * 100) : 0,
+        averageTimeInStage: Math.round((totals._avg.cycleHours ?? 0) * 10) / 10,
+        records: facts.map((fact) => this.toHistoryRecord(fact as SLAStageFact)),
       };
     } catch (error) {
       console.error(`Failed to query SLA metrics: ${error}`);
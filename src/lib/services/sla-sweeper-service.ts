@@ -0,0 +1,191 @@
+/**
+ * SLA Sweeper Service
+ * Background job that sends SLA warning and breach notifications and runs escalation rules
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { SLAThresholdBand } from '@/types/escalation';
+import { ScheduledJob, SLASweepStats } from '@/types/scheduler';
+import { BusinessCalendarService } from './business-calendar-service';
+import { EscalationExecutor } from './escalation-executor';
+import { EscalationService } from './escalation-service';
+import { SLAManagementService } from './sla-management-service';
+import { WorkflowNotificationIntegration } from './workflow-notification-integration';
+
+const prisma = new PrismaClient();
+
+/**
+ * Instances loaded per query while scanning a tenant
+ */
+const PAGE_SIZE = 200;
+
+// ============================================================================
+// SLA SWEEPER SERVICE
+// ============================================================================
+
+export class SLASweeperService {
+  static readonly JOB_NAME = 'sla-sweep';
+
+  /**
+   * Scheduler job that sweeps every intervalMinutes
+   */
+  static createJob(intervalMinutes: number): ScheduledJob {
+    return {
+      name: this.JOB_NAME,
+      intervalMs: intervalMinutes * 60 * 1000,
+      run: async (renewLease) => ({ ...(await this.sweep(renewLease)) }),
+    };
+  }
+
+  /**
+   * Scan the in-progress, unpaused instances of every active tenant
+   * Each warning and breach is notified once per stage entry; escalation rules
+   * keep their own cooldown and maximum
+   * The scheduler lease is renewed before each page, and the sweep stops once another
+   * node holds it so that two nodes never escalate the same instances
+   */
+  static async sweep(
+    renewLease: () => Promise<boolean> = async () => true
+  ): Promise<SLASweepStats> {
+    const stats: SLASweepStats = {
+      tenantsScanned: 0,
+      instancesScanned: 0,
+      warningsSent: 0,
+      breachesSent: 0,
+      escalationsTriggered: 0,
+      failures: 0,
+    };
+
+    const tenants = await prisma.tenant.findMany({
+      where: { status: 'active' },
+      select: { id: true, settings: true },
+    });
+
+    for (const tenant of tenants) {
+      await this.sweepTenant(tenant.id, tenant.settings, stats, renewLease);
+      stats.tenantsScanned++;
+    }
+
+    return stats;
+  }
+
+  /**
+   * Scan one tenant in pages ordered by SLA due date
+   */
+  private static async sweepTenant(
+    tenantId: string,
+    settings: unknown,
+    stats: SLASweepStats,
+    renewLease: () => Promise<boolean>
+  ): Promise<void> {
+    const calendar = BusinessCalendarService.resolveCalendar(settings);
+    const policyIds = new Map<string, string | null>();
+    const templateBands = new Map<string, SLAThresholdBand[]>();
+    let cursor: string | undefined;
+
+    for (;;) {
+      if (!(await renewLease())) {
+        throw new Error(`Lease lost: ${this.JOB_NAME} is now held by another node`);
+      }
+
+      const instances = await prisma.workflowInstance.findMany({
+        where: { status: 'InProgress', slaPausedAt: null, template: { tenantId } },
+        include: { currentStage: true },
+        orderBy: [{ slaDue: 'asc' }, { id: 'asc' }],
+        take: PAGE_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      const loadedBands = await SLAManagementService.getThresholdBands(
+        instances.map((i) => i.workflowTemplateId).filter((id) => !templateBands.has(id))
+      );
+      loadedBands.forEach((bands, templateId) => templateBands.set(templateId, bands));
+
+      for (const instance of instances) {
+        stats.instancesScanned++;
+
+        try {
+          const compliance = SLAManagementService.calculateSLACompliance(
+            instance,
+            calendar,
+            templateBands.get(instance.workflowTemplateId)
+          );
+
+          if (compliance.currentStatus === 'Breached') {
+            if (await this.claimNotification(instance, 'Breach')) {
+              await WorkflowNotificationIntegration.notifySLABreach(
+                instance.id,
+                tenantId,
+                compliance.stageName,
+                compliance.hoursBreach || 0
+              );
+              stats.breachesSent++;
+            }
+          } else if (compliance.band === 'Warning' || compliance.band === 'Critical') {
+            // Reaching the Critical band notifies again
+            if (await this.claimNotification(instance, compliance.band)) {
+              await WorkflowNotificationIntegration.notifySLAWarning(
+                instance.id,
+                tenantId,
+                compliance.stageName,
+                compliance.hoursRemaining || 0
+              );
+              stats.warningsSent++;
+            }
+          } else if (!compliance.band) {
+            continue;
+          }
+
+          if (!policyIds.has(instance.workflowTemplateId)) {
+            const policy = await EscalationService.getPolicyForTemplate(
+              instance.workflowTemplateId,
+              tenantId
+            );
+            policyIds.set(instance.workflowTemplateId, policy?.id ?? null);
+          }
+
+          const policyId = policyIds.get(instance.workflowTemplateId);
+
+          if (
+            policyId &&
+            (await EscalationExecutor.checkAndEscalate(instance.id, tenantId, policyId, null))
+          ) {
+            stats.escalationsTriggered++;
+          }
+        } catch (error) {
+          console.error(`Failed to sweep workflow ${instance.id}:`, error);
+          stats.failures++;
+        }
+      }
+
+      if (instances.length < PAGE_SIZE) {
+        return;
+      }
+
+      cursor = instances[instances.length - 1]!.id;
+    }
+  }
+
+  /**
+   * Record that a notification is being sent for the current stage entry
+   * Returns false when it was already sent, by this node or another
+   */
+  private static async claimNotification(
+    instance: { id: string; currentStageId: string; currentStageStarted: Date },
+    type: 'Warning' | 'Critical' | 'Breach'
+  ): Promise<boolean> {
+    const { count } = await prisma.workflowSlaNotification.createMany({
+      data: [
+        {
+          workflowInstanceId: instance.id,
+          stageId: instance.currentStageId,
+          stageStartedAt: instance.currentStageStarted,
+          type,
+        },
+      ],
+      skipDuplicates: true,
+    });
+
+    return count > 0;
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Stage Approval Service
+ * Evaluates Any / All / Quorum approval rules from recorded stage actions
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  ActionResult,
+  ApprovalMode,
+  ApprovalRuleEvaluation,
+  EligibleApprovers,
+  StageAction,
+  WorkflowStage,
+} from '@/types/workflow';
+
+const prisma = new PrismaClient();
+
+// ============================================================================
+// STAGE APPROVAL SERVICE
+// ============================================================================
+
+export class StageApprovalService {
+  /**
+   * Get the actions recorded since the instance entered its current stage
+   * Actions from earlier visits (before a return) do not count
+   */
+  static async getCurrentStageActions(
+    instance: {
+      id: string;
+      currentStageId: string;
+      currentStageStarted: Date;
+    },
+    tx: Prisma.TransactionClient = prisma
+  ): Promise<StageAction[]> {
+    const actions = await tx.stageAction.findMany({
+      where: {
+        workflowInstanceId: instance.id,
+        stageId: instance.currentStageId,
+        actionDate: { gte: instance.currentStageStarted },
+      },
+      orderBy: { actionDate: 'asc' },
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return actions as any;
+  }
+
+  /**
+   * Count distinct users eligible across all responsibilities of a stage
+   * Pure function with no side effects
+   */
+  static countEligibleApprovers(eligibleApprovers: EligibleApprovers[]): number {
+    return new Set(eligibleApprovers.flatMap((e) => e.userIds)).size;
+  }
+
+  /**
+   * Get the user a vote counts for: the principal when cast by a delegate
+   * Pure function with no side effects
+   */
+  static getVoterId(action: Pick<StageAction, 'actorId' | 'principalId'>): string {
+    return action.principalId || action.actorId;
+  }
+
+  /**
+   * Check whether a voter (directly or through a delegate) already voted in the current stage entry
+   * Pure function with no side effects
+   */
+  static hasActorVoted(
+    actions: Array<Pick<StageAction, 'actorId' | 'principalId' | 'action'>>,
+    voterId: string
+  ): boolean {
+    return actions.some(
+      (a) => this.getVoterId(a) === voterId && (a.action === 'Approved' || a.action === 'Rejected')
+    );
+  }
+
+  /**
+   * Get the number of distinct approvals a stage needs
+   * Pure function with no side effects
+   */
+  static getRequiredApprovals(
+    stage: Pick<WorkflowStage, 'approvalMode' | 'requiredApprovals'>,
+    eligibleApprovers: number
+  ): number {
+    switch (stage.approvalMode as ApprovalMode) {
+      case 'All':
+        return Math.max(eligibleApprovers, 1);
+      case 'Quorum':
+        return Math.max(stage.requiredApprovals ?? 1, 1);
+      default:
+        return 1;
+    }
+  }
+
+  /**
+   * Evaluate a stage's approval rule against its recorded actions
+   * Each voter counts once, using their latest vote; delegated votes count for the principal
+   * Pure function with no side effects
+   */
+  static evaluateApprovalRule(
+    stage: Pick<WorkflowStage, 'approvalMode' | 'requiredApprovals'>,
+    actions: Array<Pick<StageAction, 'actorId' | 'principalId' | 'action'>>,
+    eligibleApprovers: number
+  ): ApprovalRuleEvaluation {
+    const approvalMode = (stage.approvalMode || 'Any') as ApprovalMode;
+    const votes = new Map<string, ActionResult>();
+
+    for (const action of actions) {
+      if (action.action === 'Approved' || action.action === 'Rejected') {
+        votes.set(this.getVoterId(action), action.action);
+      }
+    }
+
+    const tally = Array.from(votes.values());
+    const approvals = tally.filter((v) => v === 'Approved').length;
+    const rejections = tally.filter((v) => v === 'Rejected').length;
+    const requiredApprovals = this.getRequiredApprovals(stage, eligibleApprovers);
+
+    // 'Any' and 'All' fail on the first rejection; a quorum fails once the remaining
+    // eligible approvers can no longer reach it, including one larger than the stage's approvers
+    const isDefeated =
+      approvalMode === 'Quorum'
+        ? eligibleApprovers - rejections < requiredApprovals
+        : rejections > 0;
+
+    return {
+      approvalMode,
+      approvals,
+      rejections,
+      requiredApprovals,
+      eligibleApprovers,
+      isMet: !isDefeated && approvals >= requiredApprovals,
+      isDefeated,
+    };
+  }
+}
@@ -0,0 +1,289 @@
+/**
+ * Stage Responsibility Service
+ * Resolves stage responsibilities (Role / Position / User) against actors and entities
+ */
+
+import { PrismaClient } from '@prisma/client';
+import {
+  ResponsibilityType,
+  StageResponsibility,
+  StageEntityContext,
+  StagePosition,
+  EligibleApprovers,
+} from '@/types/workflow';
+import { RoleContextType, UserRolesContext } from '@/types/rbac';
+
+const prisma = new PrismaClient();
+
+/**
+ * Position holders of a program or project
+ */
+type EntityPositions = {
+  sponsorId: string | null;
+  pmId: string | null;
+  requesterId: string | null;
+};
+
+// ============================================================================
+// STAGE RESPONSIBILITY SERVICE
+// ============================================================================
+
+export class StageResponsibilityService {
+  /**
+   * Resolve the program/project context of a workflow instance
+   * Projects and initiatives inherit the program they belong to
+   */
+  static async resolveEntityContext(
+    tenantId: string,
+    instance: { entityType: string; entityId: string; projectId?: string | null }
+  ): Promise<StageEntityContext> {
+    const project =
+      instance.entityType === 'Program'
+        ? null
+        : await prisma.project.findFirst({
+            where: { id: instance.projectId || instance.entityId, tenantId },
+            select: { id: true, programId: true, sponsorId: true, pmId: true, requesterId: true },
+          });
+
+    const programId = instance.entityType === 'Program' ? instance.entityId : project?.programId;
+    const program = programId
+      ? await prisma.program.findFirst({
+          where: { id: programId, tenantId },
+          select: { sponsorId: true, pmId: true, requesterId: true },
+        })
+      : null;
+
+    return this.buildEntityContext(tenantId, instance, project, program);
+  }
+
+  /**
+   * Build an entity context from an instance's already-loaded project and program
+   * Pure function with no side effects
+   */
+  static buildEntityContext(
+    tenantId: string,
+    instance: { entityType: string; entityId: string },
+    project: (EntityPositions & { id: string; programId: string | null }) | null,
+    program: EntityPositions | null
+  ): StageEntityContext {
+    const positions = (entity: EntityPositions) => ({
+      Sponsor: entity.sponsorId,
+      PM: entity.pmId,
+      Requester: entity.requesterId,
+    });
+
+    return {
+      tenantId,
+      programId: instance.entityType === 'Program' ? instance.entityId : project?.programId || null,
+      projectId: project?.id || null,
+      programPositions: program ? positions(program) : {},
+      projectPositions: project ? positions(project) : {},
+    };
+  }
+
+  /**
+   * Get the role contexts that satisfy a responsibility scope
+   * Global roles always apply; program roles apply to the program's projects
+   * Pure function with no side effects
+   */
+  static getApplicableContexts(
+    scope: string,
+    entityContext: Pick<StageEntityContext, 'programId' | 'projectId'>
+  ): Array<{ contextType: RoleContextType; contextId: string | null }> {
+    const contexts: Array<{ contextType: RoleContextType; contextId: string | null }> = [
+      { contextType: 'Global', contextId: null },
+    ];
+
+    if (scope === 'Global') {
+      return contexts;
+    }
+
+    if (entityContext.programId) {
+      contexts.push({ contextType: 'Program', contextId: entityContext.programId });
+    }
+
+    if (scope === 'Project' && entityContext.projectId) {
+      contexts.push({ contextType: 'Project', contextId: entityContext.projectId });
+    }
+
+    return contexts;
+  }
+
+  /**
+   * Get the user holding a position referenced by a 'Position' responsibility
+   * Program scope reads the program; other scopes read the entity itself
+   * Pure function with no side effects
+   */
+  static getPositionHolder(
+    responsibility: Pick<StageResponsibility, 'value' | 'scope'>,
+    entityContext: StageEntityContext
+  ): string | null {
+    const holders =
+      responsibility.scope === 'Program' || !entityContext.projectId
+        ? entityContext.programPositions
+        : entityContext.projectPositions;
+
+    return holders[responsibility.value as StagePosition] ?? null;
+  }
+
+  /**
+   * Check whether an actor satisfies a single responsibility
+   * Pure function with no side effects
+   */
+  static actorMatches(
+    responsibility: Pick<StageResponsibility, 'type' | 'value' | 'scope'>,
+    actorId: string,
+    rolesContext: Pick<UserRolesContext, 'globalRoles' | 'programRoles' | 'projectRoles'>,
+    entityContext: StageEntityContext
+  ): boolean {
+    switch (responsibility.type) {
+      case 'User':
+        return responsibility.value === actorId;
+
+      case 'Position':
+        return this.getPositionHolder(responsibility, entityContext) === actorId;
+
+      case 'Role':
+        return this.getApplicableContexts(responsibility.scope, entityContext).some((ctx) => {
+          const roles: string[] =
+            ctx.contextType === 'Global'
+              ? rolesContext.globalRoles
+              : ctx.contextType === 'Program'
+                ? rolesContext.programRoles.get(ctx.contextId!) || []
+                : rolesContext.projectRoles.get(ctx.contextId!) || [];
+          return roles.includes(responsibility.value);
+        });
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Get the responsibilities in force for an instance's current stage
+   * An escalation reassignment replaces the stage's own responsibilities, but only for
+   * the stage entry it was made in; a reassigned role matches at any applicable level
+   * Pure function with no side effects
+   */
+  static getEffectiveResponsibilities(
+    instance: {
+      id: string;
+      currentStageId: string;
+      currentStageStarted: Date;
+      assigneeType?: string | null;
+      assigneeValue?: string | null;
+      assignedStageId?: string | null;
+      assignedAt?: Date | null;
+    },
+    responsibilities: StageResponsibility[]
+  ): StageResponsibility[] {
+    if (
+      !instance.assigneeType ||
+      !instance.assigneeValue ||
+      !instance.assignedAt ||
+      instance.assignedStageId !== instance.currentStageId ||
+      instance.assignedAt < instance.currentStageStarted
+    ) {
+      return responsibilities;
+    }
+
+    return [
+      {
+        id: `reassignment:${instance.id}`,
+        stageId: instance.currentStageId,
+        type: instance.assigneeType as ResponsibilityType,
+        value: instance.assigneeValue,
+        scope: 'Project',
+        notificationMethod: 'Both',
+        createdAt: instance.assignedAt,
+      },
+    ];
+  }
+
+  /**
+   * Find the first responsibility an actor satisfies
+   */
+  static findMatchingResponsibility<
+    T extends Pick<StageResponsibility, 'type' | 'value' | 'scope'>,
+  >(
+    responsibilities: T[],
+    actorId: string,
+    rolesContext: Pick<UserRolesContext, 'globalRoles' | 'programRoles' | 'projectRoles'>,
+    entityContext: StageEntityContext
+  ): T | null {
+    return (
+      responsibilities.find((r) => this.actorMatches(r, actorId, rolesContext, entityContext)) ||
+      null
+    );
+  }
+
+  /**
+   * Resolve every user eligible under each responsibility
+   * Role assignments are loaded in a single query for all Role responsibilities
+   */
+  static async resolveEligibleApprovers(
+    responsibilities: StageResponsibility[],
+    entityContext: StageEntityContext
+  ): Promise<EligibleApprovers[]> {
+    const roleNames = Array.from(
+      new Set(responsibilities.filter((r) => r.type === 'Role').map((r) => r.value))
+    );
+
+    const roleAssignments =
+      roleNames.length > 0
+        ? await prisma.userRole.findMany({
+            where: {
+              role: { in: roleNames },
+              isActive: true,
+              user: { tenantId: entityContext.tenantId, isActive: true, deletedAt: null },
+              OR: [{ validUntil: null }, { validUntil: { gt: new Date() } }],
+            },
+            select: { userId: true, role: true, contextType: true, contextId: true },
+          })
+        : [];
+
+    return responsibilities.map((responsibility) => {
+      let userIds: string[] = [];
+
+      if (responsibility.type === 'User') {
+        userIds = [responsibility.value];
+      } else if (responsibility.type === 'Position') {
+        const holder = this.getPositionHolder(responsibility, entityContext);
+        userIds = holder ? [holder] : [];
+      } else if (responsibility.type === 'Role') {
+        const contexts = this.getApplicableContexts(responsibility.scope, entityContext);
+        userIds = roleAssignments
+          .filter(
+            (a) =>
+              a.role === responsibility.value &&
+              contexts.some(
+                (ctx) =>
+                  ctx.contextType === a.contextType &&
+                  (ctx.contextType === 'Global' || ctx.contextId === a.contextId)
+              )
+          )
+          .map((a) => a.userId);
+      }
+
+      return {
+        responsibilityId: responsibility.id,
+        type: responsibility.type,
+        value: responsibility.value,
+        scope: responsibility.scope,
+        userIds: Array.from(new Set(userIds)),
+      };
+    });
+  }
+
+  /**
+   * Check that an actor is an active user of the tenant
+   */
+  static async isActiveTenantUser(actorId: string, tenantId: string): Promise<boolean> {
+    const user = await prisma.user.findFirst({
+      where: { id: actorId, tenantId, isActive: true, deletedAt: null },
+      select: { id: true },
+    });
+
+    return !!user;
+  }
+}
@@ -0,0 +1,454 @@
+/**
+ * Stage Transition Service
+ * Conditional branching between workflow stages based on request payload and entity fields
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  ConditionOperator,
+  CreateStageTransitionRequest,
+  FieldCondition,
+  StageTransition,
+  TransitionCondition,
+  TransitionConditionContext,
+  UpdateStageTransitionRequest,
+} from '@/types/workflow';
+import { WorkflowVersionService } from './workflow-version-service';
+
+const prisma = new PrismaClient();
+
+const OPERATORS: ConditionOperator[] = [
+  'eq',
+  'neq',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'notIn',
+  'exists',
+];
+const FIELD_ROOTS = ['request', 'entity', 'derived'];
+
+/**
+ * Stage and its outgoing routes, as used when checking a template for loops
+ */
+type RoutableStage = {
+  id: string;
+  stageOrder: number;
+  outgoingTransitions: { toStageId: string | null }[];
+};
+
+// ============================================================================
+// STAGE TRANSITION SERVICE
+// ============================================================================
+
+export class StageTransitionService {
+  /**
+   * Create a conditional transition between two stages of the same template
+   */
+  static async createTransition(data: CreateStageTransitionRequest): Promise<StageTransition> {
+    const fromStage = await prisma.workflowStage.findUnique({ where: { id: data.fromStageId } });
+
+    if (!fromStage) {
+      throw new Error(`Stage not found: ${data.fromStageId}`);
+    }
+
+    await WorkflowVersionService.assertTemplateEditable(fromStage.workflowTemplateId);
+    await this.assertValidTarget(fromStage, data.toStageId);
+    this.assertValidCondition(data.condition);
+
+    const transition = await prisma.stageTransition.create({
+      data: {
+        fromStageId: data.fromStageId,
+        toStageId: data.toStageId,
+        priority: data.priority ?? 0,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        condition: (data.condition ?? undefined) as any,
+        description: data.description || null,
+      },
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return transition as any;
+  }
+
+  /**
+   * Update a transition leaving the given stage
+   */
+  static async updateTransition(
+    stageId: string,
+    transitionId: string,
+    data: UpdateStageTransitionRequest
+  ): Promise<StageTransition> {
+    const transition = await prisma.stageTransition.findFirst({
+      where: { id: transitionId, fromStageId: stageId },
+      include: { fromStage: { select: { id: true, workflowTemplateId: true } } },
+    });
+
+    if (!transition) {
+      throw new Error(`Transition not found: ${transitionId}`);
+    }
+
+    await WorkflowVersionService.assertTemplateEditable(transition.fromStage.workflowTemplateId);
+
+    if (data.toStageId !== undefined) {
+      await this.assertValidTarget(transition.fromStage, data.toStageId, transitionId);
+    }
+    this.assertValidCondition(data.condition);
+
+    const { condition, ...fields } = data;
+    const updated = await prisma.stageTransition.update({
+      where: { id: transitionId },
+      data: {
+        ...fields,
+        ...(condition !== undefined && {
+          condition: condition ? (condition as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+        }),
+      },
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return updated as any;
+  }
+
+  /**
+   * Delete a transition leaving the given stage
+   */
+  static async deleteTransition(stageId: string, transitionId: string): Promise<void> {
+    const transition = await prisma.stageTransition.findFirst({
+      where: { id: transitionId, fromStageId: stageId },
+      include: { fromStage: { select: { workflowTemplateId: true } } },
+    });
+
+    if (!transition) {
+      throw new Error(`Transition not found: ${transitionId}`);
+    }
+
+    await WorkflowVersionService.assertTemplateEditable(transition.fromStage.workflowTemplateId);
+
+    await prisma.stageTransition.delete({ where: { id: transitionId } });
+  }
+
+  /**
+   * Whether routing from a stage to a target can lead back to that stage,
+   * following transitions and the fall-through to the next stage by order
+   */
+  static createsLoop(stages: RoutableStage[], fromStageId: string, toStageId: string): boolean {
+    const ordered = [...stages].sort((a, b) => a.stageOrder - b.stageOrder);
+    const visited = new Set<string>();
+    const pending = [toStageId];
+
+    while (pending.length > 0) {
+      const stageId = pending.pop() as string;
+
+      if (stageId === fromStageId) return true;
+      if (visited.has(stageId)) continue;
+      visited.add(stageId);
+
+      const index = ordered.findIndex((stage) => stage.id === stageId);
+      const stage = ordered[index];
+      if (!stage) continue;
+
+      // No matching transition falls through to the next stage
+      const next = ordered[index + 1];
+      if (next) pending.push(next.id);
+
+      for (const transition of stage.outgoingTransitions) {
+        if (transition.toStageId) pending.push(transition.toStageId);
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Reject targets outside the template and targets that route back to the source stage
+   */
+  private static async assertValidTarget(
+    fromStage: { id: string; workflowTemplateId: string },
+    toStageId: string | null,
+    transitionId?: string
+  ): Promise<void> {
+    if (!toStageId) return;
+
+    const stages = await prisma.workflowStage.findMany({
+      where: { workflowTemplateId: fromStage.workflowTemplateId },
+      select: {
+        id: true,
+        stageOrder: true,
+        outgoingTransitions: { select: { id: true, toStageId: true } },
+      },
+    });
+
+    if (!stages.some((stage) => stage.id === toStageId)) {
+      throw new Error(`Target stage not found in template: ${toStageId}`);
+    }
+
+    // An updated transition is replaced, so its current route does not count
+    const routes = stages.map((stage) => ({
+      ...stage,
+      outgoingTransitions: stage.outgoingTransitions.filter((t) => t.id !== transitionId),
+    }));
+
+    if (this.createsLoop(routes, fromStage.id, toStageId)) {
+      throw new Error(`Transition would create a routing loop: ${fromStage.id} -> ${toStageId}`);
+    }
+  }
+
+  private static assertValidCondition(condition: TransitionCondition | null | undefined): void {
+    if (!condition) return;
+
+    const errors = this.validateCondition(condition);
+    if (errors.length > 0) {
+      throw new Error(`Invalid transition condition: ${errors.join('; ')}`);
+    }
+  }
+
+  /**
+   * Get outgoing transitions for a stage (evaluation order)
+   */
+  static async getTransitionsForStage(stageId: string): Promise<StageTransition[]> {
+    const transitions = await prisma.stageTransition.findMany({
+      where: { fromStageId: stageId },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return transitions as any;
+  }
+
+  /**
+   * Load the entity behind a workflow instance and build the condition context
+   */
+  static async loadConditionContext(
+    tenantId: string,
+    instance: { entityType: string; entityId: string; requestData: unknown }
+  ): Promise<TransitionConditionContext> {
+    const select = { budget: true, complexityBand: true, status: true } as const;
+
+    const entity =
+      instance.entityType === 'Program'
+        ? await prisma.program.findFirst({ where: { id: instance.entityId, tenantId }, select })
+        : await prisma.project.findFirst({
+            where: { id: instance.entityId, tenantId },
+            select: { ...select, type: true },
+          });
+
+    return this.buildConditionContext(
+      (instance.requestData as Record<string, unknown>) || {},
+      entity
+        ? {
+            budget: Number(entity.budget),
+            complexityBand: entity.complexityBand,
+            status: entity.status,
+            type: 'type' in entity ? String(entity.type) : instance.entityType,
+          }
+        : {}
+    );
+  }
+
+  /**
+   * Build the condition context from request data and entity fields
+   * Pure function with no side effects
+   */
+  static buildConditionContext(
+    requestData: Record<string, unknown>,
+    entity: TransitionConditionContext['entity']
+  ): TransitionConditionContext {
+    const budgetChangePercent = this.calculateBudgetChangePercent(
+      entity.budget,
+      requestData.budget
+    );
+
+    return {
+      request: requestData,
+      entity,
+      derived: {
+        ...(budgetChangePercent !== undefined && { budgetChangePercent }),
+      },
+    };
+  }
+
+  /**
+   * Calculate the absolute budget change as a percentage of the current budget
+   * Pure function with no side effects
+   */
+  static calculateBudgetChangePercent(
+    currentBudget: number | undefined,
+    requestedBudget: unknown
+  ): number | undefined {
+    const requested = this.toNumber(requestedBudget);
+
+    if (currentBudget === undefined || Number.isNaN(requested)) {
+      return undefined;
+    }
+
+    if (currentBudget === 0) {
+      return requested === 0 ? 0 : Number.POSITIVE_INFINITY;
+    }
+
+    return (Math.abs(requested - currentBudget) / Math.abs(currentBudget)) * 100;
+  }
+
+  /**
+   * Resolve a dotted field path against the condition context
+   * Pure function with no side effects
+   */
+  static resolveField(field: string, context: TransitionConditionContext): unknown {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let value: any = context;
+
+    for (const part of field.split('.')) {
+      if (value === null || value === undefined || typeof value !== 'object') {
+        return undefined;
+      }
+      value = value[part];
+    }
+
+    return value;
+  }
+
+  /**
+   * Evaluate a condition tree against the condition context
+   * Pure function with no side effects
+   */
+  static evaluateCondition(
+    condition: TransitionCondition | null | undefined,
+    context: TransitionConditionContext
+  ): boolean {
+    if (!condition) {
+      return true;
+    }
+
+    if ('all' in condition) {
+      return condition.all.every((c) => this.evaluateCondition(c, context));
+    }
+
+    if ('any' in condition) {
+      return condition.any.some((c) => this.evaluateCondition(c, context));
+    }
+
+    if ('not' in condition) {
+      return !this.evaluateCondition(condition.not, context);
+    }
+
+    return this.compare(this.resolveField(condition.field, context), condition);
+  }
+
+  /**
+   * Select the first transition whose condition matches
+   * Transitions are considered in ascending priority; ties keep their given order
+   * Pure function with no side effects
+   */
+  static selectTransition<T extends Pick<StageTransition, 'priority' | 'condition'>>(
+    transitions: T[],
+    context: TransitionConditionContext
+  ): T | null {
+    const ordered = transitions
+      .map((transition, index) => ({ transition, index }))
+      .sort((a, b) => a.transition.priority - b.transition.priority || a.index - b.index);
+
+    return (
+      ordered.find(({ transition }) => this.evaluateCondition(transition.condition, context))
+        ?.transition || null
+    );
+  }
+
+  /**
+   * Validate the structure of a condition tree
+   * Returns a list of problems; empty when valid
+   * Pure function with no side effects
+   */
+  static validateCondition(condition: unknown, path = 'condition'): string[] {
+    if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+      return [`${path} must be an object`];
+    }
+
+    const node = condition as Record<string, unknown>;
+
+    if ('all' in node || 'any' in node) {
+      const key = 'all' in node ? 'all' : 'any';
+      const children = node[key];
+      if (!Array.isArray(children) || children.length === 0) {
+        return [`${path}.${key} must be a non-empty array`];
+      }
+      return children.flatMap((c, i) => this.validateCondition(c, `${path}.${key}[${i}]`));
+    }
+
+    if ('not' in node) {
+      return this.validateCondition(node.not, `${path}.not`);
+    }
+
+    const errors: string[] = [];
+    const field = node.field;
+    const operator = node.operator as ConditionOperator;
+
+    if (typeof field !== 'string' || !FIELD_ROOTS.includes(field.split('.')[0] || '')) {
+      errors.push(`${path}.field must start with one of: ${FIELD_ROOTS.join(', ')}`);
+    }
+
+    if (!OPERATORS.includes(operator)) {
+      errors.push(`${path}.operator must be one of: ${OPERATORS.join(', ')}`);
+    } else if ((operator === 'in' || operator === 'notIn') && !Array.isArray(node.value)) {
+      errors.push(`${path}.value must be an array for operator ${operator}`);
+    } else if (operator !== 'exists' && !('value' in node)) {
+      errors.push(`${path}.value is required for operator ${operator}`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Apply a field condition's operator to a resolved value
+   */
+  private static compare(actual: unknown, condition: FieldCondition): boolean {
+    const expected = condition.value;
+
+    switch (condition.operator) {
+      case 'exists':
+        return actual !== undefined && actual !== null;
+      case 'eq':
+        return this.isEqual(actual, expected);
+      case 'neq':
+        return !this.isEqual(actual, expected);
+      case 'in':
+        return Array.isArray(expected) && expected.some((v) => this.isEqual(actual, v));
+      case 'notIn':
+        return Array.isArray(expected) && !expected.some((v) => this.isEqual(actual, v));
+      case 'gt':
+      case 'gte':
+      case 'lt':
+      case 'lte': {
+        const a = this.toNumber(actual);
+        const b = this.toNumber(expected);
+        if (Number.isNaN(a) || Number.isNaN(b)) return false;
+        if (condition.operator === 'gt') return a > b;
+        if (condition.operator === 'gte') return a >= b;
+        if (condition.operator === 'lt') return a < b;
+        return a <= b;
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Equality that treats numeric strings and numbers alike
+   */
+  private static isEqual(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    const x = this.toNumber(a);
+    const y = this.toNumber(b);
+    return !Number.isNaN(x) && !Number.isNaN(y) && x === y;
+  }
+
+  /**
+   * Coerce numbers and numeric strings; anything else is NaN
+   */
+  private static toNumber(value: unknown): number {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'string' && value.trim() !== '') return Number(value);
+    return Number.NaN;
+  }
+}
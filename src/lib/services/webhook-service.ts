@@ -0,0 +1,160 @@
+/**
+ * Webhook Service
+ * Sends signed JSON webhooks with retries and keeps a log of every delivery
+ */
+
+import { createHmac } from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { WebhookDelivery, WebhookDeliveryFilters, WebhookRequest } from '@/types/webhook';
+
+const prisma = new PrismaClient();
+
+/**
+ * Wait before the 2nd and 3rd attempts
+ */
+const RETRY_DELAYS_MS = [1000, 5000];
+
+/**
+ * Time allowed for the receiver to respond to one attempt
+ */
+const REQUEST_TIMEOUT_MS = 10000;
+
+// ============================================================================
+// WEBHOOK SERVICE
+// ============================================================================
+
+export class WebhookService {
+  /**
+   * POST a webhook, retrying network errors, timeouts, 429 and 5xx responses
+   * The body is signed with X-Webhook-Signature: sha256=HMAC(secret, "<timestamp>.<body>")
+   * so receivers can check it and reject replays by X-Webhook-Timestamp
+   */
+  static async deliver(
+    tenantId: string,
+    request: WebhookRequest,
+    retryDelaysMs: number[] = RETRY_DELAYS_MS
+  ): Promise<WebhookDelivery> {
+    let delivery = await prisma.webhookDelivery.create({
+      data: {
+        tenantId,
+        workflowInstanceId: request.workflowInstanceId ?? null,
+        escalationEventId: request.escalationEventId ?? null,
+        url: request.url,
+        event: request.event,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        payload: request.payload as any,
+        status: 'Pending',
+      },
+    });
+
+    const body = JSON.stringify({
+      id: delivery.id,
+      event: request.event,
+      createdAt: delivery.createdAt.toISOString(),
+      data: request.payload,
+    });
+
+    for (let attempt = 1; attempt <= retryDelaysMs.length + 1; attempt++) {
+      if (attempt > 1) {
+        await new Promise((resolve) => setTimeout(resolve, retryDelaysMs[attempt - 2]));
+      }
+
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      let responseStatus: number | null = null;
+      let lastError: string | null = null;
+
+      try {
+        const response = await fetch(request.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Webhook-Id': delivery.id,
+            'X-Webhook-Event': request.event,
+            'X-Webhook-Timestamp': timestamp,
+            'X-Webhook-Signature': this.sign(body, request.secret, timestamp),
+          },
+          body,
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+
+        responseStatus = response.status;
+
+        if (response.ok) {
+          return (await prisma.webhookDelivery.update({
+            where: { id: delivery.id },
+            data: {
+              status: 'Delivered',
+              attempts: attempt,
+              responseStatus,
+              lastError: null,
+              deliveredAt: new Date(),
+            },
+          })) as WebhookDelivery;
+        }
+
+        lastError = `HTTP ${response.status}`;
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+      }
+
+      const willRetry = attempt <= retryDelaysMs.length && this.isRetryable(responseStatus);
+
+      delivery = await prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: willRetry ? 'Pending' : 'Failed',
+          attempts: attempt,
+          responseStatus,
+          lastError,
+        },
+      });
+
+      if (!willRetry) {
+        break;
+      }
+    }
+
+    console.error(`Webhook ${delivery.id} to ${request.url} failed: ${delivery.lastError}`);
+
+    return delivery as WebhookDelivery;
+  }
+
+  /**
+   * Signature of a webhook body at a timestamp (seconds since epoch)
+   * Pure function with no side effects
+   */
+  static sign(body: string, secret: string, timestamp: string): string {
+    return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+  }
+
+  /**
+   * Whether an attempt that ended with this HTTP status (null: no response) may succeed later
+   * Pure function with no side effects
+   */
+  static isRetryable(responseStatus: number | null): boolean {
+    return responseStatus === null || responseStatus === 429 || responseStatus >= 500;
+  }
+
+  /**
+   * List a tenant's webhook deliveries, newest first
+   */
+  static async listDeliveries(
+    tenantId: string,
+    filters: WebhookDeliveryFilters = {},
+    skip: number = 0,
+    take: number = 50
+  ): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+    const where = {
+      tenantId,
+      ...(filters.workflowInstanceId && { workflowInstanceId: filters.workflowInstanceId }),
+      ...(filters.status && { status: filters.status }),
+    };
+
+    const [deliveries, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({ where, orderBy: { createdAt: 'desc' }, skip, take }),
+      prisma.webhookDelivery.count({ where }),
+    ]);
+
+    return { deliveries: deliveries as WebhookDelivery[], total };
+  }
+}
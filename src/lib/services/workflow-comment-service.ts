@@ -0,0 +1,301 @@
+/**
+ * Workflow Comment Service
+ * Threaded discussion on workflow instances with edit history and @mentions
+ */
+
+import { PrismaClient } from '@prisma/client';
+import {
+  CreateWorkflowCommentRequest,
+  WorkflowComment,
+  WorkflowCommentRevision,
+  WorkflowCommentThread,
+} from '@/types/workflow';
+import { AuditLogService } from './audit-log-service';
+import { NotificationService } from './notification-service';
+import { StageResponsibilityService } from './stage-responsibility-service';
+
+const prisma = new PrismaClient();
+
+/**
+ * Mentions are written as @ followed by the user's email, e.g. "@jane.doe@example.gov"
+ * The leading @ must not follow a word character, so plain email addresses are not mentions
+ */
+const MENTION_PATTERN =
+  /(?<![\w@.])@([A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,})/g;
+
+// ============================================================================
+// WORKFLOW COMMENT SERVICE
+// ============================================================================
+
+export class WorkflowCommentService {
+  /**
+   * Post a comment or reply on a workflow instance and notify mentioned users
+   */
+  static async addComment(
+    tenantId: string,
+    instanceId: string,
+    authorId: string,
+    request: CreateWorkflowCommentRequest
+  ): Promise<WorkflowComment> {
+    const instance = await this.getTenantInstance(instanceId, tenantId);
+
+    if (!(await StageResponsibilityService.isActiveTenantUser(authorId, tenantId))) {
+      throw new Error(`Author is not an active user of tenant: ${tenantId}`);
+    }
+
+    if (request.parentId) {
+      const parent = await prisma.workflowComment.findFirst({
+        where: { id: request.parentId, workflowInstanceId: instanceId, tenantId },
+        select: { id: true },
+      });
+
+      if (!parent) {
+        throw new Error(`Parent comment not found on this workflow: ${request.parentId}`);
+      }
+    }
+
+    const mentioned = await this.resolveMentions(tenantId, this.extractMentions(request.body));
+
+    const comment = await prisma.workflowComment.create({
+      data: {
+        tenantId,
+        workflowInstanceId: instanceId,
+        parentId: request.parentId || null,
+        stageId: instance.currentStageId,
+        authorId,
+        body: request.body,
+        mentionedUserIds: mentioned.map((u) => u.id),
+      },
+    });
+
+    await AuditLogService.logWorkflowAction(tenantId, instanceId, 'CommentAdded', authorId, {
+      commentId: comment.id,
+      parentId: comment.parentId,
+      stageId: comment.stageId,
+      mentionedUserIds: comment.mentionedUserIds,
+    });
+
+    await this.notifyMentions(tenantId, instanceId, comment.id, authorId, mentioned);
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return comment as any;
+  }
+
+  /**
+   * Edit a comment; only its author may do so
+   * The previous body is kept as a revision and only newly mentioned users are notified
+   */
+  static async editComment(
+    tenantId: string,
+    commentId: string,
+    actorId: string,
+    body: string
+  ): Promise<WorkflowComment> {
+    const comment = await prisma.workflowComment.findFirst({
+      where: { id: commentId, tenantId },
+    });
+
+    if (!comment) {
+      throw new Error(`Comment not found: ${commentId}`);
+    }
+
+    if (comment.authorId !== actorId) {
+      throw new Error('Only the author can edit a comment');
+    }
+
+    if (comment.body === body) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return comment as any;
+    }
+
+    const mentioned = await this.resolveMentions(tenantId, this.extractMentions(body));
+    const added = this.getAddedMentions(
+      comment.mentionedUserIds,
+      mentioned.map((u) => u.id)
+    );
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await tx.workflowCommentRevision.create({
+        data: { commentId, body: comment.body, editedBy: actorId },
+      });
+
+      return tx.workflowComment.update({
+        where: { id: commentId },
+        data: {
+          body,
+          mentionedUserIds: mentioned.map((u) => u.id),
+          editedAt: new Date(),
+        },
+      });
+    });
+
+    await AuditLogService.logWorkflowAction(
+      tenantId,
+      comment.workflowInstanceId,
+      'CommentEdited',
+      actorId,
+      { commentId },
+      { body: comment.body },
+      { body }
+    );
+
+    await this.notifyMentions(
+      tenantId,
+      comment.workflowInstanceId,
+      commentId,
+      actorId,
+      mentioned.filter((u) => added.includes(u.id))
+    );
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return updated as any;
+  }
+
+  /**
+   * Get the discussion on a workflow instance as threads, oldest first
+   */
+  static async listThreads(instanceId: string, tenantId: string): Promise<WorkflowCommentThread[]> {
+    await this.getTenantInstance(instanceId, tenantId);
+
+    const comments = await prisma.workflowComment.findMany({
+      where: { workflowInstanceId: instanceId, tenantId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return this.buildThreads(comments as any);
+  }
+
+  /**
+   * Get the previous bodies of a comment, oldest first
+   */
+  static async getHistory(commentId: string, tenantId: string): Promise<WorkflowCommentRevision[]> {
+    const comment = await prisma.workflowComment.findFirst({
+      where: { id: commentId, tenantId },
+      select: { id: true },
+    });
+
+    if (!comment) {
+      throw new Error(`Comment not found: ${commentId}`);
+    }
+
+    const revisions = await prisma.workflowCommentRevision.findMany({
+      where: { commentId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return revisions as any;
+  }
+
+  /**
+   * Extract the lower-cased, de-duplicated emails mentioned in a comment body
+   * Pure function with no side effects
+   */
+  static extractMentions(body: string): string[] {
+    const emails = Array.from(body.matchAll(MENTION_PATTERN), (match) => match[1]!.toLowerCase());
+
+    return Array.from(new Set(emails));
+  }
+
+  /**
+   * Get the user IDs mentioned after an edit that were not mentioned before
+   * Pure function with no side effects
+   */
+  static getAddedMentions(previous: string[], next: string[]): string[] {
+    const before = new Set(previous);
+
+    return next.filter((id) => !before.has(id));
+  }
+
+  /**
+   * Nest comments under their parents, keeping each level in the given order
+   * Replies whose parent is missing are promoted to top level
+   * Pure function with no side effects
+   */
+  static buildThreads(comments: WorkflowComment[]): WorkflowCommentThread[] {
+    const nodes = new Map<string, WorkflowCommentThread>(
+      comments.map((c) => [c.id, { ...c, replies: [] }])
+    );
+    const roots: WorkflowCommentThread[] = [];
+
+    for (const comment of comments) {
+      const node = nodes.get(comment.id)!;
+      const parent = comment.parentId ? nodes.get(comment.parentId) : undefined;
+
+      if (parent) {
+        parent.replies.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+
+    return roots;
+  }
+
+  /**
+   * Resolve mentioned emails to active users of the tenant; unknown emails are ignored
+   */
+  private static async resolveMentions(
+    tenantId: string,
+    emails: string[]
+  ): Promise<Array<{ id: string; email: string }>> {
+    if (emails.length === 0) {
+      return [];
+    }
+
+    return prisma.user.findMany({
+      where: {
+        tenantId,
+        isActive: true,
+        deletedAt: null,
+        email: { in: emails, mode: 'insensitive' },
+      },
+      select: { id: true, email: true },
+    });
+  }
+
+  /**
+   * Notify mentioned users other than the author
+   * Notification failures are logged and do not fail the comment
+   */
+  private static async notifyMentions(
+    tenantId: string,
+    instanceId: string,
+    commentId: string,
+    authorId: string,
+    users: Array<{ id: string; email: string }>
+  ): Promise<void> {
+    for (const user of users.filter((u) => u.id !== authorId)) {
+      try {
+        await NotificationService.sendNotification(tenantId, {
+          userId: user.id,
+          email: user.email,
+          eventType: 'WorkflowMentioned',
+          subject: 'You were mentioned in a workflow discussion',
+          message: `You were mentioned in a comment on workflow ${instanceId}`,
+          data: { workflowInstanceId: instanceId, commentId, mentionedBy: authorId },
+          workflowInstanceId: instanceId,
+        });
+      } catch (error) {
+        console.error('Failed to send mention notification:', error);
+      }
+    }
+  }
+
+  /**
+   * Load an instance and verify it belongs to the tenant
+   */
+  private static async getTenantInstance(instanceId: string, tenantId: string) {
+    const instance = await prisma.workflowInstance.findUnique({
+      where: { id: instanceId },
+      include: { template: { select: { tenantId: true } } },
+    });
+
+    if (!instance || instance.template.tenantId !== tenantId) {
+      throw new Error(`Workflow instance not found: ${instanceId}`);
+    }
+
+    return instance;
+  }
+}
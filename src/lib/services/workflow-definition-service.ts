@@ -0,0 +1,350 @@
+/**
+ * Workflow Definition Service
+ * Exports workflow templates to portable JSON / YAML documents and imports them into a tenant
+ */
+
+import { PrismaClient } from '@prisma/client';
+import yaml from 'js-yaml';
+import { workflowTemplateDefinitionSchema } from '@/lib/validation/workflow-definition-schema';
+import {
+  DefinitionFormat,
+  DefinitionValidationResult,
+  TemplateImportOptions,
+  StageResponsibility,
+  StageTransition,
+  WorkflowStage,
+  WorkflowTemplate,
+  WorkflowTemplateDefinition,
+} from '@/types/workflow';
+import { StageTransitionService } from './stage-transition-service';
+import { WorkflowTemplateService } from './workflow-service';
+
+const prisma = new PrismaClient();
+
+// ============================================================================
+// WORKFLOW DEFINITION SERVICE
+// ============================================================================
+
+export class WorkflowDefinitionService {
+  /**
+   * Export a template with its stages, responsibilities, transitions and routing criteria
+   */
+  static async exportTemplate(
+    templateId: string,
+    tenantId: string
+  ): Promise<WorkflowTemplateDefinition> {
+    const template = await prisma.workflowTemplate.findFirst({
+      where: { id: templateId, tenantId },
+      include: {
+        stages: {
+          orderBy: { stageOrder: 'asc' },
+          include: { responsibilities: true, outgoingTransitions: true },
+        },
+      },
+    });
+
+    if (!template) {
+      throw new Error(`Template not found: ${templateId}`);
+    }
+
+    const userIds = template.stages.flatMap((s) =>
+      s.responsibilities.filter((r) => r.type === 'User').map((r) => r.value)
+    );
+    const users =
+      userIds.length > 0
+        ? await prisma.user.findMany({
+            where: { id: { in: userIds }, tenantId },
+            select: { id: true, email: true },
+          })
+        : [];
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return this.buildDefinition(template as any, new Map(users.map((u) => [u.id, u.email])));
+  }
+
+  /**
+   * Build a portable definition from a loaded template
+   * User IDs are replaced by email addresses
+   * Pure function with no side effects
+   */
+  static buildDefinition(
+    template: Omit<WorkflowTemplate, 'stages'> & {
+      stages: Array<
+        Omit<WorkflowStage, 'responsibilities' | 'outgoingTransitions'> & {
+          responsibilities: StageResponsibility[];
+          outgoingTransitions: StageTransition[];
+        }
+      >;
+    },
+    userEmails: Map<string, string>
+  ): WorkflowTemplateDefinition {
+    const stageKeys = new Map(template.stages.map((s) => [s.id, s.stageKey]));
+
+    return {
+      formatVersion: 1,
+      template: {
+        name: template.name,
+        description: template.description ?? null,
+        entityType: template.entityType ?? null,
+        complexityBand: template.complexityBand ?? null,
+        budgetMin: template.budgetMin !== null ? Number(template.budgetMin) : null,
+        budgetMax: template.budgetMax !== null ? Number(template.budgetMax) : null,
+        isDefault: template.isDefault,
+        slaThresholds: template.slaThresholds ?? null,
+      },
+      stages: template.stages.map((stage) => ({
+        stageKey: stage.stageKey,
+        stageOrder: stage.stageOrder,
+        name: stage.name,
+        description: stage.description ?? null,
+        slaHours: stage.slaHours,
+        slaThresholds: stage.slaThresholds ?? null,
+        actions: stage.actions,
+        requireComment: stage.requireComment,
+        requireAttachment: stage.requireAttachment,
+        approvalMode: stage.approvalMode,
+        requiredApprovals: stage.requiredApprovals ?? null,
+        responsibilities: stage.responsibilities.map((r) => ({
+          type: r.type,
+          value: r.type === 'User' ? userEmails.get(r.value) || r.value : r.value,
+          scope: r.scope,
+          notificationMethod: r.notificationMethod,
+        })),
+        transitions: stage.outgoingTransitions.map((t) => ({
+          toStageKey: t.toStageId ? stageKeys.get(t.toStageId) || null : null,
+          priority: t.priority,
+          condition: t.condition ?? null,
+          description: t.description ?? null,
+        })),
+      })),
+    };
+  }
+
+  /**
+   * Serialize a definition as JSON or YAML
+   * Pure function with no side effects
+   */
+  static serialize(
+    definition: WorkflowTemplateDefinition,
+    format: DefinitionFormat = 'json'
+  ): string {
+    return format === 'yaml'
+      ? yaml.dump(definition, { noRefs: true, lineWidth: 120 })
+      : JSON.stringify(definition, null, 2);
+  }
+
+  /**
+   * Parse a JSON or YAML document
+   * Pure function with no side effects
+   */
+  static parse(content: string, format: DefinitionFormat = 'json'): unknown {
+    return format === 'yaml'
+      ? yaml.load(content, { schema: yaml.JSON_SCHEMA })
+      : JSON.parse(content);
+  }
+
+  /**
+   * Validate a parsed document
+   * Rejects duplicate stage orders, unknown actions, empty responsibility sets
+   * and malformed transition conditions
+   * Pure function with no side effects
+   */
+  static validateDefinition(document: unknown): DefinitionValidationResult {
+    const result = workflowTemplateDefinitionSchema.safeParse(document);
+
+    if (!result.success) {
+      return {
+        valid: false,
+        errors: result.error.issues.map(
+          (issue) => `${issue.path.join('.') || 'document'}: ${issue.message}`
+        ),
+      };
+    }
+
+    const errors = result.data.stages.flatMap((stage, index) =>
+      stage.transitions.flatMap((transition, tIndex) =>
+        transition.condition === null
+          ? []
+          : StageTransitionService.validateCondition(
+              transition.condition,
+              `stages.${index}.transitions.${tIndex}.condition`
+            )
+      )
+    );
+
+    if (errors.length > 0) {
+      return { valid: false, errors };
+    }
+
+    return { valid: true, errors: [], definition: result.data as WorkflowTemplateDefinition };
+  }
+
+  /**
+   * Remap role names and user references for the target tenant
+   * Returns the references that could not be resolved
+   * Pure function with no side effects
+   */
+  static remapReferences(
+    definition: WorkflowTemplateDefinition,
+    roleMap: Record<string, string>,
+    userIds: Map<string, string>
+  ): { definition: WorkflowTemplateDefinition; unresolvedUsers: string[] } {
+    const unresolvedUsers = new Set<string>();
+
+    const stages = definition.stages.map((stage) => ({
+      ...stage,
+      responsibilities: stage.responsibilities.map((r) => {
+        if (r.type === 'Role') {
+          return { ...r, value: roleMap[r.value] || r.value };
+        }
+
+        if (r.type === 'User') {
+          const userId = userIds.get(r.value);
+          if (!userId) unresolvedUsers.add(r.value);
+          return { ...r, value: userId || r.value };
+        }
+
+        return r;
+      }),
+    }));
+
+    return { definition: { ...definition, stages }, unresolvedUsers: Array.from(unresolvedUsers) };
+  }
+
+  /**
+   * Import a definition into a tenant as a new draft template
+   */
+  static async importTemplate(
+    tenantId: string,
+    content: string,
+    createdBy: string,
+    options: TemplateImportOptions = {}
+  ): Promise<WorkflowTemplate> {
+    let document: unknown;
+
+    try {
+      document = this.parse(content, options.format);
+    } catch (error) {
+      throw new Error(
+        `Unable to parse definition: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    const validation = this.validateDefinition(document);
+
+    if (!validation.valid || !validation.definition) {
+      throw new Error(`Invalid workflow definition: ${validation.errors.join('; ')}`);
+    }
+
+    const userMap = options.userMap || {};
+    const userRefs = Array.from(
+      new Set(
+        validation.definition.stages.flatMap((s) =>
+          s.responsibilities.filter((r) => r.type === 'User').map((r) => r.value)
+        )
+      )
+    );
+    const targetRefs = userRefs.map((ref) => userMap[ref] || ref);
+
+    const users =
+      targetRefs.length > 0
+        ? await prisma.user.findMany({
+            where: {
+              tenantId,
+              OR: [{ email: { in: targetRefs } }, { id: { in: targetRefs } }],
+            },
+            select: { id: true, email: true },
+          })
+        : [];
+
+    const userIds = new Map<string, string>();
+    userRefs.forEach((ref, index) => {
+      const target = targetRefs[index];
+      const user = users.find((u) => u.email === target || u.id === target);
+      if (user) userIds.set(ref, user.id);
+    });
+
+    const { definition, unresolvedUsers } = this.remapReferences(
+      validation.definition,
+      options.roleMap || {},
+      userIds
+    );
+
+    if (unresolvedUsers.length > 0) {
+      throw new Error(`Users not found in tenant: ${unresolvedUsers.join(', ')}`);
+    }
+
+    const template = await prisma.$transaction(async (tx) => {
+      const created = await tx.workflowTemplate.create({
+        data: {
+          tenantId,
+          ...definition.template,
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          slaThresholds: (definition.template.slaThresholds ?? undefined) as any,
+          matchScore: WorkflowTemplateService.calculateMatchScore({
+            name: definition.template.name,
+            ...(definition.template.entityType && { entityType: definition.template.entityType }),
+            ...(definition.template.complexityBand && {
+              complexityBand: definition.template.complexityBand,
+            }),
+            ...(definition.template.budgetMin !== null && {
+              budgetMin: definition.template.budgetMin,
+            }),
+            ...(definition.template.budgetMax !== null && {
+              budgetMax: definition.template.budgetMax,
+            }),
+            isDefault: definition.template.isDefault,
+          }),
+          isActive: true,
+          version: 1,
+          status: 'Draft',
+          createdBy,
+        },
+      });
+
+      const stageIds = new Map<string, string>();
+
+      for (const stage of definition.stages) {
+        const createdStage = await tx.workflowStage.create({
+          data: {
+            workflowTemplateId: created.id,
+            stageKey: stage.stageKey,
+            stageOrder: stage.stageOrder,
+            name: stage.name,
+            description: stage.description,
+            slaHours: stage.slaHours,
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            slaThresholds: (stage.slaThresholds ?? undefined) as any,
+            actions: stage.actions,
+            requireComment: stage.requireComment,
+            requireAttachment: stage.requireAttachment,
+            approvalMode: stage.approvalMode,
+            requiredApprovals: stage.approvalMode === 'Quorum' ? stage.requiredApprovals : null,
+            responsibilities: { create: stage.responsibilities },
+          },
+        });
+        stageIds.set(stage.stageKey, createdStage.id);
+      }
+
+      for (const stage of definition.stages) {
+        for (const transition of stage.transitions) {
+          await tx.stageTransition.create({
+            data: {
+              fromStageId: stageIds.get(stage.stageKey)!,
+              toStageId: transition.toStageKey ? stageIds.get(transition.toStageKey)! : null,
+              priority: transition.priority,
+              // eslint-disable-next-line @typescript-eslint/no-explicit-any
+              condition: (transition.condition ?? undefined) as any,
+              description: transition.description,
+            },
+          });
+        }
+      }
+
+      return created;
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return template as any;
+  }
+}
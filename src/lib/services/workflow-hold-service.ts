@@ -0,0 +1,143 @@
+/**
+ * Workflow Hold Service
+ * Approvers place requests on hold pending information, stopping the stage SLA clock
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { SLAPause } from '@/types/escalation';
+import { AuditLogService } from './audit-log-service';
+import { RBACService } from './rbac-service';
+import { SLAManagementService } from './sla-management-service';
+import { WorkflowExecutor } from './workflow-service';
+
+const prisma = new PrismaClient();
+
+// ============================================================================
+// WORKFLOW HOLD SERVICE
+// ============================================================================
+
+export class WorkflowHoldService {
+  /**
+   * Put an in-progress request on hold pending information from the requester
+   * Only approvers of the current stage and administrators may do so
+   */
+  static async placeOnHold(
+    instanceId: string,
+    tenantId: string,
+    actorId: string,
+    note: string
+  ): Promise<SLAPause> {
+    const instance = await this.getTenantInstance(instanceId, tenantId);
+
+    if (instance.status !== 'InProgress') {
+      throw new Error(`Only in-progress workflows can be placed on hold: ${instanceId}`);
+    }
+
+    if (instance.slaPausedAt) {
+      throw new Error(`Workflow is already on hold: ${instanceId}`);
+    }
+
+    if (!(await this.isStageApprover(instance, tenantId, actorId))) {
+      throw new Error('Only approvers of the current stage can place a workflow on hold');
+    }
+
+    const pause = await SLAManagementService.pauseSLA(instanceId, 'OnHold', actorId, note);
+
+    if (!pause) {
+      throw new Error(`Workflow is already on hold: ${instanceId}`);
+    }
+
+    await AuditLogService.logWorkflowAction(tenantId, instanceId, 'SLAPaused', actorId, {
+      stageId: instance.currentStageId,
+      reason: 'OnHold',
+      note,
+    });
+
+    return pause;
+  }
+
+  /**
+   * Take a request off hold and restart its SLA clock
+   * The requester, approvers of the current stage and administrators may do so
+   */
+  static async releaseHold(
+    instanceId: string,
+    tenantId: string,
+    actorId: string
+  ): Promise<SLAPause> {
+    const instance = await this.getTenantInstance(instanceId, tenantId);
+    const hold = instance.slaPauses[0];
+
+    if (!instance.slaPausedAt || !hold || hold.reason !== 'OnHold') {
+      throw new Error(`Workflow is not on hold: ${instanceId}`);
+    }
+
+    if (
+      instance.createdBy !== actorId &&
+      !(await this.isStageApprover(instance, tenantId, actorId))
+    ) {
+      throw new Error('Only the requester or approvers of the current stage can release a hold');
+    }
+
+    const pause = await SLAManagementService.resumeSLA(instanceId, actorId);
+
+    await AuditLogService.logWorkflowAction(tenantId, instanceId, 'SLAResumed', actorId, {
+      stageId: instance.currentStageId,
+      pausedHours: pause?.pausedHours ?? 0,
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return (pause || hold) as any;
+  }
+
+  /**
+   * Get the periods an instance's SLA clock was stopped, oldest first
+   */
+  static async getPauseHistory(instanceId: string, tenantId: string): Promise<SLAPause[]> {
+    await this.getTenantInstance(instanceId, tenantId);
+
+    return SLAManagementService.getPauseHistory(instanceId);
+  }
+
+  /**
+   * Check whether an actor can act on the current stage, or is an administrator
+   */
+  private static async isStageApprover(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    instance: any,
+    tenantId: string,
+    actorId: string
+  ): Promise<boolean> {
+    if (await RBACService.isAdmin(actorId)) {
+      return true;
+    }
+
+    const permission = await WorkflowExecutor.verifyPermission(instance, {
+      actorId,
+      tenantId,
+      timestamp: new Date(),
+    });
+
+    return permission.isAuthorized;
+  }
+
+  /**
+   * Load an instance with its current stage and open pause, verifying it belongs to the tenant
+   */
+  private static async getTenantInstance(instanceId: string, tenantId: string) {
+    const instance = await prisma.workflowInstance.findUnique({
+      where: { id: instanceId },
+      include: {
+        template: { select: { id: true, tenantId: true, templateFamilyId: true } },
+        currentStage: { include: { responsibilities: true } },
+        slaPauses: { where: { resumedAt: null }, orderBy: { pausedAt: 'desc' }, take: 1 },
+      },
+    });
+
+    if (!instance || instance.template.tenantId !== tenantId) {
+      throw new Error(`Workflow instance not found: ${instanceId}`);
+    }
+
+    return instance;
+  }
+}
@@ -0,0 +1,312 @@
+/**
+ * Workflow Inbox Service
+ * Finds the workflow instances waiting on an approver and ranks them by urgency
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { PriorityLevel, SLAStatus } from '@/types/escalation';
+import { InboxCounts, InboxItem, InboxResult } from '@/types/inbox';
+import { StageResponsibility } from '@/types/workflow';
+import { BusinessCalendarService } from './business-calendar-service';
+import { DelegationService } from './delegation-service';
+import { RBACService } from './rbac-service';
+import { SLAManagementService } from './sla-management-service';
+import { StageApprovalService } from './stage-approval-service';
+import { StageResponsibilityService } from './stage-responsibility-service';
+import { WorkflowVersionService } from './workflow-version-service';
+
+const prisma = new PrismaClient();
+
+const SLA_STATUS_RANK: Record<SLAStatus, number> = {
+  Breached: 0,
+  Warning: 1,
+  Compliant: 2,
+  NotApplicable: 3,
+};
+
+// Candidate instances read per query
+const INBOX_BATCH_SIZE = 200;
+
+const PRIORITY_RANK: Record<PriorityLevel, number> = {
+  Critical: 0,
+  High: 1,
+  Medium: 2,
+  Low: 3,
+};
+
+// ============================================================================
+// WORKFLOW INBOX SERVICE
+// ============================================================================
+
+export class WorkflowInboxService {
+  /**
+   * Get the in-progress instances a user can act on, directly or through a delegation
+   * Candidates are narrowed in the database to stages the user or a principal could satisfy
+   * and read a batch at a time; entities, role assignments and prior votes are loaded per
+   * batch, so the cost does not grow with the number of programs a user is eligible on
+   * Ranking needs each candidate's SLA status, so the page is cut after ranking
+   */
+  static async getInbox(
+    tenantId: string,
+    userId: string,
+    page: { skip: number; take: number }
+  ): Promise<InboxResult> {
+    const now = new Date();
+
+    const [rolesContext, delegations, calendar] = await Promise.all([
+      RBACService.getRolesForUser(userId),
+      DelegationService.listDelegations(tenantId, { delegateId: userId, activeAt: now }),
+      BusinessCalendarService.getTenantCalendar(tenantId),
+    ]);
+
+    const principalIds = Array.from(new Set(delegations.map((d) => d.principalId)));
+    const principalRoles = await RBACService.getRolesForUsers(principalIds);
+    const actorIds = [userId, ...principalIds];
+    const roleNames = Array.from(
+      new Set([
+        ...rolesContext.allRoles,
+        ...Array.from(principalRoles.values()).flatMap((r) => r.allRoles),
+      ])
+    );
+
+    // Position responsibilities only concern entities where the user or a principal holds
+    // one; a program position also reaches the program's projects
+    const holdsPosition = [
+      { sponsorId: { in: actorIds } },
+      { pmId: { in: actorIds } },
+      { requesterId: { in: actorIds } },
+    ];
+    const [positionPrograms, positionProjects] = await Promise.all([
+      prisma.program.findMany({
+        where: { tenantId, OR: holdsPosition },
+        select: { id: true },
+      }),
+      prisma.project.findMany({
+        where: { tenantId, OR: [...holdsPosition, { program: { OR: holdsPosition } }] },
+        select: { id: true },
+      }),
+    ]);
+    const positionProgramIds = positionPrograms.map((p) => p.id);
+    const positionProjectIds = positionProjects.map((p) => p.id);
+
+    // Only stages with a responsibility or reassignment the user or a principal could satisfy
+    const where: Prisma.WorkflowInstanceWhereInput = {
+      status: 'InProgress',
+      template: { tenantId },
+      OR: [
+        {
+          currentStage: {
+            responsibilities: {
+              some: {
+                OR: [
+                  { type: 'User', value: { in: actorIds } },
+                  { type: 'Role', value: { in: roleNames } },
+                ],
+              },
+            },
+          },
+        },
+        {
+          currentStage: { responsibilities: { some: { type: 'Position' } } },
+          OR: [
+            { entityType: 'Program', entityId: { in: positionProgramIds } },
+            { entityType: { not: 'Program' }, projectId: { in: positionProjectIds } },
+            {
+              entityType: { not: 'Program' },
+              projectId: null,
+              entityId: { in: positionProjectIds },
+            },
+          ],
+        },
+        { assigneeType: 'User', assigneeValue: { in: actorIds } },
+        { assigneeType: 'Role', assigneeValue: { in: roleNames } },
+      ],
+    };
+
+    const items: InboxItem[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const instances = await prisma.workflowInstance.findMany({
+        where,
+        include: {
+          template: { select: { id: true, name: true, templateFamilyId: true } },
+          currentStage: { include: { responsibilities: true } },
+          stageActions: {
+            where: {
+              action: { in: ['Approved', 'Rejected'] },
+              OR: [{ actorId: { in: actorIds } }, { principalId: { in: actorIds } }],
+            },
+          },
+        },
+        orderBy: { id: 'asc' },
+        take: INBOX_BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+      cursor =
+        instances.length === INBOX_BATCH_SIZE ? instances[instances.length - 1]!.id : undefined;
+
+      const projectIds = instances
+        .filter((i) => i.entityType !== 'Program')
+        .map((i) => i.projectId || i.entityId);
+      const projects = await prisma.project.findMany({
+        where: { id: { in: Array.from(new Set(projectIds)) }, tenantId },
+        select: {
+          id: true,
+          programId: true,
+          sponsorId: true,
+          pmId: true,
+          requesterId: true,
+          budget: true,
+        },
+      });
+      const projectsById = new Map(projects.map((p) => [p.id, p]));
+
+      const programIds = [
+        ...instances.filter((i) => i.entityType === 'Program').map((i) => i.entityId),
+        ...projects.map((p) => p.programId).filter((id): id is string => !!id),
+      ];
+      const programs = await prisma.program.findMany({
+        where: { id: { in: Array.from(new Set(programIds)) }, tenantId },
+        select: { id: true, sponsorId: true, pmId: true, requesterId: true, budget: true },
+      });
+      const programsById = new Map(programs.map((p) => [p.id, p]));
+      const templateBands = await SLAManagementService.getThresholdBands(
+        instances.map((i) => i.workflowTemplateId)
+      );
+
+      for (const instance of instances) {
+        const stage = instance.currentStage;
+        const responsibilities = StageResponsibilityService.getEffectiveResponsibilities(
+          instance,
+          stage.responsibilities as unknown as StageResponsibility[]
+        );
+        const project =
+          instance.entityType === 'Program'
+            ? null
+            : projectsById.get(instance.projectId || instance.entityId) || null;
+        const programId =
+          instance.entityType === 'Program' ? instance.entityId : project?.programId;
+        const program = programId ? programsById.get(programId) || null : null;
+        const entityContext = StageResponsibilityService.buildEntityContext(
+          tenantId,
+          instance,
+          project,
+          program
+        );
+
+        let onBehalfOfId: string | null = null;
+        let matched = StageResponsibilityService.findMatchingResponsibility(
+          responsibilities,
+          userId,
+          rolesContext,
+          entityContext
+        );
+
+        if (!matched) {
+          const applicable = DelegationService.filterApplicable(delegations, {
+            at: now,
+            templateFamilyId: WorkflowVersionService.getFamilyId(instance.template),
+            programId: entityContext.programId,
+            projectId: entityContext.projectId,
+          });
+
+          for (const delegation of applicable) {
+            matched = StageResponsibilityService.findMatchingResponsibility(
+              responsibilities,
+              delegation.principalId,
+              principalRoles.get(delegation.principalId)!,
+              entityContext
+            );
+
+            if (matched) {
+              onBehalfOfId = delegation.principalId;
+              break;
+            }
+          }
+        }
+
+        if (!matched) continue;
+
+        const currentStageVotes = instance.stageActions.filter(
+          (a) =>
+            a.stageId === instance.currentStageId && a.actionDate >= instance.currentStageStarted
+        );
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        if (StageApprovalService.hasActorVoted(currentStageVotes as any, onBehalfOfId || userId)) {
+          continue;
+        }
+
+        const budget = project ? project.budget : program ? program.budget : null;
+
+        items.push({
+          instanceId: instance.id,
+          workflowTemplateId: instance.workflowTemplateId,
+          templateName: instance.template.name,
+          entityType: instance.entityType as InboxItem['entityType'],
+          entityId: instance.entityId,
+          requestType: instance.requestType as InboxItem['requestType'],
+          priority: instance.priority as PriorityLevel,
+          budget: budget !== null ? Number(budget) : null,
+          stageId: stage.id,
+          stageName: stage.name,
+          sla: SLAManagementService.calculateSLACompliance(
+            instance,
+            calendar,
+            templateBands.get(instance.workflowTemplateId)
+          ),
+          matchedResponsibilityId: matched.id,
+          onBehalfOfId,
+          createdBy: instance.createdBy,
+          createdAt: instance.createdAt,
+        });
+      }
+    } while (cursor);
+
+    const ranked = this.rankInboxItems(items);
+
+    return {
+      items: ranked.slice(page.skip, page.skip + page.take),
+      counts: this.countInboxItems(ranked),
+      skip: page.skip,
+      take: page.take,
+    };
+  }
+
+  /**
+   * Order inbox items by SLA status, then priority, then entity budget (largest first),
+   * then SLA due date (earliest first)
+   * Pure function with no side effects
+   */
+  static rankInboxItems(items: InboxItem[]): InboxItem[] {
+    return [...items].sort(
+      (a, b) =>
+        SLA_STATUS_RANK[a.sla.currentStatus] - SLA_STATUS_RANK[b.sla.currentStatus] ||
+        PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+        (b.budget ?? -1) - (a.budget ?? -1) ||
+        new Date(a.sla.slaDueAt).getTime() - new Date(b.sla.slaDueAt).getTime()
+    );
+  }
+
+  /**
+   * Count inbox items by SLA status and priority
+   * Pure function with no side effects
+   */
+  static countInboxItems(items: InboxItem[]): InboxCounts {
+    const counts: InboxCounts = {
+      total: items.length,
+      bySlaStatus: { Compliant: 0, Warning: 0, Breached: 0, NotApplicable: 0 },
+      byPriority: { Low: 0, Medium: 0, High: 0, Critical: 0 },
+      delegated: 0,
+    };
+
+    for (const item of items) {
+      counts.bySlaStatus[item.sla.currentStatus]++;
+      counts.byPriority[item.priority]++;
+      if (item.onBehalfOfId) counts.delegated++;
+    }
+
+    return counts;
+  }
+}
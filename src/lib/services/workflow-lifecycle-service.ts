@@ -0,0 +1,307 @@
+/**
+ * Workflow Lifecycle Service
+ * Requester withdrawal, administrative cancellation and resubmission after return
+ */
+
+import { PrismaClient } from '@prisma/client';
+import {
+  ActionResult,
+  ResubmitWorkflowRequest,
+  WorkflowInstance,
+  WorkflowInstanceStatus,
+  WorkflowRequestRevision,
+} from '@/types/workflow';
+import { BusinessCalendarService } from './business-calendar-service';
+import { AuditLogService } from './audit-log-service';
+import { RBACService } from './rbac-service';
+import { SLAManagementService } from './sla-management-service';
+import { WorkflowRequestService } from './workflow-request-service';
+
+const prisma = new PrismaClient();
+
+/**
+ * Allowed workflow instance status transitions
+ * Approved, Rejected, Withdrawn and Cancelled are terminal
+ */
+const STATUS_TRANSITIONS: Record<WorkflowInstanceStatus, WorkflowInstanceStatus[]> = {
+  InProgress: ['InProgress', 'Approved', 'Rejected', 'Returned', 'Withdrawn', 'Cancelled'],
+  Returned: ['InProgress', 'Withdrawn', 'Cancelled'],
+  Approved: [],
+  Rejected: [],
+  Withdrawn: [],
+  Cancelled: [],
+};
+
+/**
+ * Instance status each stage action leads to
+ */
+const ACTION_STATUS: Record<ActionResult, WorkflowInstanceStatus> = {
+  Approved: 'Approved',
+  Rejected: 'Rejected',
+  Returned: 'Returned',
+};
+
+// ============================================================================
+// WORKFLOW LIFECYCLE SERVICE
+// ============================================================================
+
+export class WorkflowLifecycleService {
+  /**
+   * Check whether an instance may move between two statuses
+   * Pure function with no side effects
+   */
+  static canTransition(from: string, to: WorkflowInstanceStatus): boolean {
+    return (STATUS_TRANSITIONS[from as WorkflowInstanceStatus] || []).includes(to);
+  }
+
+  /**
+   * Throw when a status transition is not allowed
+   * Pure function with no side effects
+   */
+  static assertTransition(from: string, to: WorkflowInstanceStatus): void {
+    if (!this.canTransition(from, to)) {
+      throw new Error(`Workflow cannot move from ${from} to ${to}`);
+    }
+  }
+
+  /**
+   * Get the status a stage action would move an instance towards
+   * Pure function with no side effects
+   */
+  static getActionStatus(action: ActionResult): WorkflowInstanceStatus {
+    return ACTION_STATUS[action];
+  }
+
+  /**
+   * Withdraw a request; only its requester may do so
+   */
+  static async withdrawInstance(
+    instanceId: string,
+    tenantId: string,
+    actorId: string,
+    reason?: string
+  ): Promise<WorkflowInstance> {
+    const instance = await this.getTenantInstance(instanceId, tenantId);
+
+    if (instance.createdBy !== actorId) {
+      throw new Error('Only the requester can withdraw a workflow');
+    }
+
+    return this.closeInstance(instance, tenantId, 'Withdrawn', actorId, reason);
+  }
+
+  /**
+   * Cancel a request; restricted to administrators
+   */
+  static async cancelInstance(
+    instanceId: string,
+    tenantId: string,
+    actorId: string,
+    reason: string
+  ): Promise<WorkflowInstance> {
+    const instance = await this.getTenantInstance(instanceId, tenantId);
+
+    if (!(await RBACService.isAdmin(actorId))) {
+      throw new Error('Only administrators can cancel a workflow');
+    }
+
+    if (!reason.trim()) {
+      throw new Error('Cancellation requires a reason');
+    }
+
+    return this.closeInstance(instance, tenantId, 'Cancelled', actorId, reason);
+  }
+
+  /**
+   * Resubmit a returned request with an amended payload
+   * Review restarts at the stage the request was returned to
+   */
+  static async resubmitInstance(
+    instanceId: string,
+    tenantId: string,
+    actorId: string,
+    data: ResubmitWorkflowRequest
+  ): Promise<WorkflowInstance> {
+    const instance = await this.getTenantInstance(instanceId, tenantId);
+
+    if (instance.createdBy !== actorId) {
+      throw new Error('Only the requester can resubmit a workflow');
+    }
+
+    if (instance.status !== 'Returned') {
+      throw new Error(`Only returned workflows can be resubmitted: ${instanceId}`);
+    }
+
+    WorkflowRequestService.validateRequestData(
+      instance.entityType,
+      instance.requestType,
+      data.requestData
+    );
+
+    const stage = await prisma.workflowStage.findUnique({
+      where: { id: instance.currentStageId },
+      select: { slaHours: true },
+    });
+
+    if (!stage) {
+      throw new Error(`Stage not found: ${instance.currentStageId}`);
+    }
+
+    // Conflict detection on apply compares against the resubmitted baseline
+    const entitySnapshot = await WorkflowRequestService.captureEntitySnapshot(tenantId, {
+      entityType: instance.entityType,
+      entityId: instance.entityId,
+      requestType: instance.requestType,
+      requestData: data.requestData,
+    });
+
+    const now = new Date();
+    const slaDue = await BusinessCalendarService.calculateSlaDue(tenantId, now, stage.slaHours);
+    const revision = instance.revision + 1;
+
+    const updated = await prisma.$transaction(async (tx) => {
+      // Claim the returned instance so a concurrent withdrawal or cancellation wins or loses whole
+      const claimed = await tx.workflowInstance.updateMany({
+        where: { id: instanceId, status: 'Returned' },
+        data: { updatedAt: now },
+      });
+
+      if (claimed.count === 0) {
+        throw new Error(`Only returned workflows can be resubmitted: ${instanceId}`);
+      }
+
+      // Close the pause opened by the return; review restarts with a fresh clock
+      await SLAManagementService.resumeSLA(instanceId, actorId, tx);
+
+      await tx.workflowRequestRevision.create({
+        data: {
+          workflowInstanceId: instanceId,
+          revision,
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          requestData: data.requestData as any,
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          ...(entitySnapshot && { entitySnapshot: entitySnapshot as any }),
+          submittedBy: actorId,
+          comment: data.comment || null,
+        },
+      });
+
+      return tx.workflowInstance.update({
+        where: { id: instanceId },
+        data: {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          requestData: data.requestData as any,
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          entitySnapshot: (entitySnapshot ?? undefined) as any,
+          revision,
+          status: 'InProgress',
+          currentStageStarted: now,
+          slaDue,
+          slaPausedAt: null,
+          slaPausedHours: 0,
+        },
+      });
+    });
+
+    await AuditLogService.logWorkflowAction(
+      tenantId,
+      instanceId,
+      'WorkflowResubmitted',
+      actorId,
+      { revision, comment: data.comment || null },
+      { requestData: instance.requestData },
+      { requestData: data.requestData }
+    );
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return updated as any;
+  }
+
+  /**
+   * Get the payload revisions of a request, oldest first
+   */
+  static async getRevisions(
+    instanceId: string,
+    tenantId: string
+  ): Promise<WorkflowRequestRevision[]> {
+    await this.getTenantInstance(instanceId, tenantId);
+
+    const revisions = await prisma.workflowRequestRevision.findMany({
+      where: { workflowInstanceId: instanceId },
+      orderBy: { revision: 'asc' },
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return revisions as any;
+  }
+
+  /**
+   * Move an instance to a terminal Withdrawn or Cancelled status
+   * Fails when the instance left the status it was read in before the write
+   */
+  private static async closeInstance(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    instance: any,
+    tenantId: string,
+    status: 'Withdrawn' | 'Cancelled',
+    actorId: string,
+    reason?: string
+  ): Promise<WorkflowInstance> {
+    this.assertTransition(instance.status, status);
+
+    // Only close the instance in the status it was read in; a concurrent final approval wins
+    const closed = await prisma.workflowInstance.updateMany({
+      where: { id: instance.id, status: instance.status },
+      data: {
+        status,
+        closedAt: new Date(),
+        closedBy: actorId,
+        closeReason: reason || null,
+      },
+    });
+
+    if (closed.count === 0) {
+      throw new Error(
+        `Workflow cannot move from ${instance.status} to ${status}: it changed concurrently`
+      );
+    }
+
+    const updated = await prisma.workflowInstance.findUnique({ where: { id: instance.id } });
+
+    // A returned request is waiting on the requester, not in a stage under review
+    if (instance.status === 'InProgress') {
+      await SLAManagementService.recordSLAHistory(instance, status, actorId);
+    }
+
+    await SLAManagementService.resumeSLA(instance.id, actorId);
+
+    await AuditLogService.logWorkflowAction(
+      tenantId,
+      instance.id,
+      `Workflow${status}`,
+      actorId,
+      { reason: reason || 'No reason provided' },
+      { status: instance.status },
+      { status }
+    );
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return updated as any;
+  }
+
+  /**
+   * Load an instance and verify it belongs to the tenant
+   */
+  private static async getTenantInstance(instanceId: string, tenantId: string) {
+    const instance = await prisma.workflowInstance.findUnique({
+      where: { id: instanceId },
+      include: { template: { select: { tenantId: true } } },
+    });
+
+    if (!instance || instance.template.tenantId !== tenantId) {
+      throw new Error(`Workflow instance not found: ${instanceId}`);
+    }
+
+    return instance;
+  }
+}
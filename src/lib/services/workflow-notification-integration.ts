@@ -46,11 +46,9 @@ export class WorkflowNotificationIntegration {
       // Extract user IDs from responsibilities (value field contains userId for type='User')
       const userIds = stageResponsibilities.map((sr) => sr.value);
 
-      await NotificationService.sendBulkNotifications(tenantId, {
+      await NotificationService.sendTemplatedNotifications(tenantId, {
         userIds,
         eventType: 'WorkflowAssigned',
-        subject: `New Workflow: ${instance.template?.name || 'Untitled'}`,
-        message: `A new workflow "${instance.template?.name}" has been assigned to you. Stage: ${instance.currentStage?.name}`,
         data: {
           workflowInstanceId,
           templateName: instance.template?.name,
@@ -112,16 +110,15 @@ export class WorkflowNotificationIntegration {
 
       const userIds = nextStageResponsibilities.map((sr) => sr.value);
 
-      await NotificationService.sendBulkNotifications(tenantId, {
+      await NotificationService.sendTemplatedNotifications(tenantId, {
         userIds,
         eventType: 'WorkflowAssigned',
-        subject: `Workflow Advanced: ${instance.template?.name || 'Untitled'}`,
-        message: `Workflow "${instance.template?.name}" has advanced from "${previousStage.name}" to your stage: "${instance.currentStage?.name}"`,
         data: {
           workflowInstanceId,
           templateName: instance.template?.name,
           previousStage: previousStage.name,
           currentStage: instance.currentStage?.name,
+          stageName: instance.currentStage?.name,
         },
         workflowInstanceId,
       });
@@ -174,11 +171,9 @@ export class WorkflowNotificationIntegration {
 
       const userIds = stakeholders.map((sr) => sr.value);
 
-      await NotificationService.sendBulkNotifications(tenantId, {
+      await NotificationService.sendTemplatedNotifications(tenantId, {
         userIds,
         eventType: 'WorkflowApproved',
-        subject: `Workflow Approved: ${instance.template?.name || 'Untitled'}`,
-        message: `Workflow "${instance.template?.name}" has been APPROVED and is now complete.`,
         data: {
           workflowInstanceId,
           templateName: instance.template?.name,
@@ -235,14 +230,13 @@ export class WorkflowNotificationIntegration {
 
       const userIds = stageResponsibilities.map((sr) => sr.value);
 
-      await NotificationService.sendBulkNotifications(tenantId, {
+      await NotificationService.sendTemplatedNotifications(tenantId, {
         userIds,
         eventType: 'WorkflowRejected',
-        subject: `Workflow Rejected: ${instance.template?.name || 'Untitled'}`,
-        message: `Workflow "${instance.template?.name}" has been REJECTED at stage "${instance.currentStage?.name}". ${reason ? `Reason: ${reason}` : ''}`,
         data: {
           workflowInstanceId,
           templateName: instance.template?.name,
+          stageName: instance.currentStage?.name,
           rejectedBy,
           reason: reason || 'No reason provided',
         },
@@ -297,11 +291,9 @@ export class WorkflowNotificationIntegration {
 
       const userIds = returnStageResponsibilities.map((sr) => sr.value);
 
-      await NotificationService.sendBulkNotifications(tenantId, {
+      await NotificationService.sendTemplatedNotifications(tenantId, {
         userIds,
         eventType: 'WorkflowReturned',
-        subject: `Workflow Returned: ${instance.template?.name || 'Untitled'}`,
-        message: `Workflow "${instance.template?.name}" has been RETURNED to your stage "${returnToStageName}" for review. ${reason ? `Reason: ${reason}` : ''}`,
         data: {
           workflowInstanceId,
           templateName: instance.template?.name,
@@ -359,16 +351,15 @@ export class WorkflowNotificationIntegration {
 
       const userIds = stageResponsibilities.map((sr) => sr.value);
 
-      await NotificationService.sendBulkNotifications(tenantId, {
+      await NotificationService.sendTemplatedNotifications(tenantId, {
         userIds,
         eventType: 'SLAWarning',
-        subject: `SLA Warning: ${instance.template?.name || 'Untitled'}`,
-        message: `Workflow "${instance.template?.name}" has ${hoursRemaining} hours remaining before SLA breach in stage "${stageName}".`,
         data: {
           workflowInstanceId,
           templateName: instance.template?.name,
           stageName,
           hoursRemaining,
+          slaDue: instance.slaDue.toISOString(),
         },
         workflowInstanceId,
       });
@@ -409,11 +400,9 @@ export class WorkflowNotificationIntegration {
 
       const userIds = stageResponsibilities.map((sr) => sr.value);
 
-      await NotificationService.sendBulkNotifications(tenantId, {
+      await NotificationService.sendTemplatedNotifications(tenantId, {
         userIds,
         eventType: 'SLABreached',
-        subject: `SLA BREACH: ${instance.template?.name || 'Untitled'}`,
-        message: `CRITICAL: Workflow "${instance.template?.name}" has breached its SLA by ${hoursBreach} hours at stage "${stageName}". Immediate action required.`,
         data: {
           workflowInstanceId,
           templateName: instance.template?.name,
@@ -0,0 +1,275 @@
+/**
+ * Workflow Request Service
+ * Applies approved Create / Update / Close request payloads to their target entity
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { ProjectService } from './project-service';
+import { ProgramService } from './program-service';
+import { createProjectSchema, updateProjectSchema } from '@/lib/validation/project-schema';
+import { createProgramSchema, updateProgramSchema } from '@/lib/validation/program-schema';
+import { EntityType, FieldConflict, RequestExecutionResult, RequestType } from '@/types/workflow';
+
+const prisma = new PrismaClient();
+
+const CLOSE_STATUSES = ['Completed', 'Cancelled'] as const;
+
+// ============================================================================
+// WORKFLOW REQUEST SERVICE
+// ============================================================================
+
+export class WorkflowRequestService {
+  /**
+   * Capture the current values of the fields a request will change
+   * Create requests have no existing entity and return null
+   */
+  static async captureEntitySnapshot(
+    tenantId: string,
+    data: {
+      entityType: string;
+      entityId: string;
+      requestType: string;
+      requestData: Record<string, unknown>;
+    }
+  ): Promise<Record<string, unknown> | null> {
+    if (data.requestType === 'Create') {
+      return null;
+    }
+
+    const entity = await this.findEntity(prisma, tenantId, data.entityType, data.entityId);
+
+    if (!entity) {
+      throw new Error(`${data.entityType} not found: ${data.entityId}`);
+    }
+
+    return this.buildEntitySnapshot(
+      entity,
+      this.getTrackedFields(data.requestType, data.requestData)
+    );
+  }
+
+  /**
+   * Approve a workflow and apply its request to its entity in a single transaction
+   * Update and Close requests are skipped when the entity diverged since submission;
+   * when applying fails nothing is committed and the workflow stays in progress
+   * Pass a transaction client to approve as part of a larger change
+   */
+  static async applyApprovedRequest(
+    instanceId: string,
+    tenantId: string,
+    tx?: Prisma.TransactionClient
+  ): Promise<RequestExecutionResult> {
+    if (!tx) {
+      return prisma.$transaction((client) =>
+        this.applyApprovedRequest(instanceId, tenantId, client)
+      );
+    }
+
+    const instance = await tx.workflowInstance.findUnique({
+      where: { id: instanceId },
+      include: { template: true },
+    });
+
+    if (!instance || instance.template.tenantId !== tenantId) {
+      throw new Error(`Workflow instance not found: ${instanceId}`);
+    }
+
+    const base = {
+      instanceId,
+      requestType: instance.requestType as RequestType,
+      entityType: instance.entityType as EntityType,
+      entityId: instance.entityId,
+    };
+
+    if (instance.requestExecutedAt) {
+      return { ...base, applied: true, conflicts: [], executedAt: instance.requestExecutedAt };
+    }
+
+    if (instance.status !== 'InProgress') {
+      throw new Error(
+        `Workflow instance cannot be approved from ${instance.status}: ${instanceId}`
+      );
+    }
+
+    const requestData = (instance.requestData as Record<string, unknown>) || {};
+    const snapshot = instance.entitySnapshot as Record<string, unknown> | null;
+    const options = { tenantId, tx };
+    const executedAt = new Date();
+    let entityId = instance.entityId;
+
+    await tx.workflowInstance.update({
+      where: { id: instanceId },
+      data: { status: 'Approved' },
+    });
+
+    if (instance.requestType === 'Create') {
+      if (instance.entityType === 'Program') {
+        const program = await ProgramService.createProgram(
+          createProgramSchema.parse(requestData),
+          options
+        );
+        entityId = program.id;
+      } else {
+        const project = await ProjectService.createProject(
+          createProjectSchema.parse({ type: instance.entityType, ...requestData }),
+          options
+        );
+        entityId = project.id;
+      }
+    } else {
+      const entity = await this.findEntity(tx, tenantId, instance.entityType, entityId);
+
+      if (!entity) {
+        throw new Error(`${instance.entityType} not found: ${entityId}`);
+      }
+
+      const conflicts = this.detectConflicts(snapshot, entity);
+
+      // Still approved; the diverged entity is left for someone to reconcile
+      if (conflicts.length > 0) {
+        await tx.workflowInstance.update({
+          where: { id: instanceId },
+          data: {
+            executionError: `Conflict: ${conflicts.map((c) => c.field).join(', ')} changed since submission`,
+          },
+        });
+        return { ...base, applied: false, conflicts };
+      }
+
+      const changes =
+        instance.requestType === 'Close'
+          ? { status: this.resolveCloseStatus(requestData) }
+          : requestData;
+
+      if (instance.entityType === 'Program') {
+        await ProgramService.updateProgram(entityId, updateProgramSchema.parse(changes), options);
+      } else {
+        await ProjectService.updateProject(entityId, updateProjectSchema.parse(changes), options);
+      }
+    }
+
+    await tx.workflowInstance.update({
+      where: { id: instanceId },
+      data: {
+        entityId,
+        ...(instance.entityType !== 'Program' && { projectId: entityId }),
+        requestExecutedAt: executedAt,
+        executionError: null,
+      },
+    });
+
+    return { ...base, entityId, applied: true, conflicts: [], executedAt };
+  }
+
+  /**
+   * Check a request payload against the schema it is applied with on approval,
+   * so a payload that could never be applied is rejected when it is submitted
+   * Pure function with no side effects
+   */
+  static validateRequestData(
+    entityType: string,
+    requestType: string,
+    requestData: Record<string, unknown>
+  ): void {
+    const isProgram = entityType === 'Program';
+    const parsed =
+      requestType === 'Create'
+        ? isProgram
+          ? createProgramSchema.safeParse(requestData)
+          : createProjectSchema.safeParse({ type: entityType, ...requestData })
+        : requestType === 'Update'
+          ? isProgram
+            ? updateProgramSchema.safeParse(requestData)
+            : updateProjectSchema.safeParse(requestData)
+          : null;
+
+    if (parsed && !parsed.success) {
+      throw new Error(
+        `Invalid request data: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Get the entity fields a request depends on
+   * Pure function with no side effects
+   */
+  static getTrackedFields(requestType: string, requestData: Record<string, unknown>): string[] {
+    if (requestType === 'Close') {
+      return ['status'];
+    }
+
+    if (requestType === 'Update') {
+      return Object.keys(requestData);
+    }
+
+    return [];
+  }
+
+  /**
+   * Pick and normalize the tracked fields of an entity
+   * Pure function with no side effects
+   */
+  static buildEntitySnapshot(
+    entity: Record<string, unknown>,
+    fields: string[]
+  ): Record<string, unknown> {
+    return Object.fromEntries(fields.map((field) => [field, this.normalizeValue(entity[field])]));
+  }
+
+  /**
+   * Compare the submission snapshot against the entity's current values
+   * Pure function with no side effects
+   */
+  static detectConflicts(
+    snapshot: Record<string, unknown> | null,
+    entity: Record<string, unknown>
+  ): FieldConflict[] {
+    if (!snapshot) {
+      return [];
+    }
+
+    return Object.entries(snapshot)
+      .map(([field, submittedValue]) => ({
+        field,
+        submittedValue,
+        currentValue: this.normalizeValue(entity[field]),
+      }))
+      .filter((c) => JSON.stringify(c.submittedValue) !== JSON.stringify(c.currentValue));
+  }
+
+  /**
+   * Get the status a Close request moves the entity to
+   * Pure function with no side effects
+   */
+  static resolveCloseStatus(requestData: Record<string, unknown>): 'Completed' | 'Cancelled' {
+    return CLOSE_STATUSES.find((s) => s === requestData.status) || 'Completed';
+  }
+
+  /**
+   * Normalize database values so snapshots survive a JSON round trip
+   * Pure function with no side effects
+   */
+  static normalizeValue(value: unknown): unknown {
+    if (value === undefined || value === null) return null;
+    if (value instanceof Date) return value.toISOString();
+    if (value instanceof Prisma.Decimal) return value.toNumber();
+    return value;
+  }
+
+  /**
+   * Load a program or project within the tenant
+   */
+  private static async findEntity(
+    db: Prisma.TransactionClient,
+    tenantId: string,
+    entityType: string,
+    entityId: string
+  ): Promise<Record<string, unknown> | null> {
+    const where = { id: entityId, tenantId, deletedAt: null };
+
+    return entityType === 'Program'
+      ? db.program.findFirst({ where })
+      : db.project.findFirst({ where });
+  }
+}
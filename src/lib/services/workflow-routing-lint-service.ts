@@ -0,0 +1,266 @@
+/**
+ * Workflow Routing Lint Service
+ * Detects ambiguous, uncovered and unreachable routing configurations across a tenant's templates
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { EntityType, RoutingLintIssue, RoutingLintReport } from '@/types/workflow';
+import { WorkflowTemplateService } from './workflow-service';
+
+const prisma = new PrismaClient();
+
+const ENTITY_TYPES: EntityType[] = ['Program', 'Project', 'Initiative'];
+const COMPLEXITY_BANDS: Array<string | null> = [null, 'Low', 'Medium', 'High'];
+
+/**
+ * Template fields findMatchingTemplate scores
+ */
+type LintTemplate = {
+  id: string;
+  name: string;
+  entityType: string | null;
+  complexityBand: string | null;
+  budgetMin: number | null;
+  budgetMax: number | null;
+  isDefault: boolean;
+};
+
+// ============================================================================
+// WORKFLOW ROUTING LINT SERVICE
+// ============================================================================
+
+export class WorkflowRoutingLintService {
+  /**
+   * Lint the published, active templates of a tenant
+   */
+  static async lintTenant(tenantId: string): Promise<RoutingLintReport> {
+    const templates = await prisma.workflowTemplate.findMany({
+      where: { tenantId, isActive: true, status: 'Published' },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const issues = this.lintTemplates(
+      templates.map((t) => ({
+        id: t.id,
+        name: t.name,
+        entityType: t.entityType,
+        complexityBand: t.complexityBand,
+        budgetMin: t.budgetMin !== null ? Number(t.budgetMin) : null,
+        budgetMax: t.budgetMax !== null ? Number(t.budgetMax) : null,
+        isDefault: t.isDefault,
+      }))
+    );
+
+    return {
+      tenantId,
+      analyzedAt: new Date(),
+      templateCount: templates.length,
+      issues,
+      errorCount: issues.filter((i) => i.severity === 'Error').length,
+      warningCount: issues.filter((i) => i.severity === 'Warning').length,
+    };
+  }
+
+  /**
+   * Run every routing check; errors are listed before warnings
+   * Pure function with no side effects
+   */
+  static lintTemplates(templates: LintTemplate[]): RoutingLintIssue[] {
+    if (templates.length === 0) {
+      return [];
+    }
+
+    const issues = [
+      ...this.findOverlappingBands(templates),
+      ...this.findBudgetGaps(templates),
+      ...this.findUnreachableTemplates(templates),
+      ...this.findDefaultIssues(templates),
+    ];
+
+    return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'Error' ? -1 : 1));
+  }
+
+  /**
+   * Find templates for the same entity type and complexity whose budget bands intersect
+   * Equal scores are only broken by isDefault, so overlaps between two non-default
+   * (or two default) templates are resolved by template order
+   * Pure function with no side effects
+   */
+  static findOverlappingBands(templates: LintTemplate[]): RoutingLintIssue[] {
+    const banded = templates.filter((t) => t.budgetMin !== null || t.budgetMax !== null);
+    const issues: RoutingLintIssue[] = [];
+
+    banded.forEach((a, index) => {
+      for (const b of banded.slice(index + 1)) {
+        if (a.entityType !== b.entityType || a.complexityBand !== b.complexityBand) continue;
+
+        const min = Math.max(a.budgetMin ?? 0, b.budgetMin ?? 0);
+        const max = Math.min(a.budgetMax ?? Infinity, b.budgetMax ?? Infinity);
+
+        if (min > max) continue;
+
+        const tied = a.isDefault === b.isDefault;
+
+        issues.push({
+          code: 'OverlappingBudgetBands',
+          severity: tied ? 'Error' : 'Warning',
+          entityType: a.entityType as EntityType | null,
+          templateIds: [a.id, b.id],
+          message: tied
+            ? `"${a.name}" and "${b.name}" both match budgets ${this.formatRange(min, max)} with equal scores; template order decides`
+            : `"${a.name}" and "${b.name}" overlap for budgets ${this.formatRange(min, max)}; "${a.isDefault ? a.name : b.name}" always wins as the default`,
+          budgetRange: { min, max: Number.isFinite(max) ? max : null },
+        });
+      }
+    });
+
+    return issues;
+  }
+
+  /**
+   * Find budget ranges no non-default template covers for an entity type
+   * Only entity types with at least one budget-banded template are checked
+   * Pure function with no side effects
+   */
+  static findBudgetGaps(templates: LintTemplate[]): RoutingLintIssue[] {
+    const issues: RoutingLintIssue[] = [];
+
+    for (const entityType of ENTITY_TYPES) {
+      const bands = templates
+        .filter(
+          (t) =>
+            !t.isDefault &&
+            (t.entityType === entityType || t.entityType === null) &&
+            (t.budgetMin !== null || t.budgetMax !== null)
+        )
+        .map((t) => ({ min: t.budgetMin ?? 0, max: t.budgetMax ?? Infinity }))
+        .sort((a, b) => a.min - b.min);
+
+      if (bands.length === 0) continue;
+
+      const gaps: Array<{ min: number; max: number }> = [];
+      let covered = 0;
+
+      for (const band of bands) {
+        if (band.min > covered) {
+          gaps.push({ min: covered, max: band.min });
+        }
+        covered = Math.max(covered, band.max);
+      }
+
+      if (Number.isFinite(covered)) {
+        gaps.push({ min: covered, max: Infinity });
+      }
+
+      for (const gap of gaps) {
+        issues.push({
+          code: 'BudgetGap',
+          severity: 'Warning',
+          entityType,
+          templateIds: [],
+          message: `${entityType} budgets ${this.formatRange(gap.min, gap.max, true)} match no budget-specific template and fall back to the default`,
+          budgetRange: { min: gap.min, max: Number.isFinite(gap.max) ? gap.max : null },
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Find templates the router never selects for any entity type, complexity or budget
+   * Scores only change at budget band boundaries, so probing each boundary and the
+   * midpoints between them covers every routing outcome
+   * Pure function with no side effects
+   */
+  static findUnreachableTemplates(templates: LintTemplate[]): RoutingLintIssue[] {
+    const winners = new Set<string>();
+
+    for (const entityType of ENTITY_TYPES) {
+      for (const complexityBand of COMPLEXITY_BANDS) {
+        for (const budget of this.getBudgetProbes(templates)) {
+          const match = WorkflowTemplateService.selectTemplate(templates, {
+            entityType,
+            complexityBand,
+            budget,
+          });
+          if (match) winners.add(match.template.id);
+        }
+      }
+    }
+
+    return templates
+      .filter((t) => !winners.has(t.id))
+      .map((t) => ({
+        code: 'UnreachableTemplate' as const,
+        severity: 'Error' as const,
+        entityType: t.entityType as EntityType | null,
+        templateIds: [t.id],
+        message: `"${t.name}" is never selected; other templates always score at least as high`,
+      }));
+  }
+
+  /**
+   * Find entity types with no default template, or with several
+   * Pure function with no side effects
+   */
+  static findDefaultIssues(templates: LintTemplate[]): RoutingLintIssue[] {
+    const issues: RoutingLintIssue[] = [];
+
+    for (const entityType of ENTITY_TYPES) {
+      const defaults = templates.filter(
+        (t) => t.isDefault && (t.entityType === entityType || t.entityType === null)
+      );
+
+      if (defaults.length === 0) {
+        issues.push({
+          code: 'MissingDefault',
+          severity: 'Warning',
+          entityType,
+          templateIds: [],
+          message: `No default template applies to ${entityType} requests`,
+        });
+      } else if (defaults.filter((t) => t.entityType === entityType).length > 1) {
+        const typed = defaults.filter((t) => t.entityType === entityType);
+        issues.push({
+          code: 'MultipleDefaults',
+          severity: 'Warning',
+          entityType,
+          templateIds: typed.map((t) => t.id),
+          message: `${typed.length} default templates apply to ${entityType} requests: ${typed.map((t) => `"${t.name}"`).join(', ')}`,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Budgets to probe: no budget, each band boundary, and the points between and beyond them
+   */
+  private static getBudgetProbes(templates: LintTemplate[]): Array<number | null> {
+    const boundaries = Array.from(
+      new Set(
+        templates.flatMap((t) =>
+          [0, t.budgetMin, t.budgetMax].filter((v): v is number => v !== null)
+        )
+      )
+    ).sort((a, b) => a - b);
+
+    const between = boundaries.slice(1).map((value, index) => (boundaries[index]! + value) / 2);
+    const beyond = (boundaries[boundaries.length - 1] ?? 0) + 1;
+
+    return [null, ...boundaries, ...between, beyond];
+  }
+
+  /**
+   * Format a budget range for messages
+   */
+  private static formatRange(min: number, max: number, exclusive = false): string {
+    if (!Number.isFinite(max)) {
+      return `${exclusive ? 'above' : 'from'} ${min}`;
+    }
+
+    return exclusive ? `between ${min} and ${max}` : `${min}-${max}`;
+  }
+}
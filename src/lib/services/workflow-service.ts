@@ -3,11 +3,12 @@
  * Manages workflow templates, instances, stages, and actions
  */
 
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import {
   WorkflowTemplate,
   WorkflowInstance,
   WorkflowStage,
+  StageResponsibility,
   WorkflowInstanceStatus,
   StageAction,
   WorkflowMatch,
@@ -26,11 +27,93 @@ import {
   SLAComplianceInfo,
   PermissionVerificationResult,
   WorkflowCompletionResult,
+  RequestExecutionResult,
+  ActionErrorCode,
+  ActionResult,
+  ActionValidationFailure,
+  WorkflowAction,
+  UpdateWorkflowTemplateRequest,
+  UpdateWorkflowStageRequest,
+  SubmitWorkflowRequest,
+  WorkflowSubmissionResult,
+  WorkflowTimelineEvent,
+  WorkflowRequestRevision,
+  WorkflowComment,
 } from '@/types/workflow';
+import { Attachment } from '@/types/attachment';
+import { WorkCalendar } from '@/types/calendar';
+import { SLAThresholdBand } from '@/types/escalation';
 import { WorkflowNotificationIntegration } from './workflow-notification-integration';
+import { BusinessCalendarService } from './business-calendar-service';
+import { SLAManagementService } from './sla-management-service';
+import { RBACService } from './rbac-service';
+import { StageResponsibilityService } from './stage-responsibility-service';
+import { StageApprovalService } from './stage-approval-service';
+import { StageTransitionService } from './stage-transition-service';
+import { WorkflowRequestService } from './workflow-request-service';
+import { WorkflowVersionService } from './workflow-version-service';
+import { DelegationService } from './delegation-service';
+import { WorkflowLifecycleService } from './workflow-lifecycle-service';
+import { AttachmentService } from './attachment-service';
 
 const prisma = new PrismaClient();
 
+/**
+ * Stage action that must be enabled on a stage for each action result
+ */
+const STAGE_ACTIONS: Record<ActionResult, WorkflowAction> = {
+  Approved: 'Approve',
+  Rejected: 'Reject',
+  Returned: 'Return',
+};
+
+/**
+ * HTTP status for each action error code
+ */
+const ACTION_ERROR_STATUS: Record<ActionErrorCode, number> = {
+  InstanceNotFound: 404,
+  NotAuthorized: 403,
+  InvalidStatus: 409,
+  StageMismatch: 409,
+  AlreadyVoted: 409,
+  ActionNotAllowed: 400,
+  CommentRequired: 400,
+  ReturnTargetRequired: 400,
+  InvalidReturnTarget: 400,
+  AttachmentRequired: 400,
+  AttachmentUnavailable: 400,
+  ExecutionFailed: 500,
+};
+
+/**
+ * Prisma value for SLA threshold bands; null clears them
+ */
+function toJsonInput(
+  bands: SLAThresholdBand[] | null
+): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  return bands ? (bands as unknown as Prisma.InputJsonValue) : Prisma.DbNull;
+}
+
+/**
+ * Template fields scored when matching a template to an entity
+ */
+type MatchableTemplate = {
+  entityType: string | null;
+  complexityBand: string | null;
+  budgetMin: Prisma.Decimal | number | null;
+  budgetMax: Prisma.Decimal | number | null;
+  isDefault: boolean;
+};
+
+/**
+ * Entity fields a template is matched against
+ */
+type TemplateMatchCriteria = {
+  entityType: string;
+  complexityBand?: string | null | undefined;
+  budget?: number | null | undefined;
+};
+
 // ============================================================================
 // WORKFLOW TEMPLATE SERVICE
 // ============================================================================
@@ -38,6 +121,7 @@ const prisma = new PrismaClient();
 export class WorkflowTemplateService {
   /**
    * Create workflow template
+   * New templates start as an editable draft of version 1
    */
   static async createTemplate(
     tenantId: string,
@@ -54,9 +138,12 @@ export class WorkflowTemplateService {
         budgetMin: data.budgetMin || null,
         budgetMax: data.budgetMax || null,
         isDefault: data.isDefault || false,
+        slaThresholds: toJsonInput(data.slaThresholds ?? null),
         matchScore: this.calculateMatchScore(data),
         createdBy,
         isActive: true,
+        version: 1,
+        status: 'Draft',
       },
     });
 
@@ -84,6 +171,8 @@ export class WorkflowTemplateService {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const where: any = { isActive: filter.isActive !== false };
 
+    where.status = filter.status || { not: 'Superseded' };
+    if (filter.tenantId) where.tenantId = filter.tenantId;
     if (filter.entityType) where.entityType = filter.entityType;
     if (filter.complexityBand) where.complexityBand = filter.complexityBand;
     if (filter.isDefault !== undefined) where.isDefault = filter.isDefault;
@@ -103,6 +192,81 @@ export class WorkflowTemplateService {
     return { templates: templates as any, total };
   }
 
+  /**
+   * Get a template with its stages and responsibilities, verifying it belongs to the tenant
+   */
+  static async getTenantTemplate(templateId: string, tenantId: string): Promise<WorkflowTemplate> {
+    const template = await prisma.workflowTemplate.findFirst({
+      where: { id: templateId, tenantId },
+      include: {
+        stages: { orderBy: { stageOrder: 'asc' }, include: { responsibilities: true } },
+      },
+    });
+
+    if (!template) {
+      throw new Error(`Template not found: ${templateId}`);
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return template as any;
+  }
+
+  /**
+   * Update a template
+   * Published and superseded versions can only be activated or deactivated
+   */
+  static async updateTemplate(
+    templateId: string,
+    tenantId: string,
+    data: UpdateWorkflowTemplateRequest
+  ): Promise<WorkflowTemplate> {
+    const template = await this.getTenantTemplate(templateId, tenantId);
+    const { isActive, slaThresholds, ...definition } = data;
+
+    if (
+      slaThresholds !== undefined ||
+      Object.values(definition).some((value) => value !== undefined)
+    ) {
+      await WorkflowVersionService.assertTemplateEditable(templateId);
+    }
+
+    const updated = await prisma.workflowTemplate.update({
+      where: { id: templateId },
+      data: {
+        ...definition,
+        ...(isActive !== undefined && { isActive }),
+        ...(slaThresholds !== undefined && { slaThresholds: toJsonInput(slaThresholds) }),
+        matchScore: this.calculateMatchScore({
+          ...template,
+          ...definition,
+        } as CreateWorkflowTemplateRequest),
+      },
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return updated as any;
+  }
+
+  /**
+   * Delete a draft template
+   * Published and superseded versions are deactivated instead, since instances are pinned to them
+   */
+  static async deleteTemplate(templateId: string, tenantId: string): Promise<{ deleted: boolean }> {
+    const template = await this.getTenantTemplate(templateId, tenantId);
+
+    if (template.status === 'Draft') {
+      await prisma.workflowTemplate.delete({ where: { id: templateId } });
+      return { deleted: true };
+    }
+
+    await prisma.workflowTemplate.update({
+      where: { id: templateId },
+      data: { isActive: false },
+    });
+
+    return { deleted: false };
+  }
+
   /**
    * Find matching template for entity
    */
@@ -111,58 +275,87 @@ export class WorkflowTemplateService {
     criteria: WorkflowMatchingCriteria
   ): Promise<WorkflowMatch | null> {
     const templates = await prisma.workflowTemplate.findMany({
-      where: { tenantId, isActive: true },
+      where: { tenantId, isActive: true, status: 'Published' },
+      orderBy: { createdAt: 'asc' },
     });
 
-    let bestMatch: WorkflowTemplate | null = null;
-    let bestScore = 0;
-    const matchReasons: string[] = [];
+    const match = this.selectTemplate(templates, criteria);
+
+    return match
+      ? // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        { template: match.template as any, matchScore: match.score, matchReasons: match.reasons }
+      : null;
+  }
+
+  /**
+   * Pick the highest scoring template; the earliest wins a tie and a zero score matches nothing
+   * Pure function with no side effects
+   */
+  static selectTemplate<T extends MatchableTemplate>(
+    templates: T[],
+    criteria: TemplateMatchCriteria
+  ): { template: T; score: number; reasons: string[] } | null {
+    let best: { template: T; score: number; reasons: string[] } | null = null;
 
     for (const template of templates) {
-      let score = 0;
+      const { score, reasons } = this.scoreTemplate(template, criteria);
 
-      // Entity type match
-      if (template.entityType === criteria.entityType) {
-        score += 30;
-        matchReasons.push(`Entity type matches: ${criteria.entityType}`);
+      if (score > (best?.score ?? 0)) {
+        best = { template, score, reasons };
       }
+    }
 
-      // Complexity band match
-      if (template.complexityBand === criteria.complexityBand) {
-        score += 20;
-        matchReasons.push(`Complexity matches: ${criteria.complexityBand}`);
-      }
+    return best;
+  }
 
-      // Budget range match
-      if (criteria.budget) {
-        const min = template.budgetMin ? Number(template.budgetMin) : 0;
-        const max = template.budgetMax ? Number(template.budgetMax) : Number.MAX_SAFE_INTEGER;
+  /**
+   * Score a template against an entity
+   * Entity type 30, complexity 20, budget in range 25 and default 15 points
+   * Pure function with no side effects
+   */
+  static scoreTemplate(
+    template: MatchableTemplate,
+    criteria: TemplateMatchCriteria
+  ): { score: number; reasons: string[] } {
+    let score = 0;
+    const reasons: string[] = [];
 
-        if (criteria.budget >= min && criteria.budget <= max) {
-          score += 25;
-          matchReasons.push(`Budget in range: ${min}-${max}`);
-        }
-      }
+    // Entity type match
+    if (template.entityType === criteria.entityType) {
+      score += 30;
+      reasons.push(`Entity type matches: ${criteria.entityType}`);
+    }
 
-      // Default template fallback
-      if (template.isDefault) {
-        score += 15;
-      }
+    // Complexity band match
+    if (template.complexityBand === (criteria.complexityBand ?? undefined)) {
+      score += 20;
+      reasons.push(`Complexity matches: ${criteria.complexityBand}`);
+    }
 
-      if (score > bestScore) {
-        bestScore = score;
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        bestMatch = template as any;
+    // Budget range match
+    if (criteria.budget) {
+      const min = template.budgetMin ? Number(template.budgetMin) : 0;
+      const max = template.budgetMax ? Number(template.budgetMax) : Number.MAX_SAFE_INTEGER;
+
+      if (criteria.budget >= min && criteria.budget <= max) {
+        score += 25;
+        reasons.push(`Budget in range: ${min}-${max}`);
       }
     }
 
-    return bestMatch ? { template: bestMatch, matchScore: bestScore, matchReasons } : null;
+    // Default template fallback
+    if (template.isDefault) {
+      score += 15;
+      reasons.push('Default template');
+    }
+
+    return { score, reasons };
   }
 
   /**
    * Helper: Calculate template match score
    */
-  private static calculateMatchScore(data: CreateWorkflowTemplateRequest): number {
+  static calculateMatchScore(data: CreateWorkflowTemplateRequest): number {
     let score = 0;
     if (data.entityType) score += 30;
     if (data.complexityBand) score += 20;
@@ -181,6 +374,12 @@ export class WorkflowStageService {
    * Create workflow stage
    */
   static async createStage(data: CreateWorkflowStageRequest): Promise<WorkflowStage> {
+    await WorkflowVersionService.assertTemplateEditable(data.workflowTemplateId);
+
+    if (data.approvalMode === 'Quorum' && !(data.requiredApprovals && data.requiredApprovals > 0)) {
+      throw new Error('Quorum stages require a positive requiredApprovals');
+    }
+
     const stage = await prisma.workflowStage.create({
       data: {
         workflowTemplateId: data.workflowTemplateId,
@@ -188,9 +387,12 @@ export class WorkflowStageService {
         name: data.name,
         description: data.description || null,
         slaHours: data.slaHours,
+        slaThresholds: toJsonInput(data.slaThresholds ?? null),
         actions: data.actions,
         requireComment: data.requireComment || false,
         requireAttachment: data.requireAttachment || false,
+        approvalMode: data.approvalMode || 'Any',
+        requiredApprovals: data.approvalMode === 'Quorum' ? (data.requiredApprovals ?? null) : null,
       },
     });
 
@@ -198,6 +400,78 @@ export class WorkflowStageService {
     return stage as any;
   }
 
+  /**
+   * Get a stage of a template, verifying the template belongs to the tenant
+   */
+  static async getTemplateStage(
+    templateId: string,
+    stageId: string,
+    tenantId: string
+  ): Promise<WorkflowStage> {
+    const stage = await prisma.workflowStage.findFirst({
+      where: { id: stageId, workflowTemplateId: templateId, template: { tenantId } },
+      include: { responsibilities: true },
+    });
+
+    if (!stage) {
+      throw new Error(`Stage not found: ${stageId}`);
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return stage as any;
+  }
+
+  /**
+   * Update a stage of a draft template
+   */
+  static async updateStage(
+    stageId: string,
+    data: UpdateWorkflowStageRequest
+  ): Promise<WorkflowStage> {
+    const stage = await prisma.workflowStage.findUnique({ where: { id: stageId } });
+
+    if (!stage) {
+      throw new Error(`Stage not found: ${stageId}`);
+    }
+
+    await WorkflowVersionService.assertTemplateEditable(stage.workflowTemplateId);
+
+    const approvalMode = data.approvalMode || stage.approvalMode;
+    const requiredApprovals = data.requiredApprovals ?? stage.requiredApprovals;
+
+    if (approvalMode === 'Quorum' && !(requiredApprovals && requiredApprovals > 0)) {
+      throw new Error('Quorum stages require a positive requiredApprovals');
+    }
+
+    const { slaThresholds, ...fields } = data;
+    const updated = await prisma.workflowStage.update({
+      where: { id: stageId },
+      data: {
+        ...fields,
+        ...(slaThresholds !== undefined && { slaThresholds: toJsonInput(slaThresholds) }),
+        requiredApprovals: approvalMode === 'Quorum' ? requiredApprovals : null,
+      },
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return updated as any;
+  }
+
+  /**
+   * Delete a stage of a draft template with its responsibilities and transitions
+   */
+  static async deleteStage(stageId: string): Promise<void> {
+    const stage = await prisma.workflowStage.findUnique({ where: { id: stageId } });
+
+    if (!stage) {
+      throw new Error(`Stage not found: ${stageId}`);
+    }
+
+    await WorkflowVersionService.assertTemplateEditable(stage.workflowTemplateId);
+
+    await prisma.workflowStage.delete({ where: { id: stageId } });
+  }
+
   /**
    * Get stages for template (ordered)
    */
@@ -229,7 +503,10 @@ export class WorkflowStageService {
   /**
    * Get next stage
    */
-  static async getNextStage(templateId: string, currentOrder: number): Promise<WorkflowStage | null> {
+  static async getNextStage(
+    templateId: string,
+    currentOrder: number
+  ): Promise<WorkflowStage | null> {
     const stage = await prisma.workflowStage.findFirst({
       where: {
         workflowTemplateId: templateId,
@@ -242,10 +519,54 @@ export class WorkflowStageService {
     return stage as any;
   }
 
+  /**
+   * Resolve the stage that follows the current one
+   * Outgoing transitions are evaluated first; without a match the next stageOrder applies.
+   * Returns null when the workflow should complete.
+   */
+  static async resolveNextStage(
+    instance: {
+      workflowTemplateId: string;
+      entityType: string;
+      entityId: string;
+      requestData: unknown;
+    },
+    tenantId: string,
+    currentStage: { id: string; stageOrder: number }
+  ): Promise<WorkflowStage | null> {
+    const transitions = await StageTransitionService.getTransitionsForStage(currentStage.id);
+
+    if (transitions.length > 0) {
+      const context = await StageTransitionService.loadConditionContext(tenantId, instance);
+      const transition = StageTransitionService.selectTransition(transitions, context);
+
+      if (transition) {
+        if (!transition.toStageId) return null;
+
+        const stage = await prisma.workflowStage.findUnique({
+          where: { id: transition.toStageId },
+        });
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        return stage as any;
+      }
+    }
+
+    return this.getNextStage(instance.workflowTemplateId, currentStage.stageOrder);
+  }
+
   /**
    * Add responsibility to stage
    */
   static async addResponsibility(data: CreateStageResponsibilityRequest) {
+    const stage = await prisma.workflowStage.findUnique({ where: { id: data.stageId } });
+
+    if (!stage) {
+      throw new Error(`Stage not found: ${data.stageId}`);
+    }
+
+    await WorkflowVersionService.assertTemplateEditable(stage.workflowTemplateId);
+
     const responsibility = await prisma.stageResponsibility.create({
       data: {
         stageId: data.stageId,
@@ -258,6 +579,24 @@ export class WorkflowStageService {
 
     return responsibility;
   }
+
+  /**
+   * Remove a responsibility from a stage of a draft template
+   */
+  static async removeResponsibility(stageId: string, responsibilityId: string): Promise<void> {
+    const responsibility = await prisma.stageResponsibility.findFirst({
+      where: { id: responsibilityId, stageId },
+      include: { stage: { select: { workflowTemplateId: true } } },
+    });
+
+    if (!responsibility) {
+      throw new Error(`Responsibility not found: ${responsibilityId}`);
+    }
+
+    await WorkflowVersionService.assertTemplateEditable(responsibility.stage.workflowTemplateId);
+
+    await prisma.stageResponsibility.delete({ where: { id: responsibilityId } });
+  }
 }
 
 // ============================================================================
@@ -287,6 +626,11 @@ export class WorkflowInstanceService {
       throw new Error(`Template does not belong to tenant: ${tenantId}`);
     }
 
+    // Instances are pinned to a published version
+    if (template.status !== 'Published') {
+      throw new Error(`Template version ${template.version} is not published: ${template.id}`);
+    }
+
     // Get first stage
     const firstStage = await WorkflowStageService.getFirstStage(data.workflowTemplateId);
 
@@ -294,9 +638,16 @@ export class WorkflowInstanceService {
       throw new Error(`No stages found for template: ${data.workflowTemplateId}`);
     }
 
-    // Calculate SLA due
-    const slaDue = new Date();
-    slaDue.setHours(slaDue.getHours() + firstStage.slaHours);
+    // Capture the fields the request depends on for conflict detection
+    const entitySnapshot = await WorkflowRequestService.captureEntitySnapshot(tenantId, data);
+
+    // Calculate SLA due in tenant working hours
+    const stageStarted = new Date();
+    const slaDue = await BusinessCalendarService.calculateSlaDue(
+      tenantId,
+      stageStarted,
+      firstStage.slaHours
+    );
 
     const instance = await prisma.workflowInstance.create({
       data: {
@@ -307,11 +658,24 @@ export class WorkflowInstanceService {
         requestType: data.requestType,
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         requestData: data.requestData as any,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        ...(entitySnapshot && { entitySnapshot: entitySnapshot as any }),
+        ...(data.priority && { priority: data.priority }),
         currentStageId: firstStage.id,
-        currentStageStarted: new Date(),
+        currentStageStarted: stageStarted,
         slaDue,
         status: 'InProgress',
         createdBy,
+        revisions: {
+          create: {
+            revision: 1,
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            requestData: data.requestData as any,
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            ...(entitySnapshot && { entitySnapshot: entitySnapshot as any }),
+            submittedBy: createdBy,
+          },
+        },
       },
     });
 
@@ -323,6 +687,150 @@ export class WorkflowInstanceService {
     return instance as any;
   }
 
+  /**
+   * Submit a request for approval
+   * Without an explicit template the best matching published template is used
+   */
+  static async submitRequest(
+    tenantId: string,
+    data: SubmitWorkflowRequest,
+    createdBy: string
+  ): Promise<WorkflowSubmissionResult> {
+    WorkflowRequestService.validateRequestData(data.entityType, data.requestType, data.requestData);
+
+    let workflowTemplateId = data.workflowTemplateId;
+    let matchScore: number | null = null;
+    let matchReasons: string[] = [];
+
+    if (!workflowTemplateId) {
+      const match = await WorkflowTemplateService.findMatchingTemplate(tenantId, {
+        entityType: data.entityType,
+        ...(data.complexityBand && { complexityBand: data.complexityBand }),
+        ...(data.budget !== undefined && { budget: data.budget }),
+      });
+
+      if (!match) {
+        throw new Error(`No workflow template matches this ${data.entityType} request`);
+      }
+
+      workflowTemplateId = match.template.id;
+      matchScore = match.matchScore;
+      matchReasons = match.matchReasons;
+    }
+
+    const instance = await this.createInstance(
+      tenantId,
+      {
+        workflowTemplateId,
+        entityType: data.entityType,
+        entityId: data.entityId,
+        ...(data.projectId && { projectId: data.projectId }),
+        requestType: data.requestType,
+        requestData: data.requestData,
+        ...(data.priority && { priority: data.priority }),
+      },
+      createdBy
+    );
+
+    return { instance, matchScore, matchReasons };
+  }
+
+  /**
+   * Get the chronological history of an instance
+   */
+  static async getTimeline(instanceId: string, tenantId: string): Promise<WorkflowTimelineEvent[]> {
+    const instance = await prisma.workflowInstance.findFirst({
+      where: { id: instanceId, template: { tenantId } },
+      include: { stageActions: true, revisions: true, comments: true, attachments: true },
+    });
+
+    if (!instance) {
+      throw new Error(`Workflow instance not found: ${instanceId}`);
+    }
+
+    return this.buildTimeline(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      instance as any,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      instance.stageActions as any,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      instance.revisions as any,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      instance.comments as any,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      instance.attachments as any
+    );
+  }
+
+  /**
+   * Merge revisions, actions, comments, attachments and closure into one history, oldest first
+   * Pure function with no side effects
+   */
+  static buildTimeline(
+    instance: Pick<WorkflowInstance, 'id' | 'status'> & {
+      closedAt?: Date | null;
+      closedBy?: string | null;
+      closeReason?: string | null;
+    },
+    actions: StageAction[],
+    revisions: WorkflowRequestRevision[],
+    comments: WorkflowComment[],
+    attachments: Attachment[]
+  ): WorkflowTimelineEvent[] {
+    const events: WorkflowTimelineEvent[] = [
+      ...revisions.map((r) => ({
+        type: r.revision === 1 ? ('Submitted' as const) : ('Resubmitted' as const),
+        occurredAt: r.createdAt,
+        actorId: r.submittedBy ?? null,
+        stageId: null,
+        referenceId: r.id,
+        summary:
+          r.revision === 1
+            ? 'Request submitted'
+            : `Revision ${r.revision} resubmitted${r.comment ? `: ${r.comment}` : ''}`,
+      })),
+      ...actions.map((a) => ({
+        type: 'StageAction' as const,
+        occurredAt: a.actionDate,
+        actorId: a.actorId,
+        stageId: a.stageId,
+        referenceId: a.id,
+        summary: `${a.action}${a.principalId ? ` on behalf of ${a.principalId}` : ''}${a.comment ? `: ${a.comment}` : ''}`,
+      })),
+      ...comments.map((c) => ({
+        type: 'Comment' as const,
+        occurredAt: c.createdAt,
+        actorId: c.authorId,
+        stageId: c.stageId,
+        referenceId: c.id,
+        summary: c.parentId ? 'Replied to a comment' : 'Commented',
+      })),
+      ...attachments.map((a) => ({
+        type: 'Attachment' as const,
+        occurredAt: a.createdAt,
+        actorId: a.uploadedBy,
+        stageId: a.stageId,
+        referenceId: a.id,
+        summary: `Attached ${a.fileName}`,
+      })),
+    ];
+
+    if (instance.closedAt) {
+      events.push({
+        type: 'Closed',
+        occurredAt: instance.closedAt,
+        actorId: instance.closedBy ?? null,
+        stageId: null,
+        referenceId: instance.id,
+        summary: `${instance.status}${instance.closeReason ? `: ${instance.closeReason}` : ''}`,
+      });
+    }
+
+    return events.sort(
+      (a, b) => new Date(a.occurredAt).getTime() - new Date(b.occurredAt).getTime()
+    );
+  }
+
   /**
    * Get workflow instance with details
    */
@@ -347,6 +855,7 @@ export class WorkflowInstanceService {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const where: any = {};
 
+    if (filter.tenantId) where.template = { tenantId: filter.tenantId };
     if (filter.entityType) where.entityType = filter.entityType;
     if (filter.entityId) where.entityId = filter.entityId;
     if (filter.projectId) where.projectId = filter.projectId;
@@ -355,7 +864,8 @@ export class WorkflowInstanceService {
 
     if (filter.overdueSLAOnly) {
       where.slaDue = { lt: new Date() };
-      where.status = { ne: 'Approved' };
+      where.status = { in: ['InProgress', 'Returned'] };
+      where.slaPausedAt = null;
     }
 
     const [instances, total] = await Promise.all([
@@ -379,31 +889,39 @@ export class WorkflowInstanceService {
 
   /**
    * Advance workflow to next stage or complete
+   * The next stage is resolved through stage transitions unless already known
    */
   static async advanceWorkflow(
     instanceId: string,
-    currentStageId: string
+    currentStageId: string,
+    resolvedNextStage?: WorkflowStage | null,
+    tx: Prisma.TransactionClient = prisma
   ): Promise<WorkflowInstance | null> {
-    const instance = await prisma.workflowInstance.findUnique({
+    const instance = await tx.workflowInstance.findUnique({
       where: { id: instanceId },
+      include: { template: true },
     });
 
     if (!instance) return null;
 
-    const currentStage = await prisma.workflowStage.findUnique({
+    const currentStage = await tx.workflowStage.findUnique({
       where: { id: currentStageId },
     });
 
     if (!currentStage) return null;
 
-    const nextStage = await WorkflowStageService.getNextStage(
-      instance.workflowTemplateId,
-      currentStage.stageOrder
-    );
+    const nextStage =
+      resolvedNextStage !== undefined
+        ? resolvedNextStage
+        : await WorkflowStageService.resolveNextStage(
+            instance,
+            instance.template.tenantId,
+            currentStage
+          );
 
     if (!nextStage) {
       // No more stages, workflow complete
-      const updated = await prisma.workflowInstance.update({
+      const updated = await tx.workflowInstance.update({
         where: { id: instanceId },
         data: {
           status: 'Approved',
@@ -414,16 +932,22 @@ export class WorkflowInstanceService {
       return updated as any;
     }
 
-    // Calculate new SLA
-    const slaDue = new Date();
-    slaDue.setHours(slaDue.getHours() + nextStage.slaHours);
+    // Calculate new SLA in tenant working hours
+    const stageStarted = new Date();
+    const slaDue = await BusinessCalendarService.calculateSlaDue(
+      instance.template.tenantId,
+      stageStarted,
+      nextStage.slaHours
+    );
 
-    const updated2 = await prisma.workflowInstance.update({
+    const updated2 = await tx.workflowInstance.update({
       where: { id: instanceId },
       data: {
         currentStageId: nextStage.id,
-        currentStageStarted: new Date(),
+        currentStageStarted: stageStarted,
         slaDue,
+        slaPausedAt: null,
+        slaPausedHours: 0,
         updatedAt: new Date(),
       },
     });
@@ -439,20 +963,42 @@ export class WorkflowInstanceService {
 export class StageActionService {
   /**
    * Record stage action (approval, rejection, etc)
+   * Hours to action count tenant working hours the SLA clock ran in the stage, and the
+   * action is overdue when taken after the stage's SLA due date
+   * Pass the tenant calendar when the caller already loaded it
    */
-  static async recordAction(data: CreateStageActionRequest): Promise<StageAction> {
-    // Calculate hours to action
-    const now = new Date();
-    const hoursToAction = (now.getTime() - data.stageAssignedDate.getTime()) / (1000 * 60 * 60);
-    const wasOverdue = hoursToAction > 24; // Example: overdue if more than 24 hours
+  static async recordAction(
+    data: CreateStageActionRequest,
+    tx: Prisma.TransactionClient = prisma,
+    calendar?: WorkCalendar
+  ): Promise<StageAction> {
+    const instance = await tx.workflowInstance.findUnique({
+      where: { id: data.workflowInstanceId },
+      select: { slaDue: true, slaPausedHours: true, template: { select: { tenantId: true } } },
+    });
+
+    if (!instance) {
+      throw new Error(`Workflow instance not found: ${data.workflowInstanceId}`);
+    }
 
-    const action = await prisma.stageAction.create({
+    // Calculate hours to action in tenant working hours
+    const now = new Date();
+    const workCalendar =
+      calendar || (await BusinessCalendarService.getTenantCalendar(instance.template.tenantId));
+    const hoursToAction =
+      BusinessCalendarService.workingHoursBetween(data.stageAssignedDate, now, workCalendar) -
+      (instance.slaPausedHours || 0);
+    // Matches calculateSLACompliance, which counts the SLA breached outside working hours too
+    const wasOverdue = now > instance.slaDue;
+
+    const action = await tx.stageAction.create({
       data: {
         workflowInstanceId: data.workflowInstanceId,
         stageId: data.stageId,
         action: data.action,
         comment: data.comment || null,
         actorId: data.actorId,
+        principalId: data.principalId || null,
         stageAssignedDate: data.stageAssignedDate,
         hoursToAction,
         wasOverdue,
@@ -540,7 +1086,8 @@ export class WorkflowMetricsService {
         const firstAction = instance.stageActions[instance.stageActions.length - 1];
         if (firstAction) {
           const stageTime =
-            (firstAction.actionDate.getTime() - instance.currentStageStarted.getTime()) / (1000 * 60 * 60);
+            (firstAction.actionDate.getTime() - instance.currentStageStarted.getTime()) /
+            (1000 * 60 * 60);
           totalStageTime += stageTime;
           stageCount++;
         }
@@ -555,8 +1102,9 @@ export class WorkflowMetricsService {
     const avgStageTime = stageCount > 0 ? totalStageTime / stageCount : 0;
 
     // SLA metrics
-    const slaMissed = instances.filter((i) => i.slaDue < new Date() && i.status === 'InProgress')
-      .length;
+    const slaMissed = instances.filter(
+      (i) => i.slaDue < new Date() && i.status === 'InProgress'
+    ).length;
     const slaMissedPercentage = totalExecuted > 0 ? (slaMissed / totalExecuted) * 100 : 0;
 
     return {
@@ -710,7 +1258,7 @@ export class WorkflowRouter {
       name: string;
       isDefault: boolean;
     }>
-  ): typeof templates[0] | null {
+  ): (typeof templates)[0] | null {
     return templates.find((t) => t.isDefault) || null;
   }
 
@@ -749,7 +1297,7 @@ export class WorkflowRouter {
     complexityBand?: string | null,
     budget?: number | null
   ): Array<{
-    template: typeof templates[0];
+    template: (typeof templates)[0];
     score: number;
   }> {
     return templates
@@ -786,77 +1334,304 @@ export class WorkflowExecutor {
       });
 
       if (!instance) {
-        throw new Error(`Workflow instance not found: ${instanceId}`);
+        return this.buildFailureResult(
+          request,
+          'InstanceNotFound',
+          `Workflow instance not found: ${instanceId}`
+        );
       }
 
       // Verify permission
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const permissionResult = await this.verifyPermission(instance as any, context);
+      const permissionResult = await this.verifyPermission(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        instance as any,
+        context,
+        request.onBehalfOf
+      );
       if (!permissionResult.isAuthorized) {
-        throw new Error(`Not authorized: ${permissionResult.reason}`);
+        return this.buildFailureResult(
+          request,
+          'NotAuthorized',
+          `Not authorized: ${permissionResult.reason}`,
+          { permissionDenial: permissionResult }
+        );
       }
 
-      // Calculate SLA info
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const slaInfo = this.calculateSLACompliance(instance as any);
+      if (
+        !WorkflowLifecycleService.canTransition(
+          instance.status,
+          WorkflowLifecycleService.getActionStatus(action)
+        )
+      ) {
+        return this.buildFailureResult(
+          request,
+          'InvalidStatus',
+          `Workflow ${instanceId} is ${instance.status} and cannot be ${action.toLowerCase()}`
+        );
+      }
 
-      // Record the action
-      const stageAction = await StageActionService.recordAction({
-        workflowInstanceId: instanceId,
-        stageId,
-        action,
-        ...(comment && { comment }),
-        actorId: context.actorId,
-        stageAssignedDate: instance.currentStageStarted,
-      });
+      if (instance.currentStageId !== stageId || !instance.currentStage) {
+        return this.buildFailureResult(
+          request,
+          'StageMismatch',
+          `Stage ${stageId} is not the current stage of workflow ${instanceId}`
+        );
+      }
+
+      const validationFailure = this.validateStageAction(
+        request,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        instance.currentStage as any,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        instance.template.stages as any
+      );
+      if (validationFailure) {
+        return this.buildFailureResult(request, validationFailure.code, validationFailure.message);
+      }
+
+      const isVote = action === 'Approved' || action === 'Rejected';
+      const currentStage = instance.currentStage;
+      const voterId = permissionResult.onBehalfOfId || context.actorId;
 
-      let nextStageId: string | undefined;
+      // Attachments must be uploaded by the actor to this stage before submitting
+      let attachments;
+      try {
+        attachments = await AttachmentService.getSubmittableAttachments(
+          instanceId,
+          stageId,
+          context.actorId,
+          request.attachmentIds || []
+        );
+      } catch (error) {
+        return this.buildFailureResult(
+          request,
+          'AttachmentUnavailable',
+          error instanceof Error ? error.message : 'Attachments unavailable'
+        );
+      }
+
+      if (currentStage.requireAttachment && attachments.length === 0) {
+        return this.buildFailureResult(
+          request,
+          'AttachmentRequired',
+          `Stage "${currentStage.name}" requires an attachment`
+        );
+      }
+
+      // Calculate SLA info in tenant working hours
+      const calendar = await BusinessCalendarService.getTenantCalendar(context.tenantId);
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      let workflowStatus = instance.status as any as WorkflowInstanceStatus;
+      const slaInfo = this.calculateSLACompliance(instance as any, calendar);
+
+      // Resolved before the transaction to keep it short
+      const eligibleApprovers = isVote
+        ? await this.countEligibleApprovers(instance, context.tenantId)
+        : 0;
 
-      // Process action
-      if (action === 'Approved') {
-        const nextStage = await WorkflowStageService.getNextStage(
-          instance.workflowTemplateId,
-          instance.currentStage!.stageOrder
+      // The vote and the transition it completes commit together. Claiming the stage first
+      // makes concurrent actions on it wait and then see this vote, or find the stage left
+      const committed = await prisma.$transaction(async (tx) => {
+        const claimed = await tx.workflowInstance.updateMany({
+          where: { id: instanceId, currentStageId: stageId, status: instance.status },
+          data: { updatedAt: new Date() },
+        });
+
+        if (claimed.count === 0) {
+          return {
+            failure: this.buildFailureResult(
+              request,
+              'StageMismatch',
+              `Workflow ${instanceId} is no longer at stage ${stageId}`
+            ),
+          };
+        }
+
+        const priorActions = await StageApprovalService.getCurrentStageActions(instance, tx);
+
+        if (isVote && StageApprovalService.hasActorVoted(priorActions, voterId)) {
+          return {
+            failure: this.buildFailureResult(
+              request,
+              'AlreadyVoted',
+              permissionResult.onBehalfOfId
+                ? `A vote has already been recorded on behalf of ${voterId} for this stage`
+                : 'Actor has already voted on this stage'
+            ),
+          };
+        }
+
+        // Acting on a held request restarts its SLA clock
+        if (instance.slaPausedAt) {
+          await SLAManagementService.resumeSLA(instanceId, context.actorId, tx);
+        }
+
+        // Record the action
+        const stageAction = await StageActionService.recordAction(
+          {
+            workflowInstanceId: instanceId,
+            stageId,
+            action,
+            ...(comment && { comment }),
+            actorId: context.actorId,
+            ...(permissionResult.onBehalfOfId && { principalId: permissionResult.onBehalfOfId }),
+            stageAssignedDate: instance.currentStageStarted,
+          },
+          tx,
+          calendar
         );
 
-        if (nextStage) {
-          // Move to next stage
-          const advanced = await WorkflowInstanceService.advanceWorkflow(instanceId, stageId);
-          nextStageId = advanced?.currentStageId;
-          workflowStatus = advanced?.status || 'InProgress';
-          // Send notification about stage advancement
-          // eslint-disable-next-line @typescript-eslint/no-floating-promises
-          WorkflowNotificationIntegration.notifyWorkflowAdvanced(
-            instanceId,
+        await AttachmentService.linkToAction(
+          attachments.map((a) => a.id),
+          stageAction.id,
+          tx
+        );
+
+        // Parallel stages stay open until their approval rule is met or defeated
+        const approvalProgress = isVote
+          ? StageApprovalService.evaluateApprovalRule(
+              // eslint-disable-next-line @typescript-eslint/no-explicit-any
+              currentStage as any,
+              [...priorActions, stageAction],
+              eligibleApprovers
+            )
+          : undefined;
+
+        // A defeated rule rejects the workflow, even when an approval defeated it
+        let outcome: ActionResult | null = approvalProgress?.isDefeated ? 'Rejected' : action;
+        let nextStageId: string | undefined;
+        let returnStageName: string | undefined;
+        let requestExecution: RequestExecutionResult | undefined;
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        let workflowStatus = instance.status as any as WorkflowInstanceStatus;
+
+        if (approvalProgress && !approvalProgress.isMet && !approvalProgress.isDefeated) {
+          outcome = null;
+        } else if (outcome === 'Approved') {
+          const nextStage = await WorkflowStageService.resolveNextStage(
+            instance,
             context.tenantId,
-            nextStageId || '',
-            stageId,
-            context.actorId
+            currentStage
+          );
+
+          if (nextStage) {
+            // Move to next stage
+            const advanced = await WorkflowInstanceService.advanceWorkflow(
+              instanceId,
+              stageId,
+              nextStage,
+              tx
+            );
+            nextStageId = advanced?.currentStageId;
+            workflowStatus = advanced?.status || 'InProgress';
+          } else {
+            // Workflow complete; it is approved only if its request applies
+            requestExecution = await WorkflowRequestService.applyApprovedRequest(
+              instanceId,
+              context.tenantId,
+              tx
+            );
+            workflowStatus = 'Approved';
+          }
+        } else if (outcome === 'Rejected') {
+          await tx.workflowInstance.update({
+            where: { id: instanceId },
+            data: { status: 'Rejected' },
+          });
+          workflowStatus = 'Rejected';
+        } else if (outcome === 'Returned' && returnToStageId) {
+          // Validated above as an earlier stage of the same template
+          const returnStage = instance.template.stages.find((s) => s.id === returnToStageId)!;
+
+          // Return to specified stage
+          const stageStarted = new Date();
+          const slaDue = BusinessCalendarService.addWorkingHours(
+            stageStarted,
+            returnStage.slaHours,
+            calendar
           );
-        } else {
-          // Workflow complete
-          await prisma.workflowInstance.update({
+
+          await tx.workflowInstance.update({
             where: { id: instanceId },
-            data: { status: 'Approved' },
+            data: {
+              currentStageId: returnToStageId,
+              currentStageStarted: stageStarted,
+              slaDue,
+              slaPausedHours: 0,
+              status: 'Returned',
+            },
           });
-          workflowStatus = 'Approved';
-          // Send notification about approval
-          // eslint-disable-next-line @typescript-eslint/no-floating-promises
-          WorkflowNotificationIntegration.notifyWorkflowApproved(
+
+          // The clock stays stopped until the requester resubmits
+          await SLAManagementService.pauseSLA(
             instanceId,
-            context.tenantId,
-            context.actorId
+            'Returned',
+            context.actorId,
+            comment,
+            stageStarted,
+            tx
           );
+
+          nextStageId = returnToStageId;
+          returnStageName = returnStage.name;
+          workflowStatus = 'Returned';
         }
-      } else if (action === 'Rejected') {
-        await prisma.workflowInstance.update({
-          where: { id: instanceId },
-          data: { status: 'Rejected' },
-        });
-        workflowStatus = 'Rejected';
-        // Send notification about rejection
+
+        return {
+          stageAction,
+          approvalProgress,
+          outcome,
+          nextStageId,
+          returnStageName,
+          requestExecution,
+          workflowStatus,
+        };
+      });
+
+      if ('failure' in committed) {
+        return committed.failure;
+      }
+
+      const {
+        stageAction,
+        approvalProgress,
+        outcome,
+        nextStageId,
+        requestExecution,
+        workflowStatus,
+      } = committed;
+
+      if (!outcome) {
+        return {
+          success: true,
+          instanceId,
+          actionId: stageAction.id,
+          action,
+          previousStageId: stageId,
+          workflowStatus,
+          slaInfo,
+          ...(approvalProgress && { approvalProgress }),
+          message: `Action ${action} recorded (${approvalProgress?.approvals} of ${approvalProgress?.requiredApprovals} approvals)`,
+        };
+      }
+
+      // Notify once the transition is committed
+      if (outcome === 'Approved' && nextStageId) {
+        // eslint-disable-next-line @typescript-eslint/no-floating-promises
+        WorkflowNotificationIntegration.notifyWorkflowAdvanced(
+          instanceId,
+          context.tenantId,
+          nextStageId,
+          stageId,
+          context.actorId
+        );
+      } else if (outcome === 'Approved') {
+        // eslint-disable-next-line @typescript-eslint/no-floating-promises
+        WorkflowNotificationIntegration.notifyWorkflowApproved(
+          instanceId,
+          context.tenantId,
+          context.actorId
+        );
+      } else if (outcome === 'Rejected') {
         // eslint-disable-next-line @typescript-eslint/no-floating-promises
         WorkflowNotificationIntegration.notifyWorkflowRejected(
           instanceId,
@@ -864,46 +1639,20 @@ export class WorkflowExecutor {
           context.actorId,
           comment
         );
-      } else if (action === 'Returned') {
-        if (!returnToStageId) {
-          throw new Error('Return action requires returnToStageId');
-        }
-
-        const returnStage = await prisma.workflowStage.findUnique({
-          where: { id: returnToStageId },
-        });
-
-        if (!returnStage) {
-          throw new Error(`Return stage not found: ${returnToStageId}`);
-        }
-
-        // Return to specified stage
-        const slaDue = new Date();
-        slaDue.setHours(slaDue.getHours() + returnStage.slaHours);
-
-        await prisma.workflowInstance.update({
-          where: { id: instanceId },
-          data: {
-            currentStageId: returnToStageId,
-            currentStageStarted: new Date(),
-            slaDue,
-            status: 'Returned',
-          },
-        });
-
-        nextStageId = returnToStageId;
-        workflowStatus = 'Returned';
-        // Send notification about return
+      } else if (committed.returnStageName) {
         // eslint-disable-next-line @typescript-eslint/no-floating-promises
         WorkflowNotificationIntegration.notifyWorkflowReturned(
           instanceId,
           context.tenantId,
           context.actorId,
-          returnStage.name,
+          committed.returnStageName,
           comment
         );
       }
 
+      // The stage is over; keep its SLA figures for reporting
+      await SLAManagementService.recordSLAHistory(instance, outcome, voterId);
+
       return {
         success: true,
         instanceId,
@@ -913,41 +1662,160 @@ export class WorkflowExecutor {
         ...(nextStageId && { nextStageId }),
         workflowStatus,
         slaInfo,
+        ...(approvalProgress && { approvalProgress }),
+        ...(requestExecution && { requestExecution }),
         message: `Action ${action} recorded successfully`,
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      // Raised inside the transaction when attachments were linked concurrently
+      if (errorMessage.startsWith('Attachments not available')) {
+        return this.buildFailureResult(request, 'AttachmentUnavailable', errorMessage);
+      }
+
+      return this.buildFailureResult(request, 'ExecutionFailed', errorMessage);
+    }
+  }
+
+  /**
+   * Validate an action against the current stage's configuration
+   * The action must be enabled on the stage, carry a comment when the stage requires one,
+   * and a return must target an earlier stage of the same template
+   * Pure function with no side effects
+   */
+  static validateStageAction(
+    request: Pick<ActionExecutionRequest, 'action' | 'comment' | 'returnToStageId'>,
+    stage: Pick<WorkflowStage, 'id' | 'name' | 'stageOrder' | 'actions' | 'requireComment'>,
+    templateStages: Array<Pick<WorkflowStage, 'id' | 'stageOrder'>>
+  ): ActionValidationFailure | null {
+    const stageAction = STAGE_ACTIONS[request.action];
+
+    if (!stage.actions.includes(stageAction)) {
       return {
-        success: false,
-        instanceId,
-        actionId: '',
-        action,
-        previousStageId: stageId,
-        workflowStatus: 'InProgress',
-        slaInfo: {
-          stageId,
-          stageName: '',
-          assignedAt: new Date(),
-          dueAt: new Date(),
-          isOverdue: false,
-          hoursUsed: 0,
-        },
-        error: errorMessage,
-        message: `Action execution failed: ${errorMessage}`,
+        code: 'ActionNotAllowed',
+        message: `Stage "${stage.name}" does not allow ${stageAction}; allowed: ${stage.actions.join(', ') || 'none'}`,
+      };
+    }
+
+    if (stage.requireComment && !request.comment?.trim()) {
+      return {
+        code: 'CommentRequired',
+        message: `Stage "${stage.name}" requires a comment`,
+      };
+    }
+
+    if (request.action !== 'Returned') {
+      return null;
+    }
+
+    if (!request.returnToStageId) {
+      return {
+        code: 'ReturnTargetRequired',
+        message: 'Return action requires returnToStageId',
       };
     }
+
+    const target = templateStages.find((s) => s.id === request.returnToStageId);
+
+    if (!target) {
+      return {
+        code: 'InvalidReturnTarget',
+        message: `Return stage is not part of this workflow's template: ${request.returnToStageId}`,
+      };
+    }
+
+    if (target.stageOrder >= stage.stageOrder) {
+      return {
+        code: 'InvalidReturnTarget',
+        message: `Return stage must come before the current stage: ${request.returnToStageId}`,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the HTTP status for an action error code
+   * Pure function with no side effects
+   */
+  static getErrorStatus(code: ActionErrorCode | undefined): number {
+    return code ? ACTION_ERROR_STATUS[code] : 500;
+  }
+
+  /**
+   * Count the users eligible to approve the current stage
+   * Only resolved for 'All' and 'Quorum' stages; 'Any' needs no count
+   */
+  private static async countEligibleApprovers(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    instance: any,
+    tenantId: string
+  ): Promise<number> {
+    const stage = instance.currentStage;
+
+    if (!stage.approvalMode || stage.approvalMode === 'Any') {
+      return 0;
+    }
+
+    const entityContext = await StageResponsibilityService.resolveEntityContext(tenantId, instance);
+
+    return StageApprovalService.countEligibleApprovers(
+      await StageResponsibilityService.resolveEligibleApprovers(
+        StageResponsibilityService.getEffectiveResponsibilities(
+          instance,
+          stage.responsibilities || []
+        ),
+        entityContext
+      )
+    );
+  }
+
+  /**
+   * Build a failed execution result
+   */
+  private static buildFailureResult(
+    request: ActionExecutionRequest,
+    errorCode: ActionErrorCode,
+    errorMessage: string,
+    extra: Pick<ExecutionResult, 'permissionDenial'> = {}
+  ): ExecutionResult {
+    return {
+      success: false,
+      instanceId: request.instanceId,
+      actionId: '',
+      action: request.action,
+      previousStageId: request.stageId,
+      workflowStatus: 'InProgress',
+      slaInfo: {
+        stageId: request.stageId,
+        stageName: '',
+        assignedAt: new Date(),
+        dueAt: new Date(),
+        isOverdue: false,
+        hoursUsed: 0,
+      },
+      error: errorMessage,
+      errorCode,
+      ...extra,
+      message: `Action execution failed: ${errorMessage}`,
+    };
   }
 
   /**
    * Verify that actor has permission to execute action
+   * Resolves the current stage's responsibilities, or its escalation reassignment,
+   * against the actor's roles, the entity's positions and program-to-project role
+   * inheritance, then against the principals of any active delegations to the actor
+   * Given a principal, only that principal's delegation is checked, so a delegate who is
+   * an approver too can cast the principal's vote besides their own
    */
   static async verifyPermission(
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    _instance: any,
-    context: ExecutionContext
+    instance: any,
+    context: ExecutionContext,
+    onBehalfOfId?: string
   ): Promise<PermissionVerificationResult> {
-    // For now, allow any authenticated user to perform actions
-    // In production, this would check role-based permissions against stage responsibilities
     if (!context.actorId) {
       return {
         isAuthorized: false,
@@ -955,29 +1823,134 @@ export class WorkflowExecutor {
       };
     }
 
-    // TODO: Integrate with RBAC system (CHUNK 2.6)
-    // Check if actor has one of the required roles for this stage
-    // For now, assume authorized
+    if (instance.template?.tenantId && instance.template.tenantId !== context.tenantId) {
+      return {
+        isAuthorized: false,
+        reason: `Workflow instance does not belong to tenant: ${context.tenantId}`,
+      };
+    }
+
+    const responsibilities: StageResponsibility[] = instance.currentStage
+      ? StageResponsibilityService.getEffectiveResponsibilities(
+          instance,
+          instance.currentStage.responsibilities || []
+        )
+      : [];
+    const stageName = instance.currentStage?.name || 'Unknown';
+
+    if (responsibilities.length === 0) {
+      return {
+        isAuthorized: false,
+        reason: `No responsibilities configured for stage "${stageName}"`,
+        eligibleApprovers: [],
+      };
+    }
+
+    const isTenantUser = await StageResponsibilityService.isActiveTenantUser(
+      context.actorId,
+      context.tenantId
+    );
+
+    if (!isTenantUser) {
+      return {
+        isAuthorized: false,
+        reason: `Actor is not an active user of tenant: ${context.tenantId}`,
+      };
+    }
+
+    const [rolesContext, entityContext] = await Promise.all([
+      RBACService.getRolesForUser(context.actorId),
+      StageResponsibilityService.resolveEntityContext(context.tenantId, instance),
+    ]);
+
+    const matched =
+      !onBehalfOfId &&
+      StageResponsibilityService.findMatchingResponsibility(
+        responsibilities,
+        context.actorId,
+        rolesContext,
+        entityContext
+      );
+
+    if (matched) {
+      return {
+        isAuthorized: true,
+        matchedResponsibilityId: matched.id,
+        userRoles: rolesContext.allRoles,
+      };
+    }
+
+    // Fall back to principals who delegated their approvals to the actor
+    const delegations = await DelegationService.getDelegationsForDelegate(
+      context.actorId,
+      context.tenantId,
+      {
+        at: new Date(),
+        ...(instance.template && {
+          templateFamilyId: WorkflowVersionService.getFamilyId(instance.template),
+        }),
+        programId: entityContext.programId,
+        projectId: entityContext.projectId,
+      }
+    );
+
+    for (const delegation of delegations) {
+      if (onBehalfOfId && delegation.principalId !== onBehalfOfId) continue;
+
+      const principalRoles = await RBACService.getRolesForUser(delegation.principalId);
+      const delegated = StageResponsibilityService.findMatchingResponsibility(
+        responsibilities,
+        delegation.principalId,
+        principalRoles,
+        entityContext
+      );
+
+      if (delegated) {
+        return {
+          isAuthorized: true,
+          matchedResponsibilityId: delegated.id,
+          onBehalfOfId: delegation.principalId,
+          userRoles: rolesContext.allRoles,
+        };
+      }
+    }
+
+    const eligibleApprovers = await StageResponsibilityService.resolveEligibleApprovers(
+      responsibilities,
+      entityContext
+    );
+
     return {
-      isAuthorized: true,
+      isAuthorized: false,
+      reason: onBehalfOfId
+        ? `Actor holds no delegation from ${onBehalfOfId} covering stage "${stageName}"`
+        : `Actor is not an eligible approver for stage "${stageName}"`,
+      requiredRoles: Array.from(
+        new Set(responsibilities.filter((r) => r.type === 'Role').map((r) => r.value))
+      ),
+      userRoles: rolesContext.allRoles,
+      eligibleApprovers,
     };
   }
 
   /**
-   * Calculate SLA compliance information
+   * Calculate SLA compliance information, counting working hours of the tenant calendar
+   * Time the clock was paused in the stage is not counted
    */
-  static calculateSLACompliance(instance: WorkflowInstance & { currentStage?: WorkflowStage }): SLAComplianceInfo {
-    const now = new Date();
+  static calculateSLACompliance(
+    instance: WorkflowInstance & { currentStage?: WorkflowStage },
+    calendar: WorkCalendar = BusinessCalendarService.resolveCalendar(null)
+  ): SLAComplianceInfo {
+    const clock = instance.slaPausedAt || new Date();
     const assignedAt = instance.currentStageStarted;
     const dueAt = instance.slaDue;
 
-    const msUsed = now.getTime() - assignedAt.getTime();
-    const hoursUsed = msUsed / (1000 * 60 * 60);
-
-    const msRemaining = dueAt.getTime() - now.getTime();
-    const hoursRemaining = msRemaining / (1000 * 60 * 60);
+    const hoursUsed =
+      BusinessCalendarService.workingHoursBetween(assignedAt, clock, calendar) -
+      (instance.slaPausedHours || 0);
+    const hoursRemaining = BusinessCalendarService.workingHoursBetween(clock, dueAt, calendar);
 
-    const isOverdue = msRemaining < 0;
+    const isOverdue = dueAt < clock;
 
     return {
       stageId: instance.currentStageId,
@@ -1003,23 +1976,25 @@ export class WorkflowExecutor {
       return null;
     }
 
-    const totalApprovalTime = (instance.updatedAt.getTime() - instance.createdAt.getTime()) / (1000 * 60 * 60 * 24);
+    const totalApprovalTime =
+      (instance.updatedAt.getTime() - instance.createdAt.getTime()) / (1000 * 60 * 60 * 24);
 
     return {
       instanceId,
       completedAt: instance.updatedAt,
       totalStagesCompleted: instance.stageActions.length,
       totalApprovalTime: Math.round(totalApprovalTime * 100) / 100,
-      requestExecuted: true, // In production, would actually execute the request
+      requestExecuted: !!instance.requestExecutedAt,
+      ...(instance.executionError && { executionError: instance.executionError }),
     };
   }
 
   /**
-   * Check if workflow is overdue
+   * Check if workflow is overdue; a paused SLA clock is never overdue
    */
   static isOverdue(instance: WorkflowInstance): boolean {
     const now = new Date();
-    return instance.slaDue < now && instance.status === 'InProgress';
+    return instance.slaDue < now && instance.status === 'InProgress' && !instance.slaPausedAt;
   }
 
   /**
@@ -1031,6 +2006,7 @@ export class WorkflowExecutor {
       where: {
         template: { tenantId },
         slaDue: { lt: now },
+        slaPausedAt: null,
         status: 'InProgress',
       },
       include: { template: true, currentStage: true },
@@ -0,0 +1,320 @@
+/**
+ * Workflow Simulation Service
+ * Dry-runs routing, stage transitions and approver resolution for a hypothetical entity
+ */
+
+import { PrismaClient } from '@prisma/client';
+import {
+  SimulatedStage,
+  SimulatedTemplateCandidate,
+  StageEntityContext,
+  StageResponsibility,
+  StageTransition,
+  TemplateVersionStatus,
+  TransitionConditionContext,
+  WorkflowSimulationRequest,
+  WorkflowSimulationResult,
+  WorkflowStage,
+} from '@/types/workflow';
+import { BusinessCalendarService } from './business-calendar-service';
+import { StageResponsibilityService } from './stage-responsibility-service';
+import { StageApprovalService } from './stage-approval-service';
+import { StageTransitionService } from './stage-transition-service';
+import { WorkflowVersionService } from './workflow-version-service';
+import { WorkflowTemplateService } from './workflow-service';
+
+const prisma = new PrismaClient();
+
+/**
+ * Template fields used for routing a simulation
+ */
+type RoutableTemplate = {
+  id: string;
+  name: string;
+  templateFamilyId: string | null;
+  version: number;
+  status: string;
+  entityType: string | null;
+  complexityBand: string | null;
+  budgetMin: number | null;
+  budgetMax: number | null;
+  isDefault: boolean;
+};
+
+/**
+ * Stage fields used for walking a stage path
+ */
+type PathStage = Pick<WorkflowStage, 'id' | 'stageOrder'> & {
+  outgoingTransitions: Array<
+    Pick<StageTransition, 'toStageId' | 'priority' | 'condition' | 'description'>
+  >;
+};
+
+/**
+ * Stage loaded with its responsibilities and transitions
+ */
+type SimulationStage = Omit<WorkflowStage, 'responsibilities' | 'outgoingTransitions'> & {
+  responsibilities: StageResponsibility[];
+  outgoingTransitions: StageTransition[];
+};
+
+// ============================================================================
+// WORKFLOW SIMULATION SERVICE
+// ============================================================================
+
+export class WorkflowSimulationService {
+  /**
+   * Simulate routing and approval of a hypothetical entity
+   * Reads templates, role assignments and entity positions; writes nothing
+   */
+  static async simulate(
+    tenantId: string,
+    request: WorkflowSimulationRequest
+  ): Promise<WorkflowSimulationResult> {
+    const templates = await prisma.workflowTemplate.findMany({
+      where: {
+        tenantId,
+        isActive: true,
+        status: { in: request.includeDrafts ? ['Published', 'Draft'] : ['Published'] },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const candidates = this.selectCandidates(
+      templates.map((t) => ({
+        ...t,
+        budgetMin: t.budgetMin !== null ? Number(t.budgetMin) : null,
+        budgetMax: t.budgetMax !== null ? Number(t.budgetMax) : null,
+      })),
+      !!request.includeDrafts
+    );
+    const { selected, alternatives } = this.rankCandidates(candidates, request);
+    const startAt = request.startAt || new Date();
+
+    if (!selected) {
+      return {
+        selectedTemplate: null,
+        alternatives,
+        stagePath: [],
+        totalSlaHours: 0,
+        expectedCompletionAt: null,
+        warnings: ['No active template matches this entity'],
+      };
+    }
+
+    const stages = await prisma.workflowStage.findMany({
+      where: { workflowTemplateId: selected.templateId },
+      orderBy: { stageOrder: 'asc' },
+      include: {
+        responsibilities: true,
+        outgoingTransitions: { orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }] },
+      },
+    });
+
+    const conditionContext = StageTransitionService.buildConditionContext(
+      request.requestData || {},
+      {
+        ...(request.budget !== null && request.budget !== undefined && { budget: request.budget }),
+        ...(request.complexityBand && { complexityBand: request.complexityBand }),
+        type: request.entityType,
+      }
+    );
+    const { path, warnings } = this.buildStagePath(
+      stages as unknown as SimulationStage[],
+      conditionContext
+    );
+    const entityContext = await this.resolveEntityContext(tenantId, request);
+
+    const calendar = await BusinessCalendarService.getTenantCalendar(tenantId);
+    const stagePath: SimulatedStage[] = [];
+    let expectedStartAt = startAt;
+
+    for (const { stage, enteredBy } of path) {
+      const eligibleApprovers = await StageResponsibilityService.resolveEligibleApprovers(
+        stage.responsibilities,
+        entityContext
+      );
+      const approverCount = StageApprovalService.countEligibleApprovers(eligibleApprovers);
+      const expectedDueAt = BusinessCalendarService.addWorkingHours(
+        expectedStartAt,
+        stage.slaHours,
+        calendar
+      );
+
+      if (approverCount === 0) {
+        warnings.push(`Stage "${stage.name}" has no resolvable approvers`);
+      } else if (
+        stage.approvalMode === 'Quorum' &&
+        (stage.requiredApprovals ?? 1) > approverCount
+      ) {
+        warnings.push(
+          `Stage "${stage.name}" needs ${stage.requiredApprovals} approvals but only ${approverCount} approvers resolve`
+        );
+      }
+
+      stagePath.push({
+        stageId: stage.id,
+        stageKey: stage.stageKey,
+        stageOrder: stage.stageOrder,
+        name: stage.name,
+        slaHours: stage.slaHours,
+        approvalMode: stage.approvalMode,
+        requiredApprovals: stage.requiredApprovals,
+        enteredBy,
+        eligibleApprovers,
+        approverCount,
+        expectedStartAt,
+        expectedDueAt,
+      });
+
+      expectedStartAt = expectedDueAt;
+    }
+
+    return {
+      selectedTemplate: selected,
+      alternatives,
+      stagePath,
+      totalSlaHours: stagePath.reduce((sum, s) => sum + s.slaHours, 0),
+      expectedCompletionAt: stagePath.length > 0 ? expectedStartAt : null,
+      warnings,
+    };
+  }
+
+  /**
+   * Pick the template versions routing may use
+   * With drafts included, a family's draft replaces its published version
+   * Pure function with no side effects
+   */
+  static selectCandidates<T extends RoutableTemplate>(templates: T[], includeDrafts: boolean): T[] {
+    const published = templates.filter((t) => t.status === 'Published');
+
+    if (!includeDrafts) {
+      return published;
+    }
+
+    const drafts = templates.filter((t) => t.status === 'Draft');
+    const draftFamilies = new Set(drafts.map((t) => WorkflowVersionService.getFamilyId(t)));
+
+    return [
+      ...published.filter((t) => !draftFamilies.has(WorkflowVersionService.getFamilyId(t))),
+      ...drafts,
+    ];
+  }
+
+  /**
+   * Route a simulated entity the way findMatchingTemplate does and rank the remaining candidates
+   * Pure function with no side effects
+   */
+  static rankCandidates(
+    templates: RoutableTemplate[],
+    request: Pick<WorkflowSimulationRequest, 'entityType' | 'complexityBand' | 'budget'>
+  ): {
+    selected: SimulatedTemplateCandidate | null;
+    alternatives: SimulatedTemplateCandidate[];
+  } {
+    const describe = (
+      template: RoutableTemplate,
+      { score, reasons }: { score: number; reasons: string[] }
+    ): SimulatedTemplateCandidate => ({
+      templateId: template.id,
+      name: template.name,
+      version: template.version,
+      status: template.status as TemplateVersionStatus,
+      score,
+      reasons,
+    });
+
+    const selected = WorkflowTemplateService.selectTemplate(templates, request);
+
+    return {
+      selected: selected ? describe(selected.template, selected) : null,
+      alternatives: templates
+        .filter((t) => t.id !== selected?.template.id)
+        .map((t) => ({ template: t, match: WorkflowTemplateService.scoreTemplate(t, request) }))
+        .sort((a, b) => b.match.score - a.match.score)
+        .map((r) => describe(r.template, r.match)),
+    };
+  }
+
+  /**
+   * Walk a template's stages the way the executor would
+   * Each stage follows its first matching transition, otherwise the next stage order
+   * Pure function with no side effects
+   */
+  static buildStagePath<T extends PathStage>(
+    stages: T[],
+    context: TransitionConditionContext
+  ): { path: Array<{ stage: T; enteredBy: string }>; warnings: string[] } {
+    const ordered = [...stages].sort((a, b) => a.stageOrder - b.stageOrder);
+    const path: Array<{ stage: T; enteredBy: string }> = [];
+    const warnings: string[] = [];
+    const visited = new Set<string>();
+
+    let current: T | undefined = ordered[0];
+    let enteredBy = 'First stage';
+
+    while (current) {
+      if (visited.has(current.id)) {
+        warnings.push(`Transition loop detected at stage ${current.id}; simulation stopped`);
+        break;
+      }
+
+      visited.add(current.id);
+      path.push({ stage: current, enteredBy });
+
+      const transition = StageTransitionService.selectTransition(
+        current.outgoingTransitions,
+        context
+      );
+
+      if (transition) {
+        if (!transition.toStageId) break;
+
+        const target = ordered.find((s) => s.id === transition.toStageId);
+        if (!target) {
+          warnings.push(`Transition targets a stage outside the template: ${transition.toStageId}`);
+          break;
+        }
+
+        enteredBy = transition.description || `Transition from stage ${current.stageOrder}`;
+        current = target;
+      } else {
+        const order: number = current.stageOrder;
+        current = ordered.find((s) => s.stageOrder > order);
+        enteredBy = 'Next stage order';
+      }
+    }
+
+    return { path, warnings };
+  }
+
+  /**
+   * Resolve program / project positions for the simulation when provided
+   */
+  private static async resolveEntityContext(
+    tenantId: string,
+    request: Pick<WorkflowSimulationRequest, 'programId' | 'projectId'>
+  ): Promise<StageEntityContext> {
+    if (request.projectId) {
+      return StageResponsibilityService.resolveEntityContext(tenantId, {
+        entityType: 'Project',
+        entityId: request.projectId,
+      });
+    }
+
+    if (request.programId) {
+      return StageResponsibilityService.resolveEntityContext(tenantId, {
+        entityType: 'Program',
+        entityId: request.programId,
+      });
+    }
+
+    return {
+      tenantId,
+      programId: null,
+      projectId: null,
+      programPositions: {},
+      projectPositions: {},
+    };
+  }
+}
@@ -0,0 +1,413 @@
+/**
+ * Workflow Version Service
+ * Draft / publish lifecycle for workflow templates and diffs between versions
+ */
+
+import { PrismaClient } from '@prisma/client';
+import {
+  StageVersionDiff,
+  TemplateVersionDiff,
+  VersionFieldChange,
+  WorkflowTemplate,
+} from '@/types/workflow';
+
+const prisma = new PrismaClient();
+
+const TEMPLATE_DIFF_FIELDS = [
+  'name',
+  'description',
+  'entityType',
+  'complexityBand',
+  'budgetMin',
+  'budgetMax',
+  'isDefault',
+  'slaThresholds',
+] as const;
+
+const STAGE_DIFF_FIELDS = [
+  'name',
+  'description',
+  'stageOrder',
+  'slaHours',
+  'slaThresholds',
+  'actions',
+  'requireComment',
+  'requireAttachment',
+  'approvalMode',
+  'requiredApprovals',
+] as const;
+
+/**
+ * Template version shape used for diffing
+ */
+type VersionDefinition = Record<(typeof TEMPLATE_DIFF_FIELDS)[number], unknown> & {
+  id: string;
+  templateFamilyId: string | null;
+  version: number;
+  stages: Array<
+    Record<(typeof STAGE_DIFF_FIELDS)[number], unknown> & {
+      id: string;
+      stageKey: string;
+      name: string;
+      responsibilities: Array<{ type: string; value: string; scope: string }>;
+      outgoingTransitions: Array<{
+        toStageId: string | null;
+        priority: number;
+        condition: unknown;
+      }>;
+    }
+  >;
+};
+
+const VERSION_INCLUDE = {
+  stages: {
+    orderBy: { stageOrder: 'asc' },
+    include: { responsibilities: true, outgoingTransitions: true },
+  },
+} as const;
+
+// ============================================================================
+// WORKFLOW VERSION SERVICE
+// ============================================================================
+
+export class WorkflowVersionService {
+  /**
+   * Get the family ID shared by every version of a template
+   * Pure function with no side effects
+   */
+  static getFamilyId(template: Pick<WorkflowTemplate, 'id' | 'templateFamilyId'>): string {
+    return template.templateFamilyId || template.id;
+  }
+
+  /**
+   * Ensure a template's stages can still be edited
+   * Published and superseded versions are immutable
+   */
+  static async assertTemplateEditable(templateId: string): Promise<void> {
+    const template = await prisma.workflowTemplate.findUnique({
+      where: { id: templateId },
+      select: { status: true, version: true },
+    });
+
+    if (!template) {
+      throw new Error(`Template not found: ${templateId}`);
+    }
+
+    if (template.status !== 'Draft') {
+      throw new Error(
+        `Template version ${template.version} is ${template.status} and cannot be edited; create a draft version instead`
+      );
+    }
+  }
+
+  /**
+   * List every version of a template, newest first
+   */
+  static async listVersions(templateId: string): Promise<WorkflowTemplate[]> {
+    const template = await prisma.workflowTemplate.findUnique({ where: { id: templateId } });
+
+    if (!template) {
+      throw new Error(`Template not found: ${templateId}`);
+    }
+
+    const familyId = this.getFamilyId(template);
+    const versions = await prisma.workflowTemplate.findMany({
+      where: { OR: [{ id: familyId }, { templateFamilyId: familyId }] },
+      orderBy: { version: 'desc' },
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return versions as any;
+  }
+
+  /**
+   * Create an editable draft from an existing version
+   * Stages, responsibilities and transitions are copied; stage keys are preserved
+   */
+  static async createDraftVersion(
+    templateId: string,
+    createdBy: string
+  ): Promise<WorkflowTemplate> {
+    const source = await prisma.workflowTemplate.findUnique({
+      where: { id: templateId },
+      include: VERSION_INCLUDE,
+    });
+
+    if (!source) {
+      throw new Error(`Template not found: ${templateId}`);
+    }
+
+    const familyId = this.getFamilyId(source);
+    const familyWhere = { OR: [{ id: familyId }, { templateFamilyId: familyId }] };
+
+    const existingDraft = await prisma.workflowTemplate.findFirst({
+      where: { ...familyWhere, status: 'Draft' },
+    });
+
+    if (existingDraft) {
+      throw new Error(`Template already has a draft version: ${existingDraft.id}`);
+    }
+
+    const latest = await prisma.workflowTemplate.findFirst({
+      where: familyWhere,
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+
+    const draft = await prisma.$transaction(async (tx) => {
+      const created = await tx.workflowTemplate.create({
+        data: {
+          tenantId: source.tenantId,
+          name: source.name,
+          description: source.description,
+          entityType: source.entityType,
+          complexityBand: source.complexityBand,
+          budgetMin: source.budgetMin,
+          budgetMax: source.budgetMax,
+          matchScore: source.matchScore,
+          isDefault: source.isDefault,
+          isActive: source.isActive,
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          slaThresholds: (source.slaThresholds ?? undefined) as any,
+          templateFamilyId: familyId,
+          version: (latest?.version || source.version) + 1,
+          status: 'Draft',
+          createdBy,
+        },
+      });
+
+      const stageIdMap = new Map<string, string>();
+
+      for (const stage of source.stages) {
+        const copy = await tx.workflowStage.create({
+          data: {
+            workflowTemplateId: created.id,
+            stageOrder: stage.stageOrder,
+            name: stage.name,
+            description: stage.description,
+            stageKey: stage.stageKey,
+            slaHours: stage.slaHours,
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            slaThresholds: (stage.slaThresholds ?? undefined) as any,
+            actions: stage.actions,
+            requireComment: stage.requireComment,
+            requireAttachment: stage.requireAttachment,
+            approvalMode: stage.approvalMode,
+            requiredApprovals: stage.requiredApprovals,
+            responsibilities: {
+              create: stage.responsibilities.map((r) => ({
+                type: r.type,
+                value: r.value,
+                scope: r.scope,
+                notificationMethod: r.notificationMethod,
+              })),
+            },
+          },
+        });
+        stageIdMap.set(stage.id, copy.id);
+      }
+
+      for (const stage of source.stages) {
+        for (const transition of stage.outgoingTransitions) {
+          await tx.stageTransition.create({
+            data: {
+              fromStageId: stageIdMap.get(stage.id)!,
+              toStageId: transition.toStageId
+                ? (stageIdMap.get(transition.toStageId) ?? null)
+                : null,
+              priority: transition.priority,
+              // eslint-disable-next-line @typescript-eslint/no-explicit-any
+              condition: (transition.condition ?? undefined) as any,
+              description: transition.description,
+            },
+          });
+        }
+      }
+
+      return created;
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return draft as any;
+  }
+
+  /**
+   * Publish a draft version
+   * The previously published version is superseded; its running instances stay pinned to it
+   */
+  static async publishTemplate(templateId: string, publishedBy: string): Promise<WorkflowTemplate> {
+    const draft = await prisma.workflowTemplate.findUnique({
+      where: { id: templateId },
+      include: { _count: { select: { stages: true } } },
+    });
+
+    if (!draft) {
+      throw new Error(`Template not found: ${templateId}`);
+    }
+
+    if (draft.status !== 'Draft') {
+      throw new Error(`Only draft templates can be published: ${templateId} is ${draft.status}`);
+    }
+
+    if (draft._count.stages === 0) {
+      throw new Error(`Template has no stages: ${templateId}`);
+    }
+
+    const familyId = this.getFamilyId(draft);
+
+    const published = await prisma.$transaction(async (tx) => {
+      await tx.workflowTemplate.updateMany({
+        where: {
+          OR: [{ id: familyId }, { templateFamilyId: familyId }],
+          status: 'Published',
+        },
+        data: { status: 'Superseded' },
+      });
+
+      return tx.workflowTemplate.update({
+        where: { id: templateId },
+        data: { status: 'Published', publishedAt: new Date(), publishedBy },
+      });
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return published as any;
+  }
+
+  /**
+   * Diff two versions of the same template
+   */
+  static async getVersionDiff(
+    fromTemplateId: string,
+    toTemplateId: string
+  ): Promise<TemplateVersionDiff> {
+    const [from, to] = await Promise.all([
+      prisma.workflowTemplate.findUnique({
+        where: { id: fromTemplateId },
+        include: VERSION_INCLUDE,
+      }),
+      prisma.workflowTemplate.findUnique({ where: { id: toTemplateId }, include: VERSION_INCLUDE }),
+    ]);
+
+    if (!from || !to) {
+      throw new Error(`Template not found: ${!from ? fromTemplateId : toTemplateId}`);
+    }
+
+    if (this.getFamilyId(from) !== this.getFamilyId(to)) {
+      throw new Error('Templates are not versions of the same workflow');
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return this.diffVersions(from as any, to as any);
+  }
+
+  /**
+   * Compute the differences between two template versions
+   * Stages are matched by stageKey; transitions are compared by target stage key
+   * Pure function with no side effects
+   */
+  static diffVersions(from: VersionDefinition, to: VersionDefinition): TemplateVersionDiff {
+    const fromStages = new Map(from.stages.map((s) => [s.stageKey, s]));
+    const toStages = new Map(to.stages.map((s) => [s.stageKey, s]));
+
+    const stagesChanged: StageVersionDiff[] = [];
+
+    for (const [stageKey, toStage] of toStages) {
+      const fromStage = fromStages.get(stageKey);
+      if (!fromStage) continue;
+
+      const responsibilities = this.diffLists(
+        fromStage.responsibilities.map((r) => this.describeResponsibility(r)),
+        toStage.responsibilities.map((r) => this.describeResponsibility(r))
+      );
+      const transitions = this.diffLists(
+        fromStage.outgoingTransitions.map((t) => this.describeTransition(t, from)),
+        toStage.outgoingTransitions.map((t) => this.describeTransition(t, to))
+      );
+      const changes = this.diffFields(fromStage, toStage, STAGE_DIFF_FIELDS);
+
+      if (
+        changes.length > 0 ||
+        responsibilities.added.length > 0 ||
+        responsibilities.removed.length > 0 ||
+        transitions.added.length > 0 ||
+        transitions.removed.length > 0
+      ) {
+        stagesChanged.push({
+          stageKey,
+          name: toStage.name,
+          changes,
+          responsibilitiesAdded: responsibilities.added,
+          responsibilitiesRemoved: responsibilities.removed,
+          transitionsAdded: transitions.added,
+          transitionsRemoved: transitions.removed,
+        });
+      }
+    }
+
+    return {
+      templateFamilyId: from.templateFamilyId || from.id,
+      fromVersion: from.version,
+      toVersion: to.version,
+      templateChanges: this.diffFields(from, to, TEMPLATE_DIFF_FIELDS),
+      stagesAdded: to.stages
+        .filter((s) => !fromStages.has(s.stageKey))
+        .map((s) => ({ stageKey: s.stageKey, name: s.name })),
+      stagesRemoved: from.stages
+        .filter((s) => !toStages.has(s.stageKey))
+        .map((s) => ({ stageKey: s.stageKey, name: s.name })),
+      stagesChanged,
+    };
+  }
+
+  /**
+   * Compare a fixed set of fields between two records
+   */
+  private static diffFields<K extends string>(
+    from: Record<K, unknown>,
+    to: Record<K, unknown>,
+    fields: readonly K[]
+  ): VersionFieldChange[] {
+    return fields
+      .filter((field) => this.serialize(from[field]) !== this.serialize(to[field]))
+      .map((field) => ({ field, from: from[field] ?? null, to: to[field] ?? null }));
+  }
+
+  /**
+   * Compare two lists of descriptions
+   */
+  private static diffLists(from: string[], to: string[]): { added: string[]; removed: string[] } {
+    return {
+      added: to.filter((item) => !from.includes(item)),
+      removed: from.filter((item) => !to.includes(item)),
+    };
+  }
+
+  /**
+   * Describe a responsibility for diffing
+   */
+  private static describeResponsibility(r: { type: string; value: string; scope: string }): string {
+    return `${r.type}:${r.value}@${r.scope}`;
+  }
+
+  /**
+   * Describe a transition by its target stage key, priority and condition
+   */
+  private static describeTransition(
+    transition: { toStageId: string | null; priority: number; condition: unknown },
+    version: VersionDefinition
+  ): string {
+    const target = transition.toStageId
+      ? version.stages.find((s) => s.id === transition.toStageId)?.stageKey || transition.toStageId
+      : 'Complete';
+
+    return `-> ${target} (priority ${transition.priority}) ${this.serialize(transition.condition ?? null)}`;
+  }
+
+  /**
+   * Serialize a value for comparison (Decimal and Date safe)
+   */
+  private static serialize(value: unknown): string {
+    return JSON.stringify(value ?? null);
+  }
+}
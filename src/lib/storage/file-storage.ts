@@ -0,0 +1,73 @@
+/**
+ * File Storage
+ * Storage backends for uploaded files, selected from the application configuration
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Storage backend for file content addressed by key
+ */
+export interface FileStorage {
+  put(key: string, content: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+// ============================================================================
+// LOCAL FILE STORAGE
+// ============================================================================
+
+/**
+ * Stores files under a root directory on the local filesystem
+ */
+export class LocalFileStorage implements FileStorage {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  async put(key: string, content: Buffer): Promise<void> {
+    const filePath = this.resolveKey(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content, { flag: 'wx' });
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolveKey(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolveKey(key), { force: true });
+  }
+
+  /**
+   * Resolve a key to a path, refusing keys that escape the root directory
+   */
+  private resolveKey(key: string): string {
+    const filePath = path.resolve(this.root, key);
+
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return filePath;
+  }
+}
+
+let storage: FileStorage | null = null;
+
+/**
+ * Get the configured storage backend
+ * Configuration is loaded on first use so importing modules do not require it
+ */
+export async function getFileStorage(): Promise<FileStorage> {
+  if (!storage) {
+    const { config } = await import('@/lib/config');
+    storage = new LocalFileStorage(config.storage.localPath);
+  }
+
+  return storage;
+}
@@ -0,0 +1,99 @@
+/**
+ * Zod validation schemas for workflow attachments
+ */
+
+import { z } from 'zod';
+
+/**
+ * Maximum attachment size (50MB)
+ */
+export const MAX_ATTACHMENT_SIZE_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Accepted MIME types with their file extensions and leading content bytes
+ * Office Open XML documents are ZIP containers and share the ZIP signature
+ */
+export const ALLOWED_ATTACHMENT_TYPES: Record<
+  string,
+  { extensions: string[]; signatures: number[][] }
+> = {
+  'application/pdf': { extensions: ['pdf'], signatures: [[0x25, 0x50, 0x44, 0x46]] },
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': {
+    extensions: ['docx'],
+    signatures: [[0x50, 0x4b, 0x03, 0x04]],
+  },
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': {
+    extensions: ['xlsx'],
+    signatures: [[0x50, 0x4b, 0x03, 0x04]],
+  },
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': {
+    extensions: ['pptx'],
+    signatures: [[0x50, 0x4b, 0x03, 0x04]],
+  },
+  'image/png': { extensions: ['png'], signatures: [[0x89, 0x50, 0x4e, 0x47]] },
+  'image/jpeg': { extensions: ['jpg', 'jpeg'], signatures: [[0xff, 0xd8, 0xff]] },
+  'image/gif': { extensions: ['gif'], signatures: [[0x47, 0x49, 0x46, 0x38]] },
+  'application/zip': { extensions: ['zip'], signatures: [[0x50, 0x4b, 0x03, 0x04]] },
+  'application/x-zip-compressed': {
+    extensions: ['zip'],
+    signatures: [[0x50, 0x4b, 0x03, 0x04]],
+  },
+  'application/vnd.rar': { extensions: ['rar'], signatures: [[0x52, 0x61, 0x72, 0x21]] },
+  'application/x-rar-compressed': {
+    extensions: ['rar'],
+    signatures: [[0x52, 0x61, 0x72, 0x21]],
+  },
+};
+
+/**
+ * Schema for an uploaded attachment
+ * Checks the size limit, the MIME type, the file extension and the content signature
+ */
+export const attachmentUploadSchema = z
+  .object({
+    fileName: z
+      .string()
+      .min(1, 'File name is required')
+      .max(255, 'File name must be 255 characters or less')
+      .refine((name) => !/[\\/]/.test(name), 'File name must not contain path separators'),
+    mimeType: z.string().refine((type) => type in ALLOWED_ATTACHMENT_TYPES, {
+      message:
+        'File type not allowed; accepted types are PDF, DOCX, XLSX, PPTX, PNG, JPG, GIF, ZIP and RAR',
+    }),
+    content: z
+      .instanceof(Buffer)
+      .refine((content) => content.length > 0, 'File is empty')
+      .refine(
+        (content) => content.length <= MAX_ATTACHMENT_SIZE_BYTES,
+        'File exceeds the 50MB limit'
+      ),
+  })
+  .superRefine((upload, ctx) => {
+    const allowed = ALLOWED_ATTACHMENT_TYPES[upload.mimeType];
+    if (!allowed) return;
+
+    const extension = upload.fileName.split('.').pop()?.toLowerCase() || '';
+    if (!allowed.extensions.includes(extension)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['fileName'],
+        message: `File extension .${extension} does not match type ${upload.mimeType}`,
+      });
+    }
+
+    const matchesSignature = allowed.signatures.some((signature) =>
+      signature.every((byte, index) => upload.content[index] === byte)
+    );
+    if (!matchesSignature) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['content'],
+        message: `File content does not match type ${upload.mimeType}`,
+      });
+    }
+  });
+
+/**
+ * Inferred types from schemas
+ */
+export type AttachmentUploadInput = z.infer<typeof attachmentUploadSchema>;
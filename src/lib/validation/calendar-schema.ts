@@ -0,0 +1,73 @@
+/**
+ * Zod validation schemas for tenant working calendars
+ */
+
+import { z } from 'zod';
+
+/**
+ * HH:mm time of day; 24:00 marks the end of the day
+ */
+const timeOfDaySchema = z
+  .string()
+  .regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, 'Time must be in HH:mm format');
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours! * 60 + minutes!;
+};
+
+export const timezoneSchema = z.string().refine((timezone) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Unknown timezone');
+
+export const tenantHolidaySchema = z.object({
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in yyyy-MM-dd format')
+    .refine((date) => !isNaN(Date.parse(`${date}T00:00:00Z`)), 'Invalid date'),
+  name: z.string().trim().min(1).max(255),
+});
+
+const workDaysSchema = z
+  .array(z.number().int().min(0).max(6))
+  .min(1, 'At least one working day is required')
+  .refine((days) => new Set(days).size === days.length, 'Working days must be unique');
+
+const holidaysSchema = z
+  .array(tenantHolidaySchema)
+  .max(366 * 5)
+  .refine(
+    (holidays) => new Set(holidays.map((h) => h.date)).size === holidays.length,
+    'Holiday dates must be unique'
+  );
+
+/**
+ * Working calendar as stored under Tenant.settings.workCalendar
+ */
+export const workCalendarSettingsSchema = z
+  .object({
+    workDays: workDaysSchema,
+    workStart: timeOfDaySchema,
+    workEnd: timeOfDaySchema,
+    holidays: holidaysSchema.default([]),
+  })
+  .refine((c) => toMinutes(c.workStart) < toMinutes(c.workEnd), {
+    message: 'workStart must be before workEnd',
+    path: ['workEnd'],
+  });
+
+/**
+ * Partial calendar update; unset fields keep their current value
+ */
+export const workCalendarUpdateSchema = z.object({
+  timezone: timezoneSchema.optional(),
+  workDays: workDaysSchema.optional(),
+  workStart: timeOfDaySchema.optional(),
+  workEnd: timeOfDaySchema.optional(),
+  holidays: holidaysSchema.optional(),
+});
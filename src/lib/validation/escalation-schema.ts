@@ -0,0 +1,174 @@
+/**
+ * Zod validation schemas for escalation policies, rules, chains and SLA reporting
+ */
+
+import { z } from 'zod';
+
+const prioritySchema = z.enum(['Low', 'Medium', 'High', 'Critical']);
+const percentSchema = z.number().int().min(1).max(100);
+const minutesSchema = z
+  .number()
+  .int()
+  .min(0)
+  .max(60 * 24 * 30);
+
+export const escalationTriggerTypeSchema = z.enum([
+  'TimeInStage',
+  'SLAWarning',
+  'SLABreach',
+  'PriorityHigh',
+  'CustomCondition',
+]);
+
+/**
+ * Schema for an action executed when a rule fires
+ */
+export const escalationActionSchema = z
+  .object({
+    actionType: z.enum([
+      'Reassign',
+      'Notify',
+      'ChangePriority',
+      'AddComment',
+      'CreateAlert',
+      'TriggerWebhook',
+    ]),
+    reassignToUserId: z.string().min(1).optional(),
+    reassignToRole: z.string().min(1).optional(),
+    notificationTemplate: z.string().min(1).optional(),
+    newPriority: prioritySchema.optional(),
+    comment: z.string().trim().min(1).max(2000).optional(),
+    webhookUrl: z.string().url().optional(),
+    webhookSecret: z.string().min(16).max(255).optional(),
+    order: z.number().int().min(0).optional(),
+  })
+  .refine((a) => a.actionType !== 'Reassign' || a.reassignToUserId || a.reassignToRole, {
+    message: 'Reassign requires reassignToUserId or reassignToRole',
+    path: ['reassignToUserId'],
+  })
+  .refine((a) => a.actionType !== 'ChangePriority' || a.newPriority, {
+    message: 'ChangePriority requires newPriority',
+    path: ['newPriority'],
+  })
+  .refine((a) => a.actionType !== 'TriggerWebhook' || a.webhookUrl, {
+    message: 'TriggerWebhook requires webhookUrl',
+    path: ['webhookUrl'],
+  });
+
+/**
+ * Schema for creating an escalation policy
+ */
+export const escalationPolicyCreateSchema = z.object({
+  workflowTemplateId: z.string().min(1, 'Workflow template ID is required'),
+  name: z.string().trim().min(1, 'Name is required').max(255),
+  description: z.string().max(2000).optional(),
+  warningThresholdPercent: percentSchema.optional(),
+  maxEscalationLevels: z.number().int().min(1).max(5).optional(),
+  cooldownBetweenEscalations: minutesSchema.optional(),
+  isDefault: z.boolean().optional(),
+});
+
+/**
+ * Schema for updating an escalation policy
+ */
+export const escalationPolicyUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+  description: z.string().max(2000).nullable().optional(),
+  warningThresholdPercent: percentSchema.optional(),
+  maxEscalationLevels: z.number().int().min(1).max(5).optional(),
+  cooldownBetweenEscalations: minutesSchema.optional(),
+  isActive: z.boolean().optional(),
+  isDefault: z.boolean().optional(),
+});
+
+const escalationRuleFields = {
+  name: z.string().trim().min(1, 'Name is required').max(255),
+  description: z.string().max(2000).nullable().optional(),
+  triggerType: escalationTriggerTypeSchema,
+  escalationLevel: z.number().int().min(1).max(5),
+  hoursInStage: z.number().positive().nullable().optional(),
+  warningThresholdPercent: percentSchema.nullable().optional(),
+  minimumPriority: prioritySchema.nullable().optional(),
+  isRepeatable: z.boolean().optional(),
+  cooldownMinutes: minutesSchema.optional(),
+  maxEscalations: z.number().int().min(1).nullable().optional(),
+  actions: z.array(escalationActionSchema).max(20),
+};
+
+/**
+ * Schema for creating an escalation rule within a policy
+ */
+export const escalationRuleCreateSchema = z.object({
+  escalationPolicyId: z.string().min(1, 'Escalation policy ID is required'),
+  ...escalationRuleFields,
+});
+
+/**
+ * Schema for updating an escalation rule
+ */
+export const escalationRuleUpdateSchema = z
+  .object(escalationRuleFields)
+  .partial()
+  .extend({ isActive: z.boolean().optional() });
+
+/**
+ * Schema for one chain level; the target is a keyword such as 'ProgramSponsor',
+ * 'Role:<role>', 'User:<user ID>' or a bare role name or user ID
+ */
+const escalationChainLevelSchema = z.object({
+  roleOrUserId: z
+    .string()
+    .trim()
+    .min(1)
+    .max(255)
+    .regex(/^((Role|User):.+|[^:]+)$/, 'Target must be a keyword, Role:<role> or User:<user ID>'),
+  escalationDelayMinutes: minutesSchema,
+});
+
+/**
+ * Schema for creating an escalation chain within a policy
+ */
+export const escalationChainCreateSchema = z.object({
+  escalationPolicyId: z.string().min(1, 'Escalation policy ID is required'),
+  name: z.string().trim().min(1, 'Name is required').max(255),
+  description: z.string().max(2000).optional(),
+  level1: escalationChainLevelSchema,
+  level2: escalationChainLevelSchema.optional(),
+  level3: escalationChainLevelSchema.optional(),
+});
+
+/**
+ * Schema for updating an escalation chain; a null level is removed
+ */
+export const escalationChainUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+  description: z.string().max(2000).nullable().optional(),
+  level1: escalationChainLevelSchema.optional(),
+  level2: escalationChainLevelSchema.nullable().optional(),
+  level3: escalationChainLevelSchema.nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * Schema for SLA analytics query parameters
+ */
+export const slaAnalyticsQuerySchema = z
+  .object({
+    workflowTemplateId: z.string().min(1).optional(),
+    startDate: z.coerce.date().optional(),
+    endDate: z.coerce.date().optional(),
+  })
+  .refine((data) => !data.startDate || !data.endDate || data.startDate <= data.endDate, {
+    message: 'endDate must be on or after startDate',
+    path: ['endDate'],
+  });
+
+/**
+ * Inferred types from schemas
+ */
+export type EscalationPolicyCreateInput = z.infer<typeof escalationPolicyCreateSchema>;
+export type EscalationPolicyUpdateInput = z.infer<typeof escalationPolicyUpdateSchema>;
+export type EscalationRuleCreateInput = z.infer<typeof escalationRuleCreateSchema>;
+export type EscalationRuleUpdateInput = z.infer<typeof escalationRuleUpdateSchema>;
+export type EscalationChainCreateInput = z.infer<typeof escalationChainCreateSchema>;
+export type EscalationChainUpdateInput = z.infer<typeof escalationChainUpdateSchema>;
@@ -0,0 +1,44 @@
+/**
+ * Zod validation schemas for notification templates
+ */
+
+import { z } from 'zod';
+
+export const notificationEventTypeSchema = z.enum([
+  'WorkflowAssigned',
+  'WorkflowApproved',
+  'WorkflowRejected',
+  'WorkflowReturned',
+  'SLAWarning',
+  'SLABreached',
+  'WorkflowCompleted',
+  'WorkflowMentioned',
+]);
+
+const templateTextSchema = z.string().max(20000);
+
+/**
+ * Schema for previewing notification templates
+ */
+export const notificationTemplatePreviewSchema = z.object({
+  eventType: notificationEventTypeSchema,
+  template: z
+    .object({
+      emailSubjectTemplate: templateTextSchema.optional(),
+      emailBodyTemplate: templateTextSchema.optional(),
+      inAppTitleTemplate: templateTextSchema.optional(),
+      inAppMessageTemplate: templateTextSchema.optional(),
+    })
+    .optional(),
+  data: z
+    .record(z.string(), z.unknown())
+    .refine((data) => JSON.stringify(data).length <= 50000, {
+      message: 'Preview data is limited to 50000 characters of JSON',
+    })
+    .optional(),
+});
+
+/**
+ * Inferred types from schemas
+ */
+export type NotificationTemplatePreviewInput = z.infer<typeof notificationTemplatePreviewSchema>;
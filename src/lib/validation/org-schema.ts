@@ -0,0 +1,17 @@
+/**
+ * Zod validation schemas for the organizational hierarchy
+ */
+
+import { z } from 'zod';
+
+/**
+ * Schema for setting or clearing a user's manager
+ */
+export const setManagerSchema = z.object({
+  managerId: z.string().min(1).nullable(),
+});
+
+/**
+ * Inferred types from schemas
+ */
+export type SetManagerInput = z.infer<typeof setManagerSchema>;
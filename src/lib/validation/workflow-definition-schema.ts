@@ -0,0 +1,174 @@
+/**
+ * Zod validation schemas for portable workflow template definitions
+ */
+
+import { z } from 'zod';
+
+/**
+ * Validation for stage actions
+ */
+export const workflowActionSchema = z.enum(['Approve', 'Reject', 'Return'], {
+  errorMap: () => ({ message: 'Unknown action; expected Approve, Reject or Return' }),
+});
+
+const SLA_BAND_LEVELS = ['Info', 'Warning', 'Critical'] as const;
+
+/**
+ * Validation for SLA threshold bands on a template or stage
+ * Each level appears once, thresholds rise from Info to Critical, and at least one
+ * band puts the SLA into Warning status
+ */
+export const slaThresholdBandsSchema = z
+  .array(
+    z.object({
+      level: z.enum(SLA_BAND_LEVELS),
+      thresholdPercent: z.number().int().min(1).max(100),
+    })
+  )
+  .min(1, 'At least one threshold band is required')
+  .max(SLA_BAND_LEVELS.length)
+  .superRefine((bands, ctx) => {
+    const levels = bands.map((band) => band.level);
+    if (new Set(levels).size !== levels.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Each band level may appear once' });
+      return;
+    }
+
+    if (!levels.includes('Warning') && !levels.includes('Critical')) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'A Warning or Critical band is required',
+      });
+    }
+
+    const ordered = [...bands].sort(
+      (a, b) => SLA_BAND_LEVELS.indexOf(a.level) - SLA_BAND_LEVELS.indexOf(b.level)
+    );
+    ordered.slice(1).forEach((band, index) => {
+      if (band.thresholdPercent <= ordered[index]!.thresholdPercent) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${band.level} threshold must be above the ${ordered[index]!.level} threshold`,
+        });
+      }
+    });
+  });
+
+/**
+ * Schema for a stage responsibility in a definition
+ * 'User' values are email addresses so they can be remapped on import
+ */
+export const definitionResponsibilitySchema = z.object({
+  type: z.enum(['Role', 'Position', 'User']),
+  value: z.string().min(1, 'Responsibility value is required'),
+  scope: z.enum(['Global', 'Program', 'Project']),
+  notificationMethod: z.enum(['Email', 'InApp', 'Both']).default('Both'),
+});
+
+/**
+ * Schema for a stage transition in a definition (targets are stage keys)
+ */
+export const definitionTransitionSchema = z.object({
+  toStageKey: z.string().nullable(),
+  priority: z.number().int().default(0),
+  condition: z.unknown().nullable().default(null),
+  description: z.string().nullable().default(null),
+});
+
+/**
+ * Schema for a stage in a definition
+ */
+export const definitionStageSchema = z.object({
+  stageKey: z.string().min(1, 'Stage key is required').max(50),
+  stageOrder: z.number().int().min(1, 'Stage order must be 1 or greater'),
+  name: z.string().min(1, 'Stage name is required').max(255),
+  description: z.string().nullable().default(null),
+  slaHours: z.number().int().min(1, 'SLA hours must be at least 1'),
+  slaThresholds: slaThresholdBandsSchema.nullable().default(null),
+  actions: z.array(workflowActionSchema).min(1, 'At least one action is required'),
+  requireComment: z.boolean().default(false),
+  requireAttachment: z.boolean().default(false),
+  approvalMode: z.enum(['Any', 'All', 'Quorum']).default('Any'),
+  requiredApprovals: z.number().int().min(1).nullable().default(null),
+  responsibilities: z
+    .array(definitionResponsibilitySchema)
+    .min(1, 'Stage must have at least one responsibility'),
+  transitions: z.array(definitionTransitionSchema).default([]),
+});
+
+/**
+ * Schema for a complete workflow template definition
+ */
+export const workflowTemplateDefinitionSchema = z
+  .object({
+    formatVersion: z.literal(1),
+    template: z.object({
+      name: z.string().min(1, 'Template name is required').max(255),
+      description: z.string().nullable().default(null),
+      entityType: z.enum(['Program', 'Project', 'Initiative']).nullable().default(null),
+      complexityBand: z.enum(['Low', 'Medium', 'High']).nullable().default(null),
+      budgetMin: z.number().min(0).nullable().default(null),
+      budgetMax: z.number().min(0).nullable().default(null),
+      isDefault: z.boolean().default(false),
+      slaThresholds: slaThresholdBandsSchema.nullable().default(null),
+    }),
+    stages: z.array(definitionStageSchema).min(1, 'Template must have at least one stage'),
+  })
+  .superRefine((definition, ctx) => {
+    const { budgetMin, budgetMax } = definition.template;
+    if (budgetMin !== null && budgetMax !== null && budgetMin > budgetMax) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['template', 'budgetMax'],
+        message: 'budgetMax must be greater than or equal to budgetMin',
+      });
+    }
+
+    const orders = new Set<number>();
+    const keys = new Set<string>();
+
+    definition.stages.forEach((stage, index) => {
+      if (orders.has(stage.stageOrder)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['stages', index, 'stageOrder'],
+          message: `Duplicate stageOrder: ${stage.stageOrder}`,
+        });
+      }
+      orders.add(stage.stageOrder);
+
+      if (keys.has(stage.stageKey)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['stages', index, 'stageKey'],
+          message: `Duplicate stageKey: ${stage.stageKey}`,
+        });
+      }
+      keys.add(stage.stageKey);
+
+      if (stage.approvalMode === 'Quorum' && stage.requiredApprovals === null) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['stages', index, 'requiredApprovals'],
+          message: 'Quorum stages require requiredApprovals',
+        });
+      }
+    });
+
+    definition.stages.forEach((stage, index) => {
+      stage.transitions.forEach((transition, tIndex) => {
+        if (transition.toStageKey !== null && !keys.has(transition.toStageKey)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['stages', index, 'transitions', tIndex, 'toStageKey'],
+            message: `Unknown target stage: ${transition.toStageKey}`,
+          });
+        }
+      });
+    });
+  });
+
+/**
+ * Inferred types from schemas
+ */
+export type WorkflowTemplateDefinitionInput = z.input<typeof workflowTemplateDefinitionSchema>;
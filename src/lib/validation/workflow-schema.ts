@@ -0,0 +1,254 @@
+/**
+ * Zod validation schemas for workflow operations
+ */
+
+import { z } from 'zod';
+import { slaThresholdBandsSchema, workflowActionSchema } from './workflow-definition-schema';
+
+const entityTypeSchema = z.enum(['Program', 'Project', 'Initiative']);
+const complexityBandSchema = z.enum(['Low', 'Medium', 'High']);
+
+/**
+ * Schema for a workflow simulation (dry run) request
+ */
+export const workflowSimulationSchema = z.object({
+  entityType: entityTypeSchema,
+  complexityBand: complexityBandSchema.nullable().optional(),
+  budget: z.number().min(0, 'Budget must be positive').nullable().optional(),
+  requestType: z.enum(['Create', 'Update', 'Close']).optional(),
+  requestData: z.record(z.unknown()).optional(),
+  programId: z.string().optional(),
+  projectId: z.string().optional(),
+  includeDrafts: z.boolean().optional(),
+  startAt: z.coerce.date().optional(),
+});
+
+/**
+ * Schema for submitting a request for approval
+ */
+export const workflowSubmissionSchema = z.object({
+  workflowTemplateId: z.string().optional(),
+  entityType: entityTypeSchema,
+  entityId: z.string().min(1, 'Entity ID is required'),
+  projectId: z.string().optional(),
+  requestType: z.enum(['Create', 'Update', 'Close']),
+  requestData: z.record(z.unknown()),
+  priority: z.enum(['Low', 'Medium', 'High', 'Critical']).optional(),
+  complexityBand: complexityBandSchema.optional(),
+  budget: z.number().min(0, 'Budget must be positive').optional(),
+});
+
+/**
+ * Schema for workflow instance list query parameters
+ */
+export const workflowInstanceQuerySchema = z.object({
+  entityType: entityTypeSchema.optional(),
+  entityId: z.string().optional(),
+  projectId: z.string().optional(),
+  status: z
+    .enum(['InProgress', 'Approved', 'Rejected', 'Returned', 'Withdrawn', 'Cancelled'])
+    .optional(),
+  workflowTemplateId: z.string().optional(),
+  overdueSLAOnly: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+  sortBy: z.enum(['createdAt', 'slaDue', 'status']).optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+  skip: z.coerce.number().int().min(0).optional(),
+  take: z.coerce.number().int().min(1).optional(),
+});
+
+/**
+ * Schema for approving, rejecting or returning the current stage
+ */
+export const workflowActionRequestSchema = z
+  .object({
+    action: workflowActionSchema,
+    stageId: z.string().min(1, 'Stage ID is required'),
+    comment: z.string().max(10000).optional(),
+    returnToStageId: z.string().optional(),
+    attachmentIds: z.array(z.string()).optional(),
+    onBehalfOf: z.string().min(1).optional(),
+  })
+  .refine((data) => data.action !== 'Return' || !!data.returnToStageId, {
+    message: 'returnToStageId is required to return a workflow',
+    path: ['returnToStageId'],
+  });
+
+/**
+ * Schema for creating a workflow template
+ */
+export const workflowTemplateCreateSchema = z
+  .object({
+    name: z.string().min(1, 'Template name is required').max(255),
+    description: z.string().optional(),
+    entityType: entityTypeSchema.optional(),
+    complexityBand: complexityBandSchema.optional(),
+    budgetMin: z.number().min(0).optional(),
+    budgetMax: z.number().min(0).optional(),
+    isDefault: z.boolean().optional(),
+    slaThresholds: slaThresholdBandsSchema.nullable().optional(),
+  })
+  .refine(
+    (data) =>
+      data.budgetMin === undefined ||
+      data.budgetMax === undefined ||
+      data.budgetMin <= data.budgetMax,
+    { message: 'budgetMax must be greater than or equal to budgetMin', path: ['budgetMax'] }
+  );
+
+/**
+ * Schema for updating a workflow template
+ */
+export const workflowTemplateUpdateSchema = workflowTemplateCreateSchema
+  .innerType()
+  .partial()
+  .extend({ isActive: z.boolean().optional() });
+
+/**
+ * Schema for creating a workflow stage
+ */
+export const workflowStageCreateSchema = z.object({
+  stageOrder: z.number().int().min(1, 'Stage order must be 1 or greater'),
+  name: z.string().min(1, 'Stage name is required').max(255),
+  description: z.string().optional(),
+  slaHours: z.number().int().min(1, 'SLA hours must be at least 1'),
+  slaThresholds: slaThresholdBandsSchema.nullable().optional(),
+  actions: z.array(workflowActionSchema).min(1, 'At least one action is required'),
+  requireComment: z.boolean().optional(),
+  requireAttachment: z.boolean().optional(),
+  approvalMode: z.enum(['Any', 'All', 'Quorum']).optional(),
+  requiredApprovals: z.number().int().min(1).optional(),
+});
+
+/**
+ * Schema for updating a workflow stage
+ */
+export const workflowStageUpdateSchema = workflowStageCreateSchema
+  .omit({ stageOrder: true })
+  .partial();
+
+/**
+ * Schema for adding a stage responsibility
+ */
+export const stageResponsibilityCreateSchema = z.object({
+  type: z.enum(['Role', 'Position', 'User']),
+  value: z.string().min(1, 'Responsibility value is required'),
+  scope: z.enum(['Global', 'Program', 'Project']),
+  notificationMethod: z.enum(['Email', 'InApp', 'Both']).optional(),
+});
+
+/**
+ * Schema for adding a conditional transition out of a stage
+ * The condition tree is checked by StageTransitionService.validateCondition
+ */
+export const stageTransitionCreateSchema = z.object({
+  toStageId: z.string().min(1).nullable(),
+  priority: z.number().int().optional(),
+  condition: z.record(z.unknown()).optional(),
+  description: z.string().max(2000, 'Description is too long').optional(),
+});
+
+/**
+ * Schema for updating a stage transition; a null condition always matches
+ */
+export const stageTransitionUpdateSchema = stageTransitionCreateSchema
+  .extend({ condition: z.record(z.unknown()).nullable() })
+  .partial();
+
+/**
+ * Schema for posting a comment or reply on a workflow instance
+ */
+export const workflowCommentSchema = z.object({
+  body: z.string().trim().min(1, 'Comment cannot be empty').max(10000, 'Comment is too long'),
+  parentId: z.string().optional(),
+});
+
+/**
+ * Schema for editing a comment
+ */
+export const workflowCommentEditSchema = workflowCommentSchema.pick({ body: true });
+
+/**
+ * Schema for placing a workflow on hold pending information
+ */
+export const workflowHoldSchema = z.object({
+  note: z.string().trim().min(1, 'Describe the information needed').max(2000, 'Note is too long'),
+});
+
+/**
+ * Schema for withdrawing a request
+ */
+export const workflowWithdrawSchema = z.object({
+  reason: z.string().trim().max(2000, 'Reason is too long').optional(),
+});
+
+/**
+ * Schema for cancelling a request
+ */
+export const workflowCancelSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(1, 'Cancellation requires a reason')
+    .max(2000, 'Reason is too long'),
+});
+
+/**
+ * Schema for resubmitting a returned request
+ */
+export const workflowResubmitSchema = z.object({
+  requestData: z.record(z.unknown()),
+  comment: z.string().trim().max(10000, 'Comment is too long').optional(),
+});
+
+/**
+ * Schema for delegating approval authority to a proxy
+ */
+export const approvalDelegationCreateSchema = z.object({
+  principalId: z.string().min(1, 'Principal ID is required'),
+  delegateId: z.string().min(1, 'Delegate ID is required'),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  templateFamilyIds: z.array(z.string().min(1)).optional(),
+  scopeType: z.enum(['Program', 'Project']).optional(),
+  scopeId: z.string().min(1).optional(),
+  reason: z.string().trim().max(2000, 'Reason is too long').optional(),
+});
+
+/**
+ * Schema for delegation list query parameters
+ */
+export const approvalDelegationQuerySchema = z.object({
+  principalId: z.string().optional(),
+  delegateId: z.string().optional(),
+  activeAt: z.coerce.date().optional(),
+  includeRevoked: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+});
+
+/**
+ * Inferred types from schemas
+ */
+export type WorkflowSimulationInput = z.infer<typeof workflowSimulationSchema>;
+export type WorkflowSubmissionInput = z.infer<typeof workflowSubmissionSchema>;
+export type WorkflowInstanceQueryInput = z.infer<typeof workflowInstanceQuerySchema>;
+export type WorkflowActionRequestInput = z.infer<typeof workflowActionRequestSchema>;
+export type WorkflowTemplateCreateInput = z.infer<typeof workflowTemplateCreateSchema>;
+export type WorkflowTemplateUpdateInput = z.infer<typeof workflowTemplateUpdateSchema>;
+export type WorkflowStageCreateInput = z.infer<typeof workflowStageCreateSchema>;
+export type WorkflowStageUpdateInput = z.infer<typeof workflowStageUpdateSchema>;
+export type StageResponsibilityCreateInput = z.infer<typeof stageResponsibilityCreateSchema>;
+export type StageTransitionCreateInput = z.infer<typeof stageTransitionCreateSchema>;
+export type StageTransitionUpdateInput = z.infer<typeof stageTransitionUpdateSchema>;
+export type WorkflowCommentInput = z.infer<typeof workflowCommentSchema>;
+export type WorkflowCommentEditInput = z.infer<typeof workflowCommentEditSchema>;
+export type WorkflowHoldInput = z.infer<typeof workflowHoldSchema>;
+export type WorkflowWithdrawInput = z.infer<typeof workflowWithdrawSchema>;
+export type WorkflowCancelInput = z.infer<typeof workflowCancelSchema>;
+export type WorkflowResubmitInput = z.infer<typeof workflowResubmitSchema>;
+export type ApprovalDelegationCreateInput = z.infer<typeof approvalDelegationCreateSchema>;
+export type ApprovalDelegationQueryInput = z.infer<typeof approvalDelegationQuerySchema>;
@@ -0,0 +1,43 @@
+/**
+ * Attachment Types
+ * Files uploaded to workflow instances and submitted with stage actions
+ */
+
+// ============================================================================
+// ATTACHMENT TYPES
+// ============================================================================
+
+/**
+ * File attached to a workflow instance
+ */
+export interface Attachment {
+  id: string;
+  tenantId: string;
+  workflowInstanceId: string;
+  stageId: string; // Stage the workflow was in at upload
+  stageActionId: string | null; // Set once submitted with an action
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+  checksum: string; // SHA-256 hex digest
+  storageKey: string;
+  uploadedBy: string;
+  createdAt: Date;
+}
+
+/**
+ * Uploaded file awaiting validation and storage
+ */
+export interface AttachmentUpload {
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+}
+
+/**
+ * Attachment with its stored content, for download
+ */
+export interface AttachmentContent {
+  attachment: Attachment;
+  content: Buffer;
+}
@@ -0,0 +1,50 @@
+/**
+ * Calendar Types
+ * Per-tenant working calendars used to measure SLA time in business hours
+ */
+
+// ============================================================================
+// CALENDAR TYPES
+// ============================================================================
+
+/**
+ * Day of the week, 0 = Sunday through 6 = Saturday
+ */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * Public holiday observed by a tenant
+ */
+export interface TenantHoliday {
+  date: string; // yyyy-MM-dd in the tenant timezone
+  name: string;
+}
+
+/**
+ * Working week, hours and holidays as stored under Tenant.settings.workCalendar
+ */
+export interface WorkCalendarSettings {
+  workDays: Weekday[];
+  workStart: string; // HH:mm, tenant local time
+  workEnd: string; // HH:mm, tenant local time; 24:00 for end of day
+  holidays: TenantHoliday[];
+}
+
+/**
+ * Resolved calendar for SLA calculations
+ * Tenants without a workCalendar get an around-the-clock calendar in their timezone
+ */
+export interface WorkCalendar extends WorkCalendarSettings {
+  timezone: string; // IANA timezone from Tenant.settings.timezone
+}
+
+/**
+ * Request to change a tenant's working calendar
+ */
+export interface UpdateWorkCalendarRequest {
+  timezone?: string;
+  workDays?: Weekday[];
+  workStart?: string;
+  workEnd?: string;
+  holidays?: TenantHoliday[];
+}
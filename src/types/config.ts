@@ -39,6 +39,18 @@ export interface FeaturesConfig {
   enableAuditLogging: boolean;
 }
 
+export interface SchedulerConfig {
+  enableSlaSweep: boolean; // Run the background SLA sweep on this node
+  slaSweepIntervalMinutes: number;
+  enableNotificationDispatch: boolean; // Send queued notifications from this node
+  notificationDispatchIntervalSeconds: number;
+}
+
+export interface StorageConfig {
+  driver: 'local'; // S3 is rejected at startup until a backend exists
+  localPath: string; // Root directory for the local backend
+}
+
 export interface ExternalServicesConfig {
   redis?: {
     url: string;
@@ -52,6 +64,18 @@ export interface ExternalServicesConfig {
   email?: {
     apiKey: string;
   };
+  smtp?: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string | undefined;
+    password?: string | undefined;
+    from: string;
+  };
+  notificationWebhook?: {
+    url: string;
+    secret: string; // HMAC-SHA256 signing key shared with the receiver
+  };
 }
 
 export interface AppConfiguration {
@@ -60,6 +84,8 @@ export interface AppConfiguration {
   auth: AuthConfig;
   tenant: TenantConfig;
   features: FeaturesConfig;
+  scheduler: SchedulerConfig;
+  storage: StorageConfig;
   externalServices: ExternalServicesConfig;
 }
 
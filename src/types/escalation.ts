@@ -26,6 +26,22 @@ export type EscalationLevel = 1 | 2 | 3 | 4 | 5;
 export type PriorityLevel = 'Low' | 'Medium' | 'High' | 'Critical';
 export type SLAStatus = 'Compliant' | 'Warning' | 'Breached' | 'NotApplicable';
 
+/**
+ * SLA threshold band levels, lowest first
+ * Info is informational only; Warning and Critical put the SLA into Warning status
+ */
+export type SLABandLevel = 'Info' | 'Warning' | 'Critical';
+
+/**
+ * How a stage was left
+ */
+export type SLAStageOutcome = 'Approved' | 'Rejected' | 'Returned' | 'Withdrawn' | 'Cancelled';
+
+/**
+ * Why an SLA clock was stopped
+ */
+export type SLAPauseReason = 'Returned' | 'OnHold';
+
 // ============================================================================
 // ESCALATION RULES & POLICIES
 // ============================================================================
@@ -39,12 +55,13 @@ export interface EscalationAction {
   actionType: EscalationActionType;
 
   // Action-specific parameters
-  reassignToUserId?: string; // For Reassign action
-  reassignToRole?: string; // For Reassign action
-  notificationTemplate?: string; // For Notify action
-  newPriority?: PriorityLevel; // For ChangePriority action
-  comment?: string; // For AddComment action
-  webhookUrl?: string; // For TriggerWebhook action
+  reassignToUserId?: string | null; // For Reassign action
+  reassignToRole?: string | null; // For Reassign action
+  notificationTemplate?: string | null; // For Notify action
+  newPriority?: PriorityLevel | null; // For ChangePriority action
+  comment?: string | null; // For AddComment action
+  webhookUrl?: string | null; // For TriggerWebhook action
+  webhookSecret?: string | null; // Signs TriggerWebhook requests
 
   // Configuration
   isActive: boolean;
@@ -65,28 +82,28 @@ export interface EscalationRule {
 
   // Rule definition
   name: string;
-  description?: string;
+  description?: string | null;
   triggerType: EscalationTriggerType;
   escalationLevel: EscalationLevel;
 
   // Trigger conditions
   // For TimeInStage: hoursInStage
-  hoursInStage?: number;
+  hoursInStage?: number | null;
 
   // For SLAWarning: warningThresholdPercent (e.g., 75)
-  warningThresholdPercent?: number;
+  warningThresholdPercent?: number | null;
 
   // For PriorityHigh: minimum priority level
-  minimumPriority?: PriorityLevel;
+  minimumPriority?: PriorityLevel | null;
 
   // Custom conditions (for complex rules)
-  customCondition?: Record<string, unknown>;
+  customCondition?: Record<string, unknown> | null;
 
   // Configuration
   isActive: boolean;
   isRepeatable: boolean; // Can escalate multiple times
   cooldownMinutes?: number; // Prevent duplicate escalations
-  maxEscalations?: number; // Max times this rule can trigger
+  maxEscalations?: number | null; // Max times this rule can trigger
 
   // Actions to execute
   actions: EscalationAction[];
@@ -107,7 +124,7 @@ export interface EscalationPolicy {
 
   // Policy definition
   name: string;
-  description?: string;
+  description?: string | null;
 
   // Default settings
   warningThresholdPercent: number; // Default: 75
@@ -131,6 +148,16 @@ export interface EscalationPolicy {
 // SLA MANAGEMENT
 // ============================================================================
 
+/**
+ * A band is reached once this share of the stage SLA is used
+ * Set on a stage, else its template, else taken from the escalation policy's
+ * warningThresholdPercent
+ */
+export interface SLAThresholdBand {
+  level: SLABandLevel;
+  thresholdPercent: number; // 1-100
+}
+
 /**
  * SLA compliance information for a workflow instance
  */
@@ -156,7 +183,13 @@ export interface SLAComplianceInfo {
 
   // Warning info
   isWarning: boolean; // Within warning threshold
-  warningThresholdPercent: number;
+  warningThresholdPercent: number; // Lowest Warning or Critical band
+  band: SLABandLevel | null; // Highest band reached; null below every band
+  thresholdBands: SLAThresholdBand[];
+
+  // Pause info
+  isPaused: boolean; // Clock stopped; time figures are as of the pause
+  pausedHours: number; // Working hours excluded from hoursUsed in this stage
 }
 
 /**
@@ -174,16 +207,71 @@ export interface SLAHistoryRecord {
   slaDueTime: Date;
   totalHours: number;
   hoursUsed: number;
+  pausedHours: number;
+  cycleHours: number; // Working hours from entry to exit, including paused time
 
   // Compliance
   status: SLAStatus;
   isBreached: boolean;
   hoursBreach?: number;
+  outcome: SLAStageOutcome;
 
   // Timestamps
   recordedAt: Date;
 }
 
+/**
+ * Persisted SLA fact, written when an instance leaves a stage
+ */
+export interface SLAStageFact {
+  id: string;
+  tenantId: string;
+  workflowInstanceId: string;
+  workflowTemplateId: string;
+  templateFamilyId: string;
+  stageId: string;
+  stageKey: string;
+  stageName: string;
+
+  enteredAt: Date;
+  exitedAt: Date;
+  exitMonth: string; // UTC 'YYYY-MM'
+
+  slaDueAt: Date;
+  slaHours: number;
+  cycleHours: number;
+  hoursUsed: number;
+  pausedHours: number;
+  percentageUsed: number;
+
+  status: SLAStatus;
+  band: SLABandLevel | null;
+  isBreached: boolean;
+  hoursBreach: number | null;
+
+  outcome: SLAStageOutcome;
+  closedBy: string | null; // Approver, or the principal they acted for
+
+  createdAt: Date;
+}
+
+/**
+ * Period during which a stage SLA clock was stopped
+ */
+export interface SLAPause {
+  id: string;
+  workflowInstanceId: string;
+  stageId: string;
+  reason: SLAPauseReason;
+  note?: string | null;
+  pausedAt: Date;
+  pausedBy?: string | null;
+  resumedAt?: Date | null;
+  resumedBy?: string | null;
+  pausedHours?: number | null; // Working hours, set on resume
+  createdAt: Date;
+}
+
 // ============================================================================
 // ESCALATION EVENTS & TRACKING
 // ============================================================================
@@ -194,7 +282,7 @@ export interface SLAHistoryRecord {
 export interface EscalationEvent {
   id: string;
   workflowInstanceId: string;
-  escalationRuleId: string;
+  escalationRuleId: string | null; // null once the rule is deleted
   tenantId: string;
 
   // What triggered escalation
@@ -203,28 +291,28 @@ export interface EscalationEvent {
 
   // Who/what escalated
   triggeredBy: 'Rule' | 'Manual' | 'System';
-  triggeredByUserId?: string; // For manual escalations
+  triggeredByUserId?: string | null; // For manual escalations
 
   // Previous state
-  previousAssigneeId?: string;
-  previousPriority?: PriorityLevel;
+  previousAssigneeId?: string | null;
+  previousPriority?: PriorityLevel | null;
 
   // New state
-  newAssigneeId?: string;
-  newPriority?: PriorityLevel;
+  newAssigneeId?: string | null;
+  newPriority?: PriorityLevel | null;
 
   // Details
   reason: string;
-  details?: Record<string, unknown>;
+  details?: Record<string, unknown> | null;
 
   // Escalation chain
   escalationChainLevel: number; // 1st, 2nd, 3rd escalation
-  parentEscalationEventId?: string; // Link to previous escalation in chain
+  parentEscalationEventId?: string | null; // Link to previous escalation in chain
 
   // Response
-  resolvedAt?: Date;
-  resolvedBy?: string;
-  resolutionNotes?: string;
+  resolvedAt?: Date | null;
+  resolvedBy?: string | null;
+  resolutionNotes?: string | null;
 
   // Timestamps
   createdAt: Date;
@@ -232,6 +320,8 @@ export interface EscalationEvent {
 
 /**
  * Escalation chain - defines escalation path
+ * Level 1 is escalated to when a rule first fires; each later level is escalated to
+ * when the escalation is still unresolved its delay after the previous level
  */
 export interface EscalationChain {
   id: string;
@@ -239,21 +329,12 @@ export interface EscalationChain {
 
   // Chain definition
   name: string;
-  description?: string;
+  description?: string | null;
 
   // Levels in chain
-  level1: {
-    roleOrUserId: string;
-    escalationDelayMinutes: number;
-  };
-  level2?: {
-    roleOrUserId: string;
-    escalationDelayMinutes: number;
-  };
-  level3?: {
-    roleOrUserId: string;
-    escalationDelayMinutes: number;
-  };
+  level1: EscalationChainLevel;
+  level2?: EscalationChainLevel;
+  level3?: EscalationChainLevel;
 
   // Configuration
   isActive: boolean;
@@ -264,6 +345,42 @@ export interface EscalationChain {
   updatedAt: Date;
 }
 
+/**
+ * One level of an escalation chain
+ */
+export interface EscalationChainLevel {
+  roleOrUserId: string; // Escalation target, see EscalationTarget
+  escalationDelayMinutes: number;
+}
+
+/**
+ * Who a chain level escalates to, resolved against the request's own program and project
+ * Written in roleOrUserId as 'StageApproverManager', 'RequesterManager', 'ProgramSponsor',
+ * 'ProjectSponsor', 'Role:<role>' or 'User:<user ID>'; a bare value is a role name when
+ * it is one and a user ID otherwise
+ */
+export type EscalationTargetKind =
+  | 'StageApproverManager'
+  | 'RequesterManager'
+  | 'ProgramSponsor'
+  | 'ProjectSponsor'
+  | 'Role'
+  | 'User';
+
+export interface EscalationTarget {
+  kind: EscalationTargetKind;
+  value?: string; // Role name or user ID
+}
+
+/**
+ * Users an escalation reaches at a chain level
+ */
+export interface EscalationRecipients {
+  target: string; // Target or fallback that produced the users
+  isFallback: boolean;
+  userIds: string[];
+}
+
 // ============================================================================
 // REQUEST/RESPONSE TYPES
 // ============================================================================
@@ -281,6 +398,19 @@ export interface CreateEscalationPolicyRequest {
   isDefault?: boolean;
 }
 
+/**
+ * Update escalation policy request; unset fields keep their current value
+ */
+export interface UpdateEscalationPolicyRequest {
+  name?: string;
+  description?: string | null;
+  warningThresholdPercent?: number;
+  maxEscalationLevels?: number;
+  cooldownBetweenEscalations?: number;
+  isActive?: boolean;
+  isDefault?: boolean;
+}
+
 /**
  * Create escalation rule request
  */
@@ -299,6 +429,24 @@ export interface CreateEscalationRuleRequest {
   actions: CreateEscalationActionRequest[];
 }
 
+/**
+ * Update escalation rule request; actions, when given, replace the existing ones
+ */
+export interface UpdateEscalationRuleRequest {
+  name?: string;
+  description?: string | null;
+  triggerType?: EscalationTriggerType;
+  escalationLevel?: EscalationLevel;
+  hoursInStage?: number | null;
+  warningThresholdPercent?: number | null;
+  minimumPriority?: PriorityLevel | null;
+  isActive?: boolean;
+  isRepeatable?: boolean;
+  cooldownMinutes?: number;
+  maxEscalations?: number | null;
+  actions?: CreateEscalationActionRequest[];
+}
+
 /**
  * Create escalation action request
  */
@@ -310,6 +458,7 @@ export interface CreateEscalationActionRequest {
   newPriority?: PriorityLevel;
   comment?: string;
   webhookUrl?: string;
+  webhookSecret?: string; // Generated for TriggerWebhook when omitted
   order?: number;
 }
 
@@ -330,8 +479,9 @@ export interface QuerySLAMetricsRequest {
   workflowTemplateId?: string;
   workflowInstanceId?: string;
   tenantId: string;
-  startDate?: Date;
-  endDate?: Date;
+  stageName?: string;
+  startDate?: Date; // Stage exits on or after
+  endDate?: Date; // Stage exits on or before
   status?: SLAStatus;
   skip?: number;
   take?: number;
@@ -349,3 +499,55 @@ export interface SLAMetricsResponse {
   averageTimeInStage: number; // hours
   records: SLAHistoryRecord[];
 }
+
+// ============================================================================
+// SLA ANALYTICS
+// ============================================================================
+
+/**
+ * Filters for SLA analytics over stage exits
+ */
+export interface SLAAnalyticsQuery {
+  tenantId: string;
+  workflowTemplateId?: string; // Any version; the whole template family is included
+  startDate?: Date;
+  endDate?: Date;
+}
+
+/**
+ * Cycle time and breaches of one stage, across versions of its template
+ */
+export interface StageCycleTimeStats {
+  templateFamilyId: string;
+  stageKey: string;
+  stageName: string;
+  exits: number;
+  p50CycleHours: number;
+  p90CycleHours: number;
+  averageCycleHours: number;
+  breachedCount: number;
+  breachRate: number; // percentage
+  totalBreachHours: number;
+}
+
+/**
+ * Breach rate of one group of stage exits
+ */
+export interface SLABreachRate {
+  key: string; // Template family ID, approver user ID or 'YYYY-MM'
+  label: string | null; // Template or approver name
+  exits: number;
+  breachedCount: number;
+  breachRate: number; // percentage
+}
+
+/**
+ * SLA analytics report
+ */
+export interface SLAAnalyticsReport {
+  stages: StageCycleTimeStats[];
+  bottlenecks: StageCycleTimeStats[]; // Most breach hours first
+  byTemplate: SLABreachRate[];
+  byApprover: SLABreachRate[];
+  byMonth: SLABreachRate[];
+}
@@ -0,0 +1,52 @@
+/**
+ * Inbox Types
+ * Workflow instances waiting on an approver, ranked by urgency
+ */
+
+import { PriorityLevel, SLAComplianceInfo, SLAStatus } from './escalation';
+import { EntityType, RequestType } from './workflow';
+
+// ============================================================================
+// INBOX TYPES
+// ============================================================================
+
+/**
+ * Workflow instance waiting on the current user
+ */
+export interface InboxItem {
+  instanceId: string;
+  workflowTemplateId: string;
+  templateName: string;
+  entityType: EntityType;
+  entityId: string;
+  requestType: RequestType;
+  priority: PriorityLevel;
+  budget: number | null; // Budget of the program or project under review
+  stageId: string;
+  stageName: string;
+  sla: SLAComplianceInfo;
+  matchedResponsibilityId: string;
+  onBehalfOfId: string | null; // Principal when eligible only through a delegation
+  createdBy: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Inbox counts across every waiting instance, before pagination
+ */
+export interface InboxCounts {
+  total: number;
+  bySlaStatus: Record<SLAStatus, number>;
+  byPriority: Record<PriorityLevel, number>;
+  delegated: number;
+}
+
+/**
+ * A page of the inbox with its counts
+ */
+export interface InboxResult {
+  items: InboxItem[];
+  counts: InboxCounts;
+  skip: number;
+  take: number;
+}
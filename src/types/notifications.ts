@@ -10,7 +10,7 @@
 /**
  * Notification method preference
  */
-export type NotificationDeliveryMethod = 'Email' | 'InApp' | 'Both';
+export type NotificationDeliveryMethod = 'Email' | 'InApp' | 'Both' | 'Webhook';
 
 /**
  * Notification event types
@@ -22,18 +22,31 @@ export type NotificationEventType =
   | 'WorkflowReturned'
   | 'SLAWarning'
   | 'SLABreached'
-  | 'WorkflowCompleted';
+  | 'WorkflowCompleted'
+  | 'WorkflowMentioned';
 
 /**
  * Notification status
  */
-export type NotificationStatus = 'Pending' | 'Sent' | 'Failed' | 'Read';
+export type NotificationStatus = 'Pending' | 'Sent' | 'Failed' | 'DeadLetter' | 'Read';
+
+/**
+ * Value of a notification template parameter; lists can be looped over in templates
+ */
+export type NotificationDataValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | NotificationDataValue[]
+  | { [key: string]: NotificationDataValue };
 
 /**
  * Notification template parameters
  */
 export interface NotificationData {
-  [key: string]: string | number | boolean | null | undefined;
+  [key: string]: NotificationDataValue;
 }
 
 /**
@@ -52,6 +65,8 @@ export interface Notification {
   subject: string;
   message: string;
   data: NotificationData;
+  emailSubject?: string | null; // Email rendering; in-app uses subject and message
+  emailBody?: string | null; // HTML
 
   // Delivery
   deliveryMethod: NotificationDeliveryMethod;
@@ -76,6 +91,8 @@ export interface CreateNotificationRequest {
   eventType: NotificationEventType;
   subject: string;
   message: string;
+  emailSubject?: string;
+  emailBody?: string;
   data?: NotificationData;
   deliveryMethod?: NotificationDeliveryMethod;
   workflowInstanceId?: string;
@@ -157,10 +174,22 @@ export interface BulkNotificationRequest {
   eventType: NotificationEventType;
   subject: string;
   message: string;
+  emailSubject?: string;
+  emailBody?: string;
   data?: NotificationData;
   workflowInstanceId?: string;
 }
 
+/**
+ * Bulk notification whose content is rendered from the tenant's template for the event
+ */
+export interface TemplatedNotificationRequest {
+  userIds: string[];
+  eventType: NotificationEventType;
+  data: NotificationData;
+  workflowInstanceId?: string;
+}
+
 /**
  * Notification send result
  */
@@ -175,6 +204,128 @@ export interface NotificationSendResult {
   failureReason?: string;
 }
 
+// ============================================================================
+// NOTIFICATION TEMPLATE RENDERING
+// ============================================================================
+
+/**
+ * The four templates of a notification
+ */
+export interface NotificationTemplateContent {
+  emailSubjectTemplate: string;
+  emailBodyTemplate: string; // HTML; values are escaped
+  inAppTitleTemplate: string;
+  inAppMessageTemplate: string;
+}
+
+/**
+ * Tenant formatting applied by the date, datetime, number and currency filters
+ */
+export interface TemplateFormatOptions {
+  locale: string; // BCP 47, e.g. 'en-US', 'ar-SA'
+  timezone: string; // IANA
+  currency: string; // ISO 4217
+  dateFormat: string; // date-fns pattern, e.g. 'yyyy-MM-dd'
+}
+
+/**
+ * Notification content rendered from a template
+ */
+export interface RenderedNotification {
+  emailSubject: string;
+  emailBody: string;
+  title: string;
+  message: string;
+  source: 'Tenant' | 'Default'; // Tenant template or system default
+}
+
+/**
+ * Render templates with sample or given data without sending anything
+ * Templates not given are taken from the tenant's template, else the system default
+ */
+export interface NotificationTemplatePreviewRequest {
+  eventType: NotificationEventType;
+  template?: Partial<NotificationTemplateContent>;
+  data?: NotificationData;
+}
+
+/**
+ * Rendered preview and the data it was rendered with
+ */
+export interface NotificationTemplatePreview extends RenderedNotification {
+  data: NotificationData;
+}
+
+// ============================================================================
+// NOTIFICATION DELIVERY TYPES
+// ============================================================================
+
+/**
+ * Channel a notification is delivered through
+ */
+export type NotificationChannelName = 'Email' | 'InApp' | 'Webhook';
+
+/**
+ * Status of one channel delivery in the outbox
+ * Skipped: the channel is not enabled on the node that dispatched it
+ * DeadLetter: every attempt failed; retried only on request
+ */
+export type NotificationDeliveryStatus = 'Pending' | 'Sent' | 'Skipped' | 'DeadLetter';
+
+/**
+ * Outbox entry for one channel of a notification
+ */
+export interface NotificationDelivery {
+  id: string;
+  tenantId: string;
+  notificationId: string;
+  channel: NotificationChannelName;
+  status: NotificationDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string | null;
+  sentAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Content handed to a channel
+ */
+export interface NotificationMessage {
+  deliveryId: string;
+  notificationId: string;
+  tenantId: string;
+  userId: string;
+  email: string;
+  eventType: NotificationEventType;
+  subject: string;
+  message: string;
+  emailSubject?: string | null;
+  emailBody?: string | null;
+  data: NotificationData;
+  workflowInstanceId?: string | null;
+}
+
+/**
+ * Filters for listing notification deliveries
+ */
+export interface NotificationDeliveryFilters {
+  channel?: NotificationChannelName;
+  status?: NotificationDeliveryStatus;
+}
+
+/**
+ * Counters of one dispatcher run
+ */
+export interface NotificationDispatchStats {
+  claimed: number;
+  sent: number;
+  retried: number; // Failed attempts scheduled to run again
+  deadLettered: number;
+  skipped: number;
+}
+
 // ============================================================================
 // AUDIT LOG TYPES
 // ============================================================================
@@ -196,8 +347,10 @@ export type AuditLogActionType =
   | 'ResponsibilityAdded'
   | 'ResponsibilityRemoved'
   | 'CommentAdded'
+  | 'CommentEdited'
   | 'AttachmentAdded'
-  | 'AttachmentRemoved';
+  | 'AttachmentRemoved'
+  | 'CalendarUpdated';
 
 /**
  * Audit log severity level
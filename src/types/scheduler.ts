@@ -0,0 +1,51 @@
+/**
+ * Scheduler Types
+ * In-process background jobs, their leases across app nodes and run history
+ */
+
+// ============================================================================
+// SCHEDULER TYPES
+// ============================================================================
+
+export type SchedulerRunStatus = 'Running' | 'Succeeded' | 'Failed';
+
+/**
+ * Job run periodically by one app node at a time
+ * A long run calls renewLease between batches; it resolves false once another node holds the lease
+ */
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  // Resolves to counters stored with the run
+  run: (renewLease: () => Promise<boolean>) => Promise<Record<string, number>>;
+}
+
+/**
+ * One execution of a scheduled job
+ */
+export interface SchedulerRun {
+  id: string;
+  job: string;
+  holderId: string; // App node that ran the job
+  status: SchedulerRunStatus;
+  stats?: Record<string, number> | null;
+  error?: string | null;
+  startedAt: Date;
+  finishedAt?: Date | null;
+}
+
+// ============================================================================
+// SLA SWEEP
+// ============================================================================
+
+/**
+ * Counters of one SLA sweep
+ */
+export interface SLASweepStats {
+  tenantsScanned: number;
+  instancesScanned: number;
+  warningsSent: number;
+  breachesSent: number;
+  escalationsTriggered: number;
+  failures: number; // Instances that could not be processed
+}
@@ -0,0 +1,50 @@
+/**
+ * Webhook Types
+ * Signed outbound webhooks and their delivery log
+ */
+
+// ============================================================================
+// WEBHOOK TYPES
+// ============================================================================
+
+export type WebhookDeliveryStatus = 'Pending' | 'Delivered' | 'Failed';
+
+/**
+ * Webhook to send to one endpoint
+ */
+export interface WebhookRequest {
+  url: string;
+  secret: string; // HMAC-SHA256 signing key shared with the receiver
+  event: string; // e.g. 'workflow.escalated'
+  payload: Record<string, unknown>;
+  workflowInstanceId?: string;
+  escalationEventId?: string;
+}
+
+/**
+ * One webhook and the outcome of its delivery attempts
+ */
+export interface WebhookDelivery {
+  id: string;
+  tenantId: string;
+  workflowInstanceId?: string | null;
+  escalationEventId?: string | null;
+  url: string;
+  event: string;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number | null; // HTTP status of the last attempt
+  lastError?: string | null;
+  deliveredAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Filters for listing webhook deliveries
+ */
+export interface WebhookDeliveryFilters {
+  workflowInstanceId?: string;
+  status?: WebhookDeliveryStatus;
+}
@@ -3,6 +3,8 @@
  * Workflow templates, instances, stages, and actions
  */
 
+import { PriorityLevel, SLAThresholdBand } from './escalation';
+
 // ============================================================================
 // ENUMS
 // ============================================================================
@@ -13,9 +15,28 @@ export type WorkflowAction = 'Approve' | 'Reject' | 'Return';
 export type ResponsibilityType = 'Role' | 'Position' | 'User';
 export type ResponsibilityScope = 'Global' | 'Program' | 'Project';
 export type NotificationMethod = 'Email' | 'InApp' | 'Both';
-export type WorkflowInstanceStatus = 'InProgress' | 'Approved' | 'Rejected' | 'Returned';
+export type AssigneeType = 'User' | 'Role';
+export type WorkflowInstanceStatus =
+  | 'InProgress'
+  | 'Approved'
+  | 'Rejected'
+  | 'Returned'
+  | 'Withdrawn'
+  | 'Cancelled';
 export type RequestType = 'Create' | 'Update' | 'Close';
 export type ActionResult = 'Approved' | 'Rejected' | 'Returned';
+export type ApprovalMode = 'Any' | 'All' | 'Quorum';
+export type TemplateVersionStatus = 'Draft' | 'Published' | 'Superseded';
+export type ConditionOperator =
+  | 'eq'
+  | 'neq'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in'
+  | 'notIn'
+  | 'exists';
 
 // ============================================================================
 // WORKFLOW TEMPLATE TYPES
@@ -45,6 +66,16 @@ export interface WorkflowTemplate {
   isDefault: boolean;
   isActive: boolean;
 
+  // SLA threshold bands for stages without their own; null uses the escalation policy
+  slaThresholds: SLAThresholdBand[] | null;
+
+  // Versioning
+  templateFamilyId: string | null; // First version's ID; null on the first version
+  version: number;
+  status: TemplateVersionStatus; // Published versions are immutable
+  publishedAt: Date | null;
+  publishedBy: string | null;
+
   // Audit
   createdBy?: string;
   createdAt: Date;
@@ -66,6 +97,7 @@ export interface CreateWorkflowTemplateRequest {
   budgetMin?: number;
   budgetMax?: number;
   isDefault?: boolean;
+  slaThresholds?: SLAThresholdBand[] | null;
 }
 
 /**
@@ -80,6 +112,7 @@ export interface UpdateWorkflowTemplateRequest {
   budgetMax?: number;
   isDefault?: boolean;
   isActive?: boolean;
+  slaThresholds?: SLAThresholdBand[] | null;
 }
 
 /**
@@ -98,6 +131,7 @@ export interface ListWorkflowTemplatesFilter {
   complexityBand?: ComplexityBand;
   isActive?: boolean;
   isDefault?: boolean;
+  status?: TemplateVersionStatus; // Superseded versions are excluded unless requested
   sortBy?: 'name' | 'matchScore' | 'createdAt';
   sortOrder?: 'asc' | 'desc';
   skip?: number;
@@ -119,15 +153,21 @@ export interface WorkflowStage {
   stageOrder: number;
   name: string;
   description?: string;
+  stageKey: string; // Stable across template versions
 
   // Configuration
   slaHours: number; // Service Level Agreement hours
+  slaThresholds: SLAThresholdBand[] | null; // null uses the template's bands
   actions: WorkflowAction[]; // ['Approve', 'Reject', 'Return']
 
   // Requirements
   requireComment: boolean;
   requireAttachment: boolean;
 
+  // Approval rule
+  approvalMode: ApprovalMode; // 'Any', 'All', 'Quorum'
+  requiredApprovals: number | null; // N of M when approvalMode is 'Quorum'
+
   // Audit
   createdAt: Date;
   updatedAt: Date;
@@ -135,6 +175,7 @@ export interface WorkflowStage {
   // Relationships
   responsibilities?: StageResponsibility[];
   stageActions?: StageAction[];
+  outgoingTransitions?: StageTransition[];
 }
 
 /**
@@ -146,9 +187,12 @@ export interface CreateWorkflowStageRequest {
   name: string;
   description?: string;
   slaHours: number;
+  slaThresholds?: SLAThresholdBand[] | null;
   actions: WorkflowAction[];
   requireComment?: boolean;
   requireAttachment?: boolean;
+  approvalMode?: ApprovalMode;
+  requiredApprovals?: number;
 }
 
 /**
@@ -158,9 +202,12 @@ export interface UpdateWorkflowStageRequest {
   name?: string;
   description?: string;
   slaHours?: number;
+  slaThresholds?: SLAThresholdBand[] | null;
   actions?: WorkflowAction[];
   requireComment?: boolean;
   requireAttachment?: boolean;
+  approvalMode?: ApprovalMode;
+  requiredApprovals?: number;
 }
 
 /**
@@ -195,6 +242,185 @@ export interface CreateStageResponsibilityRequest {
   notificationMethod?: NotificationMethod;
 }
 
+// ============================================================================
+// TEMPLATE VERSION TYPES
+// ============================================================================
+
+/**
+ * Single field that differs between two template versions
+ */
+export interface VersionFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * Differences for a stage present in both versions
+ */
+export interface StageVersionDiff {
+  stageKey: string;
+  name: string;
+  changes: VersionFieldChange[];
+  responsibilitiesAdded: string[]; // 'Role:PMO@Global'
+  responsibilitiesRemoved: string[];
+  transitionsAdded: string[];
+  transitionsRemoved: string[];
+}
+
+/**
+ * Differences between two versions of a workflow template
+ */
+export interface TemplateVersionDiff {
+  templateFamilyId: string;
+  fromVersion: number;
+  toVersion: number;
+  templateChanges: VersionFieldChange[];
+  stagesAdded: { stageKey: string; name: string }[];
+  stagesRemoved: { stageKey: string; name: string }[];
+  stagesChanged: StageVersionDiff[];
+}
+
+// ============================================================================
+// TEMPLATE DEFINITION (IMPORT / EXPORT) TYPES
+// ============================================================================
+
+export type DefinitionFormat = 'json' | 'yaml';
+
+/**
+ * Portable workflow template definition
+ * Stages are identified by stageKey; 'User' responsibilities hold email addresses
+ */
+export interface WorkflowTemplateDefinition {
+  formatVersion: 1;
+  template: {
+    name: string;
+    description: string | null;
+    entityType: EntityType | null;
+    complexityBand: ComplexityBand | null;
+    budgetMin: number | null;
+    budgetMax: number | null;
+    isDefault: boolean;
+    slaThresholds: SLAThresholdBand[] | null;
+  };
+  stages: Array<{
+    stageKey: string;
+    stageOrder: number;
+    name: string;
+    description: string | null;
+    slaHours: number;
+    slaThresholds: SLAThresholdBand[] | null;
+    actions: WorkflowAction[];
+    requireComment: boolean;
+    requireAttachment: boolean;
+    approvalMode: ApprovalMode;
+    requiredApprovals: number | null;
+    responsibilities: Array<{
+      type: ResponsibilityType;
+      value: string;
+      scope: ResponsibilityScope;
+      notificationMethod: NotificationMethod;
+    }>;
+    transitions: Array<{
+      toStageKey: string | null; // null completes the workflow
+      priority: number;
+      condition: TransitionCondition | null;
+      description: string | null;
+    }>;
+  }>;
+}
+
+/**
+ * Result of validating a workflow template definition
+ */
+export interface DefinitionValidationResult {
+  valid: boolean;
+  errors: string[];
+  definition?: WorkflowTemplateDefinition;
+}
+
+/**
+ * Options for importing a definition into a tenant
+ */
+export interface TemplateImportOptions {
+  format?: DefinitionFormat;
+  userMap?: Record<string, string>; // Exported email -> target tenant email or user ID
+  roleMap?: Record<string, string>; // Exported role name -> target role name
+}
+
+// ============================================================================
+// STAGE TRANSITION TYPES
+// ============================================================================
+
+/**
+ * Comparison against a single field of the condition context
+ * Fields are dotted paths: 'request.budget', 'entity.complexityBand', 'derived.budgetChangePercent'
+ */
+export interface FieldCondition {
+  field: string;
+  operator: ConditionOperator;
+  value?: string | number | boolean | null | Array<string | number>;
+}
+
+/**
+ * Transition condition - Composable condition tree
+ */
+export type TransitionCondition =
+  | FieldCondition
+  | { all: TransitionCondition[] }
+  | { any: TransitionCondition[] }
+  | { not: TransitionCondition };
+
+/**
+ * Stage transition - Conditional edge between stages
+ */
+export interface StageTransition {
+  id: string;
+  fromStageId: string;
+  toStageId: string | null; // null completes the workflow
+  priority: number; // Ascending; first matching transition wins
+  condition: TransitionCondition | null; // null always matches
+  description: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Create stage transition request
+ */
+export interface CreateStageTransitionRequest {
+  fromStageId: string;
+  toStageId: string | null;
+  priority?: number;
+  condition?: TransitionCondition;
+  description?: string;
+}
+
+/**
+ * Update stage transition request
+ */
+export interface UpdateStageTransitionRequest {
+  toStageId?: string | null;
+  priority?: number;
+  condition?: TransitionCondition | null;
+  description?: string;
+}
+
+/**
+ * Values transition conditions are evaluated against
+ */
+export interface TransitionConditionContext {
+  request: Record<string, unknown>; // WorkflowInstance.requestData
+  entity: {
+    budget?: number;
+    complexityBand?: string;
+    type?: string;
+    status?: string;
+  };
+  derived: {
+    budgetChangePercent?: number; // |requested - current| / current * 100
+  };
+}
+
 // ============================================================================
 // WORKFLOW INSTANCE TYPES
 // ============================================================================
@@ -214,14 +440,34 @@ export interface WorkflowInstance {
   // Request details
   requestType: RequestType; // 'Create', 'Update', 'Close'
   requestData: Record<string, unknown>; // JSON of requested changes
+  entitySnapshot?: Record<string, unknown> | null; // Requested fields' values at submission
+
+  // Request execution (after approval)
+  requestExecutedAt?: Date | null;
+  executionError?: string | null;
 
   // Current stage
   currentStageId: string;
   currentStageStarted: Date;
   slaDue: Date;
+  slaPausedAt?: Date | null; // Set while the SLA clock is stopped
+  slaPausedHours: number; // Working hours paused earlier in the current stage
 
   // Status
-  status: WorkflowInstanceStatus; // 'InProgress', 'Approved', 'Rejected', 'Returned'
+  status: WorkflowInstanceStatus; // 'InProgress', 'Approved', 'Rejected', 'Returned', 'Withdrawn', 'Cancelled'
+  priority: PriorityLevel;
+  revision: number; // Current requestData revision
+
+  // Escalation reassignment of the current stage
+  assigneeType?: AssigneeType | null;
+  assigneeValue?: string | null; // User ID or role name
+  assignedStageId?: string | null; // Stage the reassignment applies to
+  assignedAt?: Date | null;
+
+  // Withdrawal / cancellation
+  closedAt?: Date | null;
+  closedBy?: string | null;
+  closeReason?: string | null;
 
   // Audit
   createdBy?: string;
@@ -232,6 +478,29 @@ export interface WorkflowInstance {
   template?: WorkflowTemplate;
   currentStage?: WorkflowStage;
   stageActions?: StageAction[];
+  revisions?: WorkflowRequestRevision[];
+}
+
+/**
+ * Workflow request revision - requestData as submitted or resubmitted
+ */
+export interface WorkflowRequestRevision {
+  id: string;
+  workflowInstanceId: string;
+  revision: number;
+  requestData: Record<string, unknown>;
+  entitySnapshot?: Record<string, unknown> | null;
+  submittedBy?: string | null;
+  comment?: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Resubmit a returned workflow with an amended payload
+ */
+export interface ResubmitWorkflowRequest {
+  requestData: Record<string, unknown>;
+  comment?: string;
 }
 
 /**
@@ -244,6 +513,32 @@ export interface CreateWorkflowInstanceRequest {
   projectId?: string;
   requestType: RequestType;
   requestData: Record<string, unknown>;
+  priority?: PriorityLevel; // Defaults to 'Medium'
+}
+
+/**
+ * Submit a request for approval
+ * Without a workflowTemplateId the best matching published template is used
+ */
+export interface SubmitWorkflowRequest {
+  workflowTemplateId?: string;
+  entityType: EntityType;
+  entityId: string;
+  projectId?: string;
+  requestType: RequestType;
+  requestData: Record<string, unknown>;
+  priority?: PriorityLevel;
+  complexityBand?: ComplexityBand;
+  budget?: number;
+}
+
+/**
+ * Submitted instance and how its template was chosen
+ */
+export interface WorkflowSubmissionResult {
+  instance: WorkflowInstance;
+  matchScore: number | null; // null when the template was given explicitly
+  matchReasons: string[];
 }
 
 /**
@@ -269,6 +564,7 @@ export interface WorkflowInstanceDetail extends WorkflowInstance {
  * Filter for listing workflow instances
  */
 export interface ListWorkflowInstancesFilter {
+  tenantId?: string;
   entityType?: EntityType;
   entityId?: string;
   projectId?: string;
@@ -281,6 +577,26 @@ export interface ListWorkflowInstancesFilter {
   take?: number;
 }
 
+export type WorkflowTimelineEventType =
+  | 'Submitted'
+  | 'Resubmitted'
+  | 'StageAction'
+  | 'Comment'
+  | 'Attachment'
+  | 'Closed';
+
+/**
+ * Entry in the chronological history of a workflow instance
+ */
+export interface WorkflowTimelineEvent {
+  type: WorkflowTimelineEventType;
+  occurredAt: Date;
+  actorId: string | null;
+  stageId: string | null;
+  referenceId: string; // Revision, action, comment, attachment or instance ID
+  summary: string;
+}
+
 // ============================================================================
 // WORKFLOW ACTION TYPES
 // ============================================================================
@@ -300,6 +616,7 @@ export interface StageAction {
 
   // Who took action
   actorId: string;
+  principalId?: string | null; // Delegating user when the actor acted on their behalf
 
   // Timing
   stageAssignedDate: Date;
@@ -322,9 +639,112 @@ export interface CreateStageActionRequest {
   action: ActionResult;
   comment?: string;
   actorId: string;
+  principalId?: string;
   stageAssignedDate: Date;
 }
 
+// ============================================================================
+// DELEGATION TYPES
+// ============================================================================
+
+/**
+ * Approval delegation - A principal's stage approvals handled by a delegate
+ */
+export interface ApprovalDelegation {
+  id: string;
+  tenantId: string;
+  principalId: string;
+  delegateId: string;
+  startsAt: Date;
+  endsAt: Date;
+  templateFamilyIds: string[]; // Empty applies to every template
+  scopeType: 'Program' | 'Project' | null; // null applies to every entity
+  scopeId: string | null;
+  reason: string | null;
+  isActive: boolean;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Create delegation request
+ */
+export interface CreateDelegationRequest {
+  principalId: string;
+  delegateId: string;
+  startsAt: Date | string;
+  endsAt: Date | string;
+  templateFamilyIds?: string[];
+  scopeType?: 'Program' | 'Project';
+  scopeId?: string;
+  reason?: string;
+}
+
+/**
+ * Filter for listing delegations
+ */
+export interface ListDelegationsFilter {
+  principalId?: string;
+  delegateId?: string;
+  activeAt?: Date;
+  includeRevoked?: boolean;
+}
+
+/**
+ * Workflow context a delegation is checked against
+ */
+export interface DelegationMatchContext {
+  at: Date;
+  templateFamilyId?: string;
+  programId?: string | null;
+  projectId?: string | null;
+}
+
+// ============================================================================
+// COMMENT TYPES
+// ============================================================================
+
+/**
+ * Discussion comment on a workflow instance
+ */
+export interface WorkflowComment {
+  id: string;
+  tenantId: string;
+  workflowInstanceId: string;
+  parentId: string | null; // null for top-level comments
+  stageId: string; // Stage the workflow was in when posted
+  authorId: string;
+  body: string;
+  mentionedUserIds: string[];
+  editedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Previous body of an edited comment
+ */
+export interface WorkflowCommentRevision {
+  id: string;
+  commentId: string;
+  body: string;
+  editedBy: string;
+  createdAt: Date;
+}
+
+/**
+ * Comment with its replies, oldest first
+ */
+export interface WorkflowCommentThread extends WorkflowComment {
+  replies: WorkflowCommentThread[];
+}
+
+export interface CreateWorkflowCommentRequest {
+  body: string;
+  parentId?: string;
+}
+
 // ============================================================================
 // WORKFLOW MATCHING TYPES
 // ============================================================================
@@ -444,7 +864,8 @@ export interface WorkflowExecutionTrace {
 /**
  * Workflow template response (API)
  */
-export interface WorkflowTemplateResponse extends Omit<WorkflowTemplate, 'createdAt' | 'updatedAt'> {
+export interface WorkflowTemplateResponse
+  extends Omit<WorkflowTemplate, 'createdAt' | 'updatedAt'> {
   createdAt: string;
   updatedAt: string;
 }
@@ -463,7 +884,8 @@ export interface WorkflowInstanceResponse
 /**
  * Stage action response (API)
  */
-export interface StageActionResponse extends Omit<StageAction, 'createdAt' | 'actionDate' | 'stageAssignedDate'> {
+export interface StageActionResponse
+  extends Omit<StageAction, 'createdAt' | 'actionDate' | 'stageAssignedDate'> {
   createdAt: string;
   actionDate: string;
   stageAssignedDate: string;
@@ -492,6 +914,36 @@ export interface PermissionVerificationResult {
   reason?: string;
   requiredRoles?: string[];
   userRoles?: string[];
+  matchedResponsibilityId?: string; // Responsibility that granted access
+  onBehalfOfId?: string; // Principal whose delegation granted access
+  eligibleApprovers?: EligibleApprovers[]; // Populated on denial
+}
+
+/**
+ * Positions on an entity that a 'Position' responsibility can point at
+ */
+export type StagePosition = 'Sponsor' | 'PM' | 'Requester';
+
+/**
+ * Entity context that stage responsibilities are resolved against
+ */
+export interface StageEntityContext {
+  tenantId: string;
+  programId: string | null;
+  projectId: string | null;
+  programPositions: Partial<Record<StagePosition, string | null>>;
+  projectPositions: Partial<Record<StagePosition, string | null>>;
+}
+
+/**
+ * Users eligible to act under a single stage responsibility
+ */
+export interface EligibleApprovers {
+  responsibilityId: string;
+  type: ResponsibilityType;
+  value: string;
+  scope: ResponsibilityScope;
+  userIds: string[];
 }
 
 /**
@@ -508,6 +960,44 @@ export interface SLAComplianceInfo {
   hoursUsed: number;
 }
 
+/**
+ * Progress of a stage's approval rule within the current stage entry
+ */
+export interface ApprovalRuleEvaluation {
+  approvalMode: ApprovalMode;
+  approvals: number; // Distinct approving actors
+  rejections: number; // Distinct rejecting actors
+  requiredApprovals: number;
+  eligibleApprovers: number;
+  isMet: boolean; // Stage can complete
+  isDefeated: boolean; // Rule can no longer be met
+}
+
+/**
+ * Reason an action execution failed
+ */
+export type ActionErrorCode =
+  | 'InstanceNotFound'
+  | 'NotAuthorized'
+  | 'InvalidStatus'
+  | 'StageMismatch'
+  | 'ActionNotAllowed'
+  | 'CommentRequired'
+  | 'ReturnTargetRequired'
+  | 'InvalidReturnTarget'
+  | 'AlreadyVoted'
+  | 'AttachmentRequired'
+  | 'AttachmentUnavailable'
+  | 'ExecutionFailed';
+
+/**
+ * Action rejected by validation against the stage configuration
+ */
+export interface ActionValidationFailure {
+  code: ActionErrorCode;
+  message: string;
+}
+
 /**
  * Execution result from processing an action
  */
@@ -521,6 +1011,10 @@ export interface ExecutionResult {
   workflowStatus: WorkflowInstanceStatus;
   slaInfo: SLAComplianceInfo;
   error?: string;
+  errorCode?: ActionErrorCode;
+  permissionDenial?: PermissionVerificationResult;
+  approvalProgress?: ApprovalRuleEvaluation;
+  requestExecution?: RequestExecutionResult;
   message: string;
 }
 
@@ -533,6 +1027,8 @@ export interface ActionExecutionRequest {
   action: ActionResult; // 'Approved', 'Rejected', 'Returned'
   comment?: string;
   returnToStageId?: string; // For 'Return' action, which stage to go back to
+  attachmentIds?: string[]; // Pending attachments uploaded by the actor to this stage
+  onBehalfOf?: string; // Principal to act for under a delegation to the actor
 }
 
 /**
@@ -588,3 +1084,124 @@ export interface WorkflowExecutionStats {
     comment?: string;
   }>;
 }
+
+/**
+ * Field that changed on the entity between submission and approval
+ */
+export interface FieldConflict {
+  field: string;
+  submittedValue: unknown; // Value when the request was submitted
+  currentValue: unknown; // Value at approval time
+}
+
+/**
+ * Result of applying an approved request to its entity
+ */
+export interface RequestExecutionResult {
+  instanceId: string;
+  requestType: RequestType;
+  entityType: EntityType;
+  entityId: string; // Newly created entity for 'Create' requests
+  applied: boolean;
+  conflicts: FieldConflict[];
+  executedAt?: Date;
+  error?: string;
+}
+
+// ============================================================================
+// SIMULATION TYPES
+// ============================================================================
+
+/**
+ * Hypothetical entity to route through the workflow engine without persisting anything
+ */
+export interface WorkflowSimulationRequest {
+  entityType: EntityType;
+  complexityBand?: ComplexityBand | null;
+  budget?: number | null;
+  requestType?: RequestType;
+  requestData?: Record<string, unknown>;
+  programId?: string; // Resolves scoped roles and positions
+  projectId?: string;
+  includeDrafts?: boolean; // Route against draft versions in place of their published version
+  startAt?: Date;
+}
+
+/**
+ * Ranked template candidate with the reasons behind its score
+ */
+export interface SimulatedTemplateCandidate {
+  templateId: string;
+  name: string;
+  version: number;
+  status: TemplateVersionStatus;
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * Stage the simulated request would pass through
+ */
+export interface SimulatedStage {
+  stageId: string;
+  stageKey: string;
+  stageOrder: number;
+  name: string;
+  slaHours: number;
+  approvalMode: ApprovalMode;
+  requiredApprovals: number | null;
+  enteredBy: string; // Transition description, 'Next stage order' or 'First stage'
+  eligibleApprovers: EligibleApprovers[];
+  approverCount: number;
+  expectedStartAt: Date;
+  expectedDueAt: Date;
+}
+
+/**
+ * Result of a workflow simulation
+ */
+export interface WorkflowSimulationResult {
+  selectedTemplate: SimulatedTemplateCandidate | null;
+  alternatives: SimulatedTemplateCandidate[];
+  stagePath: SimulatedStage[];
+  totalSlaHours: number;
+  expectedCompletionAt: Date | null;
+  warnings: string[];
+}
+
+// ============================================================================
+// ROUTING LINT TYPES
+// ============================================================================
+
+export type RoutingLintCode =
+  | 'OverlappingBudgetBands'
+  | 'BudgetGap'
+  | 'UnreachableTemplate'
+  | 'MissingDefault'
+  | 'MultipleDefaults';
+
+export type RoutingLintSeverity = 'Error' | 'Warning';
+
+/**
+ * Routing misconfiguration found among a tenant's active templates
+ */
+export interface RoutingLintIssue {
+  code: RoutingLintCode;
+  severity: RoutingLintSeverity;
+  entityType: EntityType | null; // null when the issue is not specific to one entity type
+  templateIds: string[];
+  message: string;
+  budgetRange?: { min: number; max: number | null }; // Overlapping or uncovered band
+}
+
+/**
+ * Routing lint report for a tenant
+ */
+export interface RoutingLintReport {
+  tenantId: string;
+  analyzedAt: Date;
+  templateCount: number;
+  issues: RoutingLintIssue[];
+  errorCount: number;
+  warningCount: number;
+}